@@ -1,27 +1,130 @@
-import './App.css';
+import { useCallback, useEffect, useState } from 'react';
+import { TRPCClientError } from '@trpc/client';
+import { trpc } from '@/utils/trpc';
+import { clearSessionToken, endImpersonationSession, getSessionToken } from '@/utils/session';
+import type { ImpersonationStatus, PublicUser } from '../../server/src/schema';
+import { Button } from '@/components/ui/button';
+import { ImpersonationBanner } from '@/components/ImpersonationBanner';
+import { ImpersonationForm } from '@/components/ImpersonationForm';
+import { LoginForm } from '@/components/LoginForm';
+import { PermissionMatrix } from '@/components/PermissionMatrix';
+
+// Sessions that still have to enroll in two-factor authentication are signed in, but refused
+// everything beyond their own account until then, permissions included
+const fetchPermissions = async (): Promise<string[]> => {
+  try {
+    return (await trpc.getEffectivePermissions.query()).permissions;
+  } catch (error) {
+    if (error instanceof TRPCClientError && error.data?.code === 'FORBIDDEN') {
+      return [];
+    }
+    throw error;
+  }
+};
+
+const fetchSession = async () => {
+  const [user, impersonation, permissions] = await Promise.all([
+    trpc.me.query(),
+    trpc.getImpersonationStatus.query(),
+    fetchPermissions()
+  ]);
+  return { user, impersonation, permissions };
+};
 
 function App() {
+  const [user, setUser] = useState<PublicUser | null>(null);
+  const [impersonation, setImpersonation] = useState<ImpersonationStatus | null>(null);
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadUser = useCallback(async () => {
+    if (!getSessionToken()) {
+      setIsLoading(false);
+      return;
+    }
+
+    let session = await fetchSession().catch(() => null);
+    if (!session) {
+      // Expired or revoked session; an expired impersonation falls back to the super admin
+      endImpersonationSession();
+      session = getSessionToken() ? await fetchSession().catch(() => null) : null;
+      if (!session) {
+        clearSessionToken();
+      }
+    }
+
+    setUser(session?.user ?? null);
+    setImpersonation(session?.impersonation ?? null);
+    setPermissions(session?.permissions ?? []);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadUser();
+  }, [loadUser]);
+
+  const handleStopImpersonation = async () => {
+    try {
+      await trpc.stopImpersonation.mutate();
+    } finally {
+      endImpersonationSession();
+      await loadUser();
+    }
+  };
+
+  const handleLogout = async () => {
+    // Signing out of an impersonated session only ends the impersonation
+    if (impersonation) {
+      await handleStopImpersonation();
+      return;
+    }
+
+    try {
+      await trpc.logout.mutate();
+    } finally {
+      clearSessionToken();
+      setUser(null);
+    }
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!user) {
+    return (
+      <main className="flex min-h-screen items-center justify-center p-4">
+        <LoginForm onAuthenticated={loadUser} />
+      </main>
+    );
+  }
+
   return (
-    <div>
-      <div className="gradient"></div>
-      <div className="grid"></div>
-      <div className="container">
-        <h1 className="title">Under Construction</h1>
-        <p className="description">
-          Your app is under construction. It's being built right now!
-        </p>
-        <div className="dots">
-          <div className="dot"></div>
-          <div className="dot"></div>
-          <div className="dot"></div>
+    <div className="min-h-screen">
+      {impersonation && (
+        <ImpersonationBanner user={user} impersonation={impersonation} onStop={handleStopImpersonation} />
+      )}
+      <header className="border-b">
+        <div className="mx-auto flex max-w-6xl items-center justify-between p-4">
+          <span className="font-semibold">RestoManage</span>
+          <div className="flex items-center gap-4">
+            <span className="text-muted-foreground text-sm">{user.first_name} {user.last_name}</span>
+            <Button variant="outline" size="sm" onClick={handleLogout}>Sign out</Button>
+          </div>
         </div>
-        <footer className="footer">
-          Built with ❤️ by{" "}
-          <a href="https://app.build" target="_blank" className="footer-link">
-            app.build
-          </a>
-        </footer>
-      </div>
+      </header>
+      <main className="mx-auto max-w-6xl space-y-4 p-4">
+        {permissions.includes('staff:read') && (
+          <>
+            <div>
+              <h1 className="text-2xl font-semibold">Role permissions</h1>
+              <p className="text-muted-foreground">What each built-in role is allowed to do.</p>
+            </div>
+            <PermissionMatrix editable={user.role === 'SUPER_ADMIN'} />
+          </>
+        )}
+        {user.role === 'SUPER_ADMIN' && <ImpersonationForm onStarted={loadUser} />}
+      </main>
     </div>
   );
 }
@@ -0,0 +1,39 @@
+import { useState } from 'react';
+import type { ImpersonationStatus, PublicUser } from '../../../server/src/schema';
+import { Button } from '@/components/ui/button';
+
+interface ImpersonationBannerProps {
+  user: PublicUser;
+  impersonation: ImpersonationStatus;
+  onStop: () => Promise<void>;
+}
+
+// Stays on top of every page so support never forgets whose account they are in
+export function ImpersonationBanner({ user, impersonation, onStop }: ImpersonationBannerProps) {
+  const [isStopping, setIsStopping] = useState(false);
+  const { impersonator } = impersonation;
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    try {
+      await onStop();
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  return (
+    <div role="status" className="sticky top-0 z-50 bg-amber-500 text-amber-950">
+      <div className="mx-auto flex max-w-6xl flex-wrap items-center justify-between gap-2 px-4 py-2 text-sm">
+        <span>
+          You are viewing RestoManage as <strong>{user.first_name} {user.last_name}</strong> ({user.email}).
+          Signed in as {impersonator.first_name} {impersonator.last_name} until{' '}
+          {impersonation.expires_at.toLocaleTimeString()}. Password, two-factor and billing changes are disabled.
+        </span>
+        <Button size="sm" variant="outline" onClick={handleStop} disabled={isStopping}>
+          {isStopping ? 'Stopping...' : 'Stop impersonating'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState, type FormEvent } from 'react';
+import { trpc } from '@/utils/trpc';
+import { beginImpersonationSession } from '@/utils/session';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface ImpersonationFormProps {
+  onStarted: () => void;
+}
+
+export function ImpersonationForm({ onStarted }: ImpersonationFormProps) {
+  const [userId, setUserId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const impersonation = await trpc.startImpersonation.mutate({ userId: Number(userId) });
+      beginImpersonationSession(impersonation.token);
+      onStarted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start impersonation');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Impersonate a user</CardTitle>
+        <CardDescription>See exactly what a restaurant user sees. Every change you make is logged under your name.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="flex items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="impersonate-user-id">User ID</Label>
+            <Input
+              id="impersonate-user-id"
+              type="number"
+              min={1}
+              value={userId}
+              onChange={(e) => setUserId(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Starting...' : 'Impersonate'}
+          </Button>
+        </form>
+        {error && (
+          <Alert variant="destructive" className="mt-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { trpc } from '@/utils/trpc';
+import type { Permission, RolePermission, UserRole } from '../../../server/src/schema';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+const ROLES: { role: UserRole; label: string }[] = [
+  { role: 'SUPER_ADMIN', label: 'Super admin' },
+  { role: 'RESTAURANT_OWNER', label: 'Owner' },
+  { role: 'MANAGER', label: 'Manager' },
+  { role: 'STAFF', label: 'Staff' }
+];
+
+const ALL_RESOURCES = 'all';
+
+const cellKey = (role: UserRole, permissionId: number) => `${role}:${permissionId}`;
+
+interface PermissionMatrixProps {
+  // Only super admins may change the built-in roles; everyone else gets a read-only view
+  editable: boolean;
+}
+
+export function PermissionMatrix({ editable }: PermissionMatrixProps) {
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [rolePermissions, setRolePermissions] = useState<RolePermission[]>([]);
+  const [pendingCells, setPendingCells] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMatrix = useCallback(async () => {
+    try {
+      const [allPermissions, mappings] = await Promise.all([
+        trpc.getAllPermissions.query(),
+        trpc.getRolePermissions.query()
+      ]);
+      setPermissions([...allPermissions].sort((a, b) => a.name.localeCompare(b.name)));
+      setRolePermissions(mappings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load permissions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMatrix();
+  }, [loadMatrix]);
+
+  const granted = useMemo(
+    () => new Set(rolePermissions.map((mapping) => cellKey(mapping.role, mapping.permission_id))),
+    [rolePermissions]
+  );
+
+  const resources = useMemo(
+    () => [...new Set(permissions.map((permission) => permission.resource))].sort(),
+    [permissions]
+  );
+
+  const togglePermission = async (role: UserRole, permission: Permission, checked: boolean) => {
+    const key = cellKey(role, permission.id);
+    setError(null);
+    setPendingCells((prev) => new Set(prev).add(key));
+
+    try {
+      if (checked) {
+        const mapping = await trpc.grantRolePermission.mutate({ role, permission_id: permission.id });
+        setRolePermissions((prev) => [...prev, mapping]);
+      } else {
+        await trpc.revokeRolePermission.mutate({ role, permission_id: permission.id });
+        setRolePermissions((prev) => prev.filter((mapping) => cellKey(mapping.role, mapping.permission_id) !== key));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update permission');
+    } finally {
+      setPendingCells((prev) => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  const renderTable = (rows: Permission[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Permission</TableHead>
+          {ROLES.map(({ role, label }) => (
+            <TableHead key={role} className="text-center">{label}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((permission) => (
+          <TableRow key={permission.id}>
+            <TableCell>
+              <div className="font-medium">{permission.name}</div>
+              {permission.description && (
+                <div className="text-muted-foreground text-xs">{permission.description}</div>
+              )}
+            </TableCell>
+            {ROLES.map(({ role, label }) => {
+              const key = cellKey(role, permission.id);
+              return (
+                <TableCell key={role} className="text-center">
+                  <Checkbox
+                    aria-label={`${label}: ${permission.name}`}
+                    checked={granted.has(key)}
+                    disabled={!editable || pendingCells.has(key)}
+                    onCheckedChange={(checked) => togglePermission(role, permission, checked === true)}
+                  />
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading permissions...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {!editable && (
+        <p className="text-muted-foreground text-sm">
+          The built-in roles are shared by all restaurants and can only be changed by a super admin.
+        </p>
+      )}
+      {permissions.length === 0 ? (
+        <p className="text-muted-foreground">No permissions have been defined yet.</p>
+      ) : (
+        <Tabs defaultValue={ALL_RESOURCES}>
+          <TabsList>
+            <TabsTrigger value={ALL_RESOURCES}>All</TabsTrigger>
+            {resources.map((resource) => (
+              <TabsTrigger key={resource} value={resource} className="capitalize">{resource}</TabsTrigger>
+            ))}
+          </TabsList>
+          <TabsContent value={ALL_RESOURCES}>{renderTable(permissions)}</TabsContent>
+          {resources.map((resource) => (
+            <TabsContent key={resource} value={resource}>
+              {renderTable(permissions.filter((permission) => permission.resource === resource))}
+            </TabsContent>
+          ))}
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+// The session token is kept in localStorage so a reload keeps the user signed in
+const SESSION_TOKEN_KEY = 'resto-manage.session';
+// The super admin's own session, parked while they impersonate someone
+const IMPERSONATOR_TOKEN_KEY = 'resto-manage.impersonator-session';
+
+export const getSessionToken = (): string | null => localStorage.getItem(SESSION_TOKEN_KEY);
+
+export const setSessionToken = (token: string): void => {
+  localStorage.setItem(SESSION_TOKEN_KEY, token);
+};
+
+export const clearSessionToken = (): void => {
+  localStorage.removeItem(SESSION_TOKEN_KEY);
+  localStorage.removeItem(IMPERSONATOR_TOKEN_KEY);
+};
+
+// Switches to an impersonation session, keeping the current one to return to
+export const beginImpersonationSession = (token: string): void => {
+  const current = getSessionToken();
+  if (current) {
+    localStorage.setItem(IMPERSONATOR_TOKEN_KEY, current);
+  }
+  setSessionToken(token);
+};
+
+// Returns to the super admin's own session, or signs out if there is none
+export const endImpersonationSession = (): void => {
+  const original = localStorage.getItem(IMPERSONATOR_TOKEN_KEY);
+  clearSessionToken();
+  if (original) {
+    setSessionToken(original);
+  }
+};
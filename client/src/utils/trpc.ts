@@ -1,10 +1,27 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, httpBatchStreamLink, loggerLink, splitLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
+import { getSessionToken } from './session';
+
+const httpOptions = {
+  url: '/api',
+  transformer: superjson,
+  headers: () => {
+    const token = getSessionToken();
+    return token ? { authorization: `Bearer ${token}` } : {};
+  },
+};
+
+// Procedures that yield their result in chunks, which only the streaming link can carry
+const STREAMED_PATHS = ['exportCustomers'];
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    splitLink({
+      condition: (op) => STREAMED_PATHS.includes(op.path),
+      true: httpBatchStreamLink(httpOptions),
+      false: httpBatchLink(httpOptions),
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
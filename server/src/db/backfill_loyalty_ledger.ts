@@ -0,0 +1,71 @@
+import { eq, min, sql, sum } from 'drizzle-orm';
+import { db } from '.';
+import { customersTable, loyaltyLedgerTable } from './schema';
+
+export const OPENING_BALANCE_REASON = 'Opening balance';
+
+// Balances from before the ledger existed have no entries behind them, so expiry would count
+// their redemptions against newly earned points. Each such customer gets an opening ADJUST
+// entry for the unrecorded points, dated just before their first entry so it is spent first.
+// Customers whose balance already matches their ledger are left alone, so reruns are safe.
+export const backfillLoyaltyLedger = async (now: Date = new Date()): Promise<number> => {
+  return db.transaction(async (tx) => {
+    const ledger = tx.select({
+      customer_id: loyaltyLedgerTable.customer_id,
+      points: sum(loyaltyLedgerTable.points).mapWith(Number).as('points'),
+      first_entry_at: min(loyaltyLedgerTable.created_at).as('first_entry_at')
+    })
+      .from(loyaltyLedgerTable)
+      .groupBy(loyaltyLedgerTable.customer_id)
+      .as('ledger');
+
+    const recorded = sql<number>`coalesce(${ledger.points}, 0)`.mapWith(Number);
+
+    const customers = await tx.select({
+      id: customersTable.id,
+      restaurant_id: customersTable.restaurant_id,
+      loyalty_points: customersTable.loyalty_points,
+      recorded,
+      first_entry_at: ledger.first_entry_at
+    })
+      .from(customersTable)
+      .leftJoin(ledger, eq(ledger.customer_id, customersTable.id))
+      .where(sql`${customersTable.loyalty_points} <> ${recorded}`)
+      .for('update', { of: customersTable })
+      .execute();
+
+    if (customers.length === 0) {
+      return 0;
+    }
+
+    await tx.insert(loyaltyLedgerTable)
+      .values(customers.map(customer => {
+        const points = customer.loyalty_points - customer.recorded;
+        const firstEntryAt = customer.first_entry_at ? customer.first_entry_at.getTime() - 1 : now.getTime();
+        return {
+          restaurant_id: customer.restaurant_id,
+          customer_id: customer.id,
+          type: 'ADJUST' as const,
+          points,
+          balance_after: points,
+          reason: OPENING_BALANCE_REASON,
+          created_at: new Date(Math.min(firstEntryAt, now.getTime()))
+        };
+      }))
+      .execute();
+
+    return customers.length;
+  });
+};
+
+if (import.meta.main) {
+  backfillLoyaltyLedger()
+    .then((customers) => {
+      console.log(`Opening loyalty ledger entries written for ${customers} customers`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Failed to backfill the loyalty ledger:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,37 @@
+import { eq } from 'drizzle-orm';
+import { db } from '.';
+import { oidcProvidersTable } from './schema';
+import { encryptSecret, isEncryptedSecret } from '../lib/secrets';
+
+// Client secrets saved before they were encrypted at rest are encrypted in place.
+// Secrets already encrypted are left alone, so reruns are safe.
+export const encryptOidcClientSecrets = async (): Promise<number> => {
+  return db.transaction(async (tx) => {
+    const providers = await tx.select({ id: oidcProvidersTable.id, client_secret: oidcProvidersTable.client_secret })
+      .from(oidcProvidersTable)
+      .for('update')
+      .execute();
+
+    const plaintext = providers.filter(provider => !isEncryptedSecret(provider.client_secret));
+    for (const provider of plaintext) {
+      await tx.update(oidcProvidersTable)
+        .set({ client_secret: encryptSecret(provider.client_secret) })
+        .where(eq(oidcProvidersTable.id, provider.id))
+        .execute();
+    }
+
+    return plaintext.length;
+  });
+};
+
+if (import.meta.main) {
+  encryptOidcClientSecrets()
+    .then((providers) => {
+      console.log(`Client secrets encrypted for ${providers} identity providers`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Failed to encrypt OIDC client secrets:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,37 @@
+import { eq } from 'drizzle-orm';
+import { db } from '.';
+import { userTwoFactorTable } from './schema';
+import { encryptSecret, isEncryptedSecret } from '../lib/secrets';
+
+// TOTP secrets saved before they were encrypted at rest are encrypted in place.
+// Secrets already encrypted are left alone, so reruns are safe.
+export const encryptTwoFactorSecrets = async (): Promise<number> => {
+  return db.transaction(async (tx) => {
+    const enrollments = await tx.select({ id: userTwoFactorTable.id, secret: userTwoFactorTable.secret })
+      .from(userTwoFactorTable)
+      .for('update')
+      .execute();
+
+    const plaintext = enrollments.filter(enrollment => !isEncryptedSecret(enrollment.secret));
+    for (const enrollment of plaintext) {
+      await tx.update(userTwoFactorTable)
+        .set({ secret: encryptSecret(enrollment.secret) })
+        .where(eq(userTwoFactorTable.id, enrollment.id))
+        .execute();
+    }
+
+    return plaintext.length;
+  });
+};
+
+if (import.meta.main) {
+  encryptTwoFactorSecrets()
+    .then((enrollments) => {
+      console.log(`TOTP secrets encrypted for ${enrollments} users`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Failed to encrypt TOTP secrets:', error);
+      process.exit(1);
+    });
+}
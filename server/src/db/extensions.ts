@@ -0,0 +1,21 @@
+import { sql } from 'drizzle-orm';
+import { db } from '.';
+
+// Postgres extensions the schema depends on. drizzle-kit does not create extensions,
+// so they have to exist before the schema is pushed (see the db:push script).
+export const REQUIRED_EXTENSIONS = ['pg_trgm'] as const;
+
+export const ensureExtensions = async (): Promise<void> => {
+  for (const extension of REQUIRED_EXTENSIONS) {
+    await db.execute(sql.raw(`create extension if not exists ${extension}`));
+  }
+};
+
+if (import.meta.main) {
+  ensureExtensions()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Failed to create database extensions:', error);
+      process.exit(1);
+    });
+}
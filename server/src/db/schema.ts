@@ -1,10 +1,19 @@
-import { serial, text, pgTable, timestamp, boolean, integer, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, boolean, integer, pgEnum, jsonb, index, numeric, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 // Define enums
 export const userRoleEnum = pgEnum('user_role', ['SUPER_ADMIN', 'RESTAURANT_OWNER', 'MANAGER', 'STAFF']);
 export const subscriptionTierEnum = pgEnum('subscription_tier', ['FREE', 'BASIC', 'PROFESSIONAL']);
 export const subscriptionStatusEnum = pgEnum('subscription_status', ['ACTIVE', 'INACTIVE', 'PAST_DUE', 'CANCELED', 'TRIALING']);
+export const invitationStatusEnum = pgEnum('invitation_status', ['PENDING', 'ACCEPTED', 'REVOKED']);
+export const userTokenPurposeEnum = pgEnum('user_token_purpose', ['PASSWORD_RESET', 'EMAIL_VERIFICATION', 'TWO_FACTOR_LOGIN']);
+export const auditEntityTypeEnum = pgEnum('audit_entity_type', ['USER', 'RESTAURANT', 'CUSTOMER', 'SUBSCRIPTION', 'INVITATION', 'PERMISSION', 'ROLE_PERMISSION', 'CUSTOM_ROLE', 'PERMISSION_OVERRIDE', 'SESSION', 'API_KEY', 'OIDC_PROVIDER', 'VISIT', 'LOYALTY_RULES', 'REWARD', 'REWARD_REDEMPTION', 'LOYALTY_TIER', 'CUSTOMER_MERGE']);
+export const auditActionEnum = pgEnum('audit_action', ['CREATE', 'UPDATE', 'DELETE']);
+export const permissionEffectEnum = pgEnum('permission_effect', ['GRANT', 'DENY']);
+export const loyaltyEntryTypeEnum = pgEnum('loyalty_entry_type', ['EARN', 'REDEEM', 'ADJUST', 'EXPIRE']);
+export const duplicateCandidateStatusEnum = pgEnum('duplicate_candidate_status', ['PENDING', 'MERGED', 'DISMISSED']);
+export const rewardRedemptionStatusEnum = pgEnum('reward_redemption_status', ['ISSUED', 'USED', 'VOIDED']);
+export const loginFailureReasonEnum = pgEnum('login_failure_reason', ['INVALID_CREDENTIALS', 'INVALID_TWO_FACTOR_CODE', 'ACCOUNT_LOCKED', 'THROTTLED']);
 
 // Restaurants table (tenants)
 export const restaurantsTable = pgTable('restaurants', {
@@ -16,6 +25,7 @@ export const restaurantsTable = pgTable('restaurants', {
   address: text('address'), // Nullable
   logo_url: text('logo_url'), // Nullable
   brand_color: text('brand_color'), // Nullable, hex color code
+  require_two_factor: boolean('require_two_factor').notNull().default(false), // Applies to owners and managers
   is_active: boolean('is_active').notNull().default(true),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
@@ -31,6 +41,12 @@ export const usersTable = pgTable('users', {
   role: userRoleEnum('role').notNull().default('STAFF'),
   restaurant_id: integer('restaurant_id'), // Nullable for super admins
   is_active: boolean('is_active').notNull().default(true),
+  email_verified_at: timestamp('email_verified_at'), // Nullable until the user confirms their email
+  failed_login_attempts: integer('failed_login_attempts').notNull().default(0), // Consecutive failures since the last successful login
+  locked_until: timestamp('locked_until'), // Nullable, set when too many logins fail in a row
+  custom_role_id: integer('custom_role_id'), // Nullable, replaces the built-in role's permissions when set
+  oidc_provider_id: integer('oidc_provider_id'), // Nullable, set once the user has signed in through single sign-on
+  oidc_subject: text('oidc_subject'), // Nullable, the identity provider's stable "sub" claim
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -60,12 +76,189 @@ export const customersTable = pgTable('customers', {
   loyalty_points: integer('loyalty_points').notNull().default(0),
   total_visits: integer('total_visits').notNull().default(0),
   last_visit_date: timestamp('last_visit_date'), // Nullable
+  legacy_last_visit_date: timestamp('legacy_last_visit_date'), // Nullable; last visit known from before visits were recorded, e.g. imported
   notes: text('notes'), // Nullable
+  loyalty_tier_id: integer('loyalty_tier_id'), // Nullable; set by the nightly tier evaluation
+  merged_into_id: integer('merged_into_id'), // Nullable; the customer this duplicate was merged into
   is_active: boolean('is_active').notNull().default(true),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  // Backing searchCustomers; the expressions must match the ones it queries with (pg_trgm)
+  index('customers_search_document_idx').using('gin', sql`to_tsvector('simple', ${table.first_name} || ' ' || ${table.last_name} || ' ' || coalesce(${table.email}, '') || ' ' || coalesce(${table.notes}, ''))`),
+  index('customers_full_name_trgm_idx').using('gin', sql`(${table.first_name} || ' ' || ${table.last_name}) gin_trgm_ops`),
+  index('customers_first_name_trgm_idx').using('gin', sql`${table.first_name} gin_trgm_ops`),
+  index('customers_last_name_trgm_idx').using('gin', sql`${table.last_name} gin_trgm_ops`),
+  index('customers_email_trgm_idx').using('gin', sql`${table.email} gin_trgm_ops`),
+  index('customers_notes_trgm_idx').using('gin', sql`${table.notes} gin_trgm_ops`),
+  index('customers_phone_digits_trgm_idx').using('gin', sql`regexp_replace(${table.phone}, '[^0-9]', '', 'g') gin_trgm_ops`)
+]);
+
+// Visits of a customer; voided visits stay for the record but no longer count towards
+// the customer's total_visits and last_visit_date
+export const visitsTable = pgTable('visits', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull(),
+  customer_id: integer('customer_id').notNull(),
+  visited_at: timestamp('visited_at').notNull(),
+  party_size: integer('party_size').notNull().default(1),
+  spend: numeric('spend', { precision: 10, scale: 2 }), // Nullable
+  staff_id: integer('staff_id'), // Nullable; who served the table
+  table_label: text('table_label'), // Nullable
+  notes: text('notes'), // Nullable
+  recorded_by: integer('recorded_by'), // Nullable; null when recorded through an API key
+  voided_at: timestamp('voided_at'), // Nullable
+  voided_by: integer('voided_by'), // Nullable
+  void_reason: text('void_reason'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  index('visits_customer_visited_at_idx').on(table.customer_id, table.visited_at)
+]);
+
+// How customers of a restaurant earn loyalty points; at most one set of rules per restaurant
+export const loyaltyRulesTable = pgTable('loyalty_rules', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull().unique(),
+  points_per_currency_unit: numeric('points_per_currency_unit', { precision: 10, scale: 2 }).notNull().default('0'),
+  points_per_visit: integer('points_per_visit').notNull().default(0),
+  points_expire_after_days: integer('points_expire_after_days'), // Nullable; points never expire when not set
+  is_enabled: boolean('is_enabled').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Append-only record of every change to a customer's points. customers.loyalty_points is
+// the running balance, kept in step with balance_after of the latest entry. Balances from
+// before the ledger get an opening entry from backfill_loyalty_ledger.ts on db:push.
+export const loyaltyLedgerTable = pgTable('loyalty_ledger', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull(),
+  customer_id: integer('customer_id').notNull(),
+  type: loyaltyEntryTypeEnum('type').notNull(),
+  points: integer('points').notNull(), // Negative for redemptions, expiry and deductions; positive for voided redemptions
+  balance_after: integer('balance_after').notNull(),
+  reason: text('reason').notNull(),
+  visit_id: integer('visit_id'), // Nullable; the visit the points were earned on
+  actor_id: integer('actor_id'), // Nullable; null for API keys and automatic entries
+  api_key_id: integer('api_key_id'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('loyalty_ledger_customer_created_at_idx').on(table.customer_id, table.created_at)
+]);
+
+// Pairs of customers that look like the same guest, waiting for staff to merge or dismiss
+// them. customer_id is always the lower id of the pair.
+export const customerDuplicateCandidatesTable = pgTable('customer_duplicate_candidates', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull(),
+  customer_id: integer('customer_id').notNull(),
+  duplicate_id: integer('duplicate_id').notNull(),
+  score: integer('score').notNull(), // 0-100, higher is more likely the same guest
+  reasons: text('reasons').array().$type<('EMAIL' | 'PHONE' | 'NAME')[]>().notNull(), // What matched
+  status: duplicateCandidateStatusEnum('status').notNull().default('PENDING'),
+  reviewed_by: integer('reviewed_by'), // Nullable
+  reviewed_at: timestamp('reviewed_at'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('customer_duplicate_candidates_pair_idx').on(table.customer_id, table.duplicate_id),
+  index('customer_duplicate_candidates_restaurant_status_idx').on(table.restaurant_id, table.status)
+]);
+
+// Customer fields a merge changes, as they were before it
+export interface MergedCustomerFields {
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  total_visits: number;
+  last_visit_date: string | null; // ISO timestamp
+  is_active: boolean;
+}
+
+// One merge of a duplicate into the surviving customer, with what it takes to undo it
+export const customerMergesTable = pgTable('customer_merges', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull(),
+  survivor_id: integer('survivor_id').notNull(),
+  merged_id: integer('merged_id').notNull(),
+  survivor_before: jsonb('survivor_before').$type<MergedCustomerFields>().notNull(),
+  merged_before: jsonb('merged_before').$type<MergedCustomerFields>().notNull(),
+  moved_records: jsonb('moved_records').$type<Record<string, number[]>>().notNull(), // Ids moved to the survivor, by table
+  points_transferred: integer('points_transferred').notNull(),
+  merged_by: integer('merged_by'), // Nullable; null when merged through an API key
+  undone_at: timestamp('undone_at'), // Nullable
+  undone_by: integer('undone_by'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Tiers like Silver, Gold and Platinum. A customer holds the highest-ranked tier for which they
+// meet any of its thresholds; a tier without thresholds is the one everyone starts in.
+export const loyaltyTiersTable = pgTable('loyalty_tiers', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull(),
+  name: text('name').notNull(),
+  rank: integer('rank').notNull(), // Higher ranks are better tiers
+  min_lifetime_points: integer('min_lifetime_points'), // Nullable; points earned, regardless of what was spent
+  min_total_visits: integer('min_total_visits'), // Nullable
+  min_window_spend: numeric('min_window_spend', { precision: 10, scale: 2 }), // Nullable
+  spend_window_days: integer('spend_window_days').notNull().default(365), // Rolling window min_window_spend applies to
+  perks: text('perks').array().notNull().default([]),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('loyalty_tiers_restaurant_rank_idx').on(table.restaurant_id, table.rank)
+]);
+
+// Every promotion and demotion; a null tier means the customer held none
+export const loyaltyTierChangesTable = pgTable('loyalty_tier_changes', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull(),
+  customer_id: integer('customer_id').notNull(),
+  from_tier_id: integer('from_tier_id'), // Nullable
+  to_tier_id: integer('to_tier_id'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('loyalty_tier_changes_customer_created_at_idx').on(table.customer_id, table.created_at)
+]);
+
+// Rewards a restaurant offers for loyalty points, e.g. a free dessert for 100 points
+export const rewardsTable = pgTable('rewards', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull(),
+  name: text('name').notNull(),
+  description: text('description'), // Nullable
+  points_cost: integer('points_cost').notNull(),
+  available_from: timestamp('available_from'), // Nullable; available right away when not set
+  available_until: timestamp('available_until'), // Nullable; open-ended when not set
+  per_customer_limit: integer('per_customer_limit'), // Nullable; unlimited when not set
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// A reward a customer spent points on. The code is handed to the customer and accepted once
+// by staff; it is kept readable so it can be looked up again for the customer.
+export const rewardRedemptionsTable = pgTable('reward_redemptions', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull(),
+  reward_id: integer('reward_id').notNull(),
+  customer_id: integer('customer_id').notNull(),
+  code: text('code').notNull(),
+  status: rewardRedemptionStatusEnum('status').notNull().default('ISSUED'),
+  points_spent: integer('points_spent').notNull(),
+  issued_by: integer('issued_by'), // Nullable; null when redeemed through an API key
+  used_at: timestamp('used_at'), // Nullable
+  used_by: integer('used_by'), // Nullable
+  voided_at: timestamp('voided_at'), // Nullable
+  voided_by: integer('voided_by'), // Nullable
+  void_reason: text('void_reason'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('reward_redemptions_restaurant_code_idx').on(table.restaurant_id, table.code),
+  index('reward_redemptions_reward_customer_idx').on(table.reward_id, table.customer_id)
+]);
+
 // Permissions table for granular access control
 export const permissionsTable = pgTable('permissions', {
   id: serial('id').primaryKey(),
@@ -84,21 +277,234 @@ export const rolePermissionsTable = pgTable('role_permissions', {
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Restaurant-defined roles composed from the permission catalogue
+export const customRolesTable = pgTable('custom_roles', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull(),
+  name: text('name').notNull(),
+  description: text('description'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+export const customRolePermissionsTable = pgTable('custom_role_permissions', {
+  id: serial('id').primaryKey(),
+  custom_role_id: integer('custom_role_id').notNull(),
+  permission_id: integer('permission_id').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Per-user exceptions to the permissions of the user's role; a denial always wins
+export const userPermissionOverridesTable = pgTable('user_permission_overrides', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  permission_id: integer('permission_id').notNull(),
+  effect: permissionEffectEnum('effect').notNull(),
+  expires_at: timestamp('expires_at'), // Nullable; permanent until removed when not set
+  created_by: integer('created_by'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Keys restaurants hand to their own integrations instead of a staff login
+export const apiKeysTable = pgTable('api_keys', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull(),
+  name: text('name').notNull(),
+  key_prefix: text('key_prefix').notNull(), // Leading characters of the key, to tell keys apart
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the key, never the raw key
+  created_by: integer('created_by'), // Nullable
+  last_used_at: timestamp('last_used_at'), // Nullable
+  expires_at: timestamp('expires_at'), // Nullable; valid until revoked when not set
+  revoked_at: timestamp('revoked_at'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// The subset of the permission catalogue an API key may use
+export const apiKeyPermissionsTable = pgTable('api_key_permissions', {
+  id: serial('id').primaryKey(),
+  api_key_id: integer('api_key_id').notNull(),
+  permission_id: integer('permission_id').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// OpenID Connect identity provider of a restaurant, one per restaurant
+export const oidcProvidersTable = pgTable('oidc_providers', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull().unique(),
+  discovery_url: text('discovery_url').notNull(), // Issuer's .well-known/openid-configuration
+  client_id: text('client_id').notNull(),
+  client_secret: text('client_secret').notNull(), // Encrypted, see lib/secrets.ts
+  allowed_email_domains: text('allowed_email_domains').array().notNull(), // Lowercase, without "@"
+  default_role: userRoleEnum('default_role').notNull().default('STAFF'), // Role of users provisioned on first sign-in
+  is_enabled: boolean('is_enabled').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Pending authorization requests; the state is handed to the browser, the PKCE verifier never is
+export const oidcLoginStatesTable = pgTable('oidc_login_states', {
+  id: serial('id').primaryKey(),
+  provider_id: integer('provider_id').notNull(),
+  state_hash: text('state_hash').notNull().unique(),
+  code_verifier: text('code_verifier').notNull(),
+  nonce: text('nonce').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'), // Nullable, set once the callback is handled
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Sessions table for authenticated logins
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the session secret, never the raw token
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'), // Nullable, set on logout
+  two_factor_setup_required: boolean('two_factor_setup_required').notNull().default(false), // Restricted until 2FA is enrolled
+  impersonator_id: integer('impersonator_id'), // Nullable; the super admin acting as user_id
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Single-use tokens emailed to users (password reset, email verification)
+export const userTokensTable = pgTable('user_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  purpose: userTokenPurposeEnum('purpose').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  email: text('email'), // Nullable, the address an email verification token was sent to
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'), // Nullable, set once the token is consumed
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// TOTP second factor, one row per user; enabled_at stays null until enrollment is confirmed
+export const userTwoFactorTable = pgTable('user_two_factor', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().unique(),
+  secret: text('secret').notNull(), // Base32 TOTP secret, encrypted, see lib/secrets.ts
+  last_used_step: integer('last_used_step'), // Nullable; time step of the last accepted code, so each code works once
+  enabled_at: timestamp('enabled_at'), // Nullable while enrollment is pending
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// One-time recovery codes for users who lose their authenticator
+export const recoveryCodesTable = pgTable('recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  code_hash: text('code_hash').notNull(),
+  used_at: timestamp('used_at'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Login history, also the source for per-email and per-IP throttling
+export const loginAttemptsTable = pgTable('login_attempts', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id'), // Nullable for unknown emails
+  email: text('email').notNull(), // Normalized to lowercase
+  ip_address: text('ip_address'), // Nullable
+  user_agent: text('user_agent'), // Nullable
+  success: boolean('success').notNull(),
+  failure_reason: loginFailureReasonEnum('failure_reason'), // Nullable for successful logins
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Field name -> value before and after the change
+export type AuditFieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Who changed what: one row per audited mutation
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id'), // Nullable for platform-level changes
+  actor_id: integer('actor_id'), // Nullable for unauthenticated flows such as accepting an invitation
+  impersonator_id: integer('impersonator_id'), // Nullable; set when a super admin acted as actor_id
+  api_key_id: integer('api_key_id'), // Nullable; set when an integration made the change
+  entity_type: auditEntityTypeEnum('entity_type').notNull(),
+  entity_id: integer('entity_id'), // Nullable for bulk changes
+  action: auditActionEnum('action').notNull(),
+  changes: jsonb('changes').$type<AuditFieldChanges>(), // Nullable, field-level before/after diff
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Every procedure called in an impersonation session, reads included. What mutations
+// changed is in the audit log.
+export const impersonationRequestsTable = pgTable('impersonation_requests', {
+  id: serial('id').primaryKey(),
+  session_id: integer('session_id').notNull(),
+  impersonator_id: integer('impersonator_id').notNull(),
+  user_id: integer('user_id').notNull(), // The impersonated user
+  restaurant_id: integer('restaurant_id'), // Nullable, the impersonated user's restaurant
+  path: text('path').notNull(), // Procedure name, e.g. getCustomersByRestaurant
+  type: text('type').notNull(), // query, mutation or subscription
+  succeeded: boolean('succeeded').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Outgoing mail recorded by the default local mailer
+export const mailOutboxTable = pgTable('mail_outbox', {
+  id: serial('id').primaryKey(),
+  recipient: text('recipient').notNull(),
+  subject: text('subject').notNull(),
+  body: text('body').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Pending invitations for staff to join a restaurant
+export const staffInvitationsTable = pgTable('staff_invitations', {
+  id: serial('id').primaryKey(),
+  restaurant_id: integer('restaurant_id').notNull(),
+  email: text('email').notNull(),
+  role: userRoleEnum('role').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  status: invitationStatusEnum('status').notNull().default('PENDING'),
+  invited_by: integer('invited_by').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  last_sent_at: timestamp('last_sent_at').defaultNow().notNull(),
+  accepted_at: timestamp('accepted_at'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 // Define relations
 export const restaurantsRelations = relations(restaurantsTable, ({ many, one }) => ({
   users: many(usersTable),
   customers: many(customersTable),
+  invitations: many(staffInvitationsTable),
+  customRoles: many(customRolesTable),
+  apiKeys: many(apiKeysTable),
   subscription: one(subscriptionsTable, {
     fields: [restaurantsTable.id],
     references: [subscriptionsTable.restaurant_id]
+  }),
+  oidcProvider: one(oidcProvidersTable, {
+    fields: [restaurantsTable.id],
+    references: [oidcProvidersTable.restaurant_id]
   })
 }));
 
-export const usersRelations = relations(usersTable, ({ one }) => ({
+export const usersRelations = relations(usersTable, ({ one, many }) => ({
   restaurant: one(restaurantsTable, {
     fields: [usersTable.restaurant_id],
     references: [restaurantsTable.id]
-  })
+  }),
+  customRole: one(customRolesTable, {
+    fields: [usersTable.custom_role_id],
+    references: [customRolesTable.id]
+  }),
+  oidcProvider: one(oidcProvidersTable, {
+    fields: [usersTable.oidc_provider_id],
+    references: [oidcProvidersTable.id]
+  }),
+  sessions: many(sessionsTable),
+  tokens: many(userTokensTable),
+  twoFactor: one(userTwoFactorTable, {
+    fields: [usersTable.id],
+    references: [userTwoFactorTable.user_id]
+  }),
+  recoveryCodes: many(recoveryCodesTable),
+  loginAttempts: many(loginAttemptsTable),
+  permissionOverrides: many(userPermissionOverridesTable)
 }));
 
 export const subscriptionsRelations = relations(subscriptionsTable, ({ one }) => ({
@@ -108,10 +514,95 @@ export const subscriptionsRelations = relations(subscriptionsTable, ({ one }) =>
   })
 }));
 
-export const customersRelations = relations(customersTable, ({ one }) => ({
+export const customersRelations = relations(customersTable, ({ one, many }) => ({
   restaurant: one(restaurantsTable, {
     fields: [customersTable.restaurant_id],
     references: [restaurantsTable.id]
+  }),
+  visits: many(visitsTable),
+  loyaltyLedger: many(loyaltyLedgerTable),
+  loyaltyTier: one(loyaltyTiersTable, {
+    fields: [customersTable.loyalty_tier_id],
+    references: [loyaltyTiersTable.id]
+  }),
+  loyaltyTierChanges: many(loyaltyTierChangesTable)
+}));
+
+export const loyaltyLedgerRelations = relations(loyaltyLedgerTable, ({ one }) => ({
+  customer: one(customersTable, {
+    fields: [loyaltyLedgerTable.customer_id],
+    references: [customersTable.id]
+  }),
+  visit: one(visitsTable, {
+    fields: [loyaltyLedgerTable.visit_id],
+    references: [visitsTable.id]
+  })
+}));
+
+export const customerDuplicateCandidatesRelations = relations(customerDuplicateCandidatesTable, ({ one }) => ({
+  customer: one(customersTable, {
+    fields: [customerDuplicateCandidatesTable.customer_id],
+    references: [customersTable.id]
+  }),
+  duplicate: one(customersTable, {
+    fields: [customerDuplicateCandidatesTable.duplicate_id],
+    references: [customersTable.id]
+  })
+}));
+
+export const customerMergesRelations = relations(customerMergesTable, ({ one }) => ({
+  survivor: one(customersTable, {
+    fields: [customerMergesTable.survivor_id],
+    references: [customersTable.id]
+  }),
+  merged: one(customersTable, {
+    fields: [customerMergesTable.merged_id],
+    references: [customersTable.id]
+  })
+}));
+
+export const loyaltyTiersRelations = relations(loyaltyTiersTable, ({ one, many }) => ({
+  restaurant: one(restaurantsTable, {
+    fields: [loyaltyTiersTable.restaurant_id],
+    references: [restaurantsTable.id]
+  }),
+  customers: many(customersTable)
+}));
+
+export const loyaltyTierChangesRelations = relations(loyaltyTierChangesTable, ({ one }) => ({
+  customer: one(customersTable, {
+    fields: [loyaltyTierChangesTable.customer_id],
+    references: [customersTable.id]
+  })
+}));
+
+export const rewardsRelations = relations(rewardsTable, ({ one, many }) => ({
+  restaurant: one(restaurantsTable, {
+    fields: [rewardsTable.restaurant_id],
+    references: [restaurantsTable.id]
+  }),
+  redemptions: many(rewardRedemptionsTable)
+}));
+
+export const rewardRedemptionsRelations = relations(rewardRedemptionsTable, ({ one }) => ({
+  reward: one(rewardsTable, {
+    fields: [rewardRedemptionsTable.reward_id],
+    references: [rewardsTable.id]
+  }),
+  customer: one(customersTable, {
+    fields: [rewardRedemptionsTable.customer_id],
+    references: [customersTable.id]
+  })
+}));
+
+export const visitsRelations = relations(visitsTable, ({ one }) => ({
+  customer: one(customersTable, {
+    fields: [visitsTable.customer_id],
+    references: [customersTable.id]
+  }),
+  staff: one(usersTable, {
+    fields: [visitsTable.staff_id],
+    references: [usersTable.id]
   })
 }));
 
@@ -122,6 +613,133 @@ export const rolePermissionsRelations = relations(rolePermissionsTable, ({ one }
   })
 }));
 
+export const customRolesRelations = relations(customRolesTable, ({ one, many }) => ({
+  restaurant: one(restaurantsTable, {
+    fields: [customRolesTable.restaurant_id],
+    references: [restaurantsTable.id]
+  }),
+  permissions: many(customRolePermissionsTable),
+  users: many(usersTable)
+}));
+
+export const customRolePermissionsRelations = relations(customRolePermissionsTable, ({ one }) => ({
+  customRole: one(customRolesTable, {
+    fields: [customRolePermissionsTable.custom_role_id],
+    references: [customRolesTable.id]
+  }),
+  permission: one(permissionsTable, {
+    fields: [customRolePermissionsTable.permission_id],
+    references: [permissionsTable.id]
+  })
+}));
+
+export const apiKeysRelations = relations(apiKeysTable, ({ one, many }) => ({
+  restaurant: one(restaurantsTable, {
+    fields: [apiKeysTable.restaurant_id],
+    references: [restaurantsTable.id]
+  }),
+  creator: one(usersTable, {
+    fields: [apiKeysTable.created_by],
+    references: [usersTable.id]
+  }),
+  permissions: many(apiKeyPermissionsTable)
+}));
+
+export const apiKeyPermissionsRelations = relations(apiKeyPermissionsTable, ({ one }) => ({
+  apiKey: one(apiKeysTable, {
+    fields: [apiKeyPermissionsTable.api_key_id],
+    references: [apiKeysTable.id]
+  }),
+  permission: one(permissionsTable, {
+    fields: [apiKeyPermissionsTable.permission_id],
+    references: [permissionsTable.id]
+  })
+}));
+
+export const userPermissionOverridesRelations = relations(userPermissionOverridesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userPermissionOverridesTable.user_id],
+    references: [usersTable.id]
+  }),
+  permission: one(permissionsTable, {
+    fields: [userPermissionOverridesTable.permission_id],
+    references: [permissionsTable.id]
+  })
+}));
+
+export const oidcProvidersRelations = relations(oidcProvidersTable, ({ one, many }) => ({
+  restaurant: one(restaurantsTable, {
+    fields: [oidcProvidersTable.restaurant_id],
+    references: [restaurantsTable.id]
+  }),
+  loginStates: many(oidcLoginStatesTable)
+}));
+
+export const oidcLoginStatesRelations = relations(oidcLoginStatesTable, ({ one }) => ({
+  provider: one(oidcProvidersTable, {
+    fields: [oidcLoginStatesTable.provider_id],
+    references: [oidcProvidersTable.id]
+  })
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const userTokensRelations = relations(userTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userTokensTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [recoveryCodesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const loginAttemptsRelations = relations(loginAttemptsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [loginAttemptsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const auditLogRelations = relations(auditLogTable, ({ one }) => ({
+  restaurant: one(restaurantsTable, {
+    fields: [auditLogTable.restaurant_id],
+    references: [restaurantsTable.id]
+  }),
+  actor: one(usersTable, {
+    fields: [auditLogTable.actor_id],
+    references: [usersTable.id]
+  }),
+  impersonator: one(usersTable, {
+    fields: [auditLogTable.impersonator_id],
+    references: [usersTable.id]
+  }),
+  apiKey: one(apiKeysTable, {
+    fields: [auditLogTable.api_key_id],
+    references: [apiKeysTable.id]
+  })
+}));
+
+export const staffInvitationsRelations = relations(staffInvitationsTable, ({ one }) => ({
+  restaurant: one(restaurantsTable, {
+    fields: [staffInvitationsTable.restaurant_id],
+    references: [restaurantsTable.id]
+  }),
+  inviter: one(usersTable, {
+    fields: [staffInvitationsTable.invited_by],
+    references: [usersTable.id]
+  })
+}));
+
 // TypeScript types for the table schemas
 export type Restaurant = typeof restaurantsTable.$inferSelect;
 export type NewRestaurant = typeof restaurantsTable.$inferInsert;
@@ -135,20 +753,120 @@ export type NewSubscription = typeof subscriptionsTable.$inferInsert;
 export type Customer = typeof customersTable.$inferSelect;
 export type NewCustomer = typeof customersTable.$inferInsert;
 
+export type Visit = typeof visitsTable.$inferSelect;
+export type NewVisit = typeof visitsTable.$inferInsert;
+
+export type LoyaltyRules = typeof loyaltyRulesTable.$inferSelect;
+export type NewLoyaltyRules = typeof loyaltyRulesTable.$inferInsert;
+
+export type LoyaltyLedgerEntry = typeof loyaltyLedgerTable.$inferSelect;
+export type NewLoyaltyLedgerEntry = typeof loyaltyLedgerTable.$inferInsert;
+
+export type CustomerDuplicateCandidate = typeof customerDuplicateCandidatesTable.$inferSelect;
+export type NewCustomerDuplicateCandidate = typeof customerDuplicateCandidatesTable.$inferInsert;
+
+export type CustomerMerge = typeof customerMergesTable.$inferSelect;
+export type NewCustomerMerge = typeof customerMergesTable.$inferInsert;
+
+export type LoyaltyTier = typeof loyaltyTiersTable.$inferSelect;
+export type NewLoyaltyTier = typeof loyaltyTiersTable.$inferInsert;
+
+export type LoyaltyTierChange = typeof loyaltyTierChangesTable.$inferSelect;
+export type NewLoyaltyTierChange = typeof loyaltyTierChangesTable.$inferInsert;
+
+export type Reward = typeof rewardsTable.$inferSelect;
+export type NewReward = typeof rewardsTable.$inferInsert;
+
+export type RewardRedemption = typeof rewardRedemptionsTable.$inferSelect;
+export type NewRewardRedemption = typeof rewardRedemptionsTable.$inferInsert;
+
 export type Permission = typeof permissionsTable.$inferSelect;
 export type NewPermission = typeof permissionsTable.$inferInsert;
 
 export type RolePermission = typeof rolePermissionsTable.$inferSelect;
 export type NewRolePermission = typeof rolePermissionsTable.$inferInsert;
 
+export type CustomRole = typeof customRolesTable.$inferSelect;
+export type NewCustomRole = typeof customRolesTable.$inferInsert;
+
+export type CustomRolePermission = typeof customRolePermissionsTable.$inferSelect;
+export type NewCustomRolePermission = typeof customRolePermissionsTable.$inferInsert;
+
+export type ApiKey = typeof apiKeysTable.$inferSelect;
+export type NewApiKey = typeof apiKeysTable.$inferInsert;
+
+export type ApiKeyPermission = typeof apiKeyPermissionsTable.$inferSelect;
+export type NewApiKeyPermission = typeof apiKeyPermissionsTable.$inferInsert;
+
+export type UserPermissionOverride = typeof userPermissionOverridesTable.$inferSelect;
+export type NewUserPermissionOverride = typeof userPermissionOverridesTable.$inferInsert;
+
+export type OidcProvider = typeof oidcProvidersTable.$inferSelect;
+export type NewOidcProvider = typeof oidcProvidersTable.$inferInsert;
+
+export type OidcLoginState = typeof oidcLoginStatesTable.$inferSelect;
+export type NewOidcLoginState = typeof oidcLoginStatesTable.$inferInsert;
+
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type UserToken = typeof userTokensTable.$inferSelect;
+export type NewUserToken = typeof userTokensTable.$inferInsert;
+
+export type UserTwoFactor = typeof userTwoFactorTable.$inferSelect;
+export type NewUserTwoFactor = typeof userTwoFactorTable.$inferInsert;
+
+export type RecoveryCode = typeof recoveryCodesTable.$inferSelect;
+export type NewRecoveryCode = typeof recoveryCodesTable.$inferInsert;
+
+export type LoginAttempt = typeof loginAttemptsTable.$inferSelect;
+export type NewLoginAttempt = typeof loginAttemptsTable.$inferInsert;
+
+export type AuditLogEntry = typeof auditLogTable.$inferSelect;
+export type NewAuditLogEntry = typeof auditLogTable.$inferInsert;
+
+export type ImpersonationRequest = typeof impersonationRequestsTable.$inferSelect;
+export type NewImpersonationRequest = typeof impersonationRequestsTable.$inferInsert;
+
+export type StaffInvitation = typeof staffInvitationsTable.$inferSelect;
+export type NewStaffInvitation = typeof staffInvitationsTable.$inferInsert;
+
+export type MailOutboxMessage = typeof mailOutboxTable.$inferSelect;
+export type NewMailOutboxMessage = typeof mailOutboxTable.$inferInsert;
+
 // Export all tables and relations for proper query building
 export const tables = {
   restaurants: restaurantsTable,
   users: usersTable,
   subscriptions: subscriptionsTable,
   customers: customersTable,
+  visits: visitsTable,
+  loyaltyRules: loyaltyRulesTable,
+  loyaltyLedger: loyaltyLedgerTable,
+  customerDuplicateCandidates: customerDuplicateCandidatesTable,
+  customerMerges: customerMergesTable,
+  loyaltyTiers: loyaltyTiersTable,
+  loyaltyTierChanges: loyaltyTierChangesTable,
+  rewards: rewardsTable,
+  rewardRedemptions: rewardRedemptionsTable,
   permissions: permissionsTable,
-  rolePermissions: rolePermissionsTable
+  rolePermissions: rolePermissionsTable,
+  customRoles: customRolesTable,
+  customRolePermissions: customRolePermissionsTable,
+  userPermissionOverrides: userPermissionOverridesTable,
+  apiKeys: apiKeysTable,
+  apiKeyPermissions: apiKeyPermissionsTable,
+  oidcProviders: oidcProvidersTable,
+  oidcLoginStates: oidcLoginStatesTable,
+  sessions: sessionsTable,
+  userTokens: userTokensTable,
+  mailOutbox: mailOutboxTable,
+  staffInvitations: staffInvitationsTable,
+  userTwoFactor: userTwoFactorTable,
+  recoveryCodes: recoveryCodesTable,
+  loginAttempts: loginAttemptsTable,
+  auditLog: auditLogTable,
+  impersonationRequests: impersonationRequestsTable
 };
 
 export const tableRelations = {
@@ -156,5 +874,26 @@ export const tableRelations = {
   usersRelations,
   subscriptionsRelations,
   customersRelations,
-  rolePermissionsRelations
+  visitsRelations,
+  loyaltyLedgerRelations,
+  customerDuplicateCandidatesRelations,
+  customerMergesRelations,
+  loyaltyTiersRelations,
+  loyaltyTierChangesRelations,
+  rewardsRelations,
+  rewardRedemptionsRelations,
+  rolePermissionsRelations,
+  customRolesRelations,
+  customRolePermissionsRelations,
+  userPermissionOverridesRelations,
+  apiKeysRelations,
+  apiKeyPermissionsRelations,
+  oidcProvidersRelations,
+  oidcLoginStatesRelations,
+  sessionsRelations,
+  userTokensRelations,
+  staffInvitationsRelations,
+  recoveryCodesRelations,
+  loginAttemptsRelations,
+  auditLogRelations
 };
\ No newline at end of file
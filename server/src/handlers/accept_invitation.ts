@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { staffInvitationsTable, usersTable } from '../db/schema';
+import { type AcceptInvitationInput, type User } from '../schema';
+import { and, eq, gt } from 'drizzle-orm';
+import { hashToken } from '../lib/tokens';
+import { hashPassword } from '../lib/password';
+
+export const acceptInvitation = async (input: AcceptInvitationInput): Promise<User> => {
+  try {
+    const password_hash = await hashPassword(input.password);
+
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+
+      // Claim the invitation first so concurrent accepts cannot both succeed
+      const invitations = await tx.update(staffInvitationsTable)
+        .set({
+          status: 'ACCEPTED',
+          accepted_at: now,
+          updated_at: now
+        })
+        .where(and(
+          eq(staffInvitationsTable.token_hash, hashToken(input.token)),
+          eq(staffInvitationsTable.status, 'PENDING'),
+          gt(staffInvitationsTable.expires_at, now)
+        ))
+        .returning()
+        .execute();
+
+      if (invitations.length === 0) {
+        throw new Error('Invalid or expired invitation');
+      }
+
+      const invitation = invitations[0];
+
+      // The invitee proved ownership of the email by following the link
+      const result = await tx.insert(usersTable)
+        .values({
+          email: invitation.email,
+          password_hash,
+          first_name: input.first_name,
+          last_name: input.last_name,
+          role: invitation.role,
+          restaurant_id: invitation.restaurant_id,
+          is_active: true,
+          email_verified_at: now
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Invitation acceptance failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { type AdjustLoyaltyPointsInput, type LoyaltyLedgerEntry } from '../schema';
+import { appendLoyaltyEntry, type LoyaltyActor } from '../lib/loyalty';
+
+// Manual correction of a customer's points; deductions cannot take the balance below zero
+export const adjustLoyaltyPoints = async (input: AdjustLoyaltyPointsInput, actor: LoyaltyActor): Promise<LoyaltyLedgerEntry> => {
+  try {
+    return await db.transaction(tx => appendLoyaltyEntry(tx, {
+      restaurantId: input.restaurant_id,
+      customerId: input.customer_id,
+      type: 'ADJUST',
+      points: input.points,
+      reason: input.reason
+    }, actor));
+  } catch (error) {
+    console.error('Loyalty points adjustment failed:', error);
+    throw error;
+  }
+};
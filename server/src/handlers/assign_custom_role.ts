@@ -0,0 +1,58 @@
+import { db } from '../db';
+import { customRolesTable, usersTable } from '../db/schema';
+import { type AssignCustomRoleInput, type User, type UserRole } from '../schema';
+import { and, eq, SQL } from 'drizzle-orm';
+
+// Owners and super admins always keep their full built-in permissions
+export const CUSTOM_ROLE_ELIGIBLE_ROLES: UserRole[] = ['MANAGER', 'STAFF'];
+
+export const assignCustomRole = async (input: AssignCustomRoleInput, restaurantId?: number): Promise<User> => {
+  try {
+    // Restrict the assignment to the given restaurant when a tenant scope is provided
+    const conditions: SQL<unknown>[] = [eq(usersTable.id, input.user_id)];
+    if (restaurantId !== undefined) {
+      conditions.push(eq(usersTable.restaurant_id, restaurantId));
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(and(...conditions))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${input.user_id} not found`);
+    }
+
+    const user = users[0];
+
+    if (input.custom_role_id !== null) {
+      if (!CUSTOM_ROLE_ELIGIBLE_ROLES.includes(user.role)) {
+        throw new Error('Custom roles can only be assigned to managers and staff');
+      }
+
+      // The role has to come from the user's own restaurant
+      const roles = await db.select()
+        .from(customRolesTable)
+        .where(eq(customRolesTable.id, input.custom_role_id))
+        .execute();
+
+      if (roles.length === 0 || roles[0].restaurant_id !== user.restaurant_id) {
+        throw new Error(`Custom role with id ${input.custom_role_id} not found`);
+      }
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        custom_role_id: input.custom_role_id,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, user.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Custom role assignment failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { apiKeysTable, restaurantsTable } from '../db/schema';
+import { type ApiKey } from '../schema';
+import { and, eq, gt, isNull, or } from 'drizzle-orm';
+import { hashToken } from '../lib/tokens';
+import { toApiKeys } from './get_api_keys';
+
+// Resolves a raw key to its record, or null when it is unknown, revoked or expired
+export const authenticateApiKey = async (key: string): Promise<ApiKey | null> => {
+  try {
+    const now = new Date();
+
+    // Keys of deactivated restaurants stop working along with their staff
+    const results = await db.select({ api_keys: apiKeysTable })
+      .from(apiKeysTable)
+      .innerJoin(restaurantsTable, eq(apiKeysTable.restaurant_id, restaurantsTable.id))
+      .where(and(
+        eq(apiKeysTable.token_hash, hashToken(key)),
+        isNull(apiKeysTable.revoked_at),
+        or(isNull(apiKeysTable.expires_at), gt(apiKeysTable.expires_at, now)),
+        eq(restaurantsTable.is_active, true)
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const updated = await db.update(apiKeysTable)
+      .set({ last_used_at: now })
+      .where(eq(apiKeysTable.id, results[0].api_keys.id))
+      .returning()
+      .execute();
+
+    const [apiKey] = await toApiKeys(updated);
+    return apiKey;
+  } catch (error) {
+    console.error('API key authentication failed:', error);
+    throw error;
+  }
+};
@@ -1,36 +1,12 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
-import { type LoginInput, type User } from '../schema';
+import { type ClientInfo, type LoginInput, type User } from '../schema';
 import { eq } from 'drizzle-orm';
-import { createHash, timingSafeEqual } from 'crypto';
+import { hashPassword, needsRehash, verifyPassword } from '../lib/password';
+import { getLoginRetryAfter, LoginThrottledError, recordFailedLogin, recordLoginAttempt, UNKNOWN_CLIENT } from '../lib/login_throttle';
 
-// Simple password hashing function using Node.js crypto
-const hashPassword = (password: string, salt: string): string => {
-  return createHash('sha256').update(password + salt).digest('hex');
-};
-
-// Verify password against stored hash
-const verifyPassword = (password: string, storedHash: string): boolean => {
-  try {
-    // Extract salt from stored hash (assuming format: salt:hash)
-    const [salt, hash] = storedHash.split(':');
-    if (!salt || !hash) {
-      return false;
-    }
-    
-    const computedHash = hashPassword(password, salt);
-    
-    // Use timing-safe comparison to prevent timing attacks
-    return timingSafeEqual(
-      Buffer.from(hash, 'hex'),
-      Buffer.from(computedHash, 'hex')
-    );
-  } catch (error) {
-    return false;
-  }
-};
-
-export const authenticateUser = async (input: LoginInput): Promise<User | null> => {
+// Checks the password only; the caller records the login as successful once it completes
+export const authenticateUser = async (input: LoginInput, client: ClientInfo = UNKNOWN_CLIENT): Promise<User | null> => {
   try {
     // Find user by email
     const users = await db.select()
@@ -38,22 +14,42 @@ export const authenticateUser = async (input: LoginInput): Promise<User | null>
       .where(eq(usersTable.email, input.email))
       .execute();
 
-    if (users.length === 0) {
-      return null; // User not found
+    const existingUser = users[0] ?? null;
+    const userId = existingUser?.id ?? null;
+
+    // Refuse before checking the password so throttled guesses reveal nothing
+    const retryAfter = await getLoginRetryAfter(input.email, client.ip_address);
+    if (retryAfter) {
+      await recordLoginAttempt(input.email, userId, client, 'THROTTLED');
+      throw new LoginThrottledError(retryAfter);
+    }
+
+    if (existingUser?.locked_until && existingUser.locked_until > new Date()) {
+      await recordLoginAttempt(input.email, userId, client, 'ACCOUNT_LOCKED');
+      throw new LoginThrottledError(existingUser.locked_until);
     }
 
-    const user = users[0];
+    // Unknown, inactive and wrong-password logins all count as failures
+    const isPasswordValid = existingUser !== null
+      && existingUser.is_active
+      && await verifyPassword(input.password, existingUser.password_hash);
 
-    // Check if user is active
-    if (!user.is_active) {
-      return null; // User is inactive
+    if (!existingUser || !isPasswordValid) {
+      await recordFailedLogin(input.email, userId, client, 'INVALID_CREDENTIALS');
+      return null;
     }
 
-    // Verify password
-    const isPasswordValid = verifyPassword(input.password, user.password_hash);
-    
-    if (!isPasswordValid) {
-      return null; // Invalid password
+    let user = existingUser;
+
+    // Transparently upgrade legacy or outdated hashes now that we know the plaintext
+    if (needsRehash(user.password_hash)) {
+      const upgraded = await db.update(usersTable)
+        .set({ password_hash: await hashPassword(input.password) })
+        .where(eq(usersTable.id, user.id))
+        .returning()
+        .execute();
+
+      user = upgraded[0];
     }
 
     // Return user data
@@ -66,6 +62,12 @@ export const authenticateUser = async (input: LoginInput): Promise<User | null>
       role: user.role,
       restaurant_id: user.restaurant_id,
       is_active: user.is_active,
+      email_verified_at: user.email_verified_at,
+      failed_login_attempts: user.failed_login_attempts,
+      locked_until: user.locked_until,
+      custom_role_id: user.custom_role_id,
+      oidc_provider_id: user.oidc_provider_id,
+      oidc_subject: user.oidc_subject,
       created_at: user.created_at,
       updated_at: user.updated_at
     };
@@ -73,4 +75,4 @@ export const authenticateUser = async (input: LoginInput): Promise<User | null>
     console.error('Authentication failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
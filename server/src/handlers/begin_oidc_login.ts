@@ -0,0 +1,58 @@
+import { db } from '../db';
+import { oidcLoginStatesTable, oidcProvidersTable, restaurantsTable } from '../db/schema';
+import { type BeginOidcLoginInput, type OidcAuthorization } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { generateToken, hashToken } from '../lib/tokens';
+import { buildAuthorizationUrl, createPkceVerifier, fetchOidcDiscovery } from '../lib/oidc';
+
+// Users have ten minutes to sign in at the identity provider
+export const OIDC_LOGIN_TTL_MS = 10 * 60 * 1000;
+
+export const beginOidcLogin = async (input: BeginOidcLoginInput): Promise<OidcAuthorization> => {
+  try {
+    const providers = await db.select({ oidc_providers: oidcProvidersTable })
+      .from(oidcProvidersTable)
+      .innerJoin(restaurantsTable, eq(oidcProvidersTable.restaurant_id, restaurantsTable.id))
+      .where(and(
+        eq(oidcProvidersTable.restaurant_id, input.restaurant_id),
+        eq(oidcProvidersTable.is_enabled, true),
+        eq(restaurantsTable.is_active, true)
+      ))
+      .execute();
+
+    if (providers.length === 0) {
+      throw new Error('Single sign-on is not configured for this restaurant');
+    }
+
+    const provider = providers[0].oidc_providers;
+    const discovery = await fetchOidcDiscovery(provider.discovery_url);
+
+    const state = generateToken();
+    const nonce = generateToken();
+    const codeVerifier = createPkceVerifier();
+    const expiresAt = new Date(Date.now() + OIDC_LOGIN_TTL_MS);
+
+    await db.insert(oidcLoginStatesTable)
+      .values({
+        provider_id: provider.id,
+        state_hash: hashToken(state),
+        code_verifier: codeVerifier,
+        nonce,
+        expires_at: expiresAt
+      })
+      .execute();
+
+    return {
+      authorization_url: buildAuthorizationUrl(discovery, {
+        clientId: provider.client_id,
+        state,
+        nonce,
+        codeVerifier
+      }),
+      expires_at: expiresAt
+    };
+  } catch (error) {
+    console.error('OIDC login start failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { userTwoFactorTable, usersTable } from '../db/schema';
+import { type TwoFactorEnrollment } from '../schema';
+import { eq } from 'drizzle-orm';
+import { buildOtpauthUri, generateTotpSecret } from '../lib/totp';
+import { encryptSecret } from '../lib/secrets';
+
+// Name shown next to the account in authenticator apps
+const getIssuer = (): string => {
+  return process.env['TOTP_ISSUER'] || 'RestoManage';
+};
+
+export const beginTwoFactorEnrollment = async (userId: number): Promise<TwoFactorEnrollment> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const existing = await db.select()
+      .from(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    if (existing.length > 0 && existing[0].enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    // Restarting enrollment replaces the pending secret
+    const secret = generateTotpSecret();
+
+    // Only the user's authenticator app gets the secret in the clear
+    await db.insert(userTwoFactorTable)
+      .values({
+        user_id: userId,
+        secret: encryptSecret(secret)
+      })
+      .onConflictDoUpdate({
+        target: userTwoFactorTable.user_id,
+        set: {
+          secret: encryptSecret(secret),
+          last_used_step: null,
+          updated_at: new Date()
+        }
+      })
+      .execute();
+
+    return {
+      secret,
+      otpauth_uri: buildOtpauthUri(secret, users[0].email, getIssuer())
+    };
+  } catch (error) {
+    console.error('Two-factor enrollment failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,151 @@
+import { db } from '../db';
+import { oidcLoginStatesTable, oidcProvidersTable, usersTable } from '../db/schema';
+import { type ClientInfo, type CompleteOidcLoginInput, type LoginResult, type User } from '../schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { generateToken, hashToken } from '../lib/tokens';
+import { hashPassword } from '../lib/password';
+import { exchangeAuthorizationCode, fetchOidcDiscovery, type OidcClaims, verifyIdToken } from '../lib/oidc';
+import { UNKNOWN_CLIENT } from '../lib/login_throttle';
+import { recordAudit } from '../lib/audit';
+import { decryptSecret } from '../lib/secrets';
+import { startLoginSession } from './login_user';
+
+type OidcProviderRecord = typeof oidcProvidersTable.$inferSelect;
+
+// Finds the user behind the identity, linking an existing account of the restaurant by
+// email on first sign-in and provisioning a new one otherwise
+const resolveOidcUser = async (provider: OidcProviderRecord, claims: OidcClaims): Promise<User> => {
+  const linked = await db.select()
+    .from(usersTable)
+    .where(and(
+      eq(usersTable.oidc_provider_id, provider.id),
+      eq(usersTable.oidc_subject, claims.sub)
+    ))
+    .execute();
+
+  if (linked[0]) {
+    // Staff moved to another restaurant no longer sign in through this one's provider
+    if (linked[0].restaurant_id !== provider.restaurant_id) {
+      throw new Error('This account cannot sign in with single sign-on');
+    }
+    return linked[0];
+  }
+
+  const email = claims.email!.toLowerCase();
+  const existing = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.email, email))
+    .execute();
+
+  if (existing[0]) {
+    // Accounts of other restaurants, platform admins and other identities stay out of reach
+    if (existing[0].restaurant_id !== provider.restaurant_id
+      || existing[0].role === 'SUPER_ADMIN'
+      || existing[0].oidc_subject !== null) {
+      throw new Error('This account cannot sign in with single sign-on');
+    }
+    // Only an address the provider vouches for proves the account is the same person's
+    if (claims.email_verified !== true) {
+      throw new Error('Identity provider did not verify the email address of this account');
+    }
+
+    const updated = await db.update(usersTable)
+      .set({
+        oidc_provider_id: provider.id,
+        oidc_subject: claims.sub,
+        email_verified_at: existing[0].email_verified_at ?? new Date(),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, existing[0].id))
+      .returning()
+      .execute();
+
+    return updated[0];
+  }
+
+  // Just-in-time provisioning; the random password keeps the account SSO-only
+  const fallbackName = claims.name?.trim().split(/\s+/) ?? [];
+  const created = await db.insert(usersTable)
+    .values({
+      email,
+      password_hash: await hashPassword(generateToken()),
+      first_name: claims.given_name || fallbackName[0] || email.split('@')[0],
+      last_name: claims.family_name || fallbackName.slice(1).join(' '),
+      role: provider.default_role,
+      restaurant_id: provider.restaurant_id,
+      email_verified_at: claims.email_verified === true ? new Date() : null,
+      oidc_provider_id: provider.id,
+      oidc_subject: claims.sub
+    })
+    .returning()
+    .execute();
+
+  // Nobody is signed in yet, so the new user is recorded as creating themselves
+  await recordAudit({ user: created[0], session: null }, { entityType: 'USER', action: 'CREATE' }, null, created[0]);
+
+  return created[0];
+};
+
+export const completeOidcLogin = async (input: CompleteOidcLoginInput, client: ClientInfo = UNKNOWN_CLIENT): Promise<LoginResult> => {
+  try {
+    // States are single-use so a leaked callback URL cannot be replayed
+    const states = await db.update(oidcLoginStatesTable)
+      .set({ used_at: new Date() })
+      .where(and(
+        eq(oidcLoginStatesTable.state_hash, hashToken(input.state)),
+        isNull(oidcLoginStatesTable.used_at),
+        gt(oidcLoginStatesTable.expires_at, new Date())
+      ))
+      .returning()
+      .execute();
+
+    if (states.length === 0) {
+      throw new Error('Invalid or expired sign-in request');
+    }
+
+    const providers = await db.select()
+      .from(oidcProvidersTable)
+      .where(and(
+        eq(oidcProvidersTable.id, states[0].provider_id),
+        eq(oidcProvidersTable.is_enabled, true)
+      ))
+      .execute();
+
+    if (providers.length === 0) {
+      throw new Error('Single sign-on is not configured for this restaurant');
+    }
+
+    const provider = providers[0];
+    const discovery = await fetchOidcDiscovery(provider.discovery_url);
+
+    const idToken = await exchangeAuthorizationCode(discovery, {
+      clientId: provider.client_id,
+      clientSecret: decryptSecret(provider.client_secret),
+      code: input.code,
+      codeVerifier: states[0].code_verifier
+    });
+
+    const claims = await verifyIdToken(idToken, discovery, {
+      clientId: provider.client_id,
+      nonce: states[0].nonce
+    });
+
+    const domain = claims.email?.split('@')[1]?.toLowerCase();
+    if (!domain || claims.email_verified === false) {
+      throw new Error('Identity provider did not return a verified email address');
+    }
+    if (!provider.allowed_email_domains.includes(domain)) {
+      throw new Error(`Email domain ${domain} is not allowed to sign in`);
+    }
+
+    const user = await resolveOidcUser(provider, claims);
+    if (!user.is_active) {
+      throw new Error('This account is disabled');
+    }
+
+    return startLoginSession(user, client);
+  } catch (error) {
+    console.error('OIDC login failed:', error);
+    throw error;
+  }
+};
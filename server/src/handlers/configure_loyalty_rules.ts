@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { loyaltyRulesTable } from '../db/schema';
+import { type ConfigureLoyaltyRulesInput, type LoyaltyRules } from '../schema';
+import { toLoyaltyRules } from '../lib/loyalty';
+
+// Creates or replaces the restaurant's earn rules. Points already earned are not recalculated.
+export const configureLoyaltyRules = async (input: ConfigureLoyaltyRulesInput): Promise<LoyaltyRules> => {
+  try {
+    const values = {
+      points_per_currency_unit: input.points_per_currency_unit.toFixed(2),
+      points_per_visit: input.points_per_visit,
+      points_expire_after_days: input.points_expire_after_days ?? null,
+      is_enabled: input.is_enabled ?? true
+    };
+
+    const rules = await db.insert(loyaltyRulesTable)
+      .values({ ...values, restaurant_id: input.restaurant_id })
+      .onConflictDoUpdate({
+        target: loyaltyRulesTable.restaurant_id,
+        set: { ...values, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return toLoyaltyRules(rules[0]);
+  } catch (error) {
+    console.error('Loyalty rules configuration failed:', error);
+    throw error;
+  }
+};
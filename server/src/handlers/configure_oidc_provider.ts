@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { oidcProvidersTable } from '../db/schema';
+import { type ConfigureOidcProviderInput, type OidcProvider } from '../schema';
+import { eq } from 'drizzle-orm';
+import { fetchOidcDiscovery } from '../lib/oidc';
+import { encryptSecret } from '../lib/secrets';
+import { getOidcProvider } from './get_oidc_provider';
+
+// Creates or replaces the restaurant's identity provider
+export const configureOidcProvider = async (input: ConfigureOidcProviderInput): Promise<OidcProvider> => {
+  try {
+    const existing = await getOidcProvider(input.restaurant_id);
+
+    if (!existing && !input.client_secret) {
+      throw new Error('A client secret is required');
+    }
+
+    // Fail now rather than on the first staff sign-in
+    try {
+      await fetchOidcDiscovery(input.discovery_url);
+    } catch (error) {
+      throw new Error(`Could not load the OpenID configuration: ${(error as Error).message}`);
+    }
+
+    const values = {
+      discovery_url: input.discovery_url,
+      client_id: input.client_id,
+      allowed_email_domains: [...new Set(input.allowed_email_domains)],
+      default_role: input.default_role ?? 'STAFF',
+      is_enabled: input.is_enabled ?? true
+    };
+
+    if (existing) {
+      await db.update(oidcProvidersTable)
+        .set({
+          ...values,
+          ...(input.client_secret ? { client_secret: encryptSecret(input.client_secret) } : {}),
+          updated_at: new Date()
+        })
+        .where(eq(oidcProvidersTable.id, existing.id))
+        .execute();
+    } else {
+      await db.insert(oidcProvidersTable)
+        .values({
+          ...values,
+          restaurant_id: input.restaurant_id,
+          client_secret: encryptSecret(input.client_secret!)
+        })
+        .execute();
+    }
+
+    return (await getOidcProvider(input.restaurant_id))!;
+  } catch (error) {
+    console.error('OIDC provider configuration failed:', error);
+    throw error;
+  }
+};
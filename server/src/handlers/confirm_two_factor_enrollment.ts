@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { sessionsTable, userTwoFactorTable } from '../db/schema';
+import { type RecoveryCodes, type TwoFactorCodeInput } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { acceptTotpCode, generateRecoveryCodes } from '../lib/two_factor';
+
+export const confirmTwoFactorEnrollment = async (userId: number, input: TwoFactorCodeInput): Promise<RecoveryCodes> => {
+  try {
+    const pending = await db.select()
+      .from(userTwoFactorTable)
+      .where(and(
+        eq(userTwoFactorTable.user_id, userId),
+        isNull(userTwoFactorTable.enabled_at)
+      ))
+      .execute();
+
+    if (pending.length === 0) {
+      throw new Error('No pending two-factor enrollment');
+    }
+
+    // Proves the authenticator app was set up with the secret
+    if (!(await acceptTotpCode(pending[0], input.code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await db.update(userTwoFactorTable)
+      .set({
+        enabled_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(eq(userTwoFactorTable.id, pending[0].id))
+      .execute();
+
+    // Lift the enrollment-only restriction from the user's sessions
+    await db.update(sessionsTable)
+      .set({ two_factor_setup_required: false })
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    return {
+      recovery_codes: await generateRecoveryCodes(userId)
+    };
+  } catch (error) {
+    console.error('Two-factor enrollment confirmation failed:', error);
+    throw error;
+  }
+};
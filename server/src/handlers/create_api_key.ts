@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { apiKeyPermissionsTable, apiKeysTable, permissionsTable } from '../db/schema';
+import { type CreateApiKeyInput, type CreatedApiKey } from '../schema';
+import { inArray } from 'drizzle-orm';
+import { generateToken, hashToken } from '../lib/tokens';
+import { getApiKey } from './get_api_keys';
+
+// Marks API keys in the Authorization header and in leaked-secret scanners
+export const API_KEY_PREFIX = 'rmk_';
+
+// Enough of the key to tell keys apart without weakening it
+const DISPLAYED_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export const createApiKey = async (input: CreateApiKeyInput, createdBy: number | null): Promise<CreatedApiKey> => {
+  try {
+    const names = [...new Set(input.permissions)];
+    const permissions = await db.select()
+      .from(permissionsTable)
+      .where(inArray(permissionsTable.name, names))
+      .execute();
+
+    const unknown = names.filter(name => !permissions.some(permission => permission.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown permission: ${unknown.join(', ')}`);
+    }
+
+    const expiresAt = input.expires_at ?? null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new Error('Expiry must be in the future');
+    }
+
+    const key = `${API_KEY_PREFIX}${generateToken()}`;
+
+    const keyId = await db.transaction(async (tx) => {
+      const keys = await tx.insert(apiKeysTable)
+        .values({
+          restaurant_id: input.restaurant_id,
+          name: input.name,
+          key_prefix: key.slice(0, DISPLAYED_PREFIX_LENGTH),
+          token_hash: hashToken(key),
+          created_by: createdBy,
+          expires_at: expiresAt
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(apiKeyPermissionsTable)
+        .values(permissions.map(permission => ({
+          api_key_id: keys[0].id,
+          permission_id: permission.id
+        })))
+        .execute();
+
+      return keys[0].id;
+    });
+
+    return {
+      api_key: (await getApiKey(keyId))!,
+      key
+    };
+  } catch (error) {
+    console.error('API key creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,86 @@
+import { db } from '../db';
+import { customRolePermissionsTable, customRolesTable, permissionsTable } from '../db/schema';
+import { type CreateCustomRoleInput, type CustomRole } from '../schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { getPermissionNamesByRole } from './get_permissions';
+import { getCustomRole } from './get_custom_roles';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Role names are unique per restaurant, ignoring case
+export const assertCustomRoleNameAvailable = async (restaurantId: number, name: string, excludeId?: number): Promise<void> => {
+  const existing = await db.select({ id: customRolesTable.id })
+    .from(customRolesTable)
+    .where(and(
+      eq(customRolesTable.restaurant_id, restaurantId),
+      sql`lower(${customRolesTable.name}) = lower(${name})`
+    ))
+    .execute();
+
+  if (existing.some(role => role.id !== excludeId)) {
+    throw new Error(`A role named "${name}" already exists`);
+  }
+};
+
+// Replaces the role's grants; every name must exist in the permission catalogue
+export const setCustomRolePermissions = async (tx: Transaction, roleId: number, names: string[]): Promise<void> => {
+  const uniqueNames = [...new Set(names)];
+  const permissions = uniqueNames.length > 0
+    ? await tx.select()
+      .from(permissionsTable)
+      .where(inArray(permissionsTable.name, uniqueNames))
+      .execute()
+    : [];
+
+  const unknown = uniqueNames.filter(name => !permissions.some(permission => permission.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown permission: ${unknown.join(', ')}`);
+  }
+
+  await tx.delete(customRolePermissionsTable)
+    .where(eq(customRolePermissionsTable.custom_role_id, roleId))
+    .execute();
+
+  if (permissions.length > 0) {
+    await tx.insert(customRolePermissionsTable)
+      .values(permissions.map(permission => ({
+        custom_role_id: roleId,
+        permission_id: permission.id
+      })))
+      .execute();
+  }
+};
+
+// Built-in roles are templates: their permissions are copied, never linked
+export const getRequestedPermissions = async (input: Pick<CreateCustomRoleInput, 'permissions' | 'template_role'>): Promise<string[]> => {
+  const templatePermissions = input.template_role ? await getPermissionNamesByRole(input.template_role) : [];
+  return [...new Set([...templatePermissions, ...input.permissions])];
+};
+
+export const createCustomRole = async (input: CreateCustomRoleInput): Promise<CustomRole> => {
+  try {
+    await assertCustomRoleNameAvailable(input.restaurant_id, input.name);
+
+    const permissions = await getRequestedPermissions(input);
+
+    const roleId = await db.transaction(async (tx) => {
+      const roles = await tx.insert(customRolesTable)
+        .values({
+          restaurant_id: input.restaurant_id,
+          name: input.name,
+          description: input.description ?? null
+        })
+        .returning()
+        .execute();
+
+      await setCustomRolePermissions(tx, roles[0].id, permissions);
+
+      return roles[0].id;
+    });
+
+    return (await getCustomRole(roleId))!;
+  } catch (error) {
+    console.error('Custom role creation failed:', error);
+    throw error;
+  }
+};
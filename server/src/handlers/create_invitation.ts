@@ -0,0 +1,76 @@
+import { db } from '../db';
+import { restaurantsTable, staffInvitationsTable, usersTable } from '../db/schema';
+import { type CreateInvitationInput, type StaffInvitation } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { generateToken, hashToken } from '../lib/tokens';
+import { getAppUrl, sendMail } from '../lib/mailer';
+
+// Invitations stay valid for a week
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Email the invitee a link carrying the plaintext token
+export const sendInvitationEmail = async (invitation: StaffInvitation, token: string): Promise<void> => {
+  const restaurants = await db.select()
+    .from(restaurantsTable)
+    .where(eq(restaurantsTable.id, invitation.restaurant_id))
+    .execute();
+
+  const restaurantName = restaurants[0]?.name ?? 'a restaurant';
+
+  await sendMail({
+    to: invitation.email,
+    subject: `You're invited to join ${restaurantName}`,
+    body: `You have been invited to join ${restaurantName} as ${invitation.role.toLowerCase()}.\n\n`
+      + `Open the link below to set your password and activate your account. It expires in 7 days.\n\n`
+      + `${getAppUrl()}/accept-invitation?token=${token}`
+  });
+};
+
+export const createInvitation = async (input: CreateInvitationInput, restaurantId: number, invitedBy: number): Promise<StaffInvitation> => {
+  try {
+    // Existing accounts cannot be invited again
+    const existingUsers = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (existingUsers.length > 0) {
+      throw new Error('A user with this email already exists');
+    }
+
+    const pendingInvitations = await db.select()
+      .from(staffInvitationsTable)
+      .where(and(
+        eq(staffInvitationsTable.restaurant_id, restaurantId),
+        eq(staffInvitationsTable.email, input.email),
+        eq(staffInvitationsTable.status, 'PENDING')
+      ))
+      .execute();
+
+    if (pendingInvitations.length > 0) {
+      throw new Error('A pending invitation already exists for this email');
+    }
+
+    const token = generateToken();
+
+    const result = await db.insert(staffInvitationsTable)
+      .values({
+        restaurant_id: restaurantId,
+        email: input.email,
+        role: input.role,
+        token_hash: hashToken(token),
+        invited_by: invitedBy,
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS)
+      })
+      .returning()
+      .execute();
+
+    const invitation = result[0];
+    await sendInvitationEmail(invitation, token);
+
+    return invitation;
+  } catch (error) {
+    console.error('Invitation creation failed:', error);
+    throw error;
+  }
+};
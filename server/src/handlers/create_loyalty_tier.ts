@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { loyaltyTiersTable } from '../db/schema';
+import { type CreateLoyaltyTierInput, type LoyaltyTier } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { toLoyaltyTier } from './get_loyalty_tiers';
+
+// Customers move into the tier at the next tier evaluation
+export const createLoyaltyTier = async (input: CreateLoyaltyTierInput): Promise<LoyaltyTier> => {
+  try {
+    const existing = await db.select({ id: loyaltyTiersTable.id })
+      .from(loyaltyTiersTable)
+      .where(and(
+        eq(loyaltyTiersTable.restaurant_id, input.restaurant_id),
+        eq(loyaltyTiersTable.rank, input.rank)
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`A loyalty tier with rank ${input.rank} already exists`);
+    }
+
+    const tiers = await db.insert(loyaltyTiersTable)
+      .values({
+        restaurant_id: input.restaurant_id,
+        name: input.name,
+        rank: input.rank,
+        min_lifetime_points: input.min_lifetime_points ?? null,
+        min_total_visits: input.min_total_visits ?? null,
+        min_window_spend: input.min_window_spend == null ? null : input.min_window_spend.toFixed(2),
+        spend_window_days: input.spend_window_days,
+        perks: input.perks ?? []
+      })
+      .returning()
+      .execute();
+
+    return toLoyaltyTier(tiers[0]);
+  } catch (error) {
+    console.error('Loyalty tier creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { rewardsTable } from '../db/schema';
+import { type CreateRewardInput, type Reward } from '../schema';
+
+export const createReward = async (input: CreateRewardInput): Promise<Reward> => {
+  try {
+    if (input.available_from && input.available_until && input.available_from >= input.available_until) {
+      throw new Error('Availability must end after it starts');
+    }
+
+    const rewards = await db.insert(rewardsTable)
+      .values({
+        restaurant_id: input.restaurant_id,
+        name: input.name,
+        description: input.description ?? null,
+        points_cost: input.points_cost,
+        available_from: input.available_from ?? null,
+        available_until: input.available_until ?? null,
+        per_customer_limit: input.per_customer_limit ?? null
+      })
+      .returning()
+      .execute();
+
+    return rewards[0];
+  } catch (error) {
+    console.error('Reward creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { type Session } from '../schema';
+import { generateToken, hashToken, signToken } from '../lib/tokens';
+
+// Sessions last a week unless revoked earlier
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const createSession = async (userId: number, twoFactorSetupRequired: boolean = false): Promise<{ token: string; session: Session }> => {
+  try {
+    const secret = generateToken();
+
+    // Only the hash of the secret is persisted
+    const result = await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        token_hash: hashToken(secret),
+        expires_at: new Date(Date.now() + SESSION_TTL_MS),
+        two_factor_setup_required: twoFactorSetupRequired
+      })
+      .returning()
+      .execute();
+
+    return {
+      token: signToken(secret),
+      session: result[0]
+    };
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+};
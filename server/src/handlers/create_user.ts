@@ -1,13 +1,12 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput, type User } from '../schema';
-import { createHash, randomBytes } from 'crypto';
+import { hashPassword } from '../lib/password';
 
 export const createUser = async (input: CreateUserInput): Promise<User> => {
   try {
-    // Hash the password with salt using Node.js crypto
-    const salt = randomBytes(16).toString('hex');
-    const password_hash = createHash('sha256').update(input.password + salt).digest('hex') + ':' + salt;
+    // Hash the password with the current versioned scheme
+    const password_hash = await hashPassword(input.password);
 
     // Insert user record
     const result = await db.insert(usersTable)
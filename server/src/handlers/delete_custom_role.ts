@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { customRolePermissionsTable, customRolesTable, usersTable } from '../db/schema';
+import { type UserRole } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+// Built-in roles of the staff holding the role, which they fall back to when it is deleted
+export const getCustomRoleHolderRoles = async (roleId: number, restaurantId: number): Promise<UserRole[]> => {
+  try {
+    const holders = await db.selectDistinct({ role: usersTable.role })
+      .from(usersTable)
+      .where(and(
+        eq(usersTable.custom_role_id, roleId),
+        eq(usersTable.restaurant_id, restaurantId)
+      ))
+      .execute();
+
+    return holders.map(holder => holder.role);
+  } catch (error) {
+    console.error('Failed to fetch custom role holders:', error);
+    throw error;
+  }
+};
+
+// Staff holding the role fall back to their built-in role
+export const deleteCustomRole = async (roleId: number, restaurantId: number): Promise<void> => {
+  try {
+    await db.transaction(async (tx) => {
+      const deleted = await tx.delete(customRolesTable)
+        .where(and(
+          eq(customRolesTable.id, roleId),
+          eq(customRolesTable.restaurant_id, restaurantId)
+        ))
+        .returning()
+        .execute();
+
+      if (deleted.length === 0) {
+        throw new Error(`Custom role with id ${roleId} not found`);
+      }
+
+      await tx.delete(customRolePermissionsTable)
+        .where(eq(customRolePermissionsTable.custom_role_id, roleId))
+        .execute();
+
+      await tx.update(usersTable)
+        .set({ custom_role_id: null, updated_at: new Date() })
+        .where(eq(usersTable.custom_role_id, roleId))
+        .execute();
+    });
+  } catch (error) {
+    console.error('Custom role deletion failed:', error);
+    throw error;
+  }
+};
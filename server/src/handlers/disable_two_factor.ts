@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { recoveryCodesTable, userTwoFactorTable, usersTable } from '../db/schema';
+import { type TwoFactorCodeInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getEnabledTwoFactor, isTwoFactorRequiredByPolicy, verifySecondFactor } from '../lib/two_factor';
+
+export const disableTwoFactor = async (userId: number, input: TwoFactorCodeInput): Promise<void> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    if (!(await getEnabledTwoFactor(userId))) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (await isTwoFactorRequiredByPolicy(users[0])) {
+      throw new Error('Two-factor authentication is required by your restaurant');
+    }
+
+    if (!(await verifySecondFactor(userId, input.code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await db.delete(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    await db.delete(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+  } catch (error) {
+    console.error('Disabling two-factor authentication failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { customerDuplicateCandidatesTable } from '../db/schema';
+import { type DuplicateCandidate } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { type LoyaltyActor } from '../lib/loyalty';
+
+// Marks a pair as not the same guest; later scans leave it out of the queue
+export const dismissDuplicateCandidate = async (candidateId: number, restaurantId: number, actor: LoyaltyActor): Promise<DuplicateCandidate> => {
+  try {
+    const dismissed = await db.update(customerDuplicateCandidatesTable)
+      .set({
+        status: 'DISMISSED',
+        reviewed_by: actor.user?.id ?? null,
+        reviewed_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(and(
+        eq(customerDuplicateCandidatesTable.id, candidateId),
+        eq(customerDuplicateCandidatesTable.restaurant_id, restaurantId),
+        eq(customerDuplicateCandidatesTable.status, 'PENDING')
+      ))
+      .returning()
+      .execute();
+
+    if (dismissed.length === 0) {
+      const existing = await db.select({ id: customerDuplicateCandidatesTable.id })
+        .from(customerDuplicateCandidatesTable)
+        .where(and(
+          eq(customerDuplicateCandidatesTable.id, candidateId),
+          eq(customerDuplicateCandidatesTable.restaurant_id, restaurantId)
+        ))
+        .execute();
+
+      throw new Error(existing.length === 0
+        ? 'Duplicate candidate not found or does not belong to this restaurant'
+        : 'Duplicate candidate has already been reviewed');
+    }
+
+    return dismissed[0];
+  } catch (error) {
+    console.error('Duplicate candidate dismissal failed:', error);
+    throw error;
+  }
+};
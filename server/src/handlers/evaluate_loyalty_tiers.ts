@@ -0,0 +1,158 @@
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, loyaltyTierChangesTable, visitsTable } from '../db/schema';
+import { type LoyaltyTier, type LoyaltyTierEvaluation } from '../schema';
+import { and, eq, gt, inArray, isNull, sql, sum, SQL } from 'drizzle-orm';
+import { getLoyaltyTiers } from './get_loyalty_tiers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TierMetrics {
+  lifetimePoints: number;
+  totalVisits: number;
+  spendByWindow: Map<number, number>; // Keyed by window length in days
+}
+
+// A tier without thresholds takes everyone; otherwise meeting any one of them is enough
+const qualifiesFor = (tier: LoyaltyTier, metrics: TierMetrics): boolean => {
+  const thresholds: boolean[] = [];
+  if (tier.min_lifetime_points !== null) {
+    thresholds.push(metrics.lifetimePoints >= tier.min_lifetime_points);
+  }
+  if (tier.min_total_visits !== null) {
+    thresholds.push(metrics.totalVisits >= tier.min_total_visits);
+  }
+  if (tier.min_window_spend !== null) {
+    thresholds.push((metrics.spendByWindow.get(tier.spend_window_days) ?? 0) >= tier.min_window_spend);
+  }
+
+  return thresholds.length === 0 || thresholds.some(Boolean);
+};
+
+// Points earned over the customer's lifetime: earnings and corrections count, while
+// redemptions and expiry do not take anything away
+const getLifetimePoints = async (restaurantId: number): Promise<Map<number, number>> => {
+  const results = await db.select({
+    customer_id: loyaltyLedgerTable.customer_id,
+    points: sum(loyaltyLedgerTable.points).mapWith(Number)
+  })
+    .from(loyaltyLedgerTable)
+    .where(and(
+      eq(loyaltyLedgerTable.restaurant_id, restaurantId),
+      inArray(loyaltyLedgerTable.type, ['EARN', 'ADJUST'])
+    ))
+    .groupBy(loyaltyLedgerTable.customer_id)
+    .execute();
+
+  return new Map(results.map(result => [result.customer_id, result.points]));
+};
+
+// Spend of each customer's non-voided visits within each of the given rolling windows
+const getSpendByWindow = async (restaurantId: number, windows: number[], now: Date): Promise<Map<number, Map<number, number>>> => {
+  const spend = new Map<number, Map<number, number>>();
+  if (windows.length === 0) {
+    return spend;
+  }
+
+  const totals: Record<string, SQL<number>> = {};
+  for (const days of windows) {
+    const since = new Date(now.getTime() - days * DAY_MS);
+    totals[days] = sql`coalesce(sum(${visitsTable.spend}) filter (where ${visitsTable.visited_at} > ${since.toISOString()}::timestamp), 0)`.mapWith(Number);
+  }
+
+  const results = await db.select({ customer_id: visitsTable.customer_id, ...totals })
+    .from(visitsTable)
+    .where(and(
+      eq(visitsTable.restaurant_id, restaurantId),
+      isNull(visitsTable.voided_at),
+      gt(visitsTable.visited_at, new Date(now.getTime() - Math.max(...windows) * DAY_MS))
+    ))
+    .groupBy(visitsTable.customer_id)
+    .execute();
+
+  for (const result of results) {
+    const row = result as Record<string, number>;
+    spend.set(result.customer_id, new Map(windows.map(days => [days, row[days]])));
+  }
+
+  return spend;
+};
+
+// Recomputes every customer's tier from their lifetime points, visits and recent spend,
+// promoting and demoting them and recording each change. Run nightly by nightly.ts.
+export const evaluateLoyaltyTiers = async (restaurantId: number, now: Date = new Date()): Promise<LoyaltyTierEvaluation> => {
+  try {
+    const tiers = await getLoyaltyTiers(restaurantId);
+    const bestFirst = [...tiers].reverse();
+    const ranks = new Map(tiers.map(tier => [tier.id, tier.rank]));
+    const windows = [...new Set(tiers.filter(tier => tier.min_window_spend !== null).map(tier => tier.spend_window_days))];
+
+    const customers = await db.select({
+      id: customersTable.id,
+      loyalty_tier_id: customersTable.loyalty_tier_id,
+      total_visits: customersTable.total_visits
+    })
+      .from(customersTable)
+      .where(eq(customersTable.restaurant_id, restaurantId))
+      .execute();
+
+    const lifetimePoints = await getLifetimePoints(restaurantId);
+    const spend = await getSpendByWindow(restaurantId, windows, now);
+
+    const changes = customers.flatMap((customer) => {
+      const metrics: TierMetrics = {
+        lifetimePoints: lifetimePoints.get(customer.id) ?? 0,
+        totalVisits: customer.total_visits,
+        spendByWindow: spend.get(customer.id) ?? new Map()
+      };
+      const tierId = bestFirst.find(tier => qualifiesFor(tier, metrics))?.id ?? null;
+
+      return tierId === customer.loyalty_tier_id ? [] : [{ customer, tierId }];
+    });
+
+    let promoted = 0;
+    let demoted = 0;
+
+    await db.transaction(async (tx) => {
+      for (const { customer, tierId } of changes) {
+        // Skipped when another evaluation already moved the customer
+        const updated = await tx.update(customersTable)
+          .set({ loyalty_tier_id: tierId, updated_at: now })
+          .where(and(
+            eq(customersTable.id, customer.id),
+            customer.loyalty_tier_id === null
+              ? isNull(customersTable.loyalty_tier_id)
+              : eq(customersTable.loyalty_tier_id, customer.loyalty_tier_id)
+          ))
+          .returning({ id: customersTable.id })
+          .execute();
+
+        if (updated.length === 0) {
+          continue;
+        }
+
+        await tx.insert(loyaltyTierChangesTable)
+          .values({
+            restaurant_id: restaurantId,
+            customer_id: customer.id,
+            from_tier_id: customer.loyalty_tier_id,
+            to_tier_id: tierId,
+            created_at: now
+          })
+          .execute();
+
+        const from = customer.loyalty_tier_id === null ? -Infinity : ranks.get(customer.loyalty_tier_id) ?? -Infinity;
+        const to = tierId === null ? -Infinity : ranks.get(tierId)!;
+        if (to > from) {
+          promoted++;
+        } else {
+          demoted++;
+        }
+      }
+    });
+
+    return { customers: customers.length, promoted, demoted };
+  } catch (error) {
+    console.error('Loyalty tier evaluation failed:', error);
+    throw error;
+  }
+};
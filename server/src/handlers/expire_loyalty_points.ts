@@ -0,0 +1,85 @@
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable } from '../db/schema';
+import { type LoyaltyExpiry } from '../schema';
+import { and, eq, gt, sql, type SQL } from 'drizzle-orm';
+import { appendLoyaltyEntry } from '../lib/loyalty';
+import { getLoyaltyRules } from './get_loyalty_rules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Points are spent oldest first, so whatever was credited before the cutoff and not covered by
+// everything spent, expired or deducted since is past its expiry
+const expirablePoints = (cutoff: Date): SQL<number> => {
+  return sql<number>`(
+    coalesce(sum(${loyaltyLedgerTable.points}) filter (where ${loyaltyLedgerTable.points} > 0 and ${loyaltyLedgerTable.created_at} <= ${cutoff.toISOString()}::timestamp), 0)
+    + coalesce(sum(${loyaltyLedgerTable.points}) filter (where ${loyaltyLedgerTable.points} < 0), 0)
+  )::integer`;
+};
+
+// Expires points older than the restaurant's expiry period. Run daily by nightly.ts; running it
+// more often only expires the same points once.
+export const expireLoyaltyPoints = async (restaurantId: number, now: Date = new Date()): Promise<LoyaltyExpiry> => {
+  try {
+    const rules = await getLoyaltyRules(restaurantId);
+    if (!rules?.is_enabled || rules.points_expire_after_days === null) {
+      return { customers: 0, points: 0 };
+    }
+
+    const cutoff = new Date(now.getTime() - rules.points_expire_after_days * DAY_MS);
+    const expirable = expirablePoints(cutoff);
+
+    const candidates = await db.select({ customer_id: loyaltyLedgerTable.customer_id })
+      .from(loyaltyLedgerTable)
+      .where(eq(loyaltyLedgerTable.restaurant_id, restaurantId))
+      .groupBy(loyaltyLedgerTable.customer_id)
+      .having(gt(expirable, 0))
+      .execute();
+
+    let customers = 0;
+    let points = 0;
+
+    for (const candidate of candidates) {
+      // Recomputed under the customer lock, as points may have been spent in the meantime
+      const expired = await db.transaction(async (tx) => {
+        const locked = await tx.select({ loyalty_points: customersTable.loyalty_points })
+          .from(customersTable)
+          .where(eq(customersTable.id, candidate.customer_id))
+          .for('update')
+          .execute();
+
+        const totals = await tx.select({ expirable })
+          .from(loyaltyLedgerTable)
+          .where(and(
+            eq(loyaltyLedgerTable.restaurant_id, restaurantId),
+            eq(loyaltyLedgerTable.customer_id, candidate.customer_id)
+          ))
+          .execute();
+
+        const amount = Math.min(totals[0]?.expirable ?? 0, locked[0]?.loyalty_points ?? 0);
+        if (amount <= 0) {
+          return 0;
+        }
+
+        await appendLoyaltyEntry(tx, {
+          restaurantId,
+          customerId: candidate.customer_id,
+          type: 'EXPIRE',
+          points: -amount,
+          reason: `Points older than ${rules.points_expire_after_days} days expired`
+        }, null);
+
+        return amount;
+      });
+
+      if (expired > 0) {
+        customers += 1;
+        points += expired;
+      }
+    }
+
+    return { customers, points };
+  } catch (error) {
+    console.error('Loyalty points expiry failed:', error);
+    throw error;
+  }
+};
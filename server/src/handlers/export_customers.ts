@@ -0,0 +1,76 @@
+import { db } from '../db';
+import { customersTable } from '../db/schema';
+import { customerExportColumnSchema, type CustomerExportColumn, type ExportCustomersInput } from '../schema';
+import { and, asc, gt } from 'drizzle-orm';
+import { customerFilterConditions } from './get_customers';
+import { toCsvRow } from '../lib/csv';
+import { toVCard } from '../lib/vcard';
+
+// Rows read per query; the export never holds more than this many customers at once
+const EXPORT_BATCH_SIZE = 500;
+
+const BYTE_ORDER_MARK = '\uFEFF';
+
+type CustomerRecord = typeof customersTable.$inferSelect;
+
+const toCsvValue = (customer: CustomerRecord, column: CustomerExportColumn): string | null => {
+  const value = customer[column];
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value === null ? null : String(value);
+};
+
+// Filtered customers of the restaurant in batches, oldest first
+const readCustomers = async function* (input: ExportCustomersInput): AsyncGenerator<CustomerRecord[]> {
+  const conditions = customerFilterConditions(input);
+  let lastId = 0;
+
+  while (true) {
+    const batch = await db.select()
+      .from(customersTable)
+      .where(and(...conditions, gt(customersTable.id, lastId)))
+      .orderBy(asc(customersTable.id))
+      .limit(EXPORT_BATCH_SIZE)
+      .execute();
+
+    if (batch.length > 0) {
+      yield batch;
+    }
+    if (batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    lastId = batch[batch.length - 1].id;
+  }
+};
+
+// Streams the customers matching the list filters as a file, one chunk per batch, so
+// exporting a large guest list does not load it into memory
+export const exportCustomers = async function* (input: ExportCustomersInput): AsyncGenerator<string> {
+  try {
+    const columns = input.columns ?? customerExportColumnSchema.options;
+
+    if (input.format === 'VCARD') {
+      for await (const batch of readCustomers(input)) {
+        yield batch.map(customer => toVCard({
+          firstName: customer.first_name,
+          lastName: customer.last_name,
+          email: columns.includes('email') ? customer.email : null,
+          phone: columns.includes('phone') ? customer.phone : null,
+          note: columns.includes('notes') ? customer.notes : null
+        })).join('');
+      }
+      return;
+    }
+
+    const excel = input.format === 'EXCEL_CSV';
+    yield (excel ? BYTE_ORDER_MARK : '') + toCsvRow(columns);
+
+    for await (const batch of readCustomers(input)) {
+      yield batch.map(customer => toCsvRow(columns.map(column => toCsvValue(customer, column)), excel)).join('');
+    }
+  } catch (error) {
+    console.error('Customer export failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,179 @@
+import { db } from '../db';
+import { customerDuplicateCandidatesTable, customersTable } from '../db/schema';
+import { type DuplicateMatchReason, type DuplicateScan } from '../schema';
+import { and, eq, isNull, lt, sql } from 'drizzle-orm';
+import { alias, type PgColumn } from 'drizzle-orm/pg-core';
+import { toE164 } from '../lib/phone';
+
+// Pairs scoring below this are too weak to put in front of staff
+const MIN_SCORE = 50;
+const EMAIL_WEIGHT = 60;
+const PHONE_WEIGHT = 60;
+const NAME_WEIGHT = 50; // Scaled by how similar the names are
+
+// Keeps each statement well below Postgres' limit of 65535 bind parameters
+const UPSERT_BATCH_SIZE = 500;
+
+interface PairMatch {
+  customerId: number;
+  duplicateId: number;
+  email: boolean;
+  phone: boolean;
+  nameSimilarity: number; // 0 unless the names are similar enough to count
+}
+
+// Lowercased and without a "+tag", so "Ann.Lee+booking@Mail.com" matches "ann.lee@mail.com"
+const emailKey = (email: string | null): string | null => {
+  const normalized = email?.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+
+  const [local, domain] = normalized.split('@');
+  return domain === undefined ? normalized : `${local.replace(/\+.*$/, '')}@${domain}`;
+};
+
+const fullName = (firstName: PgColumn, lastName: PgColumn) => sql<string>`(${firstName} || ' ' || ${lastName})`;
+
+const scorePair = (match: PairMatch): number => {
+  const score = (match.email ? EMAIL_WEIGHT : 0) + (match.phone ? PHONE_WEIGHT : 0) + NAME_WEIGHT * match.nameSimilarity;
+  return Math.min(100, Math.round(score));
+};
+
+// Scans a restaurant's customers for likely duplicates and refreshes the review queue.
+// Pairs staff already merged or dismissed stay that way; pending pairs that no longer
+// match are dropped from the queue.
+export const findDuplicateCustomers = async (restaurantId: number): Promise<DuplicateScan> => {
+  try {
+    const customers = await db.select({
+      id: customersTable.id,
+      email: customersTable.email,
+      phone: customersTable.phone
+    })
+      .from(customersTable)
+      .where(and(
+        eq(customersTable.restaurant_id, restaurantId),
+        isNull(customersTable.merged_into_id)
+      ))
+      .execute();
+
+    const pairs = new Map<string, PairMatch>();
+    const pairFor = (a: number, b: number): PairMatch => {
+      const [customerId, duplicateId] = a < b ? [a, b] : [b, a];
+      const key = `${customerId}:${duplicateId}`;
+      let pair = pairs.get(key);
+      if (!pair) {
+        pair = { customerId, duplicateId, email: false, phone: false, nameSimilarity: 0 };
+        pairs.set(key, pair);
+      }
+      return pair;
+    };
+
+    // Customers sharing an email or phone number pair up with each other
+    const byEmail = new Map<string, number[]>();
+    const byPhone = new Map<string, number[]>();
+    for (const customer of customers) {
+      const email = emailKey(customer.email);
+      if (email) {
+        byEmail.set(email, [...(byEmail.get(email) ?? []), customer.id]);
+      }
+      const phone = customer.phone ? toE164(customer.phone) : null;
+      if (phone) {
+        byPhone.set(phone, [...(byPhone.get(phone) ?? []), customer.id]);
+      }
+    }
+
+    const groups: [Map<string, number[]>, 'email' | 'phone'][] = [[byEmail, 'email'], [byPhone, 'phone']];
+    for (const [group, field] of groups) {
+      for (const ids of group.values()) {
+        for (let i = 0; i < ids.length; i++) {
+          for (let j = i + 1; j < ids.length; j++) {
+            pairFor(ids[i], ids[j])[field] = true;
+          }
+        }
+      }
+    }
+
+    // % is the pg_trgm similarity operator, which uses the full name trigram index
+    const duplicate = alias(customersTable, 'duplicate');
+    const customerName = fullName(customersTable.first_name, customersTable.last_name);
+    const duplicateName = fullName(duplicate.first_name, duplicate.last_name);
+    const similarNames = await db.select({
+      customer_id: customersTable.id,
+      duplicate_id: duplicate.id,
+      similarity: sql<number>`similarity(${customerName}, ${duplicateName})::real`.mapWith(Number)
+    })
+      .from(customersTable)
+      .innerJoin(duplicate, and(
+        eq(duplicate.restaurant_id, customersTable.restaurant_id),
+        lt(customersTable.id, duplicate.id),
+        sql`${customerName} % ${duplicateName}`
+      ))
+      .where(and(
+        eq(customersTable.restaurant_id, restaurantId),
+        isNull(customersTable.merged_into_id),
+        isNull(duplicate.merged_into_id)
+      ))
+      .execute();
+
+    for (const match of similarNames) {
+      pairFor(match.customer_id, match.duplicate_id).nameSimilarity = match.similarity;
+    }
+
+    const candidates = [...pairs.values()]
+      .map(match => {
+        const reasons: DuplicateMatchReason[] = [];
+        if (match.email) reasons.push('EMAIL');
+        if (match.phone) reasons.push('PHONE');
+        if (match.nameSimilarity > 0) reasons.push('NAME');
+
+        return {
+          restaurant_id: restaurantId,
+          customer_id: match.customerId,
+          duplicate_id: match.duplicateId,
+          score: scorePair(match),
+          reasons
+        };
+      })
+      .filter(candidate => candidate.score >= MIN_SCORE);
+
+    const pending = await db.transaction(async (tx) => {
+      // Every pending pair this scan still finds is stamped with its start; the rest are stale
+      const scannedAt = new Date();
+      let kept = 0;
+      for (let start = 0; start < candidates.length; start += UPSERT_BATCH_SIZE) {
+        // Reviewed pairs keep their status and are not returned
+        const upserted = await tx.insert(customerDuplicateCandidatesTable)
+          .values(candidates.slice(start, start + UPSERT_BATCH_SIZE).map(candidate => ({ ...candidate, updated_at: scannedAt })))
+          .onConflictDoUpdate({
+            target: [customerDuplicateCandidatesTable.customer_id, customerDuplicateCandidatesTable.duplicate_id],
+            set: {
+              score: sql`excluded.score`,
+              reasons: sql`excluded.reasons`,
+              updated_at: scannedAt
+            },
+            setWhere: eq(customerDuplicateCandidatesTable.status, 'PENDING')
+          })
+          .returning({ id: customerDuplicateCandidatesTable.id })
+          .execute();
+
+        kept += upserted.length;
+      }
+
+      await tx.delete(customerDuplicateCandidatesTable)
+        .where(and(
+          eq(customerDuplicateCandidatesTable.restaurant_id, restaurantId),
+          eq(customerDuplicateCandidatesTable.status, 'PENDING'),
+          lt(customerDuplicateCandidatesTable.updated_at, scannedAt)
+        ))
+        .execute();
+
+      return kept;
+    });
+
+    return { customers: customers.length, candidates: pending };
+  } catch (error) {
+    console.error('Duplicate customer scan failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { apiKeyPermissionsTable, apiKeysTable, permissionsTable } from '../db/schema';
+import { type ApiKey } from '../schema';
+import { and, asc, desc, eq, inArray, SQL } from 'drizzle-orm';
+
+// Attaches the sorted permission names and drops the key hash
+export const toApiKeys = async (keys: (typeof apiKeysTable.$inferSelect)[]): Promise<ApiKey[]> => {
+  if (keys.length === 0) {
+    return [];
+  }
+
+  const grants = await db.select({
+    api_key_id: apiKeyPermissionsTable.api_key_id,
+    name: permissionsTable.name
+  })
+    .from(apiKeyPermissionsTable)
+    .innerJoin(permissionsTable, eq(apiKeyPermissionsTable.permission_id, permissionsTable.id))
+    .where(inArray(apiKeyPermissionsTable.api_key_id, keys.map(key => key.id)))
+    .orderBy(asc(permissionsTable.name))
+    .execute();
+
+  return keys.map(({ token_hash, ...key }) => ({
+    ...key,
+    permissions: grants
+      .filter(grant => grant.api_key_id === key.id)
+      .map(grant => grant.name)
+  }));
+};
+
+// Revoked and expired keys are listed too, so the restaurant can see what was cut off
+export const getApiKeysByRestaurant = async (restaurantId: number): Promise<ApiKey[]> => {
+  try {
+    const keys = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.restaurant_id, restaurantId))
+      .orderBy(desc(apiKeysTable.created_at), desc(apiKeysTable.id))
+      .execute();
+
+    return toApiKeys(keys);
+  } catch (error) {
+    console.error('Failed to fetch API keys:', error);
+    throw error;
+  }
+};
+
+export const getApiKey = async (keyId: number, restaurantId?: number): Promise<ApiKey | null> => {
+  try {
+    // Restrict the lookup to the given restaurant when a tenant scope is provided
+    const conditions: SQL<unknown>[] = [eq(apiKeysTable.id, keyId)];
+    if (restaurantId !== undefined) {
+      conditions.push(eq(apiKeysTable.restaurant_id, restaurantId));
+    }
+
+    const keys = await db.select()
+      .from(apiKeysTable)
+      .where(and(...conditions))
+      .execute();
+
+    const [key] = await toApiKeys(keys);
+    return key ?? null;
+  } catch (error) {
+    console.error('Failed to fetch API key:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { auditLogTable } from '../db/schema';
+import { type AuditLogPage, type GetAuditLogInput } from '../schema';
+import { and, desc, eq, gte, lte, SQL } from 'drizzle-orm';
+import { afterCursor, cursorKeySql, toCursorPage } from '../lib/cursor';
+
+// Without a restaurant scope the log covers every tenant (super admins only)
+export const getAuditLog = async (input: GetAuditLogInput, restaurantId?: number): Promise<AuditLogPage> => {
+  try {
+    // Apply pagination defaults
+    const limit = input.limit || 50;
+    const offset = input.cursor ? 0 : input.offset || 0; // Cursors replace offsets
+
+    const conditions: SQL<unknown>[] = [];
+
+    if (restaurantId !== undefined) {
+      conditions.push(eq(auditLogTable.restaurant_id, restaurantId));
+    }
+    if (input.actor_id !== undefined) {
+      conditions.push(eq(auditLogTable.actor_id, input.actor_id));
+    }
+    if (input.impersonator_id !== undefined) {
+      conditions.push(eq(auditLogTable.impersonator_id, input.impersonator_id));
+    }
+    if (input.entity_type !== undefined) {
+      conditions.push(eq(auditLogTable.entity_type, input.entity_type));
+    }
+    if (input.entity_id !== undefined) {
+      conditions.push(eq(auditLogTable.entity_id, input.entity_id));
+    }
+    if (input.action !== undefined) {
+      conditions.push(eq(auditLogTable.action, input.action));
+    }
+    if (input.from !== undefined) {
+      conditions.push(gte(auditLogTable.created_at, input.from));
+    }
+    if (input.to !== undefined) {
+      conditions.push(lte(auditLogTable.created_at, input.to));
+    }
+    if (input.cursor) {
+      conditions.push(afterCursor(auditLogTable.created_at, auditLogTable.id, input.cursor, 'desc'));
+    }
+
+    // One extra row tells whether another page follows
+    const results = await db.select({ row: auditLogTable, cursor_key: cursorKeySql(auditLogTable.created_at) })
+      .from(auditLogTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLogTable.created_at), desc(auditLogTable.id))
+      .limit(limit + 1)
+      .offset(offset)
+      .execute();
+
+    const page = toCursorPage(results, limit);
+    return { entries: page.rows, nextCursor: page.nextCursor };
+  } catch (error) {
+    console.error('Failed to fetch audit log:', error);
+    throw error;
+  }
+};
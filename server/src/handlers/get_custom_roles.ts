@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { customRolePermissionsTable, customRolesTable, permissionsTable } from '../db/schema';
+import { type CustomRole } from '../schema';
+import { and, asc, eq, inArray, SQL } from 'drizzle-orm';
+
+// Attaches the sorted permission names to each role row
+const withPermissions = async (roles: (typeof customRolesTable.$inferSelect)[]): Promise<CustomRole[]> => {
+  if (roles.length === 0) {
+    return [];
+  }
+
+  const grants = await db.select({
+    custom_role_id: customRolePermissionsTable.custom_role_id,
+    name: permissionsTable.name
+  })
+    .from(customRolePermissionsTable)
+    .innerJoin(permissionsTable, eq(customRolePermissionsTable.permission_id, permissionsTable.id))
+    .where(inArray(customRolePermissionsTable.custom_role_id, roles.map(role => role.id)))
+    .orderBy(asc(permissionsTable.name))
+    .execute();
+
+  return roles.map(role => ({
+    ...role,
+    permissions: grants
+      .filter(grant => grant.custom_role_id === role.id)
+      .map(grant => grant.name)
+  }));
+};
+
+export const getCustomRolesByRestaurant = async (restaurantId: number): Promise<CustomRole[]> => {
+  try {
+    const roles = await db.select()
+      .from(customRolesTable)
+      .where(eq(customRolesTable.restaurant_id, restaurantId))
+      .orderBy(asc(customRolesTable.name))
+      .execute();
+
+    return withPermissions(roles);
+  } catch (error) {
+    console.error('Failed to fetch custom roles:', error);
+    throw error;
+  }
+};
+
+export const getCustomRole = async (roleId: number, restaurantId?: number): Promise<CustomRole | null> => {
+  try {
+    // Restrict the lookup to the given restaurant when a tenant scope is provided
+    const conditions: SQL<unknown>[] = [eq(customRolesTable.id, roleId)];
+    if (restaurantId !== undefined) {
+      conditions.push(eq(customRolesTable.restaurant_id, restaurantId));
+    }
+
+    const roles = await db.select()
+      .from(customRolesTable)
+      .where(and(...conditions))
+      .execute();
+
+    const [role] = await withPermissions(roles);
+    return role ?? null;
+  } catch (error) {
+    console.error('Failed to fetch custom role:', error);
+    throw error;
+  }
+};
@@ -1,30 +1,121 @@
 import { db } from '../db';
-import { customersTable } from '../db/schema';
-import { type GetCustomersByRestaurantInput, type Customer } from '../schema';
-import { eq, and, desc } from 'drizzle-orm';
+import { customersTable, loyaltyTiersTable } from '../db/schema';
+import { type GetCustomersByRestaurantInput, type Customer, type CustomerFilters, type CustomerPage } from '../schema';
+import { eq, and, desc, asc, count, gte, lte, ilike, or, sql, SQL } from 'drizzle-orm';
+import { isPhoneLike, normalizedPhoneSql, normalizePhone } from '../lib/phone';
+import { afterCursor, cursorKeySql, toCursorPage } from '../lib/cursor';
 
-export const getCustomersByRestaurant = async (input: GetCustomersByRestaurantInput): Promise<Customer[]> => {
+// Treat the search term literally; % and _ would otherwise act as wildcards
+const toContainsPattern = (term: string): string => {
+  return `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+};
+
+// Matches a partial first, last or full name, email or phone number. Terms that look
+// like a phone number are also compared by their digits, so "555 0100" finds "(555) 010-0".
+const searchCustomers = (term: string): SQL<unknown> => {
+  const pattern = toContainsPattern(term);
+  const conditions = [
+    ilike(customersTable.first_name, pattern),
+    ilike(customersTable.last_name, pattern),
+    ilike(sql`${customersTable.first_name} || ' ' || ${customersTable.last_name}`, pattern),
+    ilike(customersTable.email, pattern),
+    ilike(customersTable.phone, pattern)
+  ];
+
+  if (isPhoneLike(term)) {
+    conditions.push(sql`${normalizedPhoneSql(customersTable.phone)} like ${`%${normalizePhone(term)}%`}`);
+  }
+
+  return or(...conditions)!;
+};
+
+// Conditions for the list filters, scoped to the restaurant
+export const customerFilterConditions = (input: CustomerFilters): SQL<unknown>[] => {
+  const conditions: SQL<unknown>[] = [eq(customersTable.restaurant_id, input.restaurant_id)];
+
+  if (input.search !== undefined) {
+    conditions.push(searchCustomers(input.search));
+  }
+  if (input.is_active !== undefined) {
+    conditions.push(eq(customersTable.is_active, input.is_active));
+  }
+  if (input.min_loyalty_points !== undefined) {
+    conditions.push(gte(customersTable.loyalty_points, input.min_loyalty_points));
+  }
+  if (input.max_loyalty_points !== undefined) {
+    conditions.push(lte(customersTable.loyalty_points, input.max_loyalty_points));
+  }
+  if (input.min_visits !== undefined) {
+    conditions.push(gte(customersTable.total_visits, input.min_visits));
+  }
+  if (input.max_visits !== undefined) {
+    conditions.push(lte(customersTable.total_visits, input.max_visits));
+  }
+  if (input.last_visit_from !== undefined) {
+    conditions.push(gte(customersTable.last_visit_date, input.last_visit_from));
+  }
+  if (input.last_visit_to !== undefined) {
+    conditions.push(lte(customersTable.last_visit_date, input.last_visit_to));
+  }
+
+  return conditions;
+};
+
+export const getCustomersByRestaurant = async (input: GetCustomersByRestaurantInput): Promise<CustomerPage> => {
   try {
     // Apply pagination defaults
     const limit = input.limit || 50;
     const offset = input.offset || 0;
 
-    // Build complete query in one chain
-    const results = await db.select()
-      .from(customersTable)
-      .where(eq(customersTable.restaurant_id, input.restaurant_id))
-      .orderBy(desc(customersTable.created_at))
-      .limit(limit)
-      .offset(offset)
-      .execute();
+    const conditions = customerFilterConditions(input);
+    const where = and(...conditions);
+
+    // Customers without an email, phone or visit go last in either direction; the id
+    // keeps pages stable when the sorted values tie
+    const sortBy = input.sort_by ?? 'created_at';
+    const column = customersTable[sortBy];
+    const direction = input.sort_order ?? 'desc';
+    const orderBy = direction === 'asc'
+      ? [sql`${column} asc nulls last`, asc(customersTable.id)]
+      : [sql`${column} desc nulls last`, desc(customersTable.id)];
+
+    // Cursors continue after the last row seen instead of skipping a number of rows, so
+    // customers added while paging neither shift nor repeat rows. They need the
+    // (created_at, id) ordering.
+    if (input.cursor && sortBy !== 'created_at') {
+      throw new Error('Cursor pagination requires sorting by created_at');
+    }
+    const pageWhere = input.cursor
+      ? and(where, afterCursor(customersTable.created_at, customersTable.id, input.cursor, direction))
+      : where;
+
+    const [results, totals] = await Promise.all([
+      db.select({ row: customersTable, cursor_key: cursorKeySql(customersTable.created_at) })
+        .from(customersTable)
+        .where(pageWhere)
+        .orderBy(...orderBy)
+        .limit(limit + 1)
+        .offset(input.cursor ? 0 : offset)
+        .execute(),
+      db.select({ total: count() })
+        .from(customersTable)
+        .where(where)
+        .execute()
+    ]);
+
+    const page = toCursorPage(results, limit);
 
     // Return customers with proper type conversion
-    return results.map(customer => ({
-      ...customer,
-      created_at: new Date(customer.created_at),
-      updated_at: new Date(customer.updated_at),
-      last_visit_date: customer.last_visit_date ? new Date(customer.last_visit_date) : null
-    }));
+    return {
+      customers: page.rows.map(customer => ({
+        ...customer,
+        created_at: new Date(customer.created_at),
+        updated_at: new Date(customer.updated_at),
+        last_visit_date: customer.last_visit_date ? new Date(customer.last_visit_date) : null
+      })),
+      total: totals[0].total,
+      nextCursor: sortBy === 'created_at' ? page.nextCursor : null
+    };
   } catch (error) {
     console.error('Failed to fetch customers by restaurant:', error);
     throw error;
@@ -33,8 +124,9 @@ export const getCustomersByRestaurant = async (input: GetCustomersByRestaurantIn
 
 export const getCustomer = async (customerId: number, restaurantId: number): Promise<Customer | null> => {
   try {
-    const results = await db.select()
+    const results = await db.select({ customer: customersTable, tier: loyaltyTiersTable })
       .from(customersTable)
+      .leftJoin(loyaltyTiersTable, eq(loyaltyTiersTable.id, customersTable.loyalty_tier_id))
       .where(
         and(
           eq(customersTable.id, customerId),
@@ -47,12 +139,13 @@ export const getCustomer = async (customerId: number, restaurantId: number): Pro
       return null;
     }
 
-    const customer = results[0];
+    const { customer, tier } = results[0];
     return {
       ...customer,
       created_at: new Date(customer.created_at),
       updated_at: new Date(customer.updated_at),
-      last_visit_date: customer.last_visit_date ? new Date(customer.last_visit_date) : null
+      last_visit_date: customer.last_visit_date ? new Date(customer.last_visit_date) : null,
+      loyalty_tier: tier ? { id: tier.id, name: tier.name, rank: tier.rank, perks: tier.perks } : null
     };
   } catch (error) {
     console.error('Failed to fetch customer:', error);
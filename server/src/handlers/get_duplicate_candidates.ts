@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { customerDuplicateCandidatesTable, customersTable } from '../db/schema';
+import { type DuplicateCandidateDetails, type GetDuplicateCandidatesInput } from '../schema';
+import { and, asc, desc, eq, isNull, SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+// The review queue: likeliest duplicates first, each with both customers to compare
+export const getDuplicateCandidates = async (input: GetDuplicateCandidatesInput): Promise<DuplicateCandidateDetails[]> => {
+  try {
+    const status = input.status ?? 'PENDING';
+    const duplicate = alias(customersTable, 'duplicate');
+
+    const conditions: SQL<unknown>[] = [
+      eq(customerDuplicateCandidatesTable.restaurant_id, input.restaurant_id),
+      eq(customerDuplicateCandidatesTable.status, status)
+    ];
+    // A customer merged through another pair has nothing left to merge
+    if (status === 'PENDING') {
+      conditions.push(isNull(customersTable.merged_into_id), isNull(duplicate.merged_into_id));
+    }
+
+    const results = await db.select({
+      candidate: customerDuplicateCandidatesTable,
+      customer: customersTable,
+      duplicate
+    })
+      .from(customerDuplicateCandidatesTable)
+      .innerJoin(customersTable, eq(customersTable.id, customerDuplicateCandidatesTable.customer_id))
+      .innerJoin(duplicate, eq(duplicate.id, customerDuplicateCandidatesTable.duplicate_id))
+      .where(and(...conditions))
+      .orderBy(desc(customerDuplicateCandidatesTable.score), asc(customerDuplicateCandidatesTable.id))
+      .limit(input.limit || 50)
+      .execute();
+
+    return results.map(result => ({
+      ...result.candidate,
+      customer: result.customer,
+      duplicate: result.duplicate
+    }));
+  } catch (error) {
+    console.error('Failed to fetch duplicate candidates:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,99 @@
+import { db } from '../db';
+import { permissionsTable, userPermissionOverridesTable, usersTable } from '../db/schema';
+import { type EffectivePermissions, type User, type UserPermissionOverride } from '../schema';
+import { and, asc, eq, gt, isNull, or, SQL } from 'drizzle-orm';
+import { getPermissionNamesForUser } from './get_permissions';
+
+// Overrides joined with their permission names
+export const selectPermissionOverrides = async (conditions: SQL<unknown>[]): Promise<UserPermissionOverride[]> => {
+  const results = await db.select()
+    .from(userPermissionOverridesTable)
+    .innerJoin(permissionsTable, eq(userPermissionOverridesTable.permission_id, permissionsTable.id))
+    .where(and(...conditions))
+    .orderBy(asc(permissionsTable.name))
+    .execute();
+
+  return results.map(result => ({
+    ...result.user_permission_overrides,
+    permission: result.permissions.name
+  }));
+};
+
+export const getActivePermissionOverrides = async (userId: number): Promise<UserPermissionOverride[]> => {
+  try {
+    // Expired overrides stay on record but no longer apply
+    return await selectPermissionOverrides([
+      eq(userPermissionOverridesTable.user_id, userId),
+      or(
+        isNull(userPermissionOverridesTable.expires_at),
+        gt(userPermissionOverridesTable.expires_at, new Date())
+      )!
+    ]);
+  } catch (error) {
+    console.error('Failed to fetch permission overrides:', error);
+    throw error;
+  }
+};
+
+// Role permissions plus grants, minus denials; a denial beats both the role and a grant
+export const mergePermissionOverrides = (rolePermissions: string[], overrides: Pick<UserPermissionOverride, 'permission' | 'effect'>[]): string[] => {
+  const permissions = new Set(rolePermissions);
+
+  for (const override of overrides) {
+    if (override.effect === 'GRANT') {
+      permissions.add(override.permission);
+    }
+  }
+  for (const override of overrides) {
+    if (override.effect === 'DENY') {
+      permissions.delete(override.permission);
+    }
+  }
+
+  return [...permissions].sort();
+};
+
+export const resolveEffectivePermissionNames = async (user: Pick<User, 'id' | 'role' | 'custom_role_id'>): Promise<string[]> => {
+  const [rolePermissions, overrides] = await Promise.all([
+    getPermissionNamesForUser(user),
+    getActivePermissionOverrides(user.id)
+  ]);
+
+  return mergePermissionOverrides(rolePermissions, overrides);
+};
+
+export const getEffectivePermissions = async (userId: number, restaurantId?: number): Promise<EffectivePermissions> => {
+  try {
+    // Restrict the lookup to the given restaurant when a tenant scope is provided
+    const conditions: SQL<unknown>[] = [eq(usersTable.id, userId)];
+    if (restaurantId !== undefined) {
+      conditions.push(eq(usersTable.restaurant_id, restaurantId));
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(and(...conditions))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const user = users[0];
+    const [rolePermissions, overrides] = await Promise.all([
+      getPermissionNamesForUser(user),
+      getActivePermissionOverrides(user.id)
+    ]);
+
+    return {
+      user_id: user.id,
+      role: user.role,
+      custom_role_id: user.custom_role_id,
+      permissions: mergePermissionOverrides(rolePermissions, overrides),
+      overrides
+    };
+  } catch (error) {
+    console.error('Failed to get effective permissions:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type ImpersonationStatus, type Session } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Null for regular sessions
+export const getImpersonationStatus = async (session: Session): Promise<ImpersonationStatus | null> => {
+  try {
+    if (session.impersonator_id === null) {
+      return null;
+    }
+
+    const impersonators = await db.select({
+      id: usersTable.id,
+      email: usersTable.email,
+      first_name: usersTable.first_name,
+      last_name: usersTable.last_name
+    })
+      .from(usersTable)
+      .where(eq(usersTable.id, session.impersonator_id))
+      .execute();
+
+    if (impersonators.length === 0) {
+      throw new Error(`User with id ${session.impersonator_id} not found`);
+    }
+
+    return {
+      impersonator: impersonators[0],
+      expires_at: session.expires_at
+    };
+  } catch (error) {
+    console.error('Failed to get impersonation status:', error);
+    throw error;
+  }
+};
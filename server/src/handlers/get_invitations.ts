@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { staffInvitationsTable } from '../db/schema';
+import { type StaffInvitation } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+export const getInvitationsByRestaurant = async (restaurantId: number): Promise<StaffInvitation[]> => {
+  try {
+    const results = await db.select()
+      .from(staffInvitationsTable)
+      .where(eq(staffInvitationsTable.restaurant_id, restaurantId))
+      .orderBy(desc(staffInvitationsTable.created_at))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch invitations:', error);
+    throw error;
+  }
+};
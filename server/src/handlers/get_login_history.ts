@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { loginAttemptsTable } from '../db/schema';
+import { type GetLoginHistoryInput, type LoginAttempt } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+const DEFAULT_HISTORY_LIMIT = 20;
+
+// Most recent login attempts against the user's account
+export const getLoginHistory = async (userId: number, input: GetLoginHistoryInput = {}): Promise<LoginAttempt[]> => {
+  try {
+    const results = await db.select()
+      .from(loginAttemptsTable)
+      .where(eq(loginAttemptsTable.user_id, userId))
+      .orderBy(desc(loginAttemptsTable.created_at), desc(loginAttemptsTable.id))
+      .limit(input.limit ?? DEFAULT_HISTORY_LIMIT)
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch login history:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable } from '../db/schema';
+import { type GetLoyaltyLedgerInput, type LoyaltyLedgerPage } from '../schema';
+import { and, desc, eq, SQL } from 'drizzle-orm';
+import { afterCursor, cursorKeySql, toCursorPage } from '../lib/cursor';
+
+// A customer's points history, newest first
+export const getLoyaltyLedger = async (input: GetLoyaltyLedgerInput, restaurantId: number): Promise<LoyaltyLedgerPage> => {
+  try {
+    const customers = await db.select({ id: customersTable.id })
+      .from(customersTable)
+      .where(and(
+        eq(customersTable.id, input.customer_id),
+        eq(customersTable.restaurant_id, restaurantId)
+      ))
+      .execute();
+
+    if (customers.length === 0) {
+      throw new Error('Customer not found or does not belong to this restaurant');
+    }
+
+    const limit = input.limit || 50;
+    const conditions: SQL<unknown>[] = [
+      eq(loyaltyLedgerTable.customer_id, input.customer_id),
+      eq(loyaltyLedgerTable.restaurant_id, restaurantId)
+    ];
+
+    if (input.cursor) {
+      conditions.push(afterCursor(loyaltyLedgerTable.created_at, loyaltyLedgerTable.id, input.cursor, 'desc'));
+    }
+
+    const results = await db.select({ row: loyaltyLedgerTable, cursor_key: cursorKeySql(loyaltyLedgerTable.created_at) })
+      .from(loyaltyLedgerTable)
+      .where(and(...conditions))
+      .orderBy(desc(loyaltyLedgerTable.created_at), desc(loyaltyLedgerTable.id))
+      .limit(limit + 1)
+      .execute();
+
+    const page = toCursorPage(results, limit);
+    return { entries: page.rows, nextCursor: page.nextCursor };
+  } catch (error) {
+    console.error('Failed to fetch loyalty ledger:', error);
+    throw error;
+  }
+};
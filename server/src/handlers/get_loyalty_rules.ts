@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { loyaltyRulesTable } from '../db/schema';
+import { type LoyaltyRules } from '../schema';
+import { eq } from 'drizzle-orm';
+import { toLoyaltyRules } from '../lib/loyalty';
+
+// Null until the restaurant sets up its loyalty programme; no points are earned until then
+export const getLoyaltyRules = async (restaurantId: number): Promise<LoyaltyRules | null> => {
+  try {
+    const rules = await db.select()
+      .from(loyaltyRulesTable)
+      .where(eq(loyaltyRulesTable.restaurant_id, restaurantId))
+      .execute();
+
+    return rules[0] ? toLoyaltyRules(rules[0]) : null;
+  } catch (error) {
+    console.error('Failed to fetch loyalty rules:', error);
+    throw error;
+  }
+};
+
+export const getLoyaltyRulesById = async (rulesId: number): Promise<LoyaltyRules | null> => {
+  try {
+    const rules = await db.select()
+      .from(loyaltyRulesTable)
+      .where(eq(loyaltyRulesTable.id, rulesId))
+      .execute();
+
+    return rules[0] ? toLoyaltyRules(rules[0]) : null;
+  } catch (error) {
+    console.error('Failed to fetch loyalty rules:', error);
+    throw error;
+  }
+};
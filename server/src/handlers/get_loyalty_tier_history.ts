@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { customersTable, loyaltyTierChangesTable } from '../db/schema';
+import { type LoyaltyTierChange } from '../schema';
+import { and, desc, eq } from 'drizzle-orm';
+
+// Promotions and demotions of a customer, most recent first
+export const getLoyaltyTierHistory = async (customerId: number, restaurantId: number): Promise<LoyaltyTierChange[]> => {
+  try {
+    const customers = await db.select({ id: customersTable.id })
+      .from(customersTable)
+      .where(and(
+        eq(customersTable.id, customerId),
+        eq(customersTable.restaurant_id, restaurantId)
+      ))
+      .execute();
+
+    if (customers.length === 0) {
+      throw new Error('Customer not found or does not belong to this restaurant');
+    }
+
+    return await db.select()
+      .from(loyaltyTierChangesTable)
+      .where(eq(loyaltyTierChangesTable.customer_id, customerId))
+      .orderBy(desc(loyaltyTierChangesTable.created_at), desc(loyaltyTierChangesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch loyalty tier history:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { loyaltyTiersTable } from '../db/schema';
+import { type LoyaltyTier } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+// Numeric columns come back from Postgres as strings
+export const toLoyaltyTier = (record: typeof loyaltyTiersTable.$inferSelect): LoyaltyTier => {
+  return {
+    ...record,
+    min_window_spend: record.min_window_spend === null ? null : parseFloat(record.min_window_spend)
+  };
+};
+
+// The restaurant's tiers, lowest rank first
+export const getLoyaltyTiers = async (restaurantId: number): Promise<LoyaltyTier[]> => {
+  try {
+    const tiers = await db.select()
+      .from(loyaltyTiersTable)
+      .where(eq(loyaltyTiersTable.restaurant_id, restaurantId))
+      .orderBy(asc(loyaltyTiersTable.rank))
+      .execute();
+
+    return tiers.map(toLoyaltyTier);
+  } catch (error) {
+    console.error('Failed to fetch loyalty tiers:', error);
+    throw error;
+  }
+};
+
+export const getLoyaltyTierById = async (tierId: number): Promise<LoyaltyTier | null> => {
+  try {
+    const tiers = await db.select()
+      .from(loyaltyTiersTable)
+      .where(eq(loyaltyTiersTable.id, tierId))
+      .execute();
+
+    return tiers[0] ? toLoyaltyTier(tiers[0]) : null;
+  } catch (error) {
+    console.error('Failed to fetch loyalty tier:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { oidcProvidersTable } from '../db/schema';
+import { type OidcProvider } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Drops the client secret, which only the sign-in flow itself needs
+const toOidcProvider = ({ client_secret, ...provider }: typeof oidcProvidersTable.$inferSelect): OidcProvider => provider;
+
+export const getOidcProvider = async (restaurantId: number): Promise<OidcProvider | null> => {
+  try {
+    const providers = await db.select()
+      .from(oidcProvidersTable)
+      .where(eq(oidcProvidersTable.restaurant_id, restaurantId))
+      .execute();
+
+    return providers[0] ? toOidcProvider(providers[0]) : null;
+  } catch (error) {
+    console.error('Failed to fetch OIDC provider:', error);
+    throw error;
+  }
+};
+
+export const getOidcProviderById = async (providerId: number): Promise<OidcProvider | null> => {
+  try {
+    const providers = await db.select()
+      .from(oidcProvidersTable)
+      .where(eq(oidcProvidersTable.id, providerId))
+      .execute();
+
+    return providers[0] ? toOidcProvider(providers[0]) : null;
+  } catch (error) {
+    console.error('Failed to fetch OIDC provider:', error);
+    throw error;
+  }
+};
@@ -1,6 +1,6 @@
 import { db } from '../db';
-import { permissionsTable, rolePermissionsTable } from '../db/schema';
-import { type Permission, type RolePermission, type UserRole } from '../schema';
+import { customRolePermissionsTable, permissionsTable, rolePermissionsTable } from '../db/schema';
+import { type Permission, type RolePermission, type User, type UserRole } from '../schema';
 import { eq, and } from 'drizzle-orm';
 
 export const getPermissionsByRole = async (role: UserRole): Promise<Permission[]> => {
@@ -44,4 +44,58 @@ export const getRolePermissions = async (): Promise<RolePermission[]> => {
     console.error('Failed to get role permissions:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+export const getRolePermission = async (role: UserRole, permissionId: number): Promise<RolePermission | null> => {
+  try {
+    const results = await db.select()
+      .from(rolePermissionsTable)
+      .where(and(
+        eq(rolePermissionsTable.role, role),
+        eq(rolePermissionsTable.permission_id, permissionId)
+      ))
+      .execute();
+
+    return results[0] ?? null;
+  } catch (error) {
+    console.error('Failed to get role permission:', error);
+    throw error;
+  }
+};
+
+export const getPermissionNamesByRole = async (role: UserRole): Promise<string[]> => {
+  try {
+    // Only the names are needed for authorization checks
+    const results = await db.select({ name: permissionsTable.name })
+      .from(rolePermissionsTable)
+      .innerJoin(permissionsTable, eq(rolePermissionsTable.permission_id, permissionsTable.id))
+      .where(eq(rolePermissionsTable.role, role))
+      .execute();
+
+    return results.map(result => result.name);
+  } catch (error) {
+    console.error('Failed to get permission names by role:', error);
+    throw error;
+  }
+};
+
+export const getPermissionNamesByCustomRole = async (customRoleId: number): Promise<string[]> => {
+  try {
+    const results = await db.select({ name: permissionsTable.name })
+      .from(customRolePermissionsTable)
+      .innerJoin(permissionsTable, eq(customRolePermissionsTable.permission_id, permissionsTable.id))
+      .where(eq(customRolePermissionsTable.custom_role_id, customRoleId))
+      .execute();
+
+    return results.map(result => result.name);
+  } catch (error) {
+    console.error('Failed to get permission names by custom role:', error);
+    throw error;
+  }
+};
+
+// A custom role replaces the permissions of the user's built-in role
+export const getPermissionNamesForUser = async (user: Pick<User, 'role' | 'custom_role_id'>): Promise<string[]> => {
+  return user.custom_role_id !== null
+    ? getPermissionNamesByCustomRole(user.custom_role_id)
+    : getPermissionNamesByRole(user.role);
+};
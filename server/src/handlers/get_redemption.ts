@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { customersTable, rewardRedemptionsTable, rewardsTable } from '../db/schema';
+import { type RedemptionDetails } from '../schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { normalizeRedemptionCode } from '../lib/redemption_codes';
+
+// Lets staff check a code before handing the reward over, without using it up
+export const getRedemptionByCode = async (code: string, restaurantId: number): Promise<RedemptionDetails | null> => {
+  try {
+    const results = await db.select({
+      redemption: rewardRedemptionsTable,
+      reward_name: rewardsTable.name,
+      customer_name: sql<string>`${customersTable.first_name} || ' ' || ${customersTable.last_name}`
+    })
+      .from(rewardRedemptionsTable)
+      .innerJoin(rewardsTable, eq(rewardsTable.id, rewardRedemptionsTable.reward_id))
+      .innerJoin(customersTable, eq(customersTable.id, rewardRedemptionsTable.customer_id))
+      .where(and(
+        eq(rewardRedemptionsTable.restaurant_id, restaurantId),
+        eq(rewardRedemptionsTable.code, normalizeRedemptionCode(code))
+      ))
+      .execute();
+
+    const result = results[0];
+    return result ? { ...result.redemption, reward_name: result.reward_name, customer_name: result.customer_name } : null;
+  } catch (error) {
+    console.error('Failed to fetch redemption:', error);
+    throw error;
+  }
+};
@@ -36,6 +36,7 @@ export const getRestaurantByUserId = async (userId: number): Promise<Restaurant
       address: restaurantsTable.address,
       logo_url: restaurantsTable.logo_url,
       brand_color: restaurantsTable.brand_color,
+      require_two_factor: restaurantsTable.require_two_factor,
       is_active: restaurantsTable.is_active,
       created_at: restaurantsTable.created_at,
       updated_at: restaurantsTable.updated_at
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { rewardsTable } from '../db/schema';
+import { type GetRewardsInput, type Reward } from '../schema';
+import { and, asc, eq, gt, isNull, lte, or, SQL } from 'drizzle-orm';
+
+// Whether customers can redeem the reward at the given moment
+export const isRewardAvailable = (reward: Reward, at: Date = new Date()): boolean => {
+  return reward.is_active
+    && (reward.available_from === null || reward.available_from <= at)
+    && (reward.available_until === null || reward.available_until > at);
+};
+
+// The catalogue, cheapest first
+export const getRewards = async (input: GetRewardsInput): Promise<Reward[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [eq(rewardsTable.restaurant_id, input.restaurant_id)];
+    if (input.available_only) {
+      const now = new Date();
+      conditions.push(
+        eq(rewardsTable.is_active, true),
+        or(isNull(rewardsTable.available_from), lte(rewardsTable.available_from, now))!,
+        or(isNull(rewardsTable.available_until), gt(rewardsTable.available_until, now))!
+      );
+    }
+
+    return await db.select()
+      .from(rewardsTable)
+      .where(and(...conditions))
+      .orderBy(asc(rewardsTable.points_cost), asc(rewardsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch rewards:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type Session, type User } from '../schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { hashToken, verifySignedToken } from '../lib/tokens';
+
+export const getSessionByToken = async (token: string): Promise<{ session: Session; user: User } | null> => {
+  try {
+    // Reject forged or malformed tokens without a database round trip
+    const secret = verifySignedToken(token);
+    if (!secret) {
+      return null;
+    }
+
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.token_hash, hashToken(secret)),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date()),
+        eq(usersTable.is_active, true)
+      ))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return {
+      session: results[0].sessions,
+      user: results[0].users
+    };
+  } catch (error) {
+    console.error('Failed to resolve session:', error);
+    throw error;
+  }
+};
@@ -1,9 +1,10 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
-import { type GetStaffByRestaurantInput, type User } from '../schema';
-import { eq, and, ne, SQL } from 'drizzle-orm';
+import { type GetStaffByRestaurantInput, type StaffPage, type User } from '../schema';
+import { eq, and, asc, ne, SQL } from 'drizzle-orm';
+import { afterCursor, cursorKeySql, toCursorPage } from '../lib/cursor';
 
-export const getStaffByRestaurant = async (input: GetStaffByRestaurantInput): Promise<User[]> => {
+export const getStaffByRestaurant = async (input: GetStaffByRestaurantInput): Promise<StaffPage> => {
   try {
     // Build conditions array for filtering
     const conditions: SQL<unknown>[] = [];
@@ -14,20 +15,27 @@ export const getStaffByRestaurant = async (input: GetStaffByRestaurantInput): Pr
     // Exclude super admins (they don't belong to restaurants)
     conditions.push(ne(usersTable.role, 'SUPER_ADMIN'));
 
+    // Continue after the last staff member of the previous page, if any
+    if (input.cursor) {
+      conditions.push(afterCursor(usersTable.created_at, usersTable.id, input.cursor, 'asc'));
+    }
+
     // Apply pagination parameters
     const limit = input.limit || 50; // Default limit
-    const offset = input.offset || 0; // Default offset
+    const offset = input.cursor ? 0 : input.offset || 0; // Cursors replace offsets
 
-    // Build and execute query in one go
-    const results = await db.select()
+    // Longest-serving staff first; one extra row tells whether another page follows
+    const results = await db.select({ row: usersTable, cursor_key: cursorKeySql(usersTable.created_at) })
       .from(usersTable)
       .where(and(...conditions))
-      .limit(limit)
+      .orderBy(asc(usersTable.created_at), asc(usersTable.id))
+      .limit(limit + 1)
       .offset(offset)
       .execute();
 
     // Return the results (no numeric conversions needed for this table)
-    return results;
+    const page = toCursorPage(results, limit);
+    return { staff: page.rows, nextCursor: page.nextCursor };
   } catch (error) {
     console.error('Failed to fetch staff by restaurant:', error);
     throw error;
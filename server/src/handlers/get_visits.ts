@@ -0,0 +1,77 @@
+import { db } from '../db';
+import { customersTable, visitsTable } from '../db/schema';
+import { type GetCustomerVisitsInput, type Visit, type VisitPage } from '../schema';
+import { and, desc, eq, isNull, SQL } from 'drizzle-orm';
+import { afterCursor, cursorKeySql, toCursorPage } from '../lib/cursor';
+
+// Numeric columns come back from Postgres as strings
+export const toVisit = (record: typeof visitsTable.$inferSelect): Visit => {
+  return {
+    ...record,
+    spend: record.spend === null ? null : parseFloat(record.spend)
+  };
+};
+
+export const getVisit = async (visitId: number, restaurantId?: number): Promise<Visit | null> => {
+  try {
+    // Restrict the lookup to the given restaurant when a tenant scope is provided
+    const conditions: SQL<unknown>[] = [eq(visitsTable.id, visitId)];
+    if (restaurantId !== undefined) {
+      conditions.push(eq(visitsTable.restaurant_id, restaurantId));
+    }
+
+    const results = await db.select()
+      .from(visitsTable)
+      .where(and(...conditions))
+      .execute();
+
+    return results[0] ? toVisit(results[0]) : null;
+  } catch (error) {
+    console.error('Failed to fetch visit:', error);
+    throw error;
+  }
+};
+
+// Visit history of a customer, most recent first
+export const getCustomerVisits = async (input: GetCustomerVisitsInput, restaurantId: number): Promise<VisitPage> => {
+  try {
+    const customers = await db.select({ id: customersTable.id })
+      .from(customersTable)
+      .where(and(
+        eq(customersTable.id, input.customer_id),
+        eq(customersTable.restaurant_id, restaurantId)
+      ))
+      .execute();
+
+    if (customers.length === 0) {
+      throw new Error('Customer not found or does not belong to this restaurant');
+    }
+
+    const limit = input.limit || 50;
+    const conditions: SQL<unknown>[] = [
+      eq(visitsTable.customer_id, input.customer_id),
+      eq(visitsTable.restaurant_id, restaurantId)
+    ];
+
+    if (!input.include_voided) {
+      conditions.push(isNull(visitsTable.voided_at));
+    }
+    // Visits page by when they happened rather than when they were recorded
+    if (input.cursor) {
+      conditions.push(afterCursor(visitsTable.visited_at, visitsTable.id, input.cursor, 'desc'));
+    }
+
+    const results = await db.select({ row: visitsTable, cursor_key: cursorKeySql(visitsTable.visited_at) })
+      .from(visitsTable)
+      .where(and(...conditions))
+      .orderBy(desc(visitsTable.visited_at), desc(visitsTable.id))
+      .limit(limit + 1)
+      .execute();
+
+    const page = toCursorPage(results, limit);
+    return { visits: page.rows.map(toVisit), nextCursor: page.nextCursor };
+  } catch (error) {
+    console.error('Failed to fetch customer visits:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { permissionsTable, rolePermissionsTable } from '../db/schema';
+import { type RolePermission, type RolePermissionInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getRolePermission } from './get_permissions';
+
+export const grantRolePermission = async (input: RolePermissionInput): Promise<RolePermission> => {
+  try {
+    const permissions = await db.select()
+      .from(permissionsTable)
+      .where(eq(permissionsTable.id, input.permission_id))
+      .execute();
+
+    if (permissions.length === 0) {
+      throw new Error(`Permission with id ${input.permission_id} not found`);
+    }
+
+    if (await getRolePermission(input.role, input.permission_id)) {
+      throw new Error(`${input.role} already has permission ${permissions[0].name}`);
+    }
+
+    const result = await db.insert(rolePermissionsTable)
+      .values({
+        role: input.role,
+        permission_id: input.permission_id
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Role permission grant failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,188 @@
+import { db } from '../db';
+import { customersTable } from '../db/schema';
+import {
+  createCustomerInputSchema,
+  type CreateCustomerInput,
+  type CustomerImportReport,
+  type CustomerImportRowError,
+  type ImportCustomersInput
+} from '../schema';
+import { eq } from 'drizzle-orm';
+import { parseCsv } from '../lib/csv';
+import { normalizePhone } from '../lib/phone';
+import { type AuditActor, recordCreations } from '../lib/audit';
+
+const MAX_IMPORT_ROWS = 10000;
+const INSERT_BATCH_SIZE = 500;
+
+type MappedField = keyof ImportCustomersInput['mapping'];
+
+// Where each customer found so far came from, to point duplicates at it
+interface DuplicateIndex {
+  emails: Map<string, string>;
+  phones: Map<string, string>;
+}
+
+const emailKey = (email: string | null | undefined): string | null => {
+  return email ? email.trim().toLowerCase() : null;
+};
+
+const phoneKey = (phone: string | null | undefined): string | null => {
+  const digits = phone ? normalizePhone(phone) : '';
+  return digits === '' ? null : digits;
+};
+
+// Column position of every mapped field, matching header names case-insensitively
+const resolveColumns = (header: string[], mapping: ImportCustomersInput['mapping']): Map<MappedField, number> => {
+  const names = header.map(name => name.trim().toLowerCase());
+  const columns = new Map<MappedField, number>();
+
+  for (const [field, column] of Object.entries(mapping) as [MappedField, string | undefined][]) {
+    if (column === undefined) {
+      continue;
+    }
+
+    const index = names.indexOf(column.trim().toLowerCase());
+    if (index === -1) {
+      throw new Error(`Column "${column}" not found in the CSV header`);
+    }
+    columns.set(field, index);
+  }
+
+  return columns;
+};
+
+// Finds a match among existing customers or earlier rows; email is checked before phone
+const findDuplicate = (customer: CreateCustomerInput, index: DuplicateIndex): { field: 'email' | 'phone'; of: string } | null => {
+  const email = emailKey(customer.email);
+  if (email && index.emails.has(email)) {
+    return { field: 'email', of: index.emails.get(email)! };
+  }
+
+  const phone = phoneKey(customer.phone);
+  if (phone && index.phones.has(phone)) {
+    return { field: 'phone', of: index.phones.get(phone)! };
+  }
+
+  return null;
+};
+
+// Creates customers from a CSV export. Every row is validated like createCustomer input and
+// rows matching an existing customer or an earlier row by email or phone are skipped. Either
+// all valid rows are imported along with their audit entries or, when the import fails, none are.
+export const importCustomers = async (input: ImportCustomersInput, actor: AuditActor | null): Promise<CustomerImportReport> => {
+  try {
+    const [header, ...records] = parseCsv(input.csv, input.delimiter);
+    if (!header) {
+      throw new Error('CSV has no header row');
+    }
+
+    const columns = resolveColumns(header, input.mapping);
+    const rows = records
+      .map((cells, index) => ({ number: index + 2, cells }))
+      .filter(row => row.cells.some(cell => cell.trim() !== ''));
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`CSV has ${rows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`);
+    }
+
+    const existing = await db.select({ id: customersTable.id, email: customersTable.email, phone: customersTable.phone })
+      .from(customersTable)
+      .where(eq(customersTable.restaurant_id, input.restaurant_id))
+      .execute();
+
+    const index: DuplicateIndex = { emails: new Map(), phones: new Map() };
+    for (const customer of existing) {
+      const email = emailKey(customer.email);
+      const phone = phoneKey(customer.phone);
+      if (email && !index.emails.has(email)) {
+        index.emails.set(email, `existing customer ${customer.id}`);
+      }
+      if (phone && !index.phones.has(phone)) {
+        index.phones.set(phone, `existing customer ${customer.id}`);
+      }
+    }
+
+    const errors: CustomerImportRowError[] = [];
+    const accepted: CreateCustomerInput[] = [];
+    let duplicates = 0;
+    let failed = 0;
+
+    for (const row of rows) {
+      if (row.cells.length > header.length) {
+        errors.push({ row: row.number, field: null, message: `Row has ${row.cells.length} columns but the header has ${header.length}` });
+        failed++;
+        continue;
+      }
+
+      // Blank optional cells mean the guest has no such detail
+      const values: Record<string, string | null> = {};
+      for (const [field, column] of columns) {
+        const value = (row.cells[column] ?? '').trim();
+        values[field] = value === '' && field !== 'first_name' && field !== 'last_name' ? null : value;
+      }
+
+      const parsed = createCustomerInputSchema.safeParse({ ...values, restaurant_id: input.restaurant_id });
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          errors.push({ row: row.number, field: issue.path.length > 0 ? String(issue.path[0]) : null, message: issue.message });
+        }
+        failed++;
+        continue;
+      }
+
+      const duplicate = findDuplicate(parsed.data, index);
+      if (duplicate) {
+        errors.push({ row: row.number, field: duplicate.field, message: `Duplicate of ${duplicate.of}` });
+        duplicates++;
+        continue;
+      }
+
+      const email = emailKey(parsed.data.email);
+      const phone = phoneKey(parsed.data.phone);
+      if (email) {
+        index.emails.set(email, `row ${row.number}`);
+      }
+      if (phone) {
+        index.phones.set(phone, `row ${row.number}`);
+      }
+      accepted.push(parsed.data);
+    }
+
+    const report: CustomerImportReport = {
+      dry_run: input.dry_run ?? false,
+      total_rows: rows.length,
+      imported: accepted.length,
+      duplicates,
+      failed,
+      errors
+    };
+
+    if (input.dry_run || accepted.length === 0) {
+      return report;
+    }
+
+    await db.transaction(async (tx) => {
+      for (let start = 0; start < accepted.length; start += INSERT_BATCH_SIZE) {
+        const batch = await tx.insert(customersTable)
+          .values(accepted.slice(start, start + INSERT_BATCH_SIZE).map(customer => ({
+            restaurant_id: customer.restaurant_id,
+            first_name: customer.first_name,
+            last_name: customer.last_name,
+            email: customer.email || null,
+            phone: customer.phone || null,
+            notes: customer.notes || null
+          })))
+          .returning()
+          .execute();
+
+        await recordCreations(tx, actor, 'CUSTOMER', batch);
+      }
+    });
+
+    return report;
+  } catch (error) {
+    console.error('Customer import failed:', error);
+    throw error;
+  }
+};
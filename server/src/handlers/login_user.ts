@@ -0,0 +1,52 @@
+import { type ClientInfo, type LoginInput, type LoginResult, type User } from '../schema';
+import { authenticateUser } from './authenticate_user';
+import { createSession } from './create_session';
+import { issueUserToken } from '../lib/user_tokens';
+import { getEnabledTwoFactor, isTwoFactorRequiredByPolicy } from '../lib/two_factor';
+import { recordSuccessfulLogin, UNKNOWN_CLIENT } from '../lib/login_throttle';
+import { toPublicUser } from '../lib/users';
+
+// Users have five minutes to enter their second factor
+export const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// Finishes a login once the user has proven who they are, by password or single sign-on
+export const startLoginSession = async (user: User, client: ClientInfo): Promise<LoginResult> => {
+  // Enrolled users must complete the second step before the login counts as successful
+  if (await getEnabledTwoFactor(user.id)) {
+    const challenge_token = await issueUserToken(user.id, 'TWO_FACTOR_LOGIN', TWO_FACTOR_CHALLENGE_TTL_MS);
+
+    return {
+      status: 'TWO_FACTOR_REQUIRED',
+      challenge_token,
+      expires_at: new Date(Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS)
+    };
+  }
+
+  // Users the restaurant policy forces into 2FA get a session limited to enrollment
+  const twoFactorSetupRequired = await isTwoFactorRequiredByPolicy(user);
+  const { token, session } = await createSession(user.id, twoFactorSetupRequired);
+  await recordSuccessfulLogin(user.email, user.id, client);
+
+  return {
+    status: 'AUTHENTICATED',
+    token,
+    expires_at: session.expires_at,
+    two_factor_setup_required: twoFactorSetupRequired,
+    user: toPublicUser(user)
+  };
+};
+
+export const loginUser = async (input: LoginInput, client: ClientInfo = UNKNOWN_CLIENT): Promise<LoginResult | null> => {
+  try {
+    const user = await authenticateUser(input, client);
+
+    if (!user) {
+      return null; // Invalid credentials
+    }
+
+    return startLoginSession(user, client);
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+};
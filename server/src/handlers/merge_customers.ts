@@ -0,0 +1,194 @@
+import { db } from '../db';
+import {
+  customerDuplicateCandidatesTable,
+  customerMergesTable,
+  customersTable,
+  type MergedCustomerFields,
+  rewardRedemptionsTable,
+  visitsTable
+} from '../db/schema';
+import { type CustomerMerge, type MergeCustomersInput } from '../schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { appendLoyaltyEntry, type LoyaltyActor } from '../lib/loyalty';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type CustomerRecord = typeof customersTable.$inferSelect;
+
+// Records that follow a customer into the survivor, keyed by the name moved_records uses.
+// Tables gaining a customer_id belong here so merges and undos carry them along.
+export const MERGED_RECORD_TABLES = {
+  visits: visitsTable,
+  reward_redemptions: rewardRedemptionsTable
+};
+
+export type MergedRecordTable = keyof typeof MERGED_RECORD_TABLES;
+
+export const MERGED_RECORD_NAMES = Object.keys(MERGED_RECORD_TABLES) as MergedRecordTable[];
+
+export const toMergedCustomerFields = (customer: CustomerRecord): MergedCustomerFields => {
+  return {
+    email: customer.email,
+    phone: customer.phone,
+    notes: customer.notes,
+    total_visits: customer.total_visits,
+    last_visit_date: customer.last_visit_date?.toISOString() ?? null,
+    is_active: customer.is_active
+  };
+};
+
+// The survivor keeps its own contact details and takes the duplicate's where it has none
+export const combineCustomerFields = (survivor: MergedCustomerFields, merged: MergedCustomerFields): Pick<MergedCustomerFields, 'email' | 'phone' | 'notes'> => {
+  const notes = [survivor.notes, merged.notes].filter((note): note is string => !!note?.trim());
+
+  return {
+    email: survivor.email || merged.email,
+    phone: survivor.phone || merged.phone,
+    notes: notes.length === 0 ? survivor.notes : [...new Set(notes)].join('\n\n')
+  };
+};
+
+// Locks both customers in id order, so concurrent merges of the same pair cannot deadlock
+export const lockCustomers = async (tx: Transaction, ids: number[], restaurantId: number): Promise<Map<number, CustomerRecord>> => {
+  const customers = await tx.select()
+    .from(customersTable)
+    .where(and(
+      inArray(customersTable.id, ids),
+      eq(customersTable.restaurant_id, restaurantId)
+    ))
+    .orderBy(asc(customersTable.id))
+    .for('update')
+    .execute();
+
+  if (customers.length !== ids.length) {
+    throw new Error('Customer not found or does not belong to this restaurant');
+  }
+
+  return new Map(customers.map(customer => [customer.id, customer]));
+};
+
+// Moves the records of one customer onto another; only the given ids when undoing a merge
+export const moveCustomerRecords = async (
+  tx: Transaction,
+  name: MergedRecordTable,
+  fromCustomerId: number,
+  toCustomerId: number,
+  ids?: number[]
+): Promise<number[]> => {
+  if (ids?.length === 0) {
+    return [];
+  }
+
+  const table = MERGED_RECORD_TABLES[name];
+  const moved = await tx.update(table)
+    .set({ customer_id: toCustomerId })
+    .where(and(
+      eq(table.customer_id, fromCustomerId),
+      ...(ids ? [inArray(table.id, ids)] : [])
+    ))
+    .returning({ id: table.id })
+    .execute();
+
+  return moved.map(record => record.id).sort((a, b) => a - b);
+};
+
+// Folds a duplicate into the customer that stays: its visits, redemptions and points move
+// over, notes are combined and missing contact details filled in. The duplicate is kept,
+// deactivated and pointing at the survivor, so the merge can be undone.
+export const mergeCustomers = async (input: MergeCustomersInput, actor: LoyaltyActor): Promise<CustomerMerge> => {
+  try {
+    if (input.survivor_id === input.merged_id) {
+      throw new Error('A customer cannot be merged into itself');
+    }
+
+    return await db.transaction(async (tx) => {
+      const customers = await lockCustomers(tx, [input.survivor_id, input.merged_id], input.restaurant_id);
+      const survivor = customers.get(input.survivor_id)!;
+      const merged = customers.get(input.merged_id)!;
+
+      if (survivor.merged_into_id !== null || merged.merged_into_id !== null) {
+        throw new Error('Customer has already been merged into another customer');
+      }
+
+      const movedRecords: Record<string, number[]> = {};
+      for (const name of MERGED_RECORD_NAMES) {
+        movedRecords[name] = await moveCustomerRecords(tx, name, merged.id, survivor.id);
+      }
+
+      const survivorBefore = toMergedCustomerFields(survivor);
+      const mergedBefore = toMergedCustomerFields(merged);
+      const lastVisits = [survivor.last_visit_date, merged.last_visit_date].filter((date): date is Date => date !== null);
+
+      await tx.update(customersTable)
+        .set({
+          ...combineCustomerFields(survivorBefore, mergedBefore),
+          total_visits: survivor.total_visits + merged.total_visits,
+          last_visit_date: lastVisits.length === 0 ? null : new Date(Math.max(...lastVisits.map(date => date.getTime()))),
+          updated_at: new Date()
+        })
+        .where(eq(customersTable.id, survivor.id))
+        .execute();
+
+      const points = merged.loyalty_points;
+      if (points > 0) {
+        await appendLoyaltyEntry(tx, {
+          restaurantId: input.restaurant_id,
+          customerId: merged.id,
+          type: 'ADJUST',
+          points: -points,
+          reason: `Merged into customer ${survivor.id}`
+        }, actor);
+
+        await appendLoyaltyEntry(tx, {
+          restaurantId: input.restaurant_id,
+          customerId: survivor.id,
+          type: 'ADJUST',
+          points,
+          reason: `Merged from customer ${merged.id}`
+        }, actor);
+      }
+
+      await tx.update(customersTable)
+        .set({
+          merged_into_id: survivor.id,
+          is_active: false,
+          total_visits: 0,
+          last_visit_date: null,
+          updated_at: new Date()
+        })
+        .where(eq(customersTable.id, merged.id))
+        .execute();
+
+      await tx.update(customerDuplicateCandidatesTable)
+        .set({
+          status: 'MERGED',
+          reviewed_by: actor.user?.id ?? null,
+          reviewed_at: new Date(),
+          updated_at: new Date()
+        })
+        .where(and(
+          eq(customerDuplicateCandidatesTable.customer_id, Math.min(survivor.id, merged.id)),
+          eq(customerDuplicateCandidatesTable.duplicate_id, Math.max(survivor.id, merged.id))
+        ))
+        .execute();
+
+      const merges = await tx.insert(customerMergesTable)
+        .values({
+          restaurant_id: input.restaurant_id,
+          survivor_id: survivor.id,
+          merged_id: merged.id,
+          survivor_before: survivorBefore,
+          merged_before: mergedBefore,
+          moved_records: movedRecords,
+          points_transferred: points,
+          merged_by: actor.user?.id ?? null
+        })
+        .returning()
+        .execute();
+
+      return merges[0];
+    });
+  } catch (error) {
+    console.error('Customer merge failed:', error);
+    throw error;
+  }
+};
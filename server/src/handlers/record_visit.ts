@@ -0,0 +1,162 @@
+import { db } from '../db';
+import { customersTable, usersTable, visitsTable } from '../db/schema';
+import { type RecordVisitInput, type Visit } from '../schema';
+import { and, eq, isNull, max, ne, sql } from 'drizzle-orm';
+import { toVisit } from './get_visits';
+import { type LoyaltyActor, syncVisitPoints } from '../lib/loyalty';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Locks the customer row for the rest of the transaction, so concurrent visit changes
+// update the aggregates one after the other instead of overwriting each other
+export const lockVisitCustomer = async (tx: Transaction, customerId: number, restaurantId: number) => {
+  const customers = await tx.select()
+    .from(customersTable)
+    .where(and(
+      eq(customersTable.id, customerId),
+      eq(customersTable.restaurant_id, restaurantId)
+    ))
+    .for('update')
+    .execute();
+
+  if (customers.length === 0) {
+    throw new Error('Customer not found or does not belong to this restaurant');
+  }
+
+  return customers[0];
+};
+
+// Only staff of the restaurant can be credited with serving a visit
+export const assertVisitStaff = async (tx: Transaction, staffId: number, restaurantId: number): Promise<void> => {
+  const staff = await tx.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(and(
+      eq(usersTable.id, staffId),
+      eq(usersTable.restaurant_id, restaurantId),
+      ne(usersTable.role, 'SUPER_ADMIN')
+    ))
+    .execute();
+
+  if (staff.length === 0) {
+    throw new Error(`Staff member with id ${staffId} not found`);
+  }
+};
+
+export const assertNotInFuture = (visitedAt: Date): void => {
+  if (visitedAt.getTime() > Date.now()) {
+    throw new Error('Visit date cannot be in the future');
+  }
+};
+
+// A stored last_visit_date that no counting visit is on predates visit recording, e.g. it was
+// imported. It is kept aside before a recorded visit overwrites it, so voiding that visit can
+// fall back to it.
+const getLegacyLastVisitDate = async (tx: Transaction, customer: typeof customersTable.$inferSelect): Promise<Date | null> => {
+  const stored = customer.last_visit_date;
+  if (!stored || stored.getTime() === customer.legacy_last_visit_date?.getTime()) {
+    return customer.legacy_last_visit_date;
+  }
+
+  const recorded = await tx.select({ id: visitsTable.id })
+    .from(visitsTable)
+    .where(and(
+      eq(visitsTable.customer_id, customer.id),
+      eq(visitsTable.visited_at, stored),
+      isNull(visitsTable.voided_at)
+    ))
+    .limit(1)
+    .execute();
+
+  return recorded.length > 0 ? customer.legacy_last_visit_date : stored;
+};
+
+// Sets last_visit_date to the latest visit that still counts, after a visit that was on
+// previousVisitedAt is voided or moved. Dates from before visit recording are kept when
+// later, both the one set aside by recordVisit and a stored date the visit did not set.
+// Customers whose visit count predates visit recording keep their count too, since only
+// recorded visits are added or removed.
+export const refreshLastVisitDate = async (tx: Transaction, customerId: number, previousVisitedAt: Date): Promise<void> => {
+  const customers = await tx.select({
+    last_visit_date: customersTable.last_visit_date,
+    legacy_last_visit_date: customersTable.legacy_last_visit_date
+  })
+    .from(customersTable)
+    .where(eq(customersTable.id, customerId))
+    .execute();
+
+  const latest = await tx.select({ visited_at: max(visitsTable.visited_at) })
+    .from(visitsTable)
+    .where(and(
+      eq(visitsTable.customer_id, customerId),
+      isNull(visitsTable.voided_at)
+    ))
+    .execute();
+
+  const stored = customers[0]?.last_visit_date ?? null;
+  const dates = [
+    latest[0]?.visited_at ?? null,
+    customers[0]?.legacy_last_visit_date ?? null,
+    stored?.getTime() === previousVisitedAt.getTime() ? null : stored
+  ]
+    .filter((date): date is Date => date !== null);
+
+  await tx.update(customersTable)
+    .set({
+      last_visit_date: dates.length === 0 ? null : new Date(Math.max(...dates.map(date => date.getTime()))),
+      updated_at: new Date()
+    })
+    .where(eq(customersTable.id, customerId))
+    .execute();
+};
+
+// Also credits the points the restaurant's loyalty rules award for the visit
+export const recordVisit = async (input: RecordVisitInput, actor: LoyaltyActor | null): Promise<Visit> => {
+  try {
+    const visitedAt = input.visited_at ?? new Date();
+    assertNotInFuture(visitedAt);
+
+    return await db.transaction(async (tx) => {
+      const customer = await lockVisitCustomer(tx, input.customer_id, input.restaurant_id);
+      if (!customer.is_active) {
+        throw new Error('Cannot record a visit for an inactive customer');
+      }
+      if (input.staff_id != null) {
+        await assertVisitStaff(tx, input.staff_id, input.restaurant_id);
+      }
+      const legacyLastVisitDate = await getLegacyLastVisitDate(tx, customer);
+
+      const visits = await tx.insert(visitsTable)
+        .values({
+          restaurant_id: input.restaurant_id,
+          customer_id: input.customer_id,
+          visited_at: visitedAt,
+          party_size: input.party_size ?? 1,
+          spend: input.spend == null ? null : input.spend.toFixed(2),
+          staff_id: input.staff_id ?? null,
+          table_label: input.table_label ?? null,
+          notes: input.notes ?? null,
+          recorded_by: actor?.user?.id ?? null
+        })
+        .returning()
+        .execute();
+
+      // Visits recorded after the fact must not move last_visit_date backwards
+      await tx.update(customersTable)
+        .set({
+          total_visits: sql`${customersTable.total_visits} + 1`,
+          last_visit_date: sql`greatest(${customersTable.last_visit_date}, ${visitedAt.toISOString()}::timestamp)`,
+          legacy_last_visit_date: legacyLastVisitDate,
+          updated_at: new Date()
+        })
+        .where(eq(customersTable.id, input.customer_id))
+        .execute();
+
+      await syncVisitPoints(tx, visits[0], actor);
+
+      return toVisit(visits[0]);
+    });
+  } catch (error) {
+    console.error('Visit recording failed:', error);
+    throw error;
+  }
+};
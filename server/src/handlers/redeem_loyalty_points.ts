@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { type LoyaltyLedgerEntry, type RedeemLoyaltyPointsInput } from '../schema';
+import { appendLoyaltyEntry, type LoyaltyActor } from '../lib/loyalty';
+
+export const redeemLoyaltyPoints = async (input: RedeemLoyaltyPointsInput, actor: LoyaltyActor): Promise<LoyaltyLedgerEntry> => {
+  try {
+    return await db.transaction(tx => appendLoyaltyEntry(tx, {
+      restaurantId: input.restaurant_id,
+      customerId: input.customer_id,
+      type: 'REDEEM',
+      points: -input.points,
+      reason: input.reason
+    }, actor));
+  } catch (error) {
+    console.error('Loyalty points redemption failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,89 @@
+import { db } from '../db';
+import { customersTable, rewardRedemptionsTable, rewardsTable } from '../db/schema';
+import { type RedeemRewardInput, type RewardRedemption } from '../schema';
+import { and, count, eq, ne } from 'drizzle-orm';
+import { appendLoyaltyEntry, type LoyaltyActor } from '../lib/loyalty';
+import { generateRedemptionCode } from '../lib/redemption_codes';
+import { isRewardAvailable } from './get_rewards';
+
+// Spends the customer's points on a reward and issues the one-time code they hand in to
+// claim it. Voided redemptions do not count towards the reward's per-customer limit.
+export const redeemReward = async (input: RedeemRewardInput, actor: LoyaltyActor): Promise<RewardRedemption> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const rewards = await tx.select()
+        .from(rewardsTable)
+        .where(and(
+          eq(rewardsTable.id, input.reward_id),
+          eq(rewardsTable.restaurant_id, input.restaurant_id)
+        ))
+        .execute();
+
+      if (rewards.length === 0) {
+        throw new Error(`Reward with id ${input.reward_id} not found`);
+      }
+
+      const reward = rewards[0];
+      if (!isRewardAvailable(reward)) {
+        throw new Error('Reward is not available');
+      }
+
+      // Locks the customer, so concurrent redemptions are counted against the limit one at a time
+      const customers = await tx.select()
+        .from(customersTable)
+        .where(and(
+          eq(customersTable.id, input.customer_id),
+          eq(customersTable.restaurant_id, input.restaurant_id)
+        ))
+        .for('update')
+        .execute();
+
+      if (customers.length === 0) {
+        throw new Error('Customer not found or does not belong to this restaurant');
+      }
+      if (!customers[0].is_active) {
+        throw new Error('Cannot redeem rewards for an inactive customer');
+      }
+
+      if (reward.per_customer_limit !== null) {
+        const redeemed = await tx.select({ count: count() })
+          .from(rewardRedemptionsTable)
+          .where(and(
+            eq(rewardRedemptionsTable.reward_id, reward.id),
+            eq(rewardRedemptionsTable.customer_id, input.customer_id),
+            ne(rewardRedemptionsTable.status, 'VOIDED')
+          ))
+          .execute();
+
+        if (redeemed[0].count >= reward.per_customer_limit) {
+          throw new Error(`Reward can only be redeemed ${reward.per_customer_limit} time(s) per customer`);
+        }
+      }
+
+      await appendLoyaltyEntry(tx, {
+        restaurantId: input.restaurant_id,
+        customerId: input.customer_id,
+        type: 'REDEEM',
+        points: -reward.points_cost,
+        reason: `Reward: ${reward.name}`
+      }, actor);
+
+      const redemptions = await tx.insert(rewardRedemptionsTable)
+        .values({
+          restaurant_id: input.restaurant_id,
+          reward_id: reward.id,
+          customer_id: input.customer_id,
+          code: generateRedemptionCode(),
+          points_spent: reward.points_cost,
+          issued_by: actor.user?.id ?? null
+        })
+        .returning()
+        .execute();
+
+      return redemptions[0];
+    });
+  } catch (error) {
+    console.error('Reward redemption failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,24 @@
+import { type RecoveryCodes, type TwoFactorCodeInput } from '../schema';
+import { acceptTotpCode, generateRecoveryCodes, getEnabledTwoFactor } from '../lib/two_factor';
+
+export const regenerateRecoveryCodes = async (userId: number, input: TwoFactorCodeInput): Promise<RecoveryCodes> => {
+  try {
+    const twoFactor = await getEnabledTwoFactor(userId);
+
+    if (!twoFactor) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    // Requires the authenticator itself, a recovery code cannot mint new ones
+    if (!(await acceptTotpCode(twoFactor, input.code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    return {
+      recovery_codes: await generateRecoveryCodes(userId)
+    };
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+};
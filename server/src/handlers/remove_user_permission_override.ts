@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { userPermissionOverridesTable, usersTable } from '../db/schema';
+import { and, eq, SQL } from 'drizzle-orm';
+
+// Returns the user to the permissions of their role for this permission
+export const removeUserPermissionOverride = async (overrideId: number, restaurantId?: number): Promise<void> => {
+  try {
+    // Restrict the removal to users of the given restaurant when a tenant scope is provided
+    const conditions: SQL<unknown>[] = [eq(userPermissionOverridesTable.id, overrideId)];
+    if (restaurantId !== undefined) {
+      conditions.push(eq(usersTable.restaurant_id, restaurantId));
+    }
+
+    const overrides = await db.select({ id: userPermissionOverridesTable.id })
+      .from(userPermissionOverridesTable)
+      .innerJoin(usersTable, eq(userPermissionOverridesTable.user_id, usersTable.id))
+      .where(and(...conditions))
+      .execute();
+
+    if (overrides.length === 0) {
+      throw new Error(`Permission override with id ${overrideId} not found`);
+    }
+
+    await db.delete(userPermissionOverridesTable)
+      .where(eq(userPermissionOverridesTable.id, overrideId))
+      .execute();
+  } catch (error) {
+    console.error('Permission override removal failed:', error);
+    throw error;
+  }
+};
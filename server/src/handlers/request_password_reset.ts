@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type RequestPasswordResetInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { issueUserToken } from '../lib/user_tokens';
+import { getAppUrl, sendMail } from '../lib/mailer';
+
+// Reset links are valid for one hour
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+export const requestPasswordReset = async (input: RequestPasswordResetInput): Promise<void> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(and(
+        eq(usersTable.email, input.email),
+        eq(usersTable.is_active, true)
+      ))
+      .execute();
+
+    // Stay silent for unknown emails so the route cannot be used to probe accounts
+    if (users.length === 0) {
+      return;
+    }
+
+    const user = users[0];
+    const token = await issueUserToken(user.id, 'PASSWORD_RESET', PASSWORD_RESET_TTL_MS);
+
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your password',
+      body: `Hi ${user.first_name},\n\n`
+        + `Use the link below to choose a new password. It expires in one hour.\n\n`
+        + `${getAppUrl()}/reset-password?token=${token}\n\n`
+        + `If you did not request a password reset you can ignore this email.`
+    });
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+};
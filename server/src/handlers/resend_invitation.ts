@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { staffInvitationsTable } from '../db/schema';
+import { type StaffInvitation } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { generateToken, hashToken } from '../lib/tokens';
+import { INVITATION_TTL_MS, sendInvitationEmail } from './create_invitation';
+
+export const resendInvitation = async (invitationId: number, restaurantId: number): Promise<StaffInvitation> => {
+  try {
+    // Rotate the token so links from earlier emails stop working, and restart the expiry
+    const token = generateToken();
+    const now = new Date();
+
+    const result = await db.update(staffInvitationsTable)
+      .set({
+        token_hash: hashToken(token),
+        expires_at: new Date(now.getTime() + INVITATION_TTL_MS),
+        last_sent_at: now,
+        updated_at: now
+      })
+      .where(and(
+        eq(staffInvitationsTable.id, invitationId),
+        eq(staffInvitationsTable.restaurant_id, restaurantId),
+        eq(staffInvitationsTable.status, 'PENDING')
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Pending invitation not found');
+    }
+
+    const invitation = result[0];
+    await sendInvitationEmail(invitation, token);
+
+    return invitation;
+  } catch (error) {
+    console.error('Invitation resend failed:', error);
+    throw error;
+  }
+};
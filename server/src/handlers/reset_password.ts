@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type ResetPasswordInput } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { consumeUserToken } from '../lib/user_tokens';
+import { hashPassword } from '../lib/password';
+
+export const resetPassword = async (input: ResetPasswordInput): Promise<void> => {
+  try {
+    const userToken = await consumeUserToken(input.token, 'PASSWORD_RESET');
+
+    if (!userToken) {
+      throw new Error('Invalid or expired password reset token');
+    }
+
+    await db.update(usersTable)
+      .set({
+        password_hash: await hashPassword(input.password),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userToken.user_id))
+      .execute();
+
+    // Sign the user out everywhere, the old password may have been compromised
+    await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.user_id, userToken.user_id),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .execute();
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+};
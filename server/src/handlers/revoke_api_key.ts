@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { apiKeysTable } from '../db/schema';
+import { type ApiKey } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { getApiKey } from './get_api_keys';
+
+export const revokeApiKey = async (keyId: number, restaurantId: number): Promise<ApiKey> => {
+  try {
+    const result = await db.update(apiKeysTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(apiKeysTable.id, keyId),
+        eq(apiKeysTable.restaurant_id, restaurantId),
+        isNull(apiKeysTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Active API key with id ${keyId} not found`);
+    }
+
+    return (await getApiKey(keyId))!;
+  } catch (error) {
+    console.error('API key revocation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { staffInvitationsTable } from '../db/schema';
+import { type StaffInvitation } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+export const revokeInvitation = async (invitationId: number, restaurantId: number): Promise<StaffInvitation> => {
+  try {
+    const result = await db.update(staffInvitationsTable)
+      .set({
+        status: 'REVOKED',
+        updated_at: new Date()
+      })
+      .where(and(
+        eq(staffInvitationsTable.id, invitationId),
+        eq(staffInvitationsTable.restaurant_id, restaurantId),
+        eq(staffInvitationsTable.status, 'PENDING')
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Pending invitation not found');
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Invitation revocation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { rolePermissionsTable } from '../db/schema';
+import { type RolePermissionInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+export const revokeRolePermission = async (input: RolePermissionInput): Promise<void> => {
+  try {
+    const deleted = await db.delete(rolePermissionsTable)
+      .where(and(
+        eq(rolePermissionsTable.role, input.role),
+        eq(rolePermissionsTable.permission_id, input.permission_id)
+      ))
+      .returning()
+      .execute();
+
+    if (deleted.length === 0) {
+      throw new Error(`${input.role} does not have permission with id ${input.permission_id}`);
+    }
+  } catch (error) {
+    console.error('Role permission revocation failed:', error);
+    throw error;
+  }
+};
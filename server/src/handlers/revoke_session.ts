@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { type Session } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+export const revokeSession = async (sessionId: number): Promise<Session> => {
+  try {
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Active session with id ${sessionId} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,120 @@
+import { db } from '../db';
+import { customersTable } from '../db/schema';
+import { type CustomerSearchResult, type SearchCustomersInput } from '../schema';
+import { and, asc, desc, eq, or, sql, SQL } from 'drizzle-orm';
+import { isPhoneLike, normalizedPhoneSql, normalizePhone } from '../lib/phone';
+
+// Phone searches need a few digits before they stop matching everyone
+const MIN_PHONE_DIGITS = 3;
+
+// Control characters cannot come from the stored text, so they survive HTML escaping
+// as unambiguous highlight markers
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const SHORT_FIELD_HEADLINE = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+const NOTES_HEADLINE = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=20, MinWords=8, MaxFragments=2`;
+
+// These expressions match the search indexes on customers
+const fullName = sql<string>`(${customersTable.first_name} || ' ' || ${customersTable.last_name})`;
+const searchDocument = sql`to_tsvector('simple', ${customersTable.first_name} || ' ' || ${customersTable.last_name} || ' ' || coalesce(${customersTable.email}, '') || ' ' || coalesce(${customersTable.notes}, ''))`;
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+// Returns the escaped fragment with <mark> tags, or undefined when nothing in it matched
+const toHighlight = (headline: string | null): string | undefined => {
+  if (!headline || !headline.includes(HIGHLIGHT_START)) {
+    return undefined;
+  }
+
+  return escapeHtml(headline.trim())
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_STOP).join('</mark>');
+};
+
+// Looks customers up by what the guest tells the host: full-text matches on names, email and
+// notes, trigram similarity for misspellings ("Jon Smyth" finds John Smith) and phone numbers
+// compared by their digits. Results are ranked with the closest match first.
+export const searchCustomers = async (input: SearchCustomersInput): Promise<CustomerSearchResult[]> => {
+  try {
+    const limit = input.limit || 20;
+    const term = input.query;
+    const query = sql`websearch_to_tsquery('simple', ${term})`;
+
+    const digits = normalizePhone(term);
+    const phoneMatch = isPhoneLike(term) && digits.length >= MIN_PHONE_DIGITS
+      ? sql<boolean>`coalesce(${normalizedPhoneSql(customersTable.phone)} like ${`%${digits}%`}, false)`
+      : sql<boolean>`false`;
+
+    // % and <% are the pg_trgm similarity operators, which use the trigram indexes
+    const matches: SQL<unknown>[] = [
+      sql`${searchDocument} @@ ${query}`,
+      sql`${fullName} % ${term}`,
+      sql`${customersTable.first_name} % ${term}`,
+      sql`${customersTable.last_name} % ${term}`,
+      sql`${term} <% ${fullName}`,
+      sql`${customersTable.email} % ${term}`,
+      sql`${term} <% ${customersTable.email}`,
+      sql`${term} <% ${customersTable.notes}`,
+      phoneMatch
+    ];
+
+    const conditions: SQL<unknown>[] = [
+      eq(customersTable.restaurant_id, input.restaurant_id),
+      or(...matches)!
+    ];
+    if (!input.include_inactive) {
+      conditions.push(eq(customersTable.is_active, true));
+    }
+
+    // Literal matches outrank fuzzy ones; a matching phone number is as good as it gets
+    const rank = sql<number>`(
+      ts_rank(${searchDocument}, ${query})
+      + greatest(
+        similarity(${fullName}, ${term}),
+        similarity(${customersTable.first_name}, ${term}),
+        similarity(${customersTable.last_name}, ${term}),
+        word_similarity(${term}, ${fullName}),
+        word_similarity(${term}, coalesce(${customersTable.email}, '')),
+        word_similarity(${term}, coalesce(${customersTable.notes}, '')) * 0.5
+      )
+      + case when ${phoneMatch} then 1 else 0 end
+    )::real`;
+
+    const results = await db.select({
+      customer: customersTable,
+      rank,
+      phone_match: phoneMatch,
+      name_headline: sql<string>`ts_headline('simple', ${fullName}, ${query}, ${SHORT_FIELD_HEADLINE})`,
+      email_headline: sql<string | null>`ts_headline('simple', ${customersTable.email}, ${query}, ${SHORT_FIELD_HEADLINE})`,
+      notes_headline: sql<string | null>`ts_headline('simple', ${customersTable.notes}, ${query}, ${NOTES_HEADLINE})`
+    })
+      .from(customersTable)
+      .where(and(...conditions))
+      .orderBy(desc(rank), asc(customersTable.id))
+      .limit(limit)
+      .execute();
+
+    return results.map(result => ({
+      customer: result.customer,
+      rank: result.rank,
+      highlights: {
+        name: toHighlight(result.name_headline),
+        email: toHighlight(result.email_headline),
+        phone: result.phone_match && result.customer.phone
+          ? `<mark>${escapeHtml(result.customer.phone)}</mark>`
+          : undefined,
+        notes: toHighlight(result.notes_headline)
+      }
+    }));
+  } catch (error) {
+    console.error('Customer search failed:', error);
+    throw error;
+  }
+};
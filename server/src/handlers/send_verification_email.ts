@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { issueUserToken } from '../lib/user_tokens';
+import { getAppUrl, sendMail } from '../lib/mailer';
+
+// Verification links are valid for one day
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const sendVerificationEmail = async (userId: number): Promise<void> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const user = users[0];
+
+    if (user.email_verified_at) {
+      throw new Error('Email address is already verified');
+    }
+
+    const token = await issueUserToken(user.id, 'EMAIL_VERIFICATION', EMAIL_VERIFICATION_TTL_MS, user.email);
+
+    await sendMail({
+      to: user.email,
+      subject: 'Confirm your email address',
+      body: `Hi ${user.first_name},\n\n`
+        + `Please confirm your email address by opening the link below.\n\n`
+        + `${getAppUrl()}/verify-email?token=${token}`
+    });
+  } catch (error) {
+    console.error('Sending verification email failed:', error);
+    throw error;
+  }
+};
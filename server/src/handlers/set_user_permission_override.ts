@@ -0,0 +1,118 @@
+import { db } from '../db';
+import { permissionsTable, userPermissionOverridesTable, usersTable } from '../db/schema';
+import { type SetUserPermissionOverrideInput, type UserPermissionOverride } from '../schema';
+import { and, eq, inArray, SQL } from 'drizzle-orm';
+import { selectPermissionOverrides } from './get_effective_permissions';
+import { CUSTOM_ROLE_ELIGIBLE_ROLES } from './assign_custom_role';
+
+// Restricted to overrides of the given restaurant's users when a tenant scope is provided
+export const getUserPermissionOverride = async (overrideId: number, restaurantId?: number): Promise<UserPermissionOverride | null> => {
+  const conditions: SQL<unknown>[] = [eq(userPermissionOverridesTable.id, overrideId)];
+  if (restaurantId !== undefined) {
+    conditions.push(inArray(
+      userPermissionOverridesTable.user_id,
+      db.select({ id: usersTable.id }).from(usersTable).where(eq(usersTable.restaurant_id, restaurantId))
+    ));
+  }
+
+  const [override] = await selectPermissionOverrides(conditions);
+  return override ?? null;
+};
+
+// A user has at most one override per permission, whether or not it has expired
+export const findUserPermissionOverride = async (userId: number, permission: string): Promise<UserPermissionOverride | null> => {
+  const [override] = await selectPermissionOverrides([
+    eq(userPermissionOverridesTable.user_id, userId),
+    eq(permissionsTable.name, permission)
+  ]);
+  return override ?? null;
+};
+
+// Whether replacing a denial with the input would give the permission back sooner: turning
+// it into a grant, or making it expire where it did not or earlier than it would have
+export const relaxesDenial = (existing: Pick<UserPermissionOverride, 'effect' | 'expires_at'>, input: SetUserPermissionOverrideInput): boolean => {
+  if (existing.effect !== 'DENY') {
+    return false;
+  }
+  if (input.effect === 'GRANT') {
+    return true;
+  }
+
+  const expiresAt = input.expires_at ?? null;
+  return expiresAt !== null && (existing.expires_at === null || expiresAt < existing.expires_at);
+};
+
+// Creates the override, or replaces the effect and expiry of an existing one
+export const setUserPermissionOverride = async (
+  input: SetUserPermissionOverrideInput,
+  createdBy: number | null,
+  restaurantId?: number
+): Promise<UserPermissionOverride> => {
+  try {
+    // Restrict the target to the given restaurant when a tenant scope is provided
+    const conditions: SQL<unknown>[] = [eq(usersTable.id, input.user_id)];
+    if (restaurantId !== undefined) {
+      conditions.push(eq(usersTable.restaurant_id, restaurantId));
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(and(...conditions))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${input.user_id} not found`);
+    }
+
+    // Same rule as custom roles: owners and super admins keep their full built-in permissions
+    if (!CUSTOM_ROLE_ELIGIBLE_ROLES.includes(users[0].role)) {
+      throw new Error('Permission overrides can only be set for managers and staff');
+    }
+
+    const permissions = await db.select()
+      .from(permissionsTable)
+      .where(eq(permissionsTable.name, input.permission))
+      .execute();
+
+    if (permissions.length === 0) {
+      throw new Error(`Unknown permission: ${input.permission}`);
+    }
+
+    const expiresAt = input.expires_at ?? null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new Error('Expiry must be in the future');
+    }
+
+    const existing = await findUserPermissionOverride(input.user_id, input.permission);
+
+    if (existing) {
+      await db.update(userPermissionOverridesTable)
+        .set({
+          effect: input.effect,
+          expires_at: expiresAt,
+          created_by: createdBy,
+          updated_at: new Date()
+        })
+        .where(eq(userPermissionOverridesTable.id, existing.id))
+        .execute();
+
+      return (await getUserPermissionOverride(existing.id))!;
+    }
+
+    const result = await db.insert(userPermissionOverridesTable)
+      .values({
+        user_id: input.user_id,
+        permission_id: permissions[0].id,
+        effect: input.effect,
+        expires_at: expiresAt,
+        created_by: createdBy
+      })
+      .returning()
+      .execute();
+
+    return { ...result[0], permission: input.permission };
+  } catch (error) {
+    console.error('Permission override update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type ImpersonationSession, type Session } from '../schema';
+import { eq } from 'drizzle-orm';
+import { generateToken, hashToken, signToken } from '../lib/tokens';
+import { toPublicUser } from '../lib/users';
+
+// Impersonation is meant for a debugging session, not a working day
+export const IMPERSONATION_TTL_MS = 60 * 60 * 1000;
+
+// Opens a session for the target user that remembers which super admin is behind it
+export const startImpersonation = async (impersonatorId: number, userId: number): Promise<ImpersonationSession & { session: Session }> => {
+  try {
+    if (impersonatorId === userId) {
+      throw new Error('You cannot impersonate yourself');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0 || !users[0].is_active) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const user = users[0];
+
+    // Acting as another super admin would not narrow anything down
+    if (user.role === 'SUPER_ADMIN') {
+      throw new Error('Super admins cannot be impersonated');
+    }
+
+    const secret = generateToken();
+    const result = await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashToken(secret),
+        expires_at: new Date(Date.now() + IMPERSONATION_TTL_MS),
+        impersonator_id: impersonatorId
+      })
+      .returning()
+      .execute();
+
+    return {
+      token: signToken(secret),
+      expires_at: result[0].expires_at,
+      user: toPublicUser(user),
+      session: result[0]
+    };
+  } catch (error) {
+    console.error('Impersonation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,129 @@
+import { db } from '../db';
+import { customerDuplicateCandidatesTable, customerMergesTable, customersTable, visitsTable } from '../db/schema';
+import { type CustomerMerge } from '../schema';
+import { and, eq, isNull, max } from 'drizzle-orm';
+import { appendLoyaltyEntry, type LoyaltyActor } from '../lib/loyalty';
+import { combineCustomerFields, lockCustomers, MERGED_RECORD_NAMES, moveCustomerRecords } from './merge_customers';
+
+// Reverses a merge: the moved records and points go back, the duplicate is restored as it
+// was and the survivor loses what it took over. Contact details and notes the survivor has
+// been given since the merge are kept.
+export const undoCustomerMerge = async (mergeId: number, restaurantId: number, actor: LoyaltyActor): Promise<CustomerMerge> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const merges = await tx.select()
+        .from(customerMergesTable)
+        .where(and(
+          eq(customerMergesTable.id, mergeId),
+          eq(customerMergesTable.restaurant_id, restaurantId)
+        ))
+        .for('update')
+        .execute();
+
+      if (merges.length === 0) {
+        throw new Error('Customer merge not found or does not belong to this restaurant');
+      }
+      if (merges[0].undone_at !== null) {
+        throw new Error('Customer merge has already been undone');
+      }
+
+      const merge = merges[0];
+      const customers = await lockCustomers(tx, [merge.survivor_id, merge.merged_id], restaurantId);
+      const survivor = customers.get(merge.survivor_id)!;
+      // The records have moved on with the survivor; that merge has to be undone first
+      if (survivor.merged_into_id !== null) {
+        throw new Error(`Customer ${survivor.id} has since been merged into customer ${survivor.merged_into_id}`);
+      }
+
+      for (const name of MERGED_RECORD_NAMES) {
+        await moveCustomerRecords(tx, name, merge.survivor_id, merge.merged_id, merge.moved_records[name] ?? []);
+      }
+
+      // Throws when the survivor has spent the points since
+      if (merge.points_transferred > 0) {
+        await appendLoyaltyEntry(tx, {
+          restaurantId,
+          customerId: merge.survivor_id,
+          type: 'ADJUST',
+          points: -merge.points_transferred,
+          reason: `Merge with customer ${merge.merged_id} undone`
+        }, actor);
+
+        await appendLoyaltyEntry(tx, {
+          restaurantId,
+          customerId: merge.merged_id,
+          type: 'ADJUST',
+          points: merge.points_transferred,
+          reason: `Merge into customer ${merge.survivor_id} undone`
+        }, actor);
+      }
+
+      // Visits recorded since the merge count towards the survivor's last visit
+      const visits = await tx.select({ last_visit_date: max(visitsTable.visited_at) })
+        .from(visitsTable)
+        .where(and(
+          eq(visitsTable.customer_id, merge.survivor_id),
+          isNull(visitsTable.voided_at)
+        ))
+        .execute();
+
+      const before = merge.survivor_before;
+      const combined = combineCustomerFields(before, merge.merged_before);
+      const lastVisits = [before.last_visit_date ? new Date(before.last_visit_date) : null, visits[0]?.last_visit_date ?? null]
+        .filter((date): date is Date => date !== null);
+
+      await tx.update(customersTable)
+        .set({
+          email: survivor.email === combined.email ? before.email : survivor.email,
+          phone: survivor.phone === combined.phone ? before.phone : survivor.phone,
+          notes: survivor.notes === combined.notes ? before.notes : survivor.notes,
+          total_visits: Math.max(0, survivor.total_visits - merge.merged_before.total_visits),
+          last_visit_date: lastVisits.length === 0 ? null : new Date(Math.max(...lastVisits.map(date => date.getTime()))),
+          updated_at: new Date()
+        })
+        .where(eq(customersTable.id, merge.survivor_id))
+        .execute();
+
+      const merged = merge.merged_before;
+      await tx.update(customersTable)
+        .set({
+          merged_into_id: null,
+          is_active: merged.is_active,
+          total_visits: merged.total_visits,
+          last_visit_date: merged.last_visit_date ? new Date(merged.last_visit_date) : null,
+          updated_at: new Date()
+        })
+        .where(eq(customersTable.id, merge.merged_id))
+        .execute();
+
+      // The pair goes back in the review queue
+      await tx.update(customerDuplicateCandidatesTable)
+        .set({
+          status: 'PENDING',
+          reviewed_by: null,
+          reviewed_at: null,
+          updated_at: new Date()
+        })
+        .where(and(
+          eq(customerDuplicateCandidatesTable.customer_id, Math.min(merge.survivor_id, merge.merged_id)),
+          eq(customerDuplicateCandidatesTable.duplicate_id, Math.max(merge.survivor_id, merge.merged_id)),
+          eq(customerDuplicateCandidatesTable.status, 'MERGED')
+        ))
+        .execute();
+
+      const undone = await tx.update(customerMergesTable)
+        .set({
+          undone_at: new Date(),
+          undone_by: actor.user?.id ?? null
+        })
+        .where(eq(customerMergesTable.id, merge.id))
+        .returning()
+        .execute();
+
+      return undone[0];
+    });
+  } catch (error) {
+    console.error('Customer merge undo failed:', error);
+    throw error;
+  }
+};
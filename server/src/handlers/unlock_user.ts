@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { eq, and, SQL } from 'drizzle-orm';
+
+// Lifts a lockout early and clears the failure counter
+export const unlockUser = async (userId: number, restaurantId?: number): Promise<User> => {
+  try {
+    // Restrict the unlock to the given restaurant when a tenant scope is provided
+    const conditions: SQL<unknown>[] = [eq(usersTable.id, userId)];
+    if (restaurantId !== undefined) {
+      conditions.push(eq(usersTable.restaurant_id, restaurantId));
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        failed_login_attempts: 0,
+        locked_until: null,
+        updated_at: new Date()
+      })
+      .where(and(...conditions))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('User unlock failed:', error);
+    throw error;
+  }
+};
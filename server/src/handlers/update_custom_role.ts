@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { customRolesTable } from '../db/schema';
+import { type CustomRole, type UpdateCustomRoleInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getCustomRole } from './get_custom_roles';
+import { assertCustomRoleNameAvailable, setCustomRolePermissions } from './create_custom_role';
+
+export const updateCustomRole = async (input: UpdateCustomRoleInput, restaurantId: number): Promise<CustomRole> => {
+  try {
+    const existing = await getCustomRole(input.id, restaurantId);
+    if (!existing) {
+      throw new Error(`Custom role with id ${input.id} not found`);
+    }
+
+    if (input.name !== undefined) {
+      await assertCustomRoleNameAvailable(restaurantId, input.name, input.id);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.update(customRolesTable)
+        .set({
+          ...(input.name !== undefined ? { name: input.name } : {}),
+          ...(input.description !== undefined ? { description: input.description } : {}),
+          updated_at: new Date()
+        })
+        .where(eq(customRolesTable.id, input.id))
+        .execute();
+
+      if (input.permissions !== undefined) {
+        await setCustomRolePermissions(tx, input.id, input.permissions);
+      }
+    });
+
+    return (await getCustomRole(input.id))!;
+  } catch (error) {
+    console.error('Custom role update failed:', error);
+    throw error;
+  }
+};
@@ -35,9 +35,6 @@ export const updateCustomer = async (input: UpdateCustomerInput, restaurantId: n
     if (input.phone !== undefined) {
       updateData.phone = input.phone;
     }
-    if (input.loyalty_points !== undefined) {
-      updateData.loyalty_points = input.loyalty_points;
-    }
     if (input.notes !== undefined) {
       updateData.notes = input.notes;
     }
@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { loyaltyTiersTable } from '../db/schema';
+import { type LoyaltyTier, type UpdateLoyaltyTierInput } from '../schema';
+import { and, eq, ne } from 'drizzle-orm';
+import { toLoyaltyTier } from './get_loyalty_tiers';
+
+// New thresholds take effect at the next tier evaluation
+export const updateLoyaltyTier = async (input: UpdateLoyaltyTierInput, restaurantId: number): Promise<LoyaltyTier> => {
+  try {
+    const existing = await db.select()
+      .from(loyaltyTiersTable)
+      .where(and(
+        eq(loyaltyTiersTable.id, input.id),
+        eq(loyaltyTiersTable.restaurant_id, restaurantId)
+      ))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Loyalty tier with id ${input.id} not found`);
+    }
+
+    if (input.rank !== undefined) {
+      const taken = await db.select({ id: loyaltyTiersTable.id })
+        .from(loyaltyTiersTable)
+        .where(and(
+          eq(loyaltyTiersTable.restaurant_id, restaurantId),
+          eq(loyaltyTiersTable.rank, input.rank),
+          ne(loyaltyTiersTable.id, input.id)
+        ))
+        .execute();
+
+      if (taken.length > 0) {
+        throw new Error(`A loyalty tier with rank ${input.rank} already exists`);
+      }
+    }
+
+    const updateData: Partial<typeof loyaltyTiersTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) {
+      updateData.name = input.name;
+    }
+    if (input.rank !== undefined) {
+      updateData.rank = input.rank;
+    }
+    if (input.min_lifetime_points !== undefined) {
+      updateData.min_lifetime_points = input.min_lifetime_points;
+    }
+    if (input.min_total_visits !== undefined) {
+      updateData.min_total_visits = input.min_total_visits;
+    }
+    if (input.min_window_spend !== undefined) {
+      updateData.min_window_spend = input.min_window_spend === null ? null : input.min_window_spend.toFixed(2);
+    }
+    if (input.spend_window_days !== undefined) {
+      updateData.spend_window_days = input.spend_window_days;
+    }
+    if (input.perks !== undefined) {
+      updateData.perks = input.perks;
+    }
+
+    const updated = await db.update(loyaltyTiersTable)
+      .set(updateData)
+      .where(eq(loyaltyTiersTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toLoyaltyTier(updated[0]);
+  } catch (error) {
+    console.error('Loyalty tier update failed:', error);
+    throw error;
+  }
+};
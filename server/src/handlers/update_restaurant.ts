@@ -41,6 +41,9 @@ export const updateRestaurant = async (input: UpdateRestaurantInput): Promise<Re
     if (input.brand_color !== undefined) {
       updateData.brand_color = input.brand_color;
     }
+    if (input.require_two_factor !== undefined) {
+      updateData.require_two_factor = input.require_two_factor;
+    }
     if (input.is_active !== undefined) {
       updateData.is_active = input.is_active;
     }
@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { rewardsTable } from '../db/schema';
+import { type Reward, type UpdateRewardInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+// Changes apply to future redemptions; codes already issued keep the points they cost
+export const updateReward = async (input: UpdateRewardInput, restaurantId: number): Promise<Reward> => {
+  try {
+    const existing = await db.select()
+      .from(rewardsTable)
+      .where(and(
+        eq(rewardsTable.id, input.id),
+        eq(rewardsTable.restaurant_id, restaurantId)
+      ))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Reward with id ${input.id} not found`);
+    }
+
+    const availableFrom = input.available_from !== undefined ? input.available_from : existing[0].available_from;
+    const availableUntil = input.available_until !== undefined ? input.available_until : existing[0].available_until;
+    if (availableFrom && availableUntil && availableFrom >= availableUntil) {
+      throw new Error('Availability must end after it starts');
+    }
+
+    const updateData: Partial<typeof rewardsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) {
+      updateData.name = input.name;
+    }
+    if (input.description !== undefined) {
+      updateData.description = input.description;
+    }
+    if (input.points_cost !== undefined) {
+      updateData.points_cost = input.points_cost;
+    }
+    if (input.available_from !== undefined) {
+      updateData.available_from = input.available_from;
+    }
+    if (input.available_until !== undefined) {
+      updateData.available_until = input.available_until;
+    }
+    if (input.per_customer_limit !== undefined) {
+      updateData.per_customer_limit = input.per_customer_limit;
+    }
+    if (input.is_active !== undefined) {
+      updateData.is_active = input.is_active;
+    }
+
+    const updated = await db.update(rewardsTable)
+      .set(updateData)
+      .where(eq(rewardsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return updated[0];
+  } catch (error) {
+    console.error('Reward update failed:', error);
+    throw error;
+  }
+};
@@ -1,26 +1,46 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type UpdateUserInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import { eq, and, sql, SQL } from 'drizzle-orm';
+import { type PgUpdateSetSource } from 'drizzle-orm/pg-core';
+import { CUSTOM_ROLE_ELIGIBLE_ROLES } from './assign_custom_role';
 
-export const updateUser = async (input: UpdateUserInput): Promise<User> => {
+export const updateUser = async (input: UpdateUserInput, restaurantId?: number): Promise<User> => {
   try {
     // Build the update object with only provided fields
-    const updateFields: Partial<typeof usersTable.$inferInsert> = {
+    const updateFields: PgUpdateSetSource<typeof usersTable> = {
       updated_at: new Date()
     };
 
-    if (input.email !== undefined) updateFields.email = input.email;
+    if (input.email !== undefined) {
+      updateFields.email = input.email;
+      // A changed address has to be verified again
+      updateFields.email_verified_at = sql`case when ${usersTable.email} = ${input.email} then ${usersTable.email_verified_at} else null end`;
+    }
     if (input.first_name !== undefined) updateFields.first_name = input.first_name;
     if (input.last_name !== undefined) updateFields.last_name = input.last_name;
     if (input.role !== undefined) updateFields.role = input.role;
     if (input.restaurant_id !== undefined) updateFields.restaurant_id = input.restaurant_id;
     if (input.is_active !== undefined) updateFields.is_active = input.is_active;
 
+    // Custom roles belong to one restaurant and only apply to managers and staff
+    if (input.restaurant_id !== undefined) {
+      updateFields.custom_role_id = sql`case when ${usersTable.restaurant_id} = ${input.restaurant_id} then ${usersTable.custom_role_id} else null end`;
+    }
+    if (input.role !== undefined && !CUSTOM_ROLE_ELIGIBLE_ROLES.includes(input.role)) {
+      updateFields.custom_role_id = null;
+    }
+
+    // Restrict the update to the given restaurant when a tenant scope is provided
+    const conditions: SQL<unknown>[] = [eq(usersTable.id, input.id)];
+    if (restaurantId !== undefined) {
+      conditions.push(eq(usersTable.restaurant_id, restaurantId));
+    }
+
     // Update the user record
     const result = await db.update(usersTable)
       .set(updateFields)
-      .where(eq(usersTable.id, input.id))
+      .where(and(...conditions))
       .returning()
       .execute();
 
@@ -0,0 +1,88 @@
+import { db } from '../db';
+import { visitsTable } from '../db/schema';
+import { type UpdateVisitInput, type Visit } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { toVisit } from './get_visits';
+import { assertNotInFuture, assertVisitStaff, lockVisitCustomer, refreshLastVisitDate } from './record_visit';
+import { type LoyaltyActor, syncVisitPoints } from '../lib/loyalty';
+
+// Corrects a visit recorded with the wrong details; moving its date updates the customer's
+// last_visit_date and changing its spend the points it earned
+export const updateVisit = async (input: UpdateVisitInput, restaurantId: number, actor: LoyaltyActor | null): Promise<Visit> => {
+  try {
+    if (input.visited_at !== undefined) {
+      assertNotInFuture(input.visited_at);
+    }
+
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(visitsTable)
+        .where(and(
+          eq(visitsTable.id, input.id),
+          eq(visitsTable.restaurant_id, restaurantId)
+        ))
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Visit with id ${input.id} not found`);
+      }
+
+      await lockVisitCustomer(tx, existing[0].customer_id, restaurantId);
+
+      // Voided visits are kept as they were when voided
+      const visits = await tx.select()
+        .from(visitsTable)
+        .where(eq(visitsTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (visits[0].voided_at !== null) {
+        throw new Error('Voided visits cannot be corrected');
+      }
+      if (input.staff_id != null) {
+        await assertVisitStaff(tx, input.staff_id, restaurantId);
+      }
+
+      const updateData: Partial<typeof visitsTable.$inferInsert> = {
+        updated_at: new Date()
+      };
+
+      if (input.visited_at !== undefined) {
+        updateData.visited_at = input.visited_at;
+      }
+      if (input.party_size !== undefined) {
+        updateData.party_size = input.party_size;
+      }
+      if (input.spend !== undefined) {
+        updateData.spend = input.spend === null ? null : input.spend.toFixed(2);
+      }
+      if (input.staff_id !== undefined) {
+        updateData.staff_id = input.staff_id;
+      }
+      if (input.table_label !== undefined) {
+        updateData.table_label = input.table_label;
+      }
+      if (input.notes !== undefined) {
+        updateData.notes = input.notes;
+      }
+
+      const updated = await tx.update(visitsTable)
+        .set(updateData)
+        .where(eq(visitsTable.id, input.id))
+        .returning()
+        .execute();
+
+      if (input.visited_at !== undefined) {
+        await refreshLastVisitDate(tx, updated[0].customer_id, visits[0].visited_at);
+      }
+      if (input.spend !== undefined) {
+        await syncVisitPoints(tx, updated[0], actor);
+      }
+
+      return toVisit(updated[0]);
+    });
+  } catch (error) {
+    console.error('Visit update failed:', error);
+    throw error;
+  }
+};
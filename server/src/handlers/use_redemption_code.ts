@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { rewardRedemptionsTable } from '../db/schema';
+import { type RedemptionCodeInput, type RewardRedemption } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { type LoyaltyActor } from '../lib/loyalty';
+import { normalizeRedemptionCode } from '../lib/redemption_codes';
+
+// Explains why a code was turned down
+export const redemptionCodeError = (redemption: Pick<RewardRedemption, 'status'> | undefined): Error => {
+  if (!redemption) {
+    return new Error('Unknown redemption code');
+  }
+  if (redemption.status === 'USED') {
+    return new Error('Redemption code has already been used');
+  }
+  if (redemption.status === 'VOIDED') {
+    return new Error('Redemption code has been voided');
+  }
+  return new Error('Redemption code is being processed, please try again');
+};
+
+// Accepts a code at the till. The status only moves from ISSUED once, so the same code
+// scanned twice at the same moment is still only honoured once.
+export const useRedemptionCode = async (input: RedemptionCodeInput, restaurantId: number, actor: LoyaltyActor): Promise<RewardRedemption> => {
+  try {
+    const code = normalizeRedemptionCode(input.code);
+
+    const used = await db.update(rewardRedemptionsTable)
+      .set({
+        status: 'USED',
+        used_at: new Date(),
+        used_by: actor.user?.id ?? null
+      })
+      .where(and(
+        eq(rewardRedemptionsTable.restaurant_id, restaurantId),
+        eq(rewardRedemptionsTable.code, code),
+        eq(rewardRedemptionsTable.status, 'ISSUED')
+      ))
+      .returning()
+      .execute();
+
+    if (used.length === 0) {
+      const existing = await db.select()
+        .from(rewardRedemptionsTable)
+        .where(and(
+          eq(rewardRedemptionsTable.restaurant_id, restaurantId),
+          eq(rewardRedemptionsTable.code, code)
+        ))
+        .execute();
+
+      throw redemptionCodeError(existing[0]);
+    }
+
+    return used[0];
+  } catch (error) {
+    console.error('Redemption code use failed:', error);
+    throw error;
+  }
+};
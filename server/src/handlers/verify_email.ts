@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type PublicUser, type VerifyEmailInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { consumeUserToken } from '../lib/user_tokens';
+import { toPublicUser } from '../lib/users';
+
+// Verifies the address the link was sent to, so a link mailed before an email change
+// cannot verify the new address
+export const verifyEmail = async (input: VerifyEmailInput): Promise<PublicUser> => {
+  try {
+    const userToken = await consumeUserToken(input.token, 'EMAIL_VERIFICATION');
+
+    if (!userToken?.email) {
+      throw new Error('Invalid or expired email verification token');
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        email_verified_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(and(
+        eq(usersTable.id, userToken.user_id),
+        eq(usersTable.email, userToken.email)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Invalid or expired email verification token');
+    }
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('Email verification failed:', error);
+    throw error;
+  }
+};
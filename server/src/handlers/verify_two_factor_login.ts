@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type AuthSession, type ClientInfo, type VerifyTwoFactorLoginInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { consumeUserToken } from '../lib/user_tokens';
+import { verifySecondFactor } from '../lib/two_factor';
+import { recordFailedLogin, recordSuccessfulLogin, UNKNOWN_CLIENT } from '../lib/login_throttle';
+import { toPublicUser } from '../lib/users';
+import { createSession } from './create_session';
+
+export const verifyTwoFactorLogin = async (input: VerifyTwoFactorLoginInput, client: ClientInfo = UNKNOWN_CLIENT): Promise<AuthSession> => {
+  try {
+    // Challenges are single-use: a wrong code means starting over with the password,
+    // which keeps the six-digit code space from being brute-forced
+    const challenge = await consumeUserToken(input.challenge_token, 'TWO_FACTOR_LOGIN');
+
+    if (!challenge) {
+      throw new Error('Invalid or expired login challenge');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(and(
+        eq(usersTable.id, challenge.user_id),
+        eq(usersTable.is_active, true)
+      ))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('Invalid or expired login challenge');
+    }
+
+    const user = users[0];
+    const isCodeValid = await verifySecondFactor(user.id, input.code);
+
+    if (!isCodeValid) {
+      // Wrong codes count towards the same lockout as wrong passwords
+      await recordFailedLogin(user.email, user.id, client, 'INVALID_TWO_FACTOR_CODE');
+      throw new Error('Invalid two-factor code');
+    }
+
+    const { token, session } = await createSession(user.id);
+    await recordSuccessfulLogin(user.email, user.id, client);
+
+    return {
+      status: 'AUTHENTICATED',
+      token,
+      expires_at: session.expires_at,
+      two_factor_setup_required: false,
+      user: toPublicUser(user)
+    };
+  } catch (error) {
+    console.error('Two-factor login verification failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { rewardRedemptionsTable } from '../db/schema';
+import { type RewardRedemption, type VoidRedemptionInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { appendLoyaltyEntry, type LoyaltyActor } from '../lib/loyalty';
+import { normalizeRedemptionCode } from '../lib/redemption_codes';
+import { redemptionCodeError } from './use_redemption_code';
+
+// Cancels a code that has not been used yet and gives the customer their points back. The
+// refund reverses the redemption, so it is not counted as points earned.
+export const voidRedemption = async (input: VoidRedemptionInput, restaurantId: number, actor: LoyaltyActor): Promise<RewardRedemption> => {
+  try {
+    const code = normalizeRedemptionCode(input.code);
+
+    return await db.transaction(async (tx) => {
+      const voided = await tx.update(rewardRedemptionsTable)
+        .set({
+          status: 'VOIDED',
+          voided_at: new Date(),
+          voided_by: actor.user?.id ?? null,
+          void_reason: input.reason
+        })
+        .where(and(
+          eq(rewardRedemptionsTable.restaurant_id, restaurantId),
+          eq(rewardRedemptionsTable.code, code),
+          eq(rewardRedemptionsTable.status, 'ISSUED')
+        ))
+        .returning()
+        .execute();
+
+      if (voided.length === 0) {
+        const existing = await tx.select()
+          .from(rewardRedemptionsTable)
+          .where(and(
+            eq(rewardRedemptionsTable.restaurant_id, restaurantId),
+            eq(rewardRedemptionsTable.code, code)
+          ))
+          .execute();
+
+        throw redemptionCodeError(existing[0]);
+      }
+
+      await appendLoyaltyEntry(tx, {
+        restaurantId,
+        customerId: voided[0].customer_id,
+        type: 'REDEEM',
+        points: voided[0].points_spent,
+        reason: `Redemption ${voided[0].code} voided`
+      }, actor);
+
+      return voided[0];
+    });
+  } catch (error) {
+    console.error('Redemption void failed:', error);
+    throw error;
+  }
+};
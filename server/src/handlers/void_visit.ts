@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { customersTable, visitsTable } from '../db/schema';
+import { type Visit, type VoidVisitInput } from '../schema';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { toVisit } from './get_visits';
+import { lockVisitCustomer, refreshLastVisitDate } from './record_visit';
+import { type LoyaltyActor, syncVisitPoints } from '../lib/loyalty';
+
+// Takes a visit recorded by mistake out of the customer's totals and points. The visit
+// itself stays, with who voided it and why.
+export const voidVisit = async (input: VoidVisitInput, restaurantId: number, actor: LoyaltyActor | null): Promise<Visit> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(visitsTable)
+        .where(and(
+          eq(visitsTable.id, input.id),
+          eq(visitsTable.restaurant_id, restaurantId)
+        ))
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Visit with id ${input.id} not found`);
+      }
+
+      await lockVisitCustomer(tx, existing[0].customer_id, restaurantId);
+
+      // Checked under the customer lock, so a visit is only ever voided once
+      const voided = await tx.update(visitsTable)
+        .set({
+          voided_at: new Date(),
+          voided_by: actor?.user?.id ?? null,
+          void_reason: input.reason,
+          updated_at: new Date()
+        })
+        .where(and(
+          eq(visitsTable.id, input.id),
+          isNull(visitsTable.voided_at)
+        ))
+        .returning()
+        .execute();
+
+      if (voided.length === 0) {
+        throw new Error('Visit is already voided');
+      }
+
+      await tx.update(customersTable)
+        .set({ total_visits: sql`greatest(${customersTable.total_visits} - 1, 0)` })
+        .where(eq(customersTable.id, voided[0].customer_id))
+        .execute();
+      await refreshLastVisitDate(tx, voided[0].customer_id, voided[0].visited_at);
+      await syncVisitPoints(tx, voided[0], actor);
+
+      return toVisit(voided[0]);
+    });
+  } catch (error) {
+    console.error('Visit void failed:', error);
+    throw error;
+  }
+};
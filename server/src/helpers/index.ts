@@ -2,6 +2,11 @@ import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { sessionsTable, usersTable, type NewUser } from '../db/schema';
+import { createContext, type Context } from '../trpc';
+import { generateToken, hashToken, signToken } from '../lib/tokens';
+import { ensureExtensions } from '../db/extensions';
 
 export const resetDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
@@ -10,9 +15,31 @@ export const resetDB = async () => {
 };
 
 export const createDB = async () => {
+  await ensureExtensions();
   const migrationStatements = await generateMigration(
     generateDrizzleJson({}),
     generateDrizzleJson({ ...schema })
   );
   await db.execute(migrationStatements.join('\n'));
 };
+
+// Creates a user with a live session and returns the context its requests would carry
+export const createTestContext = async (values: NewUser): Promise<Context> => {
+  const users = await db.insert(usersTable)
+    .values(values)
+    .returning()
+    .execute();
+
+  const secret = generateToken();
+  await db.insert(sessionsTable)
+    .values({
+      user_id: users[0].id,
+      token_hash: hashToken(secret),
+      expires_at: new Date(Date.now() + 60 * 60 * 1000)
+    })
+    .execute();
+
+  return createContext({
+    req: { headers: { authorization: `Bearer ${signToken(secret)}` } }
+  } as CreateHTTPContextOptions);
+};
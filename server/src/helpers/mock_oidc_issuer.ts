@@ -0,0 +1,132 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+
+// Claims the test user signs in with; anything else ends up in the ID token as is
+export type MockOidcClaims = { sub: string; email?: string } & Record<string, unknown>;
+
+interface PendingAuthorization {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  claims: Record<string, unknown>;
+}
+
+export interface MockOidcIssuer {
+  issuer: string;
+  discoveryUrl: string;
+  clientId: string;
+  clientSecret: string;
+  // Signs an ID token with the issuer's key; standard claims default to a valid token
+  signIdToken: (claims: Record<string, unknown>) => string;
+  // Plays the user signing in at the issuer for an authorization URL; returns the
+  // parameters the browser would be redirected back with
+  authorize: (authorizationUrl: string, claims: MockOidcClaims) => { state: string; code: string };
+  stop: () => void;
+}
+
+// Minimal OpenID provider on a random local port: discovery, JWKS and an authorization-code
+// token endpoint that enforces client authentication and PKCE. Being local, it needs private
+// issuers allowed while it runs.
+export const startMockOidcIssuer = (): MockOidcIssuer => {
+  process.env['OIDC_ALLOW_PRIVATE_ISSUERS'] = 'true';
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = 'mock-key';
+  const clientId = 'resto-manage';
+  const clientSecret = 'mock-client-secret';
+  const authorizations = new Map<string, PendingAuthorization>();
+
+  const server = Bun.serve({
+    port: 0,
+    fetch: async (request): Promise<Response> => {
+      const url = new URL(request.url);
+
+      if (url.pathname === '/.well-known/openid-configuration') {
+        return Response.json({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`
+        });
+      }
+
+      if (url.pathname === '/jwks') {
+        return Response.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+      }
+
+      if (url.pathname === '/token' && request.method === 'POST') {
+        const expected = `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+        if (request.headers.get('authorization') !== expected) {
+          return Response.json({ error: 'invalid_client' }, { status: 401 });
+        }
+
+        const body = new URLSearchParams(await request.text());
+        const code = body.get('code') ?? '';
+        const authorization = authorizations.get(code);
+        authorizations.delete(code);
+
+        const challenge = createHash('sha256').update(body.get('code_verifier') ?? '').digest('base64url');
+        if (!authorization
+          || authorization.clientId !== clientId
+          || body.get('grant_type') !== 'authorization_code'
+          || body.get('redirect_uri') !== authorization.redirectUri
+          || challenge !== authorization.codeChallenge) {
+          return Response.json({ error: 'invalid_grant' }, { status: 400 });
+        }
+
+        return Response.json({
+          access_token: randomBytes(16).toString('hex'),
+          token_type: 'Bearer',
+          id_token: signIdToken(authorization.claims)
+        });
+      }
+
+      return new Response('Not found', { status: 404 });
+    }
+  });
+
+  const issuer: string = `http://localhost:${server.port}`;
+
+  const signIdToken = (claims: Record<string, unknown>): string => {
+    const now = Math.floor(Date.now() / 1000);
+    const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({
+      iss: issuer,
+      aud: clientId,
+      iat: now,
+      exp: now + 300,
+      ...claims
+    })).toString('base64url');
+
+    const signature = sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+    return `${header}.${payload}.${signature}`;
+  };
+
+  const authorize = (authorizationUrl: string, claims: MockOidcClaims) => {
+    const params = new URL(authorizationUrl).searchParams;
+    if (params.get('code_challenge_method') !== 'S256') {
+      throw new Error('Mock issuer only supports S256 PKCE');
+    }
+
+    const code = randomBytes(16).toString('hex');
+    authorizations.set(code, {
+      clientId: params.get('client_id') ?? '',
+      redirectUri: params.get('redirect_uri') ?? '',
+      codeChallenge: params.get('code_challenge') ?? '',
+      claims: { nonce: params.get('nonce'), ...claims }
+    });
+
+    return { state: params.get('state') ?? '', code };
+  };
+
+  return {
+    issuer,
+    discoveryUrl: `${issuer}/.well-known/openid-configuration`,
+    clientId,
+    clientSecret,
+    signIdToken,
+    authorize,
+    stop: () => {
+      server.stop(true);
+      delete process.env['OIDC_ALLOW_PRIVATE_ISSUERS'];
+    }
+  };
+};
@@ -0,0 +1,239 @@
+import { db } from '../db';
+import {
+  auditLogTable,
+  type AuditFieldChanges,
+  customerMergesTable,
+  customersTable,
+  impersonationRequestsTable,
+  permissionsTable,
+  restaurantsTable,
+  rewardRedemptionsTable,
+  rewardsTable,
+  rolePermissionsTable,
+  sessionsTable,
+  staffInvitationsTable,
+  subscriptionsTable,
+  usersTable
+} from '../db/schema';
+import { type ApiKey, type AuditAction, type AuditEntityType, type Session, type User } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getCustomRole } from '../handlers/get_custom_roles';
+import { getUserPermissionOverride } from '../handlers/set_user_permission_override';
+import { getApiKey } from '../handlers/get_api_keys';
+import { getOidcProviderById } from '../handlers/get_oidc_provider';
+import { getVisit } from '../handlers/get_visits';
+import { getLoyaltyRulesById } from '../handlers/get_loyalty_rules';
+import { getLoyaltyTierById } from '../handlers/get_loyalty_tiers';
+
+type AuditRecord = { id: number } & Record<string, unknown>;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Whoever is signed in; the session tells whether a super admin is acting on the user's behalf.
+// Integrations calling with an API key have no user and are identified by the key instead.
+export interface AuditActor {
+  user: User | null;
+  session: Pick<Session, 'impersonator_id'> | null;
+  apiKey?: Pick<ApiKey, 'id'> | null;
+}
+
+export interface AuditTarget {
+  entityType: AuditEntityType;
+  action: AuditAction;
+  entityId?: number; // Existing entity, loaded before the mutation for the diff
+}
+
+// Entities stored as a single row; custom roles, overrides and API keys are loaded with their
+// permission names instead, identity providers without their client secret, and visits,
+// loyalty rules and loyalty tiers with their decimal amounts as numbers
+const ENTITY_TABLES = {
+  USER: usersTable,
+  RESTAURANT: restaurantsTable,
+  CUSTOMER: customersTable,
+  SUBSCRIPTION: subscriptionsTable,
+  INVITATION: staffInvitationsTable,
+  PERMISSION: permissionsTable,
+  ROLE_PERMISSION: rolePermissionsTable,
+  SESSION: sessionsTable,
+  REWARD: rewardsTable,
+  REWARD_REDEMPTION: rewardRedemptionsTable,
+  CUSTOMER_MERGE: customerMergesTable
+};
+
+// Secrets never reach the log, only the fact that they changed
+const REDACTED_FIELDS = new Set(['password_hash', 'token_hash']);
+
+// Bookkeeping that changes on every write
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+const isAuditRecord = (value: unknown): value is AuditRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && typeof (value as { id?: unknown }).id === 'number';
+};
+
+const loadEntity = async (entityType: AuditEntityType, id: number): Promise<AuditRecord | null> => {
+  if (entityType === 'CUSTOM_ROLE') {
+    return getCustomRole(id);
+  }
+  if (entityType === 'PERMISSION_OVERRIDE') {
+    return getUserPermissionOverride(id);
+  }
+  if (entityType === 'API_KEY') {
+    return getApiKey(id);
+  }
+  if (entityType === 'OIDC_PROVIDER') {
+    return getOidcProviderById(id);
+  }
+  if (entityType === 'VISIT') {
+    return getVisit(id);
+  }
+  if (entityType === 'LOYALTY_RULES') {
+    return getLoyaltyRulesById(id);
+  }
+  if (entityType === 'LOYALTY_TIER') {
+    return getLoyaltyTierById(id);
+  }
+
+  const table = ENTITY_TABLES[entityType];
+  const results = await db.select()
+    .from(table)
+    .where(eq(table.id, id))
+    .execute();
+
+  return results[0] ?? null;
+};
+
+// Dates are compared and stored as ISO strings so the diff survives the JSON column
+const toComparable = (value: unknown): unknown => {
+  return value instanceof Date ? value.toISOString() : value ?? null;
+};
+
+// Lists every field whose value differs; a null side means the entity was created or deleted
+export const diffRecords = (before: Record<string, unknown> | null, after: Record<string, unknown> | null): AuditFieldChanges => {
+  const changes: AuditFieldChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+
+    const from = toComparable(before?.[field]);
+    const to = toComparable(after?.[field]);
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = REDACTED_FIELDS.has(field)
+        ? { from: from === null ? null : '[REDACTED]', to: to === null ? null : '[REDACTED]' }
+        : { from, to };
+    }
+  }
+
+  return changes;
+};
+
+// Restaurants are their own tenant; everything else carries a restaurant_id or belongs to a user that does
+const getTenantId = async (entityType: AuditEntityType, record: AuditRecord | null): Promise<number | null> => {
+  if (!record) {
+    return null;
+  }
+  if (entityType === 'RESTAURANT') {
+    return record.id;
+  }
+  if (typeof record['restaurant_id'] === 'number') {
+    return record['restaurant_id'];
+  }
+  if (typeof record['user_id'] === 'number') {
+    const users = await db.select({ restaurant_id: usersTable.restaurant_id })
+      .from(usersTable)
+      .where(eq(usersTable.id, record['user_id']))
+      .execute();
+
+    return users[0]?.restaurant_id ?? null;
+  }
+  return null;
+};
+
+const toAuditEntry = async (
+  actor: AuditActor | null,
+  target: AuditTarget,
+  before: AuditRecord | null,
+  after: AuditRecord | null
+): Promise<typeof auditLogTable.$inferInsert> => {
+  const isBulk = !before && !after;
+
+  return {
+    restaurant_id: await getTenantId(target.entityType, after ?? before),
+    actor_id: actor?.user?.id ?? null,
+    impersonator_id: actor?.session?.impersonator_id ?? null,
+    api_key_id: actor?.apiKey?.id ?? null,
+    entity_type: target.entityType,
+    entity_id: target.entityId ?? after?.id ?? null,
+    action: target.action,
+    changes: isBulk ? null : diffRecords(before, target.action === 'DELETE' ? null : after)
+  };
+};
+
+// Writes one log entry for a change that already happened. Prefer withAudit; this is for
+// mutations whose result cannot be returned as is, e.g. because it carries a secret.
+export const recordAudit = async (
+  actor: AuditActor | null,
+  target: AuditTarget,
+  before: AuditRecord | null,
+  after: AuditRecord | null
+): Promise<void> => {
+  await db.insert(auditLogTable)
+    .values(await toAuditEntry(actor, target, before, after))
+    .execute();
+};
+
+// Writes a creation entry for each record in one statement, inside the transaction that
+// created them, so records created in bulk are never committed without their entries
+export const recordCreations = async (
+  tx: Transaction,
+  actor: AuditActor | null,
+  entityType: AuditEntityType,
+  records: AuditRecord[]
+): Promise<void> => {
+  if (records.length === 0) {
+    return;
+  }
+
+  const entries = await Promise.all(records.map(record => toAuditEntry(actor, { entityType, action: 'CREATE' }, null, record)));
+  await tx.insert(auditLogTable)
+    .values(entries)
+    .execute();
+};
+
+// Runs a mutation and records who changed what. Updates pass entityId so the previous
+// state can be diffed; creates take the id from the result. Results that are not a
+// single record (e.g. bulk seeding) are logged without a diff.
+export const withAudit = async <T>(actor: AuditActor | null, target: AuditTarget, mutate: () => Promise<T>): Promise<T> => {
+  const before = target.entityId !== undefined
+    ? await loadEntity(target.entityType, target.entityId)
+    : null;
+
+  const result = await mutate();
+  await recordAudit(actor, target, before, isAuditRecord(result) ? result : null);
+
+  return result;
+};
+
+// Traces one procedure call made in an impersonation session, whether it read or changed anything
+export const recordImpersonatedRequest = async (
+  user: Pick<User, 'id' | 'restaurant_id'>,
+  session: Pick<Session, 'id' | 'impersonator_id'>,
+  request: { path: string; type: string; succeeded: boolean }
+): Promise<void> => {
+  if (session.impersonator_id === null) {
+    return;
+  }
+
+  await db.insert(impersonationRequestsTable)
+    .values({
+      session_id: session.id,
+      impersonator_id: session.impersonator_id,
+      user_id: user.id,
+      restaurant_id: user.restaurant_id,
+      ...request
+    })
+    .execute();
+};
@@ -0,0 +1,65 @@
+// RFC 4180 CSV: fields may be quoted, quotes inside them are doubled and quoted fields may
+// span lines. Accepts CRLF or LF line endings and a leading byte order mark.
+export const parseCsv = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV has an unterminated quoted field');
+  }
+
+  // The last line may or may not end with a line break
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+// One line of CSV, CRLF-terminated. With neutralizeFormulas, text that a spreadsheet
+// would evaluate is prefixed with a quote so it shows as typed.
+export const toCsvRow = (values: (string | null)[], neutralizeFormulas: boolean = false): string => {
+  return values.map((value) => {
+    let field = value ?? '';
+    if (neutralizeFormulas && FORMULA_PREFIXES.some(prefix => field.startsWith(prefix))) {
+      field = `'${field}`;
+    }
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  }).join(',') + '\r\n';
+};
@@ -0,0 +1,57 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { cursorPositionSchema, type SortOrder } from '../schema';
+
+// Position of the last row of a page in a (created_at, id) ordering. created_at is kept as
+// Postgres text because a JS Date would drop the microseconds and skip rows created within
+// the same millisecond.
+interface CursorPosition {
+  created_at: string;
+  id: number;
+}
+
+// Cursors are opaque to clients; they only ever pass back the nextCursor of the previous page
+export const encodeCursor = (position: CursorPosition): string => {
+  return Buffer.from(JSON.stringify([position.created_at, position.id])).toString('base64url');
+};
+
+// Inputs are checked against cursorSchema already; this only guards other callers
+export const decodeCursor = (cursor: string): CursorPosition => {
+  try {
+    const parsed = cursorPositionSchema.safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+    if (parsed.success) {
+      return { created_at: parsed.data[0], id: parsed.data[1] };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+
+  throw new Error('Invalid cursor');
+};
+
+// The sort key to select alongside each row so the page can hand out a cursor for it
+export const cursorKeySql = (createdAt: AnyPgColumn): SQL<string> => {
+  return sql<string>`${createdAt}::text`;
+};
+
+// Rows after the cursor in a (created_at, id) ordering in the given direction
+export const afterCursor = (createdAt: AnyPgColumn, id: AnyPgColumn, cursor: string, direction: SortOrder): SQL<unknown> => {
+  const position = decodeCursor(cursor);
+  const operator = direction === 'asc' ? sql.raw('>') : sql.raw('<');
+
+  return sql`(${createdAt}, ${id}) ${operator} (${position.created_at}::timestamp, ${position.id})`;
+};
+
+// Trims the extra row fetched beyond the limit and derives the cursor of the next page
+export const toCursorPage = <T extends { cursor_key: string; row: { id: number } }>(rows: T[], limit: number): {
+  rows: T['row'][];
+  nextCursor: string | null;
+} => {
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    rows: page.map(result => result.row),
+    nextCursor: rows.length > limit && last ? encodeCursor({ created_at: last.cursor_key, id: last.row.id }) : null
+  };
+};
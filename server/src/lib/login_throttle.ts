@@ -0,0 +1,164 @@
+import { db } from '../db';
+import { loginAttemptsTable, usersTable } from '../db/schema';
+import { type ClientInfo, type LoginFailureReason } from '../schema';
+import { and, count, eq, gt, inArray, max, sql, type SQL } from 'drizzle-orm';
+
+// Failures older than this no longer slow down new attempts
+export const THROTTLE_WINDOW_MS = 15 * 60 * 1000;
+
+// Consecutive failures that lock an account, and for how long
+export const LOCKOUT_THRESHOLD = 10;
+export const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+
+// Failures allowed before delays kick in; IPs get more room since offices share them
+const FREE_FAILURES_PER_EMAIL = 3;
+const FREE_FAILURES_PER_IP = 20;
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+// Only wrong guesses count, so attempts rejected by the throttle don't extend it
+const COUNTED_FAILURES: LoginFailureReason[] = ['INVALID_CREDENTIALS', 'INVALID_TWO_FACTOR_CODE'];
+
+// Used when a login doesn't come through HTTP, e.g. from scripts or tests
+export const UNKNOWN_CLIENT: ClientInfo = { ip_address: null, user_agent: null };
+
+// Thrown when a login is refused before the password is even checked
+export class LoginThrottledError extends Error {
+  constructor(public readonly retryAfter: Date) {
+    super('Too many failed login attempts, try again later');
+    this.name = 'LoginThrottledError';
+  }
+}
+
+export const normalizeLoginEmail = (email: string): string => {
+  return email.trim().toLowerCase();
+};
+
+// Doubles with every failure past the free allowance: 1s, 2s, 4s, ... capped at 30s
+export const getProgressiveDelayMs = (failures: number, freeFailures: number): number => {
+  if (failures < freeFailures) {
+    return 0;
+  }
+
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - freeFailures), MAX_DELAY_MS);
+};
+
+const getRecentFailures = async (condition: SQL, since: Date): Promise<{ failures: number; lastFailureAt: Date | null }> => {
+  const results = await db.select({
+    failures: count(),
+    lastFailureAt: max(loginAttemptsTable.created_at)
+  })
+    .from(loginAttemptsTable)
+    .where(and(
+      condition,
+      eq(loginAttemptsTable.success, false),
+      inArray(loginAttemptsTable.failure_reason, COUNTED_FAILURES),
+      gt(loginAttemptsTable.created_at, since)
+    ))
+    .execute();
+
+  return results[0];
+};
+
+// Earliest time the next attempt for this email and IP is allowed, or null if allowed now
+export const getLoginRetryAfter = async (email: string, ipAddress: string | null): Promise<Date | null> => {
+  const normalizedEmail = normalizeLoginEmail(email);
+  const windowStart = new Date(Date.now() - THROTTLE_WINDOW_MS);
+
+  // A successful login clears the per-email delay
+  const lastSuccess = await db.select({ at: max(loginAttemptsTable.created_at) })
+    .from(loginAttemptsTable)
+    .where(and(
+      eq(loginAttemptsTable.email, normalizedEmail),
+      eq(loginAttemptsTable.success, true)
+    ))
+    .execute();
+
+  const lastSuccessAt = lastSuccess[0]?.at ?? null;
+  const emailSince = lastSuccessAt && lastSuccessAt > windowStart ? lastSuccessAt : windowStart;
+
+  const candidates: { failures: number; lastFailureAt: Date | null; freeFailures: number }[] = [
+    { ...(await getRecentFailures(eq(loginAttemptsTable.email, normalizedEmail), emailSince)), freeFailures: FREE_FAILURES_PER_EMAIL }
+  ];
+
+  if (ipAddress) {
+    candidates.push({
+      ...(await getRecentFailures(eq(loginAttemptsTable.ip_address, ipAddress), windowStart)),
+      freeFailures: FREE_FAILURES_PER_IP
+    });
+  }
+
+  let retryAfter: Date | null = null;
+
+  for (const { failures, lastFailureAt, freeFailures } of candidates) {
+    const delay = getProgressiveDelayMs(failures, freeFailures);
+    if (delay === 0 || !lastFailureAt) {
+      continue;
+    }
+
+    const allowedAt = new Date(lastFailureAt.getTime() + delay);
+    if (allowedAt.getTime() > Date.now() && (!retryAfter || allowedAt > retryAfter)) {
+      retryAfter = allowedAt;
+    }
+  }
+
+  return retryAfter;
+};
+
+export const recordLoginAttempt = async (
+  email: string,
+  userId: number | null,
+  client: ClientInfo,
+  failureReason: LoginFailureReason | null = null
+): Promise<void> => {
+  await db.insert(loginAttemptsTable)
+    .values({
+      user_id: userId,
+      email: normalizeLoginEmail(email),
+      ip_address: client.ip_address,
+      user_agent: client.user_agent,
+      success: failureReason === null,
+      failure_reason: failureReason
+    })
+    .execute();
+};
+
+// Records a wrong password or second factor, locking the account once the threshold is hit
+export const recordFailedLogin = async (
+  email: string,
+  userId: number | null,
+  client: ClientInfo,
+  failureReason: LoginFailureReason
+): Promise<void> => {
+  await recordLoginAttempt(email, userId, client, failureReason);
+
+  if (userId === null) {
+    return;
+  }
+
+  // Counter restarts with each lockout so the next one needs a full series of failures again
+  const reachesThreshold = sql`${usersTable.failed_login_attempts} + 1 >= ${LOCKOUT_THRESHOLD}`;
+  const lockedUntil = new Date(Date.now() + LOCKOUT_DURATION_MS).toISOString();
+
+  await db.update(usersTable)
+    .set({
+      failed_login_attempts: sql`case when ${reachesThreshold} then 0 else ${usersTable.failed_login_attempts} + 1 end`,
+      locked_until: sql`case when ${reachesThreshold} then ${lockedUntil} else ${usersTable.locked_until} end`
+    })
+    .where(eq(usersTable.id, userId))
+    .execute();
+};
+
+// Records a completed login and clears the account's failure counter
+export const recordSuccessfulLogin = async (email: string, userId: number, client: ClientInfo): Promise<void> => {
+  await recordLoginAttempt(email, userId, client);
+
+  await db.update(usersTable)
+    .set({
+      failed_login_attempts: 0,
+      locked_until: null
+    })
+    .where(eq(usersTable.id, userId))
+    .execute();
+};
@@ -0,0 +1,130 @@
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, loyaltyRulesTable, visitsTable } from '../db/schema';
+import { type ApiKey, type LoyaltyEntryType, type LoyaltyLedgerEntry, type LoyaltyRules, type User } from '../schema';
+import { and, eq, sum } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Whoever caused a ledger entry; null for entries the system makes on its own, like expiry
+export interface LoyaltyActor {
+  user: Pick<User, 'id'> | null;
+  apiKey?: Pick<ApiKey, 'id'> | null;
+}
+
+export interface LoyaltyEntry {
+  restaurantId: number;
+  customerId: number;
+  type: LoyaltyEntryType;
+  points: number;
+  reason: string;
+  visitId?: number | null;
+}
+
+// Numeric columns come back from Postgres as strings
+export const toLoyaltyRules = (record: typeof loyaltyRulesTable.$inferSelect): LoyaltyRules => {
+  return {
+    ...record,
+    points_per_currency_unit: parseFloat(record.points_per_currency_unit)
+  };
+};
+
+// Appends an entry and moves the customer's balance with it. The customer row stays locked
+// until the transaction ends, so concurrent entries see each other's balance.
+export const appendLoyaltyEntry = async (tx: Transaction, entry: LoyaltyEntry, actor: LoyaltyActor | null): Promise<LoyaltyLedgerEntry> => {
+  const customers = await tx.select({ loyalty_points: customersTable.loyalty_points })
+    .from(customersTable)
+    .where(and(
+      eq(customersTable.id, entry.customerId),
+      eq(customersTable.restaurant_id, entry.restaurantId)
+    ))
+    .for('update')
+    .execute();
+
+  if (customers.length === 0) {
+    throw new Error('Customer not found or does not belong to this restaurant');
+  }
+
+  const balance = customers[0].loyalty_points + entry.points;
+  if (balance < 0) {
+    throw new Error(`Insufficient loyalty points: balance is ${customers[0].loyalty_points}`);
+  }
+
+  const entries = await tx.insert(loyaltyLedgerTable)
+    .values({
+      restaurant_id: entry.restaurantId,
+      customer_id: entry.customerId,
+      type: entry.type,
+      points: entry.points,
+      balance_after: balance,
+      reason: entry.reason,
+      visit_id: entry.visitId ?? null,
+      actor_id: actor?.user?.id ?? null,
+      api_key_id: actor?.apiKey?.id ?? null
+    })
+    .returning()
+    .execute();
+
+  await tx.update(customersTable)
+    .set({ loyalty_points: balance, updated_at: new Date() })
+    .where(eq(customersTable.id, entry.customerId))
+    .execute();
+
+  return entries[0];
+};
+
+// Points a visit earns under the given rules, whole points only
+export const pointsForVisit = (rules: LoyaltyRules, spend: number | null): number => {
+  return Math.floor((spend ?? 0) * rules.points_per_currency_unit) + rules.points_per_visit;
+};
+
+// Brings the points credited for a visit in line with the visit: earned when recorded,
+// adjusted when its spend is corrected and taken back when it is voided. Points the
+// customer has already spent cannot be taken back, so the balance stops at zero.
+export const syncVisitPoints = async (
+  tx: Transaction,
+  visit: typeof visitsTable.$inferSelect,
+  actor: LoyaltyActor | null
+): Promise<void> => {
+  const rules = await tx.select()
+    .from(loyaltyRulesTable)
+    .where(eq(loyaltyRulesTable.restaurant_id, visit.restaurant_id))
+    .execute();
+
+  const credited = await tx.select({ points: sum(loyaltyLedgerTable.points).mapWith(Number) })
+    .from(loyaltyLedgerTable)
+    .where(eq(loyaltyLedgerTable.visit_id, visit.id))
+    .execute();
+
+  const earned = credited[0]?.points ?? 0;
+  const spend = visit.spend === null ? null : parseFloat(visit.spend);
+
+  // Without active rules a correction leaves what the visit earned alone
+  let target = earned;
+  if (visit.voided_at !== null) {
+    target = 0;
+  } else if (rules[0]?.is_enabled) {
+    target = pointsForVisit(toLoyaltyRules(rules[0]), spend);
+  }
+
+  let points = target - earned;
+  if (points < 0) {
+    const customers = await tx.select({ loyalty_points: customersTable.loyalty_points })
+      .from(customersTable)
+      .where(eq(customersTable.id, visit.customer_id))
+      .execute();
+
+    points = Math.max(points, -customers[0].loyalty_points);
+  }
+  if (points === 0) {
+    return;
+  }
+
+  await appendLoyaltyEntry(tx, {
+    restaurantId: visit.restaurant_id,
+    customerId: visit.customer_id,
+    type: earned === 0 && points > 0 ? 'EARN' : 'ADJUST',
+    points,
+    reason: visit.voided_at !== null ? `Visit ${visit.id} voided` : earned === 0 ? `Visit ${visit.id}` : `Visit ${visit.id} corrected`,
+    visitId: visit.id
+  }, actor);
+};
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { mailOutboxTable } from '../db/schema';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Default mailer: records messages in the mail_outbox table so flows work without SMTP
+export const outboxMailer: Mailer = {
+  async send(message: MailMessage): Promise<void> {
+    await db.insert(mailOutboxTable)
+      .values({
+        recipient: message.to,
+        subject: message.subject,
+        body: message.body
+      })
+      .execute();
+  }
+};
+
+let activeMailer: Mailer = outboxMailer;
+
+// Swap in a real transport (SMTP, provider API) at startup
+export const setMailer = (mailer: Mailer): void => {
+  activeMailer = mailer;
+};
+
+export const sendMail = (message: MailMessage): Promise<void> => {
+  return activeMailer.send(message);
+};
+
+// Base URL used for links in outgoing emails
+export const getAppUrl = (): string => {
+  return process.env['APP_URL'] || 'http://localhost:5173';
+};
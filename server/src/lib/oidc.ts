@@ -0,0 +1,255 @@
+import { createHash, createPublicKey, verify, type JsonWebKey } from 'crypto';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { generateToken } from './tokens';
+import { getAppUrl } from './mailer';
+
+// Endpoints of an identity provider, from its .well-known/openid-configuration
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// The ID token claims the sign-in relies on
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+}
+
+// Identity providers that do not answer in time fail the sign-in instead of hanging it
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Tolerated clock difference when checking token expiry
+const CLOCK_SKEW_SECONDS = 60;
+
+// Where the identity provider sends the browser back to; registered with the provider
+export const getOidcRedirectUri = (): string => {
+  return process.env['OIDC_REDIRECT_URI'] || `${getAppUrl()}/auth/oidc/callback`;
+};
+
+// Identity providers on the local network are only reachable when explicitly allowed,
+// e.g. for a provider run alongside the app in development
+const allowsPrivateIssuers = (): boolean => {
+  return process.env['OIDC_ALLOW_PRIVATE_ISSUERS'] === 'true';
+};
+
+const IPV4_PRIVATE_RANGES: [number, number][] = [
+  [0x00000000, 8], // "This" network
+  [0x0a000000, 8], // Private
+  [0x64400000, 10], // Carrier-grade NAT
+  [0x7f000000, 8], // Loopback
+  [0xa9fe0000, 16], // Link-local, including cloud metadata endpoints
+  [0xac100000, 12], // Private
+  [0xc0a80000, 16], // Private
+  [0xe0000000, 3] // Multicast and reserved
+];
+
+const isPrivateIpv4 = (address: string): boolean => {
+  const value = address.split('.').reduce((total, octet) => total * 256 + Number(octet), 0);
+  return IPV4_PRIVATE_RANGES.some(([network, bits]) => Math.floor(value / 2 ** (32 - bits)) === Math.floor(network / 2 ** (32 - bits)));
+};
+
+export const isPrivateAddress = (address: string): boolean => {
+  if (isIP(address) === 4) {
+    return isPrivateIpv4(address);
+  }
+
+  // IPv4-mapped addresses, which URLs spell in hex: ::ffff:127.0.0.1 becomes ::ffff:7f00:1
+  const normalized = address.toLowerCase();
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateIpv4(mapped[1]);
+  }
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateIpv4([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  // Unspecified, loopback, unique local (fc00::/7) and link-local (fe80::/10)
+  return normalized === '::' || normalized === '::1' || /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized);
+};
+
+// Provider URLs come from restaurant owners and are fetched by the server, so they must not
+// lead it to internal services
+export const assertPublicUrl = async (url: string): Promise<void> => {
+  if (allowsPrivateIssuers()) {
+    return;
+  }
+
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'https:') {
+    throw new Error('Identity provider URLs must use https');
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map(result => result.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error('Identity provider URLs must not point to a private network address');
+  }
+};
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<Record<string, unknown>> => {
+  await assertPublicUrl(url);
+
+  // Redirects are not followed, as they could lead past the address check
+  const response = await fetch(url, { ...init, redirect: 'error', signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Identity provider request failed with status ${response.status}`);
+  }
+
+  return response.json() as Promise<Record<string, unknown>>;
+};
+
+export const fetchOidcDiscovery = async (discoveryUrl: string): Promise<OidcDiscovery> => {
+  const document = await fetchJson(discoveryUrl);
+
+  const fields = ['issuer', 'authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const;
+  for (const field of fields) {
+    if (typeof document[field] !== 'string') {
+      throw new Error(`OpenID configuration is missing ${field}`);
+    }
+  }
+
+  // A document served for another issuer could be used to pass off that issuer's tokens
+  const issuer = (document['issuer'] as string).replace(/\/$/, '');
+  if (discoveryUrl.replace(/\/\.well-known\/openid-configuration$/, '') !== issuer) {
+    throw new Error('OpenID configuration belongs to another issuer');
+  }
+
+  return {
+    issuer: document['issuer'] as string,
+    authorization_endpoint: document['authorization_endpoint'] as string,
+    token_endpoint: document['token_endpoint'] as string,
+    jwks_uri: document['jwks_uri'] as string
+  };
+};
+
+// PKCE S256: the verifier stays on the server, only its hash travels through the browser
+export const createPkceChallenge = (codeVerifier: string): string => {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+};
+
+export const createPkceVerifier = (): string => {
+  return generateToken(48);
+};
+
+export const buildAuthorizationUrl = (discovery: OidcDiscovery, params: {
+  clientId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}): string => {
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', params.clientId);
+  url.searchParams.set('redirect_uri', getOidcRedirectUri());
+  url.searchParams.set('scope', 'openid email profile');
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', createPkceChallenge(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return url.toString();
+};
+
+// Redeems the authorization code at the token endpoint and returns the raw ID token
+export const exchangeAuthorizationCode = async (discovery: OidcDiscovery, params: {
+  clientId: string;
+  clientSecret: string;
+  code: string;
+  codeVerifier: string;
+}): Promise<string> => {
+  const credentials = Buffer.from(`${encodeURIComponent(params.clientId)}:${encodeURIComponent(params.clientSecret)}`).toString('base64');
+
+  const tokens = await fetchJson(discovery.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Authorization: `Basic ${credentials}`
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: getOidcRedirectUri(),
+      code_verifier: params.codeVerifier
+    }).toString()
+  });
+
+  if (typeof tokens['id_token'] !== 'string') {
+    throw new Error('Identity provider did not return an ID token');
+  }
+
+  return tokens['id_token'];
+};
+
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+};
+
+// Checks the RS256 signature against the provider's published keys, then the claims
+// binding the token to this client and this sign-in attempt
+export const verifyIdToken = async (idToken: string, discovery: OidcDiscovery, params: {
+  clientId: string;
+  nonce: string;
+}): Promise<OidcClaims> => {
+  const segments = idToken.split('.');
+  if (segments.length !== 3) {
+    throw new Error('Malformed ID token');
+  }
+
+  const [encodedHeader, encodedPayload, signature] = segments;
+  const header = decodeSegment(encodedHeader);
+  if (header['alg'] !== 'RS256') {
+    throw new Error(`Unsupported ID token algorithm: ${String(header['alg'])}`);
+  }
+
+  const jwks = await fetchJson(discovery.jwks_uri);
+  const keys = (Array.isArray(jwks['keys']) ? jwks['keys'] : []) as (JsonWebKey & { kid?: string })[];
+  const rsaKeys = keys.filter(key => key.kty === 'RSA');
+  const jwk = header['kid'] !== undefined
+    ? rsaKeys.find(key => key.kid === header['kid'])
+    : rsaKeys.length === 1 ? rsaKeys[0] : undefined;
+
+  if (!jwk) {
+    throw new Error('No matching signing key for the ID token');
+  }
+
+  const isSignatureValid = verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    createPublicKey({ key: jwk, format: 'jwk' }),
+    Buffer.from(signature, 'base64url')
+  );
+  if (!isSignatureValid) {
+    throw new Error('Invalid ID token signature');
+  }
+
+  const claims = decodeSegment(encodedPayload);
+  const audiences = Array.isArray(claims['aud']) ? claims['aud'] : [claims['aud']];
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims['iss'] !== discovery.issuer) {
+    throw new Error('ID token was issued by another identity provider');
+  }
+  if (!audiences.includes(params.clientId) || (audiences.length > 1 && claims['azp'] !== params.clientId)) {
+    throw new Error('ID token was issued for another client');
+  }
+  if (typeof claims['exp'] !== 'number' || claims['exp'] + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+  if (claims['nonce'] !== params.nonce) {
+    throw new Error('ID token does not belong to this sign-in');
+  }
+  if (typeof claims['sub'] !== 'string' || claims['sub'] === '') {
+    throw new Error('ID token has no subject');
+  }
+
+  return claims as unknown as OidcClaims;
+};
@@ -0,0 +1,117 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+// Stored format: $scrypt$v=<version>$N=<cost>,r=<blockSize>,p=<parallelism>$<salt>$<hash>
+// Salt and hash are base64 encoded. Bump the version or params to force a rehash on next login.
+const SCHEME = 'scrypt';
+const CURRENT_VERSION = 1;
+const CURRENT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+interface ScryptHash {
+  version: number;
+  params: { N: number; r: number; p: number };
+  salt: Buffer;
+  hash: Buffer;
+}
+
+const deriveKey = (password: string, salt: Buffer, keyLength: number, params: ScryptOptions): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    // scrypt needs 128 * N * r bytes; leave headroom above Node's 32MB default
+    scrypt(password, salt, keyLength, { ...params, maxmem: 256 * 1024 * 1024 }, (error, key) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(key);
+      }
+    });
+  });
+};
+
+const parseScryptHash = (storedHash: string): ScryptHash | null => {
+  const [empty, scheme, version, params, salt, hash] = storedHash.split('$');
+  if (empty !== '' || scheme !== SCHEME || !version || !params || !salt || !hash) {
+    return null;
+  }
+
+  const parsedParams = Object.fromEntries(
+    params.split(',').map(pair => {
+      const [key, value] = pair.split('=');
+      return [key, Number(value)];
+    })
+  );
+
+  const { N, r, p } = parsedParams;
+  const parsedVersion = Number(version.replace('v=', ''));
+  if (!Number.isInteger(N) || !Number.isInteger(r) || !Number.isInteger(p) || !Number.isInteger(parsedVersion)) {
+    return null;
+  }
+
+  const hashBuffer = Buffer.from(hash, 'base64');
+  if (hashBuffer.length === 0) {
+    return null;
+  }
+
+  return {
+    version: parsedVersion,
+    params: { N, r, p },
+    salt: Buffer.from(salt, 'base64'),
+    hash: hashBuffer
+  };
+};
+
+// Pre-scrypt hashes were sha256(password + salt) in hex, stored as either "salt:hash" or "hash:salt"
+const verifyLegacyPassword = (password: string, storedHash: string): boolean => {
+  const parts = storedHash.split(':');
+  if (parts.length !== 2) {
+    return false;
+  }
+
+  // The digest is always 64 hex chars, which tells the two orderings apart
+  const hashIndex = parts.findIndex(part => /^[0-9a-f]{64}$/i.test(part));
+  if (hashIndex === -1) {
+    return false;
+  }
+
+  const hash = Buffer.from(parts[hashIndex], 'hex');
+  const salt = parts[1 - hashIndex];
+  const computed = createHash('sha256').update(password + salt).digest();
+
+  return timingSafeEqual(hash, computed);
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await deriveKey(password, salt, KEY_LENGTH, CURRENT_PARAMS);
+  const { N, r, p } = CURRENT_PARAMS;
+
+  return `$${SCHEME}$v=${CURRENT_VERSION}$N=${N},r=${r},p=${p}$${salt.toString('base64')}$${hash.toString('base64')}`;
+};
+
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  try {
+    const parsed = parseScryptHash(storedHash);
+    if (!parsed) {
+      return verifyLegacyPassword(password, storedHash);
+    }
+
+    const computed = await deriveKey(password, parsed.salt, parsed.hash.length, parsed.params);
+    return timingSafeEqual(parsed.hash, computed);
+  } catch (error) {
+    return false;
+  }
+};
+
+// True when the stored hash uses a legacy scheme or outdated parameters
+export const needsRehash = (storedHash: string): boolean => {
+  const parsed = parseScryptHash(storedHash);
+  if (!parsed) {
+    return true;
+  }
+
+  return parsed.version !== CURRENT_VERSION
+    || parsed.params.N !== CURRENT_PARAMS.N
+    || parsed.params.r !== CURRENT_PARAMS.r
+    || parsed.params.p !== CURRENT_PARAMS.p
+    || parsed.hash.length !== KEY_LENGTH;
+};
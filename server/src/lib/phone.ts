@@ -0,0 +1,47 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { type AnyPgColumn } from 'drizzle-orm/pg-core';
+
+// Digits only, so "(555) 010-0001" and "555.010.0001" compare equal
+export const normalizePhone = (value: string): string => {
+  return value.replace(/\D/g, '');
+};
+
+// Country calling code assumed for numbers written without one
+const getDefaultCountryCode = (): string => {
+  return process.env['DEFAULT_PHONE_COUNTRY_CODE'] || '1';
+};
+
+// E.164 form ("+15550100123") of a number as guests and staff type it: international
+// numbers keep their code, national ones lose their trunk 0 and get the default country
+// code. Null when there are too few digits to be a phone number.
+export const toE164 = (value: string, countryCode: string = getDefaultCountryCode()): string | null => {
+  const trimmed = value.trim();
+  let digits = normalizePhone(trimmed);
+  if (digits.length < 7) {
+    return null;
+  }
+
+  if (trimmed.startsWith('+')) {
+    return `+${digits}`;
+  }
+  if (digits.startsWith('00')) {
+    return `+${digits.slice(2)}`;
+  }
+  // Longer than a national number, so the country code is already there
+  if (digits.startsWith(countryCode) && digits.length > 10) {
+    return `+${digits}`;
+  }
+
+  digits = digits.replace(/^0/, '');
+  return `+${countryCode}${digits}`;
+};
+
+// Search terms made of digits and phone punctuation only, e.g. "555 0100" but not "bob_100"
+export const isPhoneLike = (term: string): boolean => {
+  return /\d/.test(term) && /^[\d\s()+.-]+$/.test(term);
+};
+
+// normalizePhone in SQL; matches the phone digits index on customers
+export const normalizedPhoneSql = (column: AnyPgColumn): SQL<string> => {
+  return sql<string>`regexp_replace(${column}, '[^0-9]', '', 'g')`;
+};
@@ -0,0 +1,14 @@
+import { randomBytes } from 'crypto';
+import { base32Encode } from './totp';
+
+// Eight base32 characters shown as XXXX-XXXX, short enough to read out at the till
+export const generateRedemptionCode = (): string => {
+  const raw = base32Encode(randomBytes(5));
+  return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+};
+
+// Codes are accepted in any case, with or without the separator
+export const normalizeRedemptionCode = (code: string): string => {
+  const raw = code.toUpperCase().replace(/[\s-]/g, '');
+  return raw.length === 8 ? `${raw.slice(0, 4)}-${raw.slice(4)}` : raw;
+};
@@ -0,0 +1,66 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// Marks values encrypted by encryptSecret; anything else was stored before encryption
+const PREFIX = 'enc:v1:';
+
+// Secrets the server cannot run without outside development and tests
+export const REQUIRED_SECRETS = ['SESSION_SECRET', 'SECRET_ENCRYPTION_KEY'] as const;
+
+type RequiredSecret = typeof REQUIRED_SECRETS[number];
+
+// The fixed fallbacks are public, so they are only good enough where nothing real is at stake
+const allowsDevelopmentSecrets = (): boolean => {
+  return process.env['NODE_ENV'] === 'development' || process.env['NODE_ENV'] === 'test';
+};
+
+export const getSecret = (name: RequiredSecret, developmentFallback: string): string => {
+  const value = process.env[name];
+  if (value) {
+    return value;
+  }
+  if (!allowsDevelopmentSecrets()) {
+    throw new Error(`${name} must be set outside development and test`);
+  }
+
+  return developmentFallback;
+};
+
+// Checked at startup, so a missing secret stops the server instead of its first request
+export const assertSecretsConfigured = (): void => {
+  const missing = allowsDevelopmentSecrets() ? [] : REQUIRED_SECRETS.filter(name => !process.env[name]);
+  if (missing.length > 0) {
+    throw new Error(`${missing.join(', ')} must be set outside development and test`);
+  }
+};
+
+// Key for secrets the server has to read back, like OIDC client secrets and TOTP secrets
+const getEncryptionKey = (): Buffer => {
+  const secret = getSecret('SECRET_ENCRYPTION_KEY', 'development-encryption-key');
+  return createHash('sha256').update(secret).digest();
+};
+
+export const isEncryptedSecret = (value: string): boolean => {
+  return value.startsWith(PREFIX);
+};
+
+// AES-256-GCM, so a tampered value fails to decrypt instead of yielding garbage
+export const encryptSecret = (plaintext: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return `${PREFIX}${[iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.')}`;
+};
+
+// Values from before encryption are returned as they are
+export const decryptSecret = (value: string): string => {
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+
+  const [iv, tag, ciphertext] = value.slice(PREFIX.length).split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
@@ -0,0 +1,44 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getSecret } from './secrets';
+
+// Secret used to sign tokens handed out to clients
+const getSigningSecret = (): string => {
+  return getSecret('SESSION_SECRET', 'development-session-secret');
+};
+
+// Random URL-safe token
+export const generateToken = (bytes: number = 32): string => {
+  return randomBytes(bytes).toString('base64url');
+};
+
+// Tokens are stored hashed so a database leak does not expose live credentials
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+const sign = (value: string): string => {
+  return createHmac('sha256', getSigningSecret()).update(value).digest('base64url');
+};
+
+// Append an HMAC signature so forged tokens are rejected before touching the database
+export const signToken = (token: string): string => {
+  return `${token}.${sign(token)}`;
+};
+
+// Returns the unsigned token, or null when the signature is missing or invalid
+export const verifySignedToken = (signedToken: string): string | null => {
+  const separatorIndex = signedToken.lastIndexOf('.');
+  if (separatorIndex <= 0) {
+    return null;
+  }
+
+  const token = signedToken.slice(0, separatorIndex);
+  const signature = Buffer.from(signedToken.slice(separatorIndex + 1));
+  const expected = Buffer.from(sign(token));
+
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return null;
+  }
+
+  return token;
+};
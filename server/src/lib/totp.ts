@@ -0,0 +1,108 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// RFC 6238 defaults understood by every authenticator app
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// 160-bit secret, the size recommended by RFC 4226
+export const generateTotpSecret = (): string => {
+  return base32Encode(randomBytes(20));
+};
+
+// Number of the time step containing the given moment
+const getTimeStep = (at: Date): number => {
+  return Math.floor(at.getTime() / 1000 / STEP_SECONDS);
+};
+
+// HOTP value for the time step containing the given moment
+export const generateTotp = (secret: string, at: Date = new Date()): string => {
+  const counter = getTimeStep(at);
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+
+  return binary.toString().padStart(DIGITS, '0');
+};
+
+// Time step the code belongs to, or null if it matches none. Codes from adjacent time steps
+// are accepted to tolerate clock drift.
+export const findTotpStep = (secret: string, code: string, window: number = 1, at: Date = new Date()): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== DIGITS) {
+    return null;
+  }
+
+  for (let step = -window; step <= window; step++) {
+    const moment = new Date(at.getTime() + step * STEP_SECONDS * 1000);
+    if (timingSafeEqual(Buffer.from(generateTotp(secret, moment)), Buffer.from(normalized))) {
+      return getTimeStep(moment);
+    }
+  }
+
+  return null;
+};
+
+export const verifyTotp = (secret: string, code: string, window: number = 1, at: Date = new Date()): boolean => {
+  return findTotpStep(secret, code, window, at) !== null;
+};
+
+// otpauth:// URI rendered as a QR code by the client
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS)
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,110 @@
+import { db } from '../db';
+import { recoveryCodesTable, restaurantsTable, userTwoFactorTable, type UserTwoFactor } from '../db/schema';
+import { type User, type UserRole } from '../schema';
+import { and, eq, isNotNull, isNull, lt, or } from 'drizzle-orm';
+import { randomBytes } from 'crypto';
+import { hashToken } from './tokens';
+import { decryptSecret } from './secrets';
+import { base32Encode, findTotpStep } from './totp';
+
+// Roles a restaurant can force into two-factor authentication
+export const TWO_FACTOR_POLICY_ROLES: UserRole[] = ['RESTAURANT_OWNER', 'MANAGER'];
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are compared case-insensitively and without separators
+const normalizeRecoveryCode = (code: string): string => {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+};
+
+export const getEnabledTwoFactor = async (userId: number): Promise<UserTwoFactor | null> => {
+  const results = await db.select()
+    .from(userTwoFactorTable)
+    .where(and(
+      eq(userTwoFactorTable.user_id, userId),
+      isNotNull(userTwoFactorTable.enabled_at)
+    ))
+    .execute();
+
+  return results[0] ?? null;
+};
+
+// True when the user's restaurant requires 2FA for their role
+export const isTwoFactorRequiredByPolicy = async (user: User): Promise<boolean> => {
+  if (user.restaurant_id === null || !TWO_FACTOR_POLICY_ROLES.includes(user.role)) {
+    return false;
+  }
+
+  const restaurants = await db.select()
+    .from(restaurantsTable)
+    .where(eq(restaurantsTable.id, user.restaurant_id))
+    .execute();
+
+  return restaurants[0]?.require_two_factor ?? false;
+};
+
+// Replaces any existing recovery codes; the plaintext codes are only returned here
+export const generateRecoveryCodes = async (userId: number): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(5)).toLowerCase();
+    return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+  });
+
+  await db.delete(recoveryCodesTable)
+    .where(eq(recoveryCodesTable.user_id, userId))
+    .execute();
+
+  await db.insert(recoveryCodesTable)
+    .values(codes.map(code => ({
+      user_id: userId,
+      code_hash: hashToken(normalizeRecoveryCode(code))
+    })))
+    .execute();
+
+  return codes;
+};
+
+// Accepts a current TOTP code once. Codes of the time step last accepted or an earlier one are
+// refused, so a code seen over someone's shoulder cannot be replayed while it is still valid.
+export const acceptTotpCode = async (twoFactor: UserTwoFactor, code: string): Promise<boolean> => {
+  const step = findTotpStep(decryptSecret(twoFactor.secret), code);
+  if (step === null) {
+    return false;
+  }
+
+  // Conditional on the stored step, so concurrent requests with the same code cannot both pass
+  const accepted = await db.update(userTwoFactorTable)
+    .set({ last_used_step: step, updated_at: new Date() })
+    .where(and(
+      eq(userTwoFactorTable.id, twoFactor.id),
+      or(isNull(userTwoFactorTable.last_used_step), lt(userTwoFactorTable.last_used_step, step))
+    ))
+    .returning()
+    .execute();
+
+  return accepted.length > 0;
+};
+
+// Accepts a current TOTP code or an unused recovery code, which is consumed
+export const verifySecondFactor = async (userId: number, code: string): Promise<boolean> => {
+  const twoFactor = await getEnabledTwoFactor(userId);
+  if (!twoFactor) {
+    return false;
+  }
+
+  if (await acceptTotpCode(twoFactor, code)) {
+    return true;
+  }
+
+  const consumed = await db.update(recoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(recoveryCodesTable.user_id, userId),
+      eq(recoveryCodesTable.code_hash, hashToken(normalizeRecoveryCode(code))),
+      isNull(recoveryCodesTable.used_at)
+    ))
+    .returning()
+    .execute();
+
+  return consumed.length > 0;
+};
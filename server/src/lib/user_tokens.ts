@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { userTokensTable } from '../db/schema';
+import { type UserToken, type UserTokenPurpose } from '../schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { generateToken, hashToken } from './tokens';
+
+// Issues a fresh token for the purpose, invalidating any still-outstanding ones.
+// Email verification tokens carry the address they were sent to.
+export const issueUserToken = async (userId: number, purpose: UserTokenPurpose, ttlMs: number, email: string | null = null): Promise<string> => {
+  await db.update(userTokensTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(userTokensTable.user_id, userId),
+      eq(userTokensTable.purpose, purpose),
+      isNull(userTokensTable.used_at)
+    ))
+    .execute();
+
+  const token = generateToken();
+
+  await db.insert(userTokensTable)
+    .values({
+      user_id: userId,
+      purpose,
+      token_hash: hashToken(token),
+      email,
+      expires_at: new Date(Date.now() + ttlMs)
+    })
+    .execute();
+
+  return token;
+};
+
+// Marks the token as used in a single statement so it can only be redeemed once.
+// Returns null for unknown, expired, already used or wrong-purpose tokens.
+export const consumeUserToken = async (token: string, purpose: UserTokenPurpose): Promise<UserToken | null> => {
+  const result = await db.update(userTokensTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(userTokensTable.token_hash, hashToken(token)),
+      eq(userTokensTable.purpose, purpose),
+      isNull(userTokensTable.used_at),
+      gt(userTokensTable.expires_at, new Date())
+    ))
+    .returning()
+    .execute();
+
+  return result[0] ?? null;
+};
@@ -0,0 +1,20 @@
+import { type PublicUser, type User } from '../schema';
+
+// The account as its owner may see it: without the password hash and lockout state
+export const toPublicUser = (user: User): PublicUser => {
+  return {
+    id: user.id,
+    email: user.email,
+    first_name: user.first_name,
+    last_name: user.last_name,
+    role: user.role,
+    restaurant_id: user.restaurant_id,
+    is_active: user.is_active,
+    email_verified_at: user.email_verified_at,
+    custom_role_id: user.custom_role_id,
+    oidc_provider_id: user.oidc_provider_id,
+    oidc_subject: user.oidc_subject,
+    created_at: user.created_at,
+    updated_at: user.updated_at
+  };
+};
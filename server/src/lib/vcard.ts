@@ -0,0 +1,65 @@
+// vCard 3.0 (RFC 2426) building blocks
+
+// Lines longer than this many octets are folded onto continuation lines
+const MAX_LINE_OCTETS = 75;
+
+// Backslashes, commas, semicolons and line breaks are escaped in text values
+export const escapeVCardText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+};
+
+// Folds a content line without splitting multi-byte characters; continuation lines start
+// with a space, which counts towards their length
+export const foldVCardLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n');
+};
+
+export interface VCardContact {
+  firstName: string;
+  lastName: string;
+  email?: string | null;
+  phone?: string | null;
+  note?: string | null;
+}
+
+export const toVCard = (contact: VCardContact): string => {
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `N:${escapeVCardText(contact.lastName)};${escapeVCardText(contact.firstName)};;;`,
+    `FN:${escapeVCardText(`${contact.firstName} ${contact.lastName}`)}`
+  ];
+
+  if (contact.email) {
+    lines.push(`EMAIL;TYPE=INTERNET:${escapeVCardText(contact.email)}`);
+  }
+  if (contact.phone) {
+    lines.push(`TEL:${escapeVCardText(contact.phone)}`);
+  }
+  if (contact.note) {
+    lines.push(`NOTE:${escapeVCardText(contact.note)}`);
+  }
+  lines.push('END:VCARD');
+
+  return lines.map(foldVCardLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,49 @@
+import 'dotenv/config';
+import { db } from './db';
+import { restaurantsTable } from './db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { expireLoyaltyPoints } from './handlers/expire_loyalty_points';
+import { evaluateLoyaltyTiers } from './handlers/evaluate_loyalty_tiers';
+
+export interface NightlyRun {
+  restaurants: number;
+  failed: number[]; // Ids of restaurants whose jobs threw
+}
+
+// Loyalty upkeep for every active restaurant: points past their expiry go first, then
+// customers are moved to the tier they qualify for. Both jobs only change what is due, so
+// a missed or repeated night is caught up or skipped by the next run. One restaurant
+// failing does not hold up the others.
+export const runNightlyJobs = async (now: Date = new Date()): Promise<NightlyRun> => {
+  const restaurants = await db.select({ id: restaurantsTable.id })
+    .from(restaurantsTable)
+    .where(eq(restaurantsTable.is_active, true))
+    .orderBy(asc(restaurantsTable.id))
+    .execute();
+
+  const failed: number[] = [];
+  for (const restaurant of restaurants) {
+    try {
+      await expireLoyaltyPoints(restaurant.id, now);
+      await evaluateLoyaltyTiers(restaurant.id, now);
+    } catch (error) {
+      console.error(`Nightly jobs failed for restaurant ${restaurant.id}:`, error);
+      failed.push(restaurant.id);
+    }
+  }
+
+  return { restaurants: restaurants.length, failed };
+};
+
+// Cron entry point, e.g. `0 3 * * * cd server && bun run nightly`
+if (import.meta.main) {
+  runNightlyJobs()
+    .then((run) => {
+      console.log(`Nightly jobs ran for ${run.restaurants} restaurants`);
+      process.exit(run.failed.length === 0 ? 0 : 1);
+    })
+    .catch((error) => {
+      console.error('Nightly jobs failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,952 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import {
+  router,
+  publicProcedure,
+  authenticatedProcedure,
+  protectedProcedure,
+  superAdminProcedure,
+  tenantProcedure,
+  requirePermission,
+  requireRole,
+  notDuringImpersonation,
+  assertNotImpersonating,
+  resolveRestaurantId,
+  resolveTenantId,
+  assertGrantablePermissions,
+  assertAssignableRole,
+  outranksCaller
+} from './trpc';
+
+// Import schemas
+import { 
+  createUserInputSchema,
+  loginInputSchema,
+  requestPasswordResetInputSchema,
+  resetPasswordInputSchema,
+  verifyEmailInputSchema,
+  verifyTwoFactorLoginInputSchema,
+  getLoginHistoryInputSchema,
+  getAuditLogInputSchema,
+  twoFactorCodeInputSchema,
+  createRestaurantInputSchema,
+  updateRestaurantInputSchema,
+  createCustomerInputSchema,
+  updateCustomerInputSchema,
+  getCustomersByRestaurantInputSchema,
+  searchCustomersInputSchema,
+  recordVisitInputSchema,
+  updateVisitInputSchema,
+  voidVisitInputSchema,
+  getCustomerVisitsInputSchema,
+  configureLoyaltyRulesInputSchema,
+  adjustLoyaltyPointsInputSchema,
+  redeemLoyaltyPointsInputSchema,
+  getLoyaltyLedgerInputSchema,
+  importCustomersInputSchema,
+  exportCustomersInputSchema,
+  getDuplicateCandidatesInputSchema,
+  mergeCustomersInputSchema,
+  createLoyaltyTierInputSchema,
+  updateLoyaltyTierInputSchema,
+  createRewardInputSchema,
+  updateRewardInputSchema,
+  getRewardsInputSchema,
+  redeemRewardInputSchema,
+  redemptionCodeInputSchema,
+  voidRedemptionInputSchema,
+  getStaffByRestaurantInputSchema,
+  updateUserInputSchema,
+  createSubscriptionInputSchema,
+  createInvitationInputSchema,
+  acceptInvitationInputSchema,
+  createCustomRoleInputSchema,
+  updateCustomRoleInputSchema,
+  assignCustomRoleInputSchema,
+  setUserPermissionOverrideInputSchema,
+  rolePermissionInputSchema,
+  createApiKeyInputSchema,
+  configureOidcProviderInputSchema,
+  beginOidcLoginInputSchema,
+  completeOidcLoginInputSchema,
+  userRoleSchema
+} from './schema';
+
+// Import handlers
+import { createUser } from './handlers/create_user';
+import { loginUser } from './handlers/login_user';
+import { revokeSession } from './handlers/revoke_session';
+import { requestPasswordReset } from './handlers/request_password_reset';
+import { resetPassword } from './handlers/reset_password';
+import { sendVerificationEmail } from './handlers/send_verification_email';
+import { verifyEmail } from './handlers/verify_email';
+import { verifyTwoFactorLogin } from './handlers/verify_two_factor_login';
+import { beginTwoFactorEnrollment } from './handlers/begin_two_factor_enrollment';
+import { confirmTwoFactorEnrollment } from './handlers/confirm_two_factor_enrollment';
+import { disableTwoFactor } from './handlers/disable_two_factor';
+import { regenerateRecoveryCodes } from './handlers/regenerate_recovery_codes';
+import { unlockUser } from './handlers/unlock_user';
+import { getLoginHistory } from './handlers/get_login_history';
+import { getAuditLog } from './handlers/get_audit_log';
+import { LoginThrottledError } from './lib/login_throttle';
+import { recordAudit, withAudit } from './lib/audit';
+import { toPublicUser } from './lib/users';
+import { startImpersonation } from './handlers/start_impersonation';
+import { getImpersonationStatus } from './handlers/get_impersonation_status';
+import { createRestaurant } from './handlers/create_restaurant';
+import { getRestaurant, getRestaurantByUserId } from './handlers/get_restaurant';
+import { updateRestaurant } from './handlers/update_restaurant';
+import { createCustomer } from './handlers/create_customer';
+import { getCustomersByRestaurant, getCustomer } from './handlers/get_customers';
+import { searchCustomers } from './handlers/search_customers';
+import { importCustomers } from './handlers/import_customers';
+import { exportCustomers } from './handlers/export_customers';
+import { recordVisit } from './handlers/record_visit';
+import { updateVisit } from './handlers/update_visit';
+import { voidVisit } from './handlers/void_visit';
+import { getCustomerVisits } from './handlers/get_visits';
+import { getLoyaltyRules } from './handlers/get_loyalty_rules';
+import { configureLoyaltyRules } from './handlers/configure_loyalty_rules';
+import { adjustLoyaltyPoints } from './handlers/adjust_loyalty_points';
+import { redeemLoyaltyPoints } from './handlers/redeem_loyalty_points';
+import { expireLoyaltyPoints } from './handlers/expire_loyalty_points';
+import { getLoyaltyLedger } from './handlers/get_loyalty_ledger';
+import { findDuplicateCustomers } from './handlers/find_duplicate_customers';
+import { getDuplicateCandidates } from './handlers/get_duplicate_candidates';
+import { dismissDuplicateCandidate } from './handlers/dismiss_duplicate_candidate';
+import { mergeCustomers } from './handlers/merge_customers';
+import { undoCustomerMerge } from './handlers/undo_customer_merge';
+import { getLoyaltyTiers } from './handlers/get_loyalty_tiers';
+import { createLoyaltyTier } from './handlers/create_loyalty_tier';
+import { updateLoyaltyTier } from './handlers/update_loyalty_tier';
+import { evaluateLoyaltyTiers } from './handlers/evaluate_loyalty_tiers';
+import { getLoyaltyTierHistory } from './handlers/get_loyalty_tier_history';
+import { getRewards } from './handlers/get_rewards';
+import { createReward } from './handlers/create_reward';
+import { updateReward } from './handlers/update_reward';
+import { redeemReward } from './handlers/redeem_reward';
+import { getRedemptionByCode } from './handlers/get_redemption';
+import { useRedemptionCode } from './handlers/use_redemption_code';
+import { voidRedemption } from './handlers/void_redemption';
+import { updateCustomer } from './handlers/update_customer';
+import { getStaffByRestaurant, getStaffMember } from './handlers/get_staff';
+import { createInvitation } from './handlers/create_invitation';
+import { resendInvitation } from './handlers/resend_invitation';
+import { revokeInvitation } from './handlers/revoke_invitation';
+import { getInvitationsByRestaurant } from './handlers/get_invitations';
+import { acceptInvitation } from './handlers/accept_invitation';
+import { updateUser } from './handlers/update_user';
+import { createSubscription } from './handlers/create_subscription';
+import { getSubscriptionByRestaurant } from './handlers/get_subscription';
+import { getPermissionsByRole, getAllPermissions, getRolePermissions, getRolePermission, getPermissionNamesByRole } from './handlers/get_permissions';
+import { grantRolePermission } from './handlers/grant_role_permission';
+import { revokeRolePermission } from './handlers/revoke_role_permission';
+import { seedDefaultPermissions, assignDefaultRolePermissions } from './handlers/seed_permissions';
+import { createCustomRole, getRequestedPermissions } from './handlers/create_custom_role';
+import { getCustomRolesByRestaurant, getCustomRole } from './handlers/get_custom_roles';
+import { updateCustomRole } from './handlers/update_custom_role';
+import { deleteCustomRole, getCustomRoleHolderRoles } from './handlers/delete_custom_role';
+import { assignCustomRole } from './handlers/assign_custom_role';
+import { getEffectivePermissions } from './handlers/get_effective_permissions';
+import { findUserPermissionOverride, getUserPermissionOverride, relaxesDenial, setUserPermissionOverride } from './handlers/set_user_permission_override';
+import { removeUserPermissionOverride } from './handlers/remove_user_permission_override';
+import { createApiKey } from './handlers/create_api_key';
+import { getApiKeysByRestaurant } from './handlers/get_api_keys';
+import { revokeApiKey } from './handlers/revoke_api_key';
+import { getOidcProvider } from './handlers/get_oidc_provider';
+import { configureOidcProvider } from './handlers/configure_oidc_provider';
+import { beginOidcLogin } from './handlers/begin_oidc_login';
+import { completeOidcLogin } from './handlers/complete_oidc_login';
+
+export const appRouter = router({
+  // Health check
+  healthcheck: publicProcedure.query(() => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  }),
+
+  // Authentication routes. Sign-ins and credential changes are tracked by the login
+  // history; mutations of tenant data further down are recorded through withAudit.
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const authSession = await loginUser(input, ctx.client);
+        if (!authSession) {
+          throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid email or password' });
+        }
+        return authSession;
+      } catch (error) {
+        if (error instanceof LoginThrottledError) {
+          throw new TRPCError({
+            code: 'TOO_MANY_REQUESTS',
+            message: `${error.message} (retry after ${error.retryAfter.toISOString()})`,
+            cause: error
+          });
+        }
+        throw error;
+      }
+    }),
+
+  verifyTwoFactorLogin: publicProcedure
+    .input(verifyTwoFactorLoginInputSchema)
+    .mutation(({ ctx, input }) => verifyTwoFactorLogin(input, ctx.client)),
+
+  // Single sign-on: the client sends the browser to authorization_url and passes the
+  // state and code from the redirect back to completeOidcLogin, which answers like login
+  beginOidcLogin: publicProcedure
+    .input(beginOidcLoginInputSchema)
+    .mutation(({ input }) => beginOidcLogin(input)),
+
+  completeOidcLogin: publicProcedure
+    .input(completeOidcLoginInputSchema)
+    .mutation(({ ctx, input }) => completeOidcLogin(input, ctx.client)),
+
+  logout: authenticatedProcedure
+    .mutation(async ({ ctx }) => {
+      await revokeSession(ctx.session.id);
+      return { success: true };
+    }),
+
+  me: authenticatedProcedure
+    .query(({ ctx }) => toPublicUser(ctx.user)),
+
+  // Support access: a super admin acts as a restaurant user through a separate, short-lived
+  // session. Audit entries written from it name the super admin as impersonator.
+  startImpersonation: superAdminProcedure
+    .input(z.object({
+      userId: z.number()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { session, ...impersonation } = await startImpersonation(ctx.user.id, input.userId);
+      // Logged from the session row so the token never reaches the log
+      await recordAudit(ctx, { entityType: 'SESSION', action: 'CREATE' }, null, session);
+      return impersonation;
+    }),
+
+  stopImpersonation: authenticatedProcedure
+    .mutation(async ({ ctx }) => {
+      if (ctx.session.impersonator_id === null) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'This session is not impersonating a user' });
+      }
+      await withAudit(ctx, { entityType: 'SESSION', action: 'UPDATE', entityId: ctx.session.id }, () => revokeSession(ctx.session.id));
+      return { success: true };
+    }),
+
+  getImpersonationStatus: authenticatedProcedure
+    .query(({ ctx }) => getImpersonationStatus(ctx.session)),
+
+  getLoginHistory: protectedProcedure
+    .input(getLoginHistoryInputSchema.optional())
+    .query(({ ctx, input }) => getLoginHistory(ctx.user.id, input)),
+
+  // Two-factor authentication routes, reachable before a required enrollment is done
+  beginTwoFactorEnrollment: authenticatedProcedure
+    .use(notDuringImpersonation)
+    .mutation(({ ctx }) => beginTwoFactorEnrollment(ctx.user.id)),
+
+  confirmTwoFactorEnrollment: authenticatedProcedure
+    .use(notDuringImpersonation)
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ ctx, input }) => confirmTwoFactorEnrollment(ctx.user.id, input)),
+
+  disableTwoFactor: protectedProcedure
+    .use(notDuringImpersonation)
+    .input(twoFactorCodeInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await disableTwoFactor(ctx.user.id, input);
+      return { success: true };
+    }),
+
+  regenerateRecoveryCodes: protectedProcedure
+    .use(notDuringImpersonation)
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ ctx, input }) => regenerateRecoveryCodes(ctx.user.id, input)),
+
+  // Account recovery and verification routes
+  requestPasswordReset: publicProcedure
+    .use(notDuringImpersonation)
+    .input(requestPasswordResetInputSchema)
+    .mutation(async ({ input }) => {
+      await requestPasswordReset(input);
+      return { success: true };
+    }),
+
+  resetPassword: publicProcedure
+    .use(notDuringImpersonation)
+    .input(resetPasswordInputSchema)
+    .mutation(async ({ input }) => {
+      await resetPassword(input);
+      return { success: true };
+    }),
+
+  sendVerificationEmail: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      await sendVerificationEmail(ctx.user.id);
+      return { success: true };
+    }),
+
+  verifyEmail: publicProcedure
+    .input(verifyEmailInputSchema)
+    .mutation(({ input }) => verifyEmail(input)),
+
+  // User management routes
+  createUser: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .input(createUserInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role === 'SUPER_ADMIN') {
+        return toPublicUser(await withAudit(ctx, { entityType: 'USER', action: 'CREATE' }, () => createUser(input)));
+      }
+      await assertAssignableRole(ctx, input.role);
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurant_id);
+      return toPublicUser(await withAudit(ctx, { entityType: 'USER', action: 'CREATE' }, () => createUser({ ...input, restaurant_id: restaurantId })));
+    }),
+
+  updateUser: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .input(updateUserInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      // A changed email address is a way into the account through a password reset
+      if (input.email !== undefined) {
+        assertNotImpersonating(ctx);
+      }
+      const target = { entityType: 'USER', action: 'UPDATE', entityId: input.id } as const;
+      if (ctx.user.role === 'SUPER_ADMIN') {
+        return toPublicUser(await withAudit(ctx, target, () => updateUser(input)));
+      }
+      await assertAssignableRole(ctx, input.role);
+      // Tenant users cannot move staff into another restaurant or out of their own
+      const { restaurant_id: requestedId, ...fields } = input;
+      const restaurantId = resolveRestaurantId(ctx.user, requestedId);
+
+      // Nor edit someone above them, e.g. to take over an owner account by changing its email
+      const existing = await getStaffMember(input.id, restaurantId);
+      if (existing && outranksCaller(ctx, existing.role)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: `Cannot update a user with the ${existing.role} role` });
+      }
+      return toPublicUser(await withAudit(ctx, target, () => updateUser(fields, restaurantId)));
+    }),
+
+  // Restaurant management routes
+  createRestaurant: superAdminProcedure
+    .input(createRestaurantInputSchema)
+    .mutation(({ ctx, input }) => withAudit(ctx, { entityType: 'RESTAURANT', action: 'CREATE' }, () => createRestaurant(input))),
+
+  getRestaurant: tenantProcedure
+    .use(requirePermission('settings:read'))
+    .input(z.number().optional())
+    .query(({ ctx, input }) => getRestaurant(resolveTenantId(ctx, input))),
+
+  getRestaurantByUserId: protectedProcedure
+    .use(requirePermission('settings:read'))
+    .input(z.number())
+    .query(async ({ ctx, input }) => {
+      const restaurant = await getRestaurantByUserId(input);
+      if (ctx.user.role === 'SUPER_ADMIN') {
+        return restaurant;
+      }
+      // Users of other restaurants are indistinguishable from unknown users
+      return restaurant && restaurant.id === resolveRestaurantId(ctx.user) ? restaurant : null;
+    }),
+
+  updateRestaurant: protectedProcedure
+    .use(requirePermission('settings:write'))
+    .input(updateRestaurantInputSchema.partial({ id: true }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveRestaurantId(ctx.user, input.id);
+      return withAudit(ctx, { entityType: 'RESTAURANT', action: 'UPDATE', entityId: restaurantId }, () => updateRestaurant({ ...input, id: restaurantId }));
+    }),
+
+  // Customer management routes
+  createCustomer: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(createCustomerInputSchema.partial({ restaurant_id: true }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurant_id);
+      return withAudit(ctx, { entityType: 'CUSTOMER', action: 'CREATE' }, () => createCustomer({ ...input, restaurant_id: restaurantId }));
+    }),
+
+  // Each imported customer is audited as created
+  importCustomers: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(importCustomersInputSchema.partial({ restaurant_id: true }))
+    .mutation(({ ctx, input }) => importCustomers({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) }, ctx)),
+
+  // Streams the file in chunks; clients read it with httpBatchStreamLink
+  exportCustomers: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(exportCustomersInputSchema.partial({ restaurant_id: true }))
+    .query(({ ctx, input }) => exportCustomers({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) })),
+
+  getCustomersByRestaurant: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(getCustomersByRestaurantInputSchema.partial({ restaurant_id: true }))
+    .query(({ ctx, input }) => getCustomersByRestaurant({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) })),
+
+  searchCustomers: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(searchCustomersInputSchema.partial({ restaurant_id: true }))
+    .query(({ ctx, input }) => searchCustomers({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) })),
+
+  getCustomer: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(z.object({
+      customerId: z.number(),
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .query(({ ctx, input }) => getCustomer(input.customerId, resolveTenantId(ctx, input.restaurantId))),
+
+  updateCustomer: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(z.object({
+      customer: updateCustomerInputSchema,
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurantId);
+      return withAudit(ctx, { entityType: 'CUSTOMER', action: 'UPDATE', entityId: input.customer.id }, () => updateCustomer(input.customer, restaurantId));
+    }),
+
+  // Duplicate customer routes; a scan fills the review queue, staff merge or dismiss each pair
+  findDuplicateCustomers: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(z.number().optional())
+    .mutation(({ ctx, input }) => findDuplicateCustomers(resolveTenantId(ctx, input))),
+
+  getDuplicateCandidates: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(getDuplicateCandidatesInputSchema.partial({ restaurant_id: true }))
+    .query(({ ctx, input }) => getDuplicateCandidates({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) })),
+
+  dismissDuplicateCandidate: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(z.object({
+      candidateId: z.number(),
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(({ ctx, input }) => dismissDuplicateCandidate(input.candidateId, resolveTenantId(ctx, input.restaurantId), ctx)),
+
+  // Merging deactivates a customer, so it takes the same permission as deleting one
+  mergeCustomers: tenantProcedure
+    .use(requirePermission('customers:delete'))
+    .input(mergeCustomersInputSchema.partial({ restaurant_id: true }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurant_id);
+      return withAudit(ctx, { entityType: 'CUSTOMER_MERGE', action: 'CREATE' }, () => mergeCustomers({ ...input, restaurant_id: restaurantId }, ctx));
+    }),
+
+  undoCustomerMerge: tenantProcedure
+    .use(requirePermission('customers:delete'))
+    .input(z.object({
+      mergeId: z.number(),
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurantId);
+      return withAudit(ctx, { entityType: 'CUSTOMER_MERGE', action: 'UPDATE', entityId: input.mergeId }, () => undoCustomerMerge(input.mergeId, restaurantId, ctx));
+    }),
+
+  // Visit routes; recording a visit keeps the customer's visit count and last visit current
+  recordVisit: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(recordVisitInputSchema.partial({ restaurant_id: true }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurant_id);
+      return withAudit(ctx, { entityType: 'VISIT', action: 'CREATE' }, () => recordVisit({ ...input, restaurant_id: restaurantId }, ctx));
+    }),
+
+  getCustomerVisits: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(getCustomerVisitsInputSchema.extend({
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .query(({ ctx, input }) => getCustomerVisits(input, resolveTenantId(ctx, input.restaurantId))),
+
+  updateVisit: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(z.object({
+      visit: updateVisitInputSchema,
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurantId);
+      return withAudit(ctx, { entityType: 'VISIT', action: 'UPDATE', entityId: input.visit.id }, () => updateVisit(input.visit, restaurantId, ctx));
+    }),
+
+  voidVisit: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(voidVisitInputSchema.extend({
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurantId);
+      return withAudit(ctx, { entityType: 'VISIT', action: 'UPDATE', entityId: input.id }, () => voidVisit(input, restaurantId, ctx));
+    }),
+
+  // Loyalty routes; balances only move through ledger entries, which record who moved them
+  getLoyaltyRules: tenantProcedure
+    .use(requirePermission('settings:read'))
+    .input(z.number().optional())
+    .query(({ ctx, input }) => getLoyaltyRules(resolveTenantId(ctx, input))),
+
+  configureLoyaltyRules: tenantProcedure
+    .use(requirePermission('settings:write'))
+    .input(configureLoyaltyRulesInputSchema.partial({ restaurant_id: true }))
+    .mutation(async ({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurant_id);
+      const existing = await getLoyaltyRules(restaurantId);
+      return withAudit(ctx, { entityType: 'LOYALTY_RULES', action: existing ? 'UPDATE' : 'CREATE', entityId: existing?.id },
+        () => configureLoyaltyRules({ ...input, restaurant_id: restaurantId }));
+    }),
+
+  getLoyaltyLedger: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(getLoyaltyLedgerInputSchema.extend({
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .query(({ ctx, input }) => getLoyaltyLedger(input, resolveTenantId(ctx, input.restaurantId))),
+
+  adjustLoyaltyPoints: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(adjustLoyaltyPointsInputSchema.partial({ restaurant_id: true }))
+    .mutation(({ ctx, input }) => adjustLoyaltyPoints({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) }, ctx)),
+
+  redeemLoyaltyPoints: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(redeemLoyaltyPointsInputSchema.partial({ restaurant_id: true }))
+    .mutation(({ ctx, input }) => redeemLoyaltyPoints({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) }, ctx)),
+
+  // For schedulers calling in daily with an API key
+  expireLoyaltyPoints: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(z.number().optional())
+    .mutation(({ ctx, input }) => expireLoyaltyPoints(resolveTenantId(ctx, input))),
+
+  // Staff see tiers and their perks; owners define them
+  getLoyaltyTiers: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(z.number().optional())
+    .query(({ ctx, input }) => getLoyaltyTiers(resolveTenantId(ctx, input))),
+
+  createLoyaltyTier: tenantProcedure
+    .use(requirePermission('settings:write'))
+    .input(createLoyaltyTierInputSchema.partial({ restaurant_id: true }))
+    .mutation(({ ctx, input }) => withAudit(ctx, { entityType: 'LOYALTY_TIER', action: 'CREATE' },
+      () => createLoyaltyTier({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) }))),
+
+  updateLoyaltyTier: tenantProcedure
+    .use(requirePermission('settings:write'))
+    .input(updateLoyaltyTierInputSchema.extend({
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurantId);
+      return withAudit(ctx, { entityType: 'LOYALTY_TIER', action: 'UPDATE', entityId: input.id }, () => updateLoyaltyTier(input, restaurantId));
+    }),
+
+  getLoyaltyTierHistory: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(z.object({
+      customerId: z.number(),
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .query(({ ctx, input }) => getLoyaltyTierHistory(input.customerId, resolveTenantId(ctx, input.restaurantId))),
+
+  // For schedulers calling in nightly with an API key
+  evaluateLoyaltyTiers: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(z.number().optional())
+    .mutation(({ ctx, input }) => evaluateLoyaltyTiers(resolveTenantId(ctx, input))),
+
+  // Rewards routes; customers spend points on a reward and staff accept the code it issues
+  getRewards: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(getRewardsInputSchema.partial({ restaurant_id: true }))
+    .query(({ ctx, input }) => getRewards({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) })),
+
+  createReward: tenantProcedure
+    .use(requirePermission('settings:write'))
+    .input(createRewardInputSchema.partial({ restaurant_id: true }))
+    .mutation(({ ctx, input }) => withAudit(ctx, { entityType: 'REWARD', action: 'CREATE' },
+      () => createReward({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) }))),
+
+  updateReward: tenantProcedure
+    .use(requirePermission('settings:write'))
+    .input(updateRewardInputSchema.extend({
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurantId);
+      return withAudit(ctx, { entityType: 'REWARD', action: 'UPDATE', entityId: input.id }, () => updateReward(input, restaurantId));
+    }),
+
+  redeemReward: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(redeemRewardInputSchema.partial({ restaurant_id: true }))
+    .mutation(({ ctx, input }) => withAudit(ctx, { entityType: 'REWARD_REDEMPTION', action: 'CREATE' },
+      () => redeemReward({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) }, ctx))),
+
+  getRedemptionByCode: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(redemptionCodeInputSchema.extend({
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .query(({ ctx, input }) => getRedemptionByCode(input.code, resolveTenantId(ctx, input.restaurantId))),
+
+  useRedemptionCode: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(redemptionCodeInputSchema.extend({
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurantId);
+      const existing = await getRedemptionByCode(input.code, restaurantId);
+      return withAudit(ctx, { entityType: 'REWARD_REDEMPTION', action: 'UPDATE', entityId: existing?.id },
+        () => useRedemptionCode(input, restaurantId, ctx));
+    }),
+
+  voidRedemption: tenantProcedure
+    .use(requirePermission('customers:write'))
+    .input(voidRedemptionInputSchema.extend({
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const restaurantId = resolveTenantId(ctx, input.restaurantId);
+      const existing = await getRedemptionByCode(input.code, restaurantId);
+      return withAudit(ctx, { entityType: 'REWARD_REDEMPTION', action: 'UPDATE', entityId: existing?.id },
+        () => voidRedemption(input, restaurantId, ctx));
+    }),
+
+  // Staff management routes
+  getStaffByRestaurant: tenantProcedure
+    .use(requirePermission('staff:read'))
+    .input(getStaffByRestaurantInputSchema.partial({ restaurant_id: true }))
+    .query(async ({ ctx, input }) => {
+      const page = await getStaffByRestaurant({ ...input, restaurant_id: resolveTenantId(ctx, input.restaurant_id) });
+      return { ...page, staff: page.staff.map(toPublicUser) };
+    }),
+
+  unlockUser: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .use(requireRole('RESTAURANT_OWNER', 'SUPER_ADMIN'))
+    .input(z.object({
+      userId: z.number()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const target = { entityType: 'USER', action: 'UPDATE', entityId: input.userId } as const;
+      if (ctx.user.role === 'SUPER_ADMIN') {
+        return toPublicUser(await withAudit(ctx, target, () => unlockUser(input.userId)));
+      }
+      const restaurantId = resolveRestaurantId(ctx.user);
+      return toPublicUser(await withAudit(ctx, target, () => unlockUser(input.userId, restaurantId)));
+    }),
+
+  getStaffMember: tenantProcedure
+    .use(requirePermission('staff:read'))
+    .input(z.object({
+      userId: z.number(),
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .query(async ({ ctx, input }) => {
+      const member = await getStaffMember(input.userId, resolveTenantId(ctx, input.restaurantId));
+      return member && toPublicUser(member);
+    }),
+
+  // Staff invitation routes
+  inviteStaff: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .input(createInvitationInputSchema.extend({
+      restaurant_id: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await assertAssignableRole(ctx, input.role);
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurant_id);
+      return withAudit(ctx, { entityType: 'INVITATION', action: 'CREATE' }, () => createInvitation(input, restaurantId, ctx.user.id));
+    }),
+
+  getInvitations: protectedProcedure
+    .use(requirePermission('staff:read'))
+    .input(z.number().optional())
+    .query(({ ctx, input }) => getInvitationsByRestaurant(resolveRestaurantId(ctx.user, input))),
+
+  resendInvitation: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .input(z.object({
+      invitationId: z.number(),
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurantId);
+      return withAudit(ctx, { entityType: 'INVITATION', action: 'UPDATE', entityId: input.invitationId }, () => resendInvitation(input.invitationId, restaurantId));
+    }),
+
+  revokeInvitation: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .input(z.object({
+      invitationId: z.number(),
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurantId);
+      return withAudit(ctx, { entityType: 'INVITATION', action: 'UPDATE', entityId: input.invitationId }, () => revokeInvitation(input.invitationId, restaurantId));
+    }),
+
+  acceptInvitation: publicProcedure
+    .input(acceptInvitationInputSchema)
+    // No actor yet: the account is created by this very call
+    .mutation(async ({ input }) => toPublicUser(await withAudit(null, { entityType: 'USER', action: 'CREATE' }, () => acceptInvitation(input)))),
+
+  // Subscription management routes
+  createSubscription: protectedProcedure
+    .use(requirePermission('billing:write'))
+    .use(notDuringImpersonation)
+    .input(createSubscriptionInputSchema.partial({ restaurant_id: true }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurant_id);
+      return withAudit(ctx, { entityType: 'SUBSCRIPTION', action: 'CREATE' }, () => createSubscription({ ...input, restaurant_id: restaurantId }));
+    }),
+
+  getSubscriptionByRestaurant: protectedProcedure
+    .use(requirePermission('billing:read'))
+    .input(z.number().optional())
+    .query(({ ctx, input }) => getSubscriptionByRestaurant(resolveRestaurantId(ctx.user, input))),
+
+  // Permission management routes
+  getPermissionsByRole: protectedProcedure
+    .use(requirePermission('staff:read'))
+    .input(userRoleSchema)
+    .query(({ input }) => getPermissionsByRole(input)),
+
+  getAllPermissions: protectedProcedure
+    .use(requirePermission('staff:read'))
+    .query(() => getAllPermissions()),
+
+  getRolePermissions: protectedProcedure
+    .use(requirePermission('staff:read'))
+    .query(() => getRolePermissions()),
+
+  // The built-in roles are platform-wide templates, so only super admins edit them
+  grantRolePermission: superAdminProcedure
+    .input(rolePermissionInputSchema)
+    .mutation(({ ctx, input }) => withAudit(ctx, { entityType: 'ROLE_PERMISSION', action: 'CREATE' }, () => grantRolePermission(input))),
+
+  revokeRolePermission: superAdminProcedure
+    .input(rolePermissionInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const existing = await getRolePermission(input.role, input.permission_id);
+      return withAudit(ctx, { entityType: 'ROLE_PERMISSION', action: 'DELETE', entityId: existing?.id }, () => revokeRolePermission(input));
+    }),
+
+  // Custom role routes; built-in roles stay fixed and only serve as templates
+  getCustomRoles: protectedProcedure
+    .use(requirePermission('staff:read'))
+    .input(z.number().optional())
+    .query(({ ctx, input }) => getCustomRolesByRestaurant(resolveRestaurantId(ctx.user, input))),
+
+  createCustomRole: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .input(createCustomRoleInputSchema.partial({ restaurant_id: true }))
+    .mutation(async ({ ctx, input }) => {
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurant_id);
+      await assertGrantablePermissions(ctx, await getRequestedPermissions(input));
+      return withAudit(ctx, { entityType: 'CUSTOM_ROLE', action: 'CREATE' }, () => createCustomRole({ ...input, restaurant_id: restaurantId }));
+    }),
+
+  updateCustomRole: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .input(updateCustomRoleInputSchema.extend({
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurantId);
+      if (input.permissions !== undefined) {
+        await assertGrantablePermissions(ctx, input.permissions);
+      }
+      return withAudit(ctx, { entityType: 'CUSTOM_ROLE', action: 'UPDATE', entityId: input.id }, () => updateCustomRole(input, restaurantId));
+    }),
+
+  deleteCustomRole: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .input(z.object({
+      roleId: z.number(),
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurantId);
+      // Holders fall back to their built-in role, which hands its permissions back to them
+      for (const role of await getCustomRoleHolderRoles(input.roleId, restaurantId)) {
+        await assertGrantablePermissions(ctx, await getPermissionNamesByRole(role));
+      }
+      return withAudit(ctx, { entityType: 'CUSTOM_ROLE', action: 'DELETE', entityId: input.roleId }, () => deleteCustomRole(input.roleId, restaurantId));
+    }),
+
+  assignCustomRole: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .input(assignCustomRoleInputSchema.extend({
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurantId);
+      if (input.user_id === ctx.user.id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You cannot change your own custom role' });
+      }
+
+      const existing = await getStaffMember(input.user_id, restaurantId);
+      if (existing && outranksCaller(ctx, existing.role)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: `Cannot change the custom role of a user with the ${existing.role} role` });
+      }
+      if (input.custom_role_id !== null) {
+        // Handing out a role is as sensitive as granting its permissions directly
+        const role = await getCustomRole(input.custom_role_id, restaurantId);
+        await assertGrantablePermissions(ctx, role?.permissions ?? []);
+      } else if (existing) {
+        // Taking a custom role away hands back everything the built-in role allows
+        await assertGrantablePermissions(ctx, await getPermissionNamesByRole(existing.role));
+      }
+      return toPublicUser(await withAudit(ctx, { entityType: 'USER', action: 'UPDATE', entityId: input.user_id }, () => assignCustomRole(input, restaurantId)));
+    }),
+
+  // Per-user permission overrides
+  getEffectivePermissions: protectedProcedure
+    .input(z.number().optional()) // Defaults to the caller
+    .query(async ({ ctx, input }) => {
+      // Everyone may read their own permissions so the UI can hide what they cannot do
+      if (input === undefined || input === ctx.user.id) {
+        return getEffectivePermissions(ctx.user.id);
+      }
+      if (!(await ctx.getPermissions()).has('staff:read')) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Missing permission: staff:read' });
+      }
+      if (ctx.user.role === 'SUPER_ADMIN') {
+        return getEffectivePermissions(input);
+      }
+      return getEffectivePermissions(input, resolveRestaurantId(ctx.user));
+    }),
+
+  setUserPermissionOverride: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .input(setUserPermissionOverrideInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      // Tenant scope first, so overrides of other restaurants' users are never looked up
+      const restaurantId = ctx.user.role === 'SUPER_ADMIN' ? undefined : resolveRestaurantId(ctx.user);
+      const member = restaurantId !== undefined ? await getStaffMember(input.user_id, restaurantId) : null;
+      if (restaurantId !== undefined && !member) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `User with id ${input.user_id} not found` });
+      }
+      if (input.user_id === ctx.user.id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You cannot change your own permission overrides' });
+      }
+      if (member && outranksCaller(ctx, member.role)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: `Cannot change the permissions of a user with the ${member.role} role` });
+      }
+
+      // Granting, or lifting a denial early, is handing the permission out
+      const existing = await findUserPermissionOverride(input.user_id, input.permission);
+      if (input.effect === 'GRANT' || (existing && relaxesDenial(existing, input))) {
+        await assertGrantablePermissions(ctx, [input.permission]);
+      }
+
+      const target = existing
+        ? { entityType: 'PERMISSION_OVERRIDE', action: 'UPDATE', entityId: existing.id } as const
+        : { entityType: 'PERMISSION_OVERRIDE', action: 'CREATE' } as const;
+      return withAudit(ctx, target, () => setUserPermissionOverride(input, ctx.user.id, restaurantId));
+    }),
+
+  removeUserPermissionOverride: protectedProcedure
+    .use(requirePermission('staff:write'))
+    .input(z.object({
+      overrideId: z.number()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const restaurantId = ctx.user.role === 'SUPER_ADMIN' ? undefined : resolveRestaurantId(ctx.user);
+      const existing = await getUserPermissionOverride(input.overrideId, restaurantId);
+      if (!existing) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Permission override with id ${input.overrideId} not found` });
+      }
+      if (existing.user_id === ctx.user.id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You cannot change your own permission overrides' });
+      }
+      const member = restaurantId !== undefined ? await getStaffMember(existing.user_id, restaurantId) : null;
+      if (member && outranksCaller(ctx, member.role)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: `Cannot change the permissions of a user with the ${member.role} role` });
+      }
+      // Removing a denial gives the permission back
+      if (existing.effect === 'DENY') {
+        await assertGrantablePermissions(ctx, [existing.permission]);
+      }
+
+      return withAudit(ctx, { entityType: 'PERMISSION_OVERRIDE', action: 'DELETE', entityId: input.overrideId }, () => removeUserPermissionOverride(input.overrideId, restaurantId));
+    }),
+
+  // System initialization routes (super admin only)
+  seedDefaultPermissions: superAdminProcedure
+    .mutation(({ ctx }) => withAudit(ctx, { entityType: 'PERMISSION', action: 'CREATE' }, () => seedDefaultPermissions())),
+
+  assignDefaultRolePermissions: superAdminProcedure
+    .mutation(({ ctx }) => withAudit(ctx, { entityType: 'ROLE_PERMISSION', action: 'CREATE' }, () => assignDefaultRolePermissions())),
+
+  // API key routes; keys cannot manage keys, so these stay with signed-in users
+  getApiKeys: protectedProcedure
+    .use(requirePermission('settings:read'))
+    .input(z.number().optional())
+    .query(({ ctx, input }) => getApiKeysByRestaurant(resolveRestaurantId(ctx.user, input))),
+
+  createApiKey: protectedProcedure
+    .use(requirePermission('settings:write'))
+    .use(notDuringImpersonation)
+    .input(createApiKeyInputSchema.partial({ restaurant_id: true }))
+    .mutation(async ({ ctx, input }) => {
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurant_id);
+      await assertGrantablePermissions(ctx, input.permissions);
+
+      // The secret is returned once and never logged
+      const created = await createApiKey({ ...input, restaurant_id: restaurantId }, ctx.user.id);
+      await recordAudit(ctx, { entityType: 'API_KEY', action: 'CREATE' }, null, created.api_key);
+      return created;
+    }),
+
+  revokeApiKey: protectedProcedure
+    .use(requirePermission('settings:write'))
+    .input(z.object({
+      keyId: z.number(),
+      restaurantId: z.number().optional() // Only honoured for super admins
+    }))
+    .mutation(({ ctx, input }) => {
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurantId);
+      return withAudit(ctx, { entityType: 'API_KEY', action: 'UPDATE', entityId: input.keyId }, () => revokeApiKey(input.keyId, restaurantId));
+    }),
+
+  // Single sign-on configuration routes
+  getOidcProvider: protectedProcedure
+    .use(requirePermission('settings:read'))
+    .input(z.number().optional())
+    .query(({ ctx, input }) => getOidcProvider(resolveRestaurantId(ctx.user, input))),
+
+  // Owners only, since the provider can sign in as any account of the restaurant
+  configureOidcProvider: protectedProcedure
+    .use(requirePermission('settings:write'))
+    .use(requireRole('RESTAURANT_OWNER', 'SUPER_ADMIN'))
+    .use(notDuringImpersonation)
+    .input(configureOidcProviderInputSchema.partial({ restaurant_id: true }))
+    .mutation(async ({ ctx, input }) => {
+      const restaurantId = resolveRestaurantId(ctx.user, input.restaurant_id);
+      await assertAssignableRole(ctx, input.default_role);
+      const existing = await getOidcProvider(restaurantId);
+      return withAudit(ctx, { entityType: 'OIDC_PROVIDER', action: existing ? 'UPDATE' : 'CREATE', entityId: existing?.id },
+        () => configureOidcProvider({ ...input, restaurant_id: restaurantId }));
+    }),
+
+  // Audit routes
+  getAuditLog: protectedProcedure
+    .use(requireRole('RESTAURANT_OWNER', 'SUPER_ADMIN'))
+    .input(getAuditLogInputSchema)
+    .query(({ ctx, input }) => {
+      // Super admins may look across tenants by leaving the restaurant out
+      if (ctx.user.role === 'SUPER_ADMIN' && input.restaurant_id === undefined) {
+        return getAuditLog(input);
+      }
+      return getAuditLog(input, resolveRestaurantId(ctx.user, input.restaurant_id));
+    })
+});
+
+export type AppRouter = typeof appRouter;
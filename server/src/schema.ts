@@ -10,6 +10,40 @@ export type SubscriptionTier = z.infer<typeof subscriptionTierSchema>;
 export const subscriptionStatusSchema = z.enum(['ACTIVE', 'INACTIVE', 'PAST_DUE', 'CANCELED', 'TRIALING']);
 export type SubscriptionStatus = z.infer<typeof subscriptionStatusSchema>;
 
+export const invitationStatusSchema = z.enum(['PENDING', 'ACCEPTED', 'REVOKED']);
+export type InvitationStatus = z.infer<typeof invitationStatusSchema>;
+
+// Roles that can be handed out through a staff invitation
+export const invitationRoleSchema = z.enum(['MANAGER', 'STAFF']);
+export type InvitationRole = z.infer<typeof invitationRoleSchema>;
+
+export const userTokenPurposeSchema = z.enum(['PASSWORD_RESET', 'EMAIL_VERIFICATION', 'TWO_FACTOR_LOGIN']);
+export type UserTokenPurpose = z.infer<typeof userTokenPurposeSchema>;
+
+export const auditEntityTypeSchema = z.enum(['USER', 'RESTAURANT', 'CUSTOMER', 'SUBSCRIPTION', 'INVITATION', 'PERMISSION', 'ROLE_PERMISSION', 'CUSTOM_ROLE', 'PERMISSION_OVERRIDE', 'SESSION', 'API_KEY', 'OIDC_PROVIDER', 'VISIT', 'LOYALTY_RULES', 'REWARD', 'REWARD_REDEMPTION', 'LOYALTY_TIER', 'CUSTOMER_MERGE']);
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+
+export const auditActionSchema = z.enum(['CREATE', 'UPDATE', 'DELETE']);
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+export const permissionEffectSchema = z.enum(['GRANT', 'DENY']);
+export type PermissionEffect = z.infer<typeof permissionEffectSchema>;
+
+export const loyaltyEntryTypeSchema = z.enum(['EARN', 'REDEEM', 'ADJUST', 'EXPIRE']);
+export type LoyaltyEntryType = z.infer<typeof loyaltyEntryTypeSchema>;
+
+export const duplicateCandidateStatusSchema = z.enum(['PENDING', 'MERGED', 'DISMISSED']);
+export type DuplicateCandidateStatus = z.infer<typeof duplicateCandidateStatusSchema>;
+
+export const duplicateMatchReasonSchema = z.enum(['EMAIL', 'PHONE', 'NAME']);
+export type DuplicateMatchReason = z.infer<typeof duplicateMatchReasonSchema>;
+
+export const rewardRedemptionStatusSchema = z.enum(['ISSUED', 'USED', 'VOIDED']);
+export type RewardRedemptionStatus = z.infer<typeof rewardRedemptionStatusSchema>;
+
+export const loginFailureReasonSchema = z.enum(['INVALID_CREDENTIALS', 'INVALID_TWO_FACTOR_CODE', 'ACCOUNT_LOCKED', 'THROTTLED']);
+export type LoginFailureReason = z.infer<typeof loginFailureReasonSchema>;
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
@@ -20,12 +54,35 @@ export const userSchema = z.object({
   role: userRoleSchema,
   restaurant_id: z.number().nullable(), // Super admins don't belong to a restaurant
   is_active: z.boolean(),
+  email_verified_at: z.coerce.date().nullable(),
+  failed_login_attempts: z.number().int(),
+  locked_until: z.coerce.date().nullable(), // Locked out of password login until then
+  custom_role_id: z.number().nullable(), // Restaurant-defined role overriding the built-in role's permissions
+  oidc_provider_id: z.number().nullable(), // Identity provider the user signs in with
+  oidc_subject: z.string().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// Users as returned to the signed-in user themselves: no credentials or lockout state
+export const publicUserSchema = userSchema.omit({
+  password_hash: true,
+  failed_login_attempts: true,
+  locked_until: true
+});
+
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
+// One page of staff; nextCursor is null on the last page
+export const staffPageSchema = z.object({
+  staff: z.array(userSchema),
+  nextCursor: z.string().nullable()
+});
+
+export type StaffPage = z.infer<typeof staffPageSchema>;
+
 // Restaurant (Tenant) schema
 export const restaurantSchema = z.object({
   id: z.number(),
@@ -36,6 +93,7 @@ export const restaurantSchema = z.object({
   address: z.string().nullable(),
   logo_url: z.string().nullable(),
   brand_color: z.string().nullable(), // Hex color code
+  require_two_factor: z.boolean(), // Owners and managers must enroll in 2FA
   is_active: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -60,6 +118,16 @@ export const subscriptionSchema = z.object({
 export type Subscription = z.infer<typeof subscriptionSchema>;
 
 // Customer schema
+// The tier a customer holds, as shown on their profile
+export const customerLoyaltyTierSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  rank: z.number().int(),
+  perks: z.array(z.string())
+});
+
+export type CustomerLoyaltyTier = z.infer<typeof customerLoyaltyTierSchema>;
+
 export const customerSchema = z.object({
   id: z.number(),
   restaurant_id: z.number(),
@@ -71,6 +139,9 @@ export const customerSchema = z.object({
   total_visits: z.number().int(),
   last_visit_date: z.coerce.date().nullable(),
   notes: z.string().nullable(),
+  loyalty_tier_id: z.number().nullable(),
+  loyalty_tier: customerLoyaltyTierSchema.nullable().optional(), // Only loaded by getCustomer
+  merged_into_id: z.number().nullable(),
   is_active: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -78,6 +149,237 @@ export const customerSchema = z.object({
 
 export type Customer = z.infer<typeof customerSchema>;
 
+// One page of customers and how many match in total. nextCursor is only handed out
+// when sorting by created_at, and is null on the last page.
+export const customerPageSchema = z.object({
+  customers: z.array(customerSchema),
+  total: z.number().int(),
+  nextCursor: z.string().nullable()
+});
+
+export type CustomerPage = z.infer<typeof customerPageSchema>;
+
+// Visit schema; spend is a decimal amount in the restaurant's currency
+export const visitSchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  customer_id: z.number(),
+  visited_at: z.coerce.date(),
+  party_size: z.number().int(),
+  spend: z.number().nullable(),
+  staff_id: z.number().nullable(),
+  table_label: z.string().nullable(),
+  notes: z.string().nullable(),
+  recorded_by: z.number().nullable(),
+  voided_at: z.coerce.date().nullable(),
+  voided_by: z.number().nullable(),
+  void_reason: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Visit = z.infer<typeof visitSchema>;
+
+export const visitPageSchema = z.object({
+  visits: z.array(visitSchema),
+  nextCursor: z.string().nullable()
+});
+
+export type VisitPage = z.infer<typeof visitPageSchema>;
+
+export const loyaltyRulesSchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  points_per_currency_unit: z.number(),
+  points_per_visit: z.number().int(),
+  points_expire_after_days: z.number().int().nullable(),
+  is_enabled: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type LoyaltyRules = z.infer<typeof loyaltyRulesSchema>;
+
+export const loyaltyLedgerEntrySchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  customer_id: z.number(),
+  type: loyaltyEntryTypeSchema,
+  points: z.number().int(),
+  balance_after: z.number().int(),
+  reason: z.string(),
+  visit_id: z.number().nullable(),
+  actor_id: z.number().nullable(),
+  api_key_id: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type LoyaltyLedgerEntry = z.infer<typeof loyaltyLedgerEntrySchema>;
+
+export const loyaltyLedgerPageSchema = z.object({
+  entries: z.array(loyaltyLedgerEntrySchema),
+  nextCursor: z.string().nullable()
+});
+
+export type LoyaltyLedgerPage = z.infer<typeof loyaltyLedgerPageSchema>;
+
+export const loyaltyExpirySchema = z.object({
+  customers: z.number().int(), // Customers who lost points
+  points: z.number().int()
+});
+
+export type LoyaltyExpiry = z.infer<typeof loyaltyExpirySchema>;
+
+export const duplicateCandidateSchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  customer_id: z.number(),
+  duplicate_id: z.number(),
+  score: z.number().int(),
+  reasons: z.array(duplicateMatchReasonSchema),
+  status: duplicateCandidateStatusSchema,
+  reviewed_by: z.number().nullable(),
+  reviewed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type DuplicateCandidate = z.infer<typeof duplicateCandidateSchema>;
+
+// A review queue entry with both customers side by side
+export const duplicateCandidateDetailsSchema = duplicateCandidateSchema.extend({
+  customer: customerSchema,
+  duplicate: customerSchema
+});
+
+export type DuplicateCandidateDetails = z.infer<typeof duplicateCandidateDetailsSchema>;
+
+export const duplicateScanSchema = z.object({
+  customers: z.number().int(), // Customers compared
+  candidates: z.number().int() // Pairs waiting for review after the scan
+});
+
+export type DuplicateScan = z.infer<typeof duplicateScanSchema>;
+
+const mergedCustomerFieldsSchema = z.object({
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  notes: z.string().nullable(),
+  total_visits: z.number().int(),
+  last_visit_date: z.string().nullable(),
+  is_active: z.boolean()
+});
+
+export const customerMergeSchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  survivor_id: z.number(),
+  merged_id: z.number(),
+  survivor_before: mergedCustomerFieldsSchema,
+  merged_before: mergedCustomerFieldsSchema,
+  moved_records: z.record(z.array(z.number())),
+  points_transferred: z.number().int(),
+  merged_by: z.number().nullable(),
+  undone_at: z.coerce.date().nullable(),
+  undone_by: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type CustomerMerge = z.infer<typeof customerMergeSchema>;
+
+export const loyaltyTierSchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  name: z.string(),
+  rank: z.number().int(),
+  min_lifetime_points: z.number().int().nullable(),
+  min_total_visits: z.number().int().nullable(),
+  min_window_spend: z.number().nullable(),
+  spend_window_days: z.number().int(),
+  perks: z.array(z.string()),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type LoyaltyTier = z.infer<typeof loyaltyTierSchema>;
+
+export const loyaltyTierChangeSchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  customer_id: z.number(),
+  from_tier_id: z.number().nullable(),
+  to_tier_id: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type LoyaltyTierChange = z.infer<typeof loyaltyTierChangeSchema>;
+
+export const loyaltyTierEvaluationSchema = z.object({
+  customers: z.number().int(), // Customers evaluated
+  promoted: z.number().int(),
+  demoted: z.number().int()
+});
+
+export type LoyaltyTierEvaluation = z.infer<typeof loyaltyTierEvaluationSchema>;
+
+export const rewardSchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  points_cost: z.number().int(),
+  available_from: z.coerce.date().nullable(),
+  available_until: z.coerce.date().nullable(),
+  per_customer_limit: z.number().int().nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Reward = z.infer<typeof rewardSchema>;
+
+export const rewardRedemptionSchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  reward_id: z.number(),
+  customer_id: z.number(),
+  code: z.string(),
+  status: rewardRedemptionStatusSchema,
+  points_spent: z.number().int(),
+  issued_by: z.number().nullable(),
+  used_at: z.coerce.date().nullable(),
+  used_by: z.number().nullable(),
+  voided_at: z.coerce.date().nullable(),
+  voided_by: z.number().nullable(),
+  void_reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type RewardRedemption = z.infer<typeof rewardRedemptionSchema>;
+
+// A redemption with what staff need at the till to hand the reward over
+export const redemptionDetailsSchema = rewardRedemptionSchema.extend({
+  reward_name: z.string(),
+  customer_name: z.string()
+});
+
+export type RedemptionDetails = z.infer<typeof redemptionDetailsSchema>;
+
+// Ranked searchCustomers match. Highlights are HTML-escaped fragments with the matched
+// words wrapped in <mark>, present only for fields that matched literally.
+export const customerSearchResultSchema = z.object({
+  customer: customerSchema,
+  rank: z.number(),
+  highlights: z.object({
+    name: z.string().optional(),
+    email: z.string().optional(),
+    phone: z.string().optional(),
+    notes: z.string().optional()
+  })
+});
+
+export type CustomerSearchResult = z.infer<typeof customerSearchResultSchema>;
+
 // Permission schema for granular access control
 export const permissionSchema = z.object({
   id: z.number(),
@@ -100,6 +402,245 @@ export const rolePermissionSchema = z.object({
 
 export type RolePermission = z.infer<typeof rolePermissionSchema>;
 
+// Restaurant-defined role with the names of the permissions it grants
+export const customRoleSchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  permissions: z.array(z.string()),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type CustomRole = z.infer<typeof customRoleSchema>;
+
+// Per-user grant or denial of a single permission
+export const userPermissionOverrideSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  permission_id: z.number(),
+  permission: z.string(), // Permission name, e.g. 'customers:write'
+  effect: permissionEffectSchema,
+  expires_at: z.coerce.date().nullable(),
+  created_by: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type UserPermissionOverride = z.infer<typeof userPermissionOverrideSchema>;
+
+// Role permissions merged with the user's active overrides
+export const effectivePermissionsSchema = z.object({
+  user_id: z.number(),
+  role: userRoleSchema,
+  custom_role_id: z.number().nullable(),
+  permissions: z.array(z.string()),
+  overrides: z.array(userPermissionOverrideSchema)
+});
+
+export type EffectivePermissions = z.infer<typeof effectivePermissionsSchema>;
+
+// Restaurant integration key; the secret itself is only returned once, on creation
+export const apiKeySchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  name: z.string(),
+  key_prefix: z.string(),
+  permissions: z.array(z.string()),
+  created_by: z.number().nullable(),
+  last_used_at: z.coerce.date().nullable(),
+  expires_at: z.coerce.date().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+export const createdApiKeySchema = z.object({
+  api_key: apiKeySchema,
+  key: z.string() // Shown once; only its hash is stored
+});
+
+export type CreatedApiKey = z.infer<typeof createdApiKeySchema>;
+
+// Single sign-on configuration of a restaurant; the client secret is never returned
+export const oidcProviderSchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  discovery_url: z.string(),
+  client_id: z.string(),
+  allowed_email_domains: z.array(z.string()),
+  default_role: userRoleSchema,
+  is_enabled: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type OidcProvider = z.infer<typeof oidcProviderSchema>;
+
+// Where to send the browser to sign in at the identity provider
+export const oidcAuthorizationSchema = z.object({
+  authorization_url: z.string(),
+  expires_at: z.coerce.date() // The sign-in has to be completed by then
+});
+
+export type OidcAuthorization = z.infer<typeof oidcAuthorizationSchema>;
+
+// Session schema for authenticated logins
+export const sessionSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  token_hash: z.string(),
+  expires_at: z.coerce.date(),
+  revoked_at: z.coerce.date().nullable(),
+  two_factor_setup_required: z.boolean(),
+  impersonator_id: z.number().nullable(), // Super admin acting as the user
+  created_at: z.coerce.date()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+// Result of a successful login: the signed token is only ever returned here
+export const authSessionSchema = z.object({
+  status: z.literal('AUTHENTICATED'),
+  token: z.string(),
+  expires_at: z.coerce.date(),
+  two_factor_setup_required: z.boolean(), // Session is limited to 2FA enrollment until set up
+  user: publicUserSchema
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// Password accepted but a second factor is still needed
+export const twoFactorChallengeSchema = z.object({
+  status: z.literal('TWO_FACTOR_REQUIRED'),
+  challenge_token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>;
+
+export const loginResultSchema = z.discriminatedUnion('status', [authSessionSchema, twoFactorChallengeSchema]);
+
+export type LoginResult = z.infer<typeof loginResultSchema>;
+
+// Session a super admin opened to act as another user; the token is only returned here
+export const impersonationSessionSchema = z.object({
+  token: z.string(),
+  expires_at: z.coerce.date(),
+  user: publicUserSchema
+});
+
+export type ImpersonationSession = z.infer<typeof impersonationSessionSchema>;
+
+// Who is really behind an impersonated session, shown in the client banner
+export const impersonationStatusSchema = z.object({
+  impersonator: userSchema.pick({ id: true, email: true, first_name: true, last_name: true }),
+  expires_at: z.coerce.date()
+});
+
+export type ImpersonationStatus = z.infer<typeof impersonationStatusSchema>;
+
+// Two-factor enrollment schemas
+export const twoFactorEnrollmentSchema = z.object({
+  secret: z.string(),
+  otpauth_uri: z.string()
+});
+
+export type TwoFactorEnrollment = z.infer<typeof twoFactorEnrollmentSchema>;
+
+export const recoveryCodesSchema = z.object({
+  recovery_codes: z.array(z.string())
+});
+
+export type RecoveryCodes = z.infer<typeof recoveryCodesSchema>;
+
+// Single-use emailed token (password reset, email verification)
+export const userTokenSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  purpose: userTokenPurposeSchema,
+  token_hash: z.string(),
+  email: z.string().nullable(),
+  expires_at: z.coerce.date(),
+  used_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type UserToken = z.infer<typeof userTokenSchema>;
+
+// Login history entry
+export const loginAttemptSchema = z.object({
+  id: z.number(),
+  user_id: z.number().nullable(),
+  email: z.string(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  success: z.boolean(),
+  failure_reason: loginFailureReasonSchema.nullable(),
+  created_at: z.coerce.date()
+});
+
+export type LoginAttempt = z.infer<typeof loginAttemptSchema>;
+
+// Field-level diff: only fields whose value changed are listed
+export const auditChangesSchema = z.record(z.object({
+  from: z.unknown(),
+  to: z.unknown()
+}));
+
+export type AuditChanges = z.infer<typeof auditChangesSchema>;
+
+// Audit log entry schema
+export const auditLogEntrySchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number().nullable(),
+  actor_id: z.number().nullable(),
+  impersonator_id: z.number().nullable(),
+  api_key_id: z.number().nullable(),
+  entity_type: auditEntityTypeSchema,
+  entity_id: z.number().nullable(),
+  action: auditActionSchema,
+  changes: auditChangesSchema.nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
+export const auditLogPageSchema = z.object({
+  entries: z.array(auditLogEntrySchema),
+  nextCursor: z.string().nullable()
+});
+
+export type AuditLogPage = z.infer<typeof auditLogPageSchema>;
+
+// Where a request came from, recorded with login attempts
+export const clientInfoSchema = z.object({
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable()
+});
+
+export type ClientInfo = z.infer<typeof clientInfoSchema>;
+
+// Staff invitation schema
+export const staffInvitationSchema = z.object({
+  id: z.number(),
+  restaurant_id: z.number(),
+  email: z.string().email(),
+  role: userRoleSchema,
+  token_hash: z.string(),
+  status: invitationStatusSchema,
+  invited_by: z.number(),
+  expires_at: z.coerce.date(),
+  last_sent_at: z.coerce.date(),
+  accepted_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type StaffInvitation = z.infer<typeof staffInvitationSchema>;
+
 // Input schemas for creating entities
 
 // User registration/creation
@@ -139,6 +680,43 @@ export const createCustomerInputSchema = z.object({
 
 export type CreateCustomerInput = z.infer<typeof createCustomerInputSchema>;
 
+// Bulk import from another system's CSV export. The mapping names the CSV column each
+// customer field is read from; columns that are not mapped are ignored.
+export const importCustomersInputSchema = z.object({
+  restaurant_id: z.number(),
+  csv: z.string().min(1),
+  delimiter: z.enum([',', ';', '\t']).optional(),
+  mapping: z.object({
+    first_name: z.string().min(1),
+    last_name: z.string().min(1),
+    email: z.string().min(1).optional(),
+    phone: z.string().min(1).optional(),
+    notes: z.string().min(1).optional()
+  }),
+  dry_run: z.boolean().optional() // Validates and reports without creating anyone
+});
+
+export type ImportCustomersInput = z.infer<typeof importCustomersInputSchema>;
+
+export const customerImportRowErrorSchema = z.object({
+  row: z.number().int(), // Row in the file as a spreadsheet numbers it, the header being row 1
+  field: z.string().nullable(), // Null when the row as a whole is at fault
+  message: z.string()
+});
+
+export type CustomerImportRowError = z.infer<typeof customerImportRowErrorSchema>;
+
+export const customerImportReportSchema = z.object({
+  dry_run: z.boolean(),
+  total_rows: z.number().int(),
+  imported: z.number().int(), // On a dry run, how many would be imported
+  duplicates: z.number().int(), // Rows matching an existing customer or an earlier row by email or phone
+  failed: z.number().int(),
+  errors: z.array(customerImportRowErrorSchema)
+});
+
+export type CustomerImportReport = z.infer<typeof customerImportReportSchema>;
+
 // Subscription creation
 export const createSubscriptionInputSchema = z.object({
   restaurant_id: z.number(),
@@ -173,6 +751,7 @@ export const updateRestaurantInputSchema = z.object({
   address: z.string().nullable().optional(),
   logo_url: z.string().url().nullable().optional(),
   brand_color: z.string().regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/).nullable().optional(),
+  require_two_factor: z.boolean().optional(),
   is_active: z.boolean().optional()
 });
 
@@ -185,7 +764,6 @@ export const updateCustomerInputSchema = z.object({
   last_name: z.string().min(1).optional(),
   email: z.string().email().nullable().optional(),
   phone: z.string().nullable().optional(),
-  loyalty_points: z.number().int().optional(),
   notes: z.string().nullable().optional(),
   is_active: z.boolean().optional()
 });
@@ -200,19 +778,428 @@ export const loginInputSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+export const twoFactorCodeInputSchema = z.object({
+  code: z.string().min(1) // TOTP code or recovery code
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeInputSchema>;
+
+export const verifyTwoFactorLoginInputSchema = z.object({
+  challenge_token: z.string().min(1),
+  code: z.string().min(1) // TOTP code or recovery code
+});
+
+export type VerifyTwoFactorLoginInput = z.infer<typeof verifyTwoFactorLoginInputSchema>;
+
+// Account recovery and verification schemas
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email()
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+export const resetPasswordInputSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8)
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+export const verifyEmailInputSchema = z.object({
+  token: z.string().min(1)
+});
+
+export type VerifyEmailInput = z.infer<typeof verifyEmailInputSchema>;
+
+// Built-in role template schemas
+export const rolePermissionInputSchema = z.object({
+  role: userRoleSchema,
+  permission_id: z.number()
+});
+
+export type RolePermissionInput = z.infer<typeof rolePermissionInputSchema>;
+
+// Custom role schemas
+export const createCustomRoleInputSchema = z.object({
+  restaurant_id: z.number(),
+  name: z.string().trim().min(1),
+  description: z.string().nullable().optional(),
+  permissions: z.array(z.string()).default([]),
+  template_role: userRoleSchema.exclude(['SUPER_ADMIN']).optional() // Start from a built-in role's permissions
+});
+
+export type CreateCustomRoleInput = z.infer<typeof createCustomRoleInputSchema>;
+
+export const updateCustomRoleInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).optional(),
+  description: z.string().nullable().optional(),
+  permissions: z.array(z.string()).optional() // Replaces the role's permissions when given
+});
+
+export type UpdateCustomRoleInput = z.infer<typeof updateCustomRoleInputSchema>;
+
+export const assignCustomRoleInputSchema = z.object({
+  user_id: z.number(),
+  custom_role_id: z.number().nullable() // Null returns the user to their built-in role
+});
+
+export type AssignCustomRoleInput = z.infer<typeof assignCustomRoleInputSchema>;
+
+// Permission override schemas
+export const setUserPermissionOverrideInputSchema = z.object({
+  user_id: z.number(),
+  permission: z.string(),
+  effect: permissionEffectSchema,
+  expires_at: z.coerce.date().nullable().optional() // Permanent when omitted
+});
+
+export type SetUserPermissionOverrideInput = z.infer<typeof setUserPermissionOverrideInputSchema>;
+
+// API key schemas
+export const createApiKeyInputSchema = z.object({
+  restaurant_id: z.number(),
+  name: z.string().trim().min(1),
+  permissions: z.array(z.string()).min(1),
+  expires_at: z.coerce.date().nullable().optional() // Valid until revoked when omitted
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeyInputSchema>;
+
+// Single sign-on schemas
+export const configureOidcProviderInputSchema = z.object({
+  restaurant_id: z.number(),
+  discovery_url: z.string().url(),
+  client_id: z.string().trim().min(1),
+  client_secret: z.string().min(1).optional(), // Required on first setup; kept when omitted later
+  allowed_email_domains: z.array(
+    z.string().trim().toLowerCase().regex(/^[a-z0-9.-]+\.[a-z]{2,}$/, 'Invalid email domain')
+  ).min(1),
+  default_role: invitationRoleSchema.optional(), // STAFF when omitted
+  is_enabled: z.boolean().optional()
+});
+
+export type ConfigureOidcProviderInput = z.infer<typeof configureOidcProviderInputSchema>;
+
+export const beginOidcLoginInputSchema = z.object({
+  restaurant_id: z.number()
+});
+
+export type BeginOidcLoginInput = z.infer<typeof beginOidcLoginInputSchema>;
+
+// Query parameters the identity provider redirects back with
+export const completeOidcLoginInputSchema = z.object({
+  state: z.string().min(1),
+  code: z.string().min(1)
+});
+
+export type CompleteOidcLoginInput = z.infer<typeof completeOidcLoginInputSchema>;
+
+// Staff invitation schemas
+export const createInvitationInputSchema = z.object({
+  email: z.string().email(),
+  role: invitationRoleSchema
+});
+
+export type CreateInvitationInput = z.infer<typeof createInvitationInputSchema>;
+
+export const acceptInvitationInputSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8),
+  first_name: z.string().min(1),
+  last_name: z.string().min(1)
+});
+
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationInputSchema>;
+
 // Query schemas
-export const getCustomersByRestaurantInputSchema = z.object({
+export const customerSortFieldSchema = z.enum([
+  'first_name',
+  'last_name',
+  'email',
+  'phone',
+  'is_active',
+  'loyalty_points',
+  'total_visits',
+  'last_visit_date',
+  'created_at'
+]);
+
+export type CustomerSortField = z.infer<typeof customerSortFieldSchema>;
+
+export const sortOrderSchema = z.enum(['asc', 'desc']);
+export type SortOrder = z.infer<typeof sortOrderSchema>;
+
+// What a page cursor decodes to: the [created_at, id] of the last row of the previous page
+export const cursorPositionSchema = z.tuple([
+  z.string().refine(createdAt => !Number.isNaN(Date.parse(createdAt))),
+  z.number().int()
+]);
+
+// The nextCursor of the previous page, base64url JSON; anything else is bad input
+export const cursorSchema = z.string().refine(cursor => {
+  try {
+    return cursorPositionSchema.safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))).success;
+  } catch {
+    return false;
+  }
+}, 'Invalid cursor');
+
+// Filters shared by the customer list and the customer export
+export const customerFiltersSchema = z.object({
   restaurant_id: z.number(),
-  limit: z.number().int().positive().optional(),
-  offset: z.number().int().nonnegative().optional()
+  search: z.string().trim().min(1).optional(), // Partial name, email or phone
+  is_active: z.boolean().optional(),
+  min_loyalty_points: z.number().int().nonnegative().optional(),
+  max_loyalty_points: z.number().int().nonnegative().optional(),
+  min_visits: z.number().int().nonnegative().optional(),
+  max_visits: z.number().int().nonnegative().optional(),
+  last_visit_from: z.coerce.date().optional(),
+  last_visit_to: z.coerce.date().optional()
+});
+
+export type CustomerFilters = z.infer<typeof customerFiltersSchema>;
+
+export const getCustomersByRestaurantInputSchema = customerFiltersSchema.extend({
+  sort_by: customerSortFieldSchema.optional(), // Newest first when omitted
+  sort_order: sortOrderSchema.optional(),
+  limit: z.number().int().positive().max(100).optional(),
+  offset: z.number().int().nonnegative().optional(),
+  cursor: cursorSchema.nullish() // nextCursor of the previous page; only with created_at sorting
 });
 
 export type GetCustomersByRestaurantInput = z.infer<typeof getCustomersByRestaurantInputSchema>;
 
+// EXCEL_CSV is CSV that spreadsheet apps open correctly: it starts with a byte order mark so
+// accents survive, and cells that would run as formulas are prefixed with a quote
+export const customerExportFormatSchema = z.enum(['CSV', 'EXCEL_CSV', 'VCARD']);
+export type CustomerExportFormat = z.infer<typeof customerExportFormatSchema>;
+
+export const customerExportColumnSchema = z.enum([
+  'id', 'first_name', 'last_name', 'email', 'phone', 'loyalty_points', 'total_visits',
+  'last_visit_date', 'notes', 'is_active', 'created_at'
+]);
+export type CustomerExportColumn = z.infer<typeof customerExportColumnSchema>;
+
+export const exportCustomersInputSchema = customerFiltersSchema.extend({
+  format: customerExportFormatSchema,
+  // Every column when omitted. vCards always carry the name and only have a place for
+  // email, phone and notes.
+  columns: z.array(customerExportColumnSchema).min(1).optional()
+});
+
+export type ExportCustomersInput = z.infer<typeof exportCustomersInputSchema>;
+
+export const searchCustomersInputSchema = z.object({
+  restaurant_id: z.number(),
+  query: z.string().trim().min(2),
+  include_inactive: z.boolean().optional(),
+  limit: z.number().int().positive().max(50).optional()
+});
+
+export type SearchCustomersInput = z.infer<typeof searchCustomersInputSchema>;
+
+export const recordVisitInputSchema = z.object({
+  restaurant_id: z.number(),
+  customer_id: z.number(),
+  visited_at: z.coerce.date().optional(), // Now when omitted
+  party_size: z.number().int().positive().optional(),
+  spend: z.number().nonnegative().multipleOf(0.01).nullable().optional(),
+  staff_id: z.number().nullable().optional(),
+  table_label: z.string().trim().min(1).nullable().optional(),
+  notes: z.string().nullable().optional()
+});
+
+export type RecordVisitInput = z.infer<typeof recordVisitInputSchema>;
+
+// Corrections to a recorded visit; voided visits can no longer be corrected
+export const updateVisitInputSchema = z.object({
+  id: z.number(),
+  visited_at: z.coerce.date().optional(),
+  party_size: z.number().int().positive().optional(),
+  spend: z.number().nonnegative().multipleOf(0.01).nullable().optional(),
+  staff_id: z.number().nullable().optional(),
+  table_label: z.string().trim().min(1).nullable().optional(),
+  notes: z.string().nullable().optional()
+});
+
+export type UpdateVisitInput = z.infer<typeof updateVisitInputSchema>;
+
+export const voidVisitInputSchema = z.object({
+  id: z.number(),
+  reason: z.string().trim().min(1)
+});
+
+export type VoidVisitInput = z.infer<typeof voidVisitInputSchema>;
+
+export const getCustomerVisitsInputSchema = z.object({
+  customer_id: z.number(),
+  include_voided: z.boolean().optional(),
+  limit: z.number().int().positive().max(100).optional(),
+  cursor: cursorSchema.nullish() // nextCursor of the previous page
+});
+
+export type GetCustomerVisitsInput = z.infer<typeof getCustomerVisitsInputSchema>;
+
+export const configureLoyaltyRulesInputSchema = z.object({
+  restaurant_id: z.number(),
+  points_per_currency_unit: z.number().nonnegative().multipleOf(0.01),
+  points_per_visit: z.number().int().nonnegative(),
+  points_expire_after_days: z.number().int().positive().nullable().optional(),
+  is_enabled: z.boolean().optional()
+});
+
+export type ConfigureLoyaltyRulesInput = z.infer<typeof configureLoyaltyRulesInputSchema>;
+
+// Manual corrections, e.g. goodwill points or undoing a mistake
+export const adjustLoyaltyPointsInputSchema = z.object({
+  restaurant_id: z.number(),
+  customer_id: z.number(),
+  points: z.number().int().refine(points => points !== 0, 'Points must not be zero'),
+  reason: z.string().trim().min(1)
+});
+
+export type AdjustLoyaltyPointsInput = z.infer<typeof adjustLoyaltyPointsInputSchema>;
+
+export const redeemLoyaltyPointsInputSchema = z.object({
+  restaurant_id: z.number(),
+  customer_id: z.number(),
+  points: z.number().int().positive(),
+  reason: z.string().trim().min(1)
+});
+
+export type RedeemLoyaltyPointsInput = z.infer<typeof redeemLoyaltyPointsInputSchema>;
+
+export const getLoyaltyLedgerInputSchema = z.object({
+  customer_id: z.number(),
+  limit: z.number().int().positive().max(100).optional(),
+  cursor: cursorSchema.nullish() // nextCursor of the previous page
+});
+
+export type GetLoyaltyLedgerInput = z.infer<typeof getLoyaltyLedgerInputSchema>;
+
+export const getDuplicateCandidatesInputSchema = z.object({
+  restaurant_id: z.number(),
+  status: duplicateCandidateStatusSchema.optional(), // PENDING when omitted
+  limit: z.number().int().positive().max(100).optional()
+});
+
+export type GetDuplicateCandidatesInput = z.infer<typeof getDuplicateCandidatesInputSchema>;
+
+export const mergeCustomersInputSchema = z.object({
+  restaurant_id: z.number(),
+  survivor_id: z.number(),
+  merged_id: z.number() // Deactivated; its points, visits and notes move to the survivor
+});
+
+export type MergeCustomersInput = z.infer<typeof mergeCustomersInputSchema>;
+
+export const createLoyaltyTierInputSchema = z.object({
+  restaurant_id: z.number(),
+  name: z.string().trim().min(1),
+  rank: z.number().int().nonnegative(),
+  min_lifetime_points: z.number().int().positive().nullable().optional(),
+  min_total_visits: z.number().int().positive().nullable().optional(),
+  min_window_spend: z.number().positive().multipleOf(0.01).nullable().optional(),
+  spend_window_days: z.number().int().positive().optional(),
+  perks: z.array(z.string().trim().min(1)).optional()
+});
+
+export type CreateLoyaltyTierInput = z.infer<typeof createLoyaltyTierInputSchema>;
+
+export const updateLoyaltyTierInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).optional(),
+  rank: z.number().int().nonnegative().optional(),
+  min_lifetime_points: z.number().int().positive().nullable().optional(),
+  min_total_visits: z.number().int().positive().nullable().optional(),
+  min_window_spend: z.number().positive().multipleOf(0.01).nullable().optional(),
+  spend_window_days: z.number().int().positive().optional(),
+  perks: z.array(z.string().trim().min(1)).optional()
+});
+
+export type UpdateLoyaltyTierInput = z.infer<typeof updateLoyaltyTierInputSchema>;
+
+export const createRewardInputSchema = z.object({
+  restaurant_id: z.number(),
+  name: z.string().trim().min(1),
+  description: z.string().nullable().optional(),
+  points_cost: z.number().int().positive(),
+  available_from: z.coerce.date().nullable().optional(),
+  available_until: z.coerce.date().nullable().optional(),
+  per_customer_limit: z.number().int().positive().nullable().optional()
+});
+
+export type CreateRewardInput = z.infer<typeof createRewardInputSchema>;
+
+export const updateRewardInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).optional(),
+  description: z.string().nullable().optional(),
+  points_cost: z.number().int().positive().optional(),
+  available_from: z.coerce.date().nullable().optional(),
+  available_until: z.coerce.date().nullable().optional(),
+  per_customer_limit: z.number().int().positive().nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateRewardInput = z.infer<typeof updateRewardInputSchema>;
+
+export const getRewardsInputSchema = z.object({
+  restaurant_id: z.number(),
+  available_only: z.boolean().optional() // Active rewards within their availability window
+});
+
+export type GetRewardsInput = z.infer<typeof getRewardsInputSchema>;
+
+export const redeemRewardInputSchema = z.object({
+  restaurant_id: z.number(),
+  customer_id: z.number(),
+  reward_id: z.number()
+});
+
+export type RedeemRewardInput = z.infer<typeof redeemRewardInputSchema>;
+
+export const redemptionCodeInputSchema = z.object({
+  code: z.string().trim().min(1)
+});
+
+export type RedemptionCodeInput = z.infer<typeof redemptionCodeInputSchema>;
+
+export const voidRedemptionInputSchema = z.object({
+  code: z.string().trim().min(1),
+  reason: z.string().trim().min(1)
+});
+
+export type VoidRedemptionInput = z.infer<typeof voidRedemptionInputSchema>;
+
 export const getStaffByRestaurantInputSchema = z.object({
   restaurant_id: z.number(),
-  limit: z.number().int().positive().optional(),
-  offset: z.number().int().nonnegative().optional()
+  limit: z.number().int().positive().max(100).optional(),
+  offset: z.number().int().nonnegative().optional(),
+  cursor: cursorSchema.nullish() // nextCursor of the previous page
+});
+
+export type GetStaffByRestaurantInput = z.infer<typeof getStaffByRestaurantInputSchema>;
+
+export const getAuditLogInputSchema = z.object({
+  restaurant_id: z.number().optional(), // Super admins see every tenant when omitted
+  actor_id: z.number().optional(),
+  impersonator_id: z.number().optional(), // Changes a super admin made while impersonating
+  entity_type: auditEntityTypeSchema.optional(),
+  entity_id: z.number().optional(),
+  action: auditActionSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.number().int().positive().max(100).optional(),
+  offset: z.number().int().nonnegative().optional(),
+  cursor: cursorSchema.nullish() // nextCursor of the previous page
+});
+
+export type GetAuditLogInput = z.infer<typeof getAuditLogInputSchema>;
+
+export const getLoginHistoryInputSchema = z.object({
+  limit: z.number().int().positive().max(100).optional()
 });
 
-export type GetStaffByRestaurantInput = z.infer<typeof getStaffByRestaurantInputSchema>;
\ No newline at end of file
+export type GetLoginHistoryInput = z.infer<typeof getLoginHistoryInputSchema>;
\ No newline at end of file
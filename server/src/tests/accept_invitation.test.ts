@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { restaurantsTable, staffInvitationsTable, usersTable } from '../db/schema';
+import { type AcceptInvitationInput } from '../schema';
+import { acceptInvitation } from '../handlers/accept_invitation';
+import { hashToken } from '../lib/tokens';
+import { verifyPassword } from '../lib/password';
+import { eq } from 'drizzle-orm';
+
+const testInput: AcceptInvitationInput = {
+  token: 'invitation-token',
+  password: 'password123',
+  first_name: 'New',
+  last_name: 'Staff'
+};
+
+describe('acceptInvitation', () => {
+  let restaurantId: number;
+  let invitationId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const invitations = await db.insert(staffInvitationsTable)
+      .values({
+        restaurant_id: restaurantId,
+        email: 'new.staff@example.com',
+        role: 'MANAGER',
+        token_hash: hashToken('invitation-token'),
+        invited_by: 1,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    invitationId = invitations[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create a user bound to the inviting restaurant', async () => {
+    const result = await acceptInvitation(testInput);
+
+    expect(result.email).toEqual('new.staff@example.com');
+    expect(result.first_name).toEqual('New');
+    expect(result.last_name).toEqual('Staff');
+    expect(result.role).toEqual('MANAGER');
+    expect(result.restaurant_id).toEqual(restaurantId);
+    expect(result.is_active).toBe(true);
+    expect(result.email_verified_at).toBeInstanceOf(Date);
+    expect(await verifyPassword('password123', result.password_hash)).toBe(true);
+  });
+
+  it('should mark the invitation as accepted', async () => {
+    await acceptInvitation(testInput);
+
+    const invitations = await db.select()
+      .from(staffInvitationsTable)
+      .where(eq(staffInvitationsTable.id, invitationId))
+      .execute();
+
+    expect(invitations[0].status).toEqual('ACCEPTED');
+    expect(invitations[0].accepted_at).toBeInstanceOf(Date);
+  });
+
+  it('should not accept the same invitation twice', async () => {
+    await acceptInvitation(testInput);
+
+    await expect(acceptInvitation(testInput)).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject expired invitations', async () => {
+    await db.update(staffInvitationsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(staffInvitationsTable.id, invitationId))
+      .execute();
+
+    await expect(acceptInvitation(testInput)).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject revoked invitations', async () => {
+    await db.update(staffInvitationsTable)
+      .set({ status: 'REVOKED' })
+      .where(eq(staffInvitationsTable.id, invitationId))
+      .execute();
+
+    await expect(acceptInvitation(testInput)).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should leave the invitation pending when the account cannot be created', async () => {
+    // Email taken after the invitation was sent
+    await db.insert(usersTable)
+      .values({
+        email: 'new.staff@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'Existing',
+        last_name: 'User'
+      })
+      .execute();
+
+    await expect(acceptInvitation(testInput)).rejects.toThrow();
+
+    const invitations = await db.select()
+      .from(staffInvitationsTable)
+      .where(eq(staffInvitationsTable.id, invitationId))
+      .execute();
+
+    expect(invitations[0].status).toEqual('PENDING');
+  });
+});
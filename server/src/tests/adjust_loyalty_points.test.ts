@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, restaurantsTable } from '../db/schema';
+import { adjustLoyaltyPoints } from '../handlers/adjust_loyalty_points';
+import { eq } from 'drizzle-orm';
+
+describe('adjustLoyaltyPoints', () => {
+  let restaurantId: number;
+  let customerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin' })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const balance = async () => {
+    const customers = await db.select()
+      .from(customersTable)
+      .where(eq(customersTable.id, customerId))
+      .execute();
+
+    return customers[0].loyalty_points;
+  };
+
+  it('should record the adjustment with its reason and actor', async () => {
+    const entry = await adjustLoyaltyPoints({
+      restaurant_id: restaurantId,
+      customer_id: customerId,
+      points: 50,
+      reason: 'Apology for the long wait'
+    }, { user: { id: 3 } });
+
+    expect(entry.type).toEqual('ADJUST');
+    expect(entry.points).toEqual(50);
+    expect(entry.balance_after).toEqual(50);
+    expect(entry.reason).toEqual('Apology for the long wait');
+    expect(entry.actor_id).toEqual(3);
+    expect(entry.api_key_id).toBeNull();
+    expect(await balance()).toEqual(50);
+  });
+
+  it('should record API keys as the actor', async () => {
+    const entry = await adjustLoyaltyPoints({
+      restaurant_id: restaurantId,
+      customer_id: customerId,
+      points: 5,
+      reason: 'Imported from the old system'
+    }, { user: null, apiKey: { id: 8 } });
+
+    expect(entry.actor_id).toBeNull();
+    expect(entry.api_key_id).toEqual(8);
+  });
+
+  it('should deduct points but never below zero', async () => {
+    await adjustLoyaltyPoints({ restaurant_id: restaurantId, customer_id: customerId, points: 30, reason: 'Welcome' }, { user: null });
+    await adjustLoyaltyPoints({ restaurant_id: restaurantId, customer_id: customerId, points: -20, reason: 'Entered twice' }, { user: null });
+
+    await expect(adjustLoyaltyPoints({ restaurant_id: restaurantId, customer_id: customerId, points: -11, reason: 'Oops' }, { user: null }))
+      .rejects.toThrow('Insufficient loyalty points: balance is 10');
+
+    expect(await balance()).toEqual(10);
+    expect(await db.select().from(loyaltyLedgerTable).execute()).toHaveLength(2);
+  });
+
+  it('should not adjust customers of another restaurant', async () => {
+    await expect(adjustLoyaltyPoints({ restaurant_id: restaurantId + 1, customer_id: customerId, points: 10, reason: 'Welcome' }, { user: null }))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customRolesTable, restaurantsTable, usersTable } from '../db/schema';
+import { type UserRole } from '../schema';
+import { assignCustomRole } from '../handlers/assign_custom_role';
+
+describe('assignCustomRole', () => {
+  let restaurant1Id: number;
+  let restaurant2Id: number;
+  let roleId: number;
+  let foreignRoleId: number;
+
+  const createUser = async (role: UserRole, restaurantId: number | null) => {
+    const users = await db.insert(usersTable)
+      .values({
+        email: `${role.toLowerCase()}${restaurantId}@example.com`,
+        password_hash: 'irrelevant',
+        first_name: 'Test',
+        last_name: 'User',
+        role,
+        restaurant_id: restaurantId
+      })
+      .returning()
+      .execute();
+
+    return users[0].id;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurant1Id = restaurants[0].id;
+    restaurant2Id = restaurants[1].id;
+
+    const roles = await db.insert(customRolesTable)
+      .values([
+        { restaurant_id: restaurant1Id, name: 'Host' },
+        { restaurant_id: restaurant2Id, name: 'Host' }
+      ])
+      .returning()
+      .execute();
+
+    roleId = roles[0].id;
+    foreignRoleId = roles[1].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should assign a role to a staff member', async () => {
+    const userId = await createUser('STAFF', restaurant1Id);
+
+    const result = await assignCustomRole({ user_id: userId, custom_role_id: roleId }, restaurant1Id);
+
+    expect(result.id).toEqual(userId);
+    expect(result.custom_role_id).toEqual(roleId);
+    expect(result.role).toEqual('STAFF');
+  });
+
+  it('should clear an assigned role', async () => {
+    const userId = await createUser('MANAGER', restaurant1Id);
+    await assignCustomRole({ user_id: userId, custom_role_id: roleId }, restaurant1Id);
+
+    const result = await assignCustomRole({ user_id: userId, custom_role_id: null }, restaurant1Id);
+
+    expect(result.custom_role_id).toBeNull();
+  });
+
+  it('should not assign roles to owners', async () => {
+    const userId = await createUser('RESTAURANT_OWNER', restaurant1Id);
+
+    await expect(assignCustomRole({ user_id: userId, custom_role_id: roleId }, restaurant1Id))
+      .rejects.toThrow(/managers and staff/i);
+  });
+
+  it('should not assign roles of another restaurant', async () => {
+    const userId = await createUser('STAFF', restaurant1Id);
+
+    await expect(assignCustomRole({ user_id: userId, custom_role_id: foreignRoleId }))
+      .rejects.toThrow(/not found/i);
+  });
+
+  it('should not touch users of another restaurant', async () => {
+    const userId = await createUser('STAFF', restaurant2Id);
+
+    await expect(assignCustomRole({ user_id: userId, custom_role_id: roleId }, restaurant1Id))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { auditLogTable, customersTable, restaurantsTable, usersTable } from '../db/schema';
+import { type AuditActor, diffRecords, recordAudit, withAudit } from '../lib/audit';
+import { createCustomer } from '../handlers/create_customer';
+import { updateCustomer } from '../handlers/update_customer';
+import { eq } from 'drizzle-orm';
+
+describe('diffRecords', () => {
+  it('should list only changed fields', () => {
+    const changes = diffRecords(
+      { id: 1, first_name: 'Alice', loyalty_points: 10 },
+      { id: 1, first_name: 'Alice', loyalty_points: 25 }
+    );
+
+    expect(changes).toEqual({ loyalty_points: { from: 10, to: 25 } });
+  });
+
+  it('should compare dates by value and store them as ISO strings', () => {
+    const visit = new Date('2024-01-01T12:00:00Z');
+
+    expect(diffRecords({ last_visit_date: visit }, { last_visit_date: new Date(visit) })).toEqual({});
+    expect(diffRecords({ last_visit_date: null }, { last_visit_date: visit })).toEqual({
+      last_visit_date: { from: null, to: '2024-01-01T12:00:00.000Z' }
+    });
+  });
+
+  it('should ignore updated_at and redact secrets', () => {
+    const changes = diffRecords(
+      { password_hash: 'old', updated_at: new Date(0) },
+      { password_hash: 'new', updated_at: new Date() }
+    );
+
+    expect(changes).toEqual({ password_hash: { from: '[REDACTED]', to: '[REDACTED]' } });
+  });
+
+  it('should treat a missing side as creation or deletion', () => {
+    expect(diffRecords(null, { id: 5, name: 'New' })).toEqual({
+      id: { from: null, to: 5 },
+      name: { from: null, to: 'New' }
+    });
+  });
+});
+
+describe('withAudit', () => {
+  let restaurantId: number;
+  let actor: AuditActor;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'manager@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'Manager',
+        last_name: 'User',
+        role: 'MANAGER',
+        restaurant_id: restaurantId
+      })
+      .returning()
+      .execute();
+
+    actor = { user: users[0], session: null };
+  });
+
+  afterEach(resetDB);
+
+  it('should record creations with the new values', async () => {
+    const customer = await withAudit(actor, { entityType: 'CUSTOMER', action: 'CREATE' }, () => createCustomer({
+      restaurant_id: restaurantId,
+      first_name: 'Alice',
+      last_name: 'Smith'
+    }));
+
+    const entries = await db.select().from(auditLogTable).execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].actor_id).toEqual(actor.user!.id);
+    expect(entries[0].impersonator_id).toBeNull();
+    expect(entries[0].restaurant_id).toEqual(restaurantId);
+    expect(entries[0].entity_type).toEqual('CUSTOMER');
+    expect(entries[0].entity_id).toEqual(customer.id);
+    expect(entries[0].action).toEqual('CREATE');
+    expect(entries[0].changes!['first_name']).toEqual({ from: null, to: 'Alice' });
+  });
+
+  it('should record updates as a before/after diff', async () => {
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Smith', notes: 'Regular' })
+      .returning()
+      .execute();
+
+    await withAudit(actor, { entityType: 'CUSTOMER', action: 'UPDATE', entityId: customers[0].id }, () => updateCustomer({
+      id: customers[0].id,
+      notes: 'VIP'
+    }, restaurantId));
+
+    const entries = await db.select().from(auditLogTable).execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].changes).toEqual({ notes: { from: 'Regular', to: 'VIP' } });
+  });
+
+  it('should not record mutations that fail', async () => {
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Smith' })
+      .returning()
+      .execute();
+
+    await expect(withAudit(actor, { entityType: 'CUSTOMER', action: 'UPDATE', entityId: customers[0].id }, () => updateCustomer({
+      id: customers[0].id,
+      notes: 'VIP'
+    }, restaurantId + 1))).rejects.toThrow();
+
+    const entries = await db.select().from(auditLogTable).execute();
+    expect(entries).toHaveLength(0);
+
+    const unchanged = await db.select().from(customersTable).where(eq(customersTable.id, customers[0].id)).execute();
+    expect(unchanged[0].notes).toBeNull();
+  });
+
+  it('should use the restaurant itself as tenant for restaurant changes', async () => {
+    await withAudit(actor, { entityType: 'RESTAURANT', action: 'UPDATE', entityId: restaurantId }, async () => {
+      const updated = await db.update(restaurantsTable)
+        .set({ is_active: false })
+        .where(eq(restaurantsTable.id, restaurantId))
+        .returning()
+        .execute();
+      return updated[0];
+    });
+
+    const entries = await db.select().from(auditLogTable).execute();
+
+    expect(entries[0].restaurant_id).toEqual(restaurantId);
+    expect(entries[0].changes).toEqual({ is_active: { from: true, to: false } });
+  });
+
+  it('should log bulk results without a diff', async () => {
+    await withAudit(null, { entityType: 'PERMISSION', action: 'CREATE' }, async () => [{ id: 1 }, { id: 2 }]);
+
+    const entries = await db.select().from(auditLogTable).execute();
+
+    expect(entries[0].actor_id).toBeNull();
+    expect(entries[0].entity_id).toBeNull();
+    expect(entries[0].changes).toBeNull();
+  });
+
+  it('should record the super admin behind an impersonated session', async () => {
+    const impersonated: AuditActor = { user: actor.user, session: { impersonator_id: 99 } };
+
+    await withAudit(impersonated, { entityType: 'CUSTOMER', action: 'CREATE' }, () => createCustomer({
+      restaurant_id: restaurantId,
+      first_name: 'Bob',
+      last_name: 'Jones'
+    }));
+
+    const entries = await db.select().from(auditLogTable).execute();
+
+    expect(entries[0].actor_id).toEqual(actor.user!.id);
+    expect(entries[0].impersonator_id).toEqual(99);
+  });
+
+  it('should record changes that already happened', async () => {
+    await recordAudit(actor, { entityType: 'USER', action: 'UPDATE', entityId: actor.user!.id },
+      { id: actor.user!.id, restaurant_id: restaurantId, first_name: 'Manager' },
+      { id: actor.user!.id, restaurant_id: restaurantId, first_name: 'Boss' }
+    );
+
+    const entries = await db.select().from(auditLogTable).execute();
+
+    expect(entries[0].restaurant_id).toEqual(restaurantId);
+    expect(entries[0].changes).toEqual({ first_name: { from: 'Manager', to: 'Boss' } });
+  });
+});
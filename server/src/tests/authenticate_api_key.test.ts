@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { apiKeysTable, permissionsTable, restaurantsTable } from '../db/schema';
+import { createApiKey } from '../handlers/create_api_key';
+import { authenticateApiKey } from '../handlers/authenticate_api_key';
+import { eq } from 'drizzle-orm';
+
+describe('authenticateApiKey', () => {
+  let restaurantId: number;
+  let keyId: number;
+  let key: string;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await db.insert(permissionsTable)
+      .values({ name: 'customers:read', resource: 'customers', action: 'read' })
+      .execute();
+
+    const created = await createApiKey({ restaurant_id: restaurantId, name: 'POS', permissions: ['customers:read'] }, null);
+    keyId = created.api_key.id;
+    key = created.key;
+  });
+
+  afterEach(resetDB);
+
+  it('should resolve a valid key with its permissions', async () => {
+    const apiKey = await authenticateApiKey(key);
+
+    expect(apiKey!.id).toEqual(keyId);
+    expect(apiKey!.restaurant_id).toEqual(restaurantId);
+    expect(apiKey!.permissions).toEqual(['customers:read']);
+  });
+
+  it('should record when the key was last used', async () => {
+    const before = new Date();
+    const apiKey = await authenticateApiKey(key);
+
+    expect(apiKey!.last_used_at!.getTime()).toBeGreaterThanOrEqual(before.getTime() - 1000);
+
+    const stored = await db.select().from(apiKeysTable).where(eq(apiKeysTable.id, keyId)).execute();
+    expect(stored[0].last_used_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject unknown keys', async () => {
+    expect(await authenticateApiKey(`${key}x`)).toBeNull();
+  });
+
+  it('should reject revoked and expired keys', async () => {
+    await db.update(apiKeysTable).set({ revoked_at: new Date() }).where(eq(apiKeysTable.id, keyId)).execute();
+    expect(await authenticateApiKey(key)).toBeNull();
+
+    await db.update(apiKeysTable)
+      .set({ revoked_at: null, expires_at: new Date(Date.now() - 1000) })
+      .where(eq(apiKeysTable.id, keyId))
+      .execute();
+    expect(await authenticateApiKey(key)).toBeNull();
+  });
+
+  it('should reject keys of deactivated restaurants', async () => {
+    await db.update(restaurantsTable).set({ is_active: false }).where(eq(restaurantsTable.id, restaurantId)).execute();
+
+    expect(await authenticateApiKey(key)).toBeNull();
+  });
+});
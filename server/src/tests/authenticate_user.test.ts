@@ -1,10 +1,13 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, restaurantsTable } from '../db/schema';
-import { type LoginInput } from '../schema';
+import { usersTable, restaurantsTable, loginAttemptsTable } from '../db/schema';
+import { type ClientInfo, type LoginInput } from '../schema';
 import { authenticateUser } from '../handlers/authenticate_user';
+import { hashPassword } from '../lib/password';
+import { LOCKOUT_THRESHOLD, LoginThrottledError, THROTTLE_WINDOW_MS } from '../lib/login_throttle';
 import { createHash, randomBytes } from 'crypto';
+import { eq } from 'drizzle-orm';
 
 // Helper function to create password hash (matching the handler's logic)
 const createPasswordHash = (password: string): string => {
@@ -34,6 +37,24 @@ const loginInput: LoginInput = {
   password: testPassword
 };
 
+const client: ClientInfo = {
+  ip_address: '203.0.113.7',
+  user_agent: 'TestAgent/1.0'
+};
+
+// Failed attempts as recorded by earlier logins
+const insertFailures = async (countToInsert: number, values: { email: string; ip_address?: string; created_at?: Date }) => {
+  await db.insert(loginAttemptsTable)
+    .values(Array.from({ length: countToInsert }, () => ({
+      email: values.email,
+      ip_address: values.ip_address ?? null,
+      success: false,
+      failure_reason: 'INVALID_CREDENTIALS' as const,
+      created_at: values.created_at ?? new Date()
+    })))
+    .execute();
+};
+
 describe('authenticateUser', () => {
   let hashedPassword: string;
   let restaurantId: number;
@@ -77,7 +98,71 @@ describe('authenticateUser', () => {
     expect(result!.id).toBeDefined();
     expect(result!.created_at).toBeInstanceOf(Date);
     expect(result!.updated_at).toBeInstanceOf(Date);
-    expect(result!.password_hash).toEqual(hashedPassword);
+    expect(result!.password_hash).toStartWith('$scrypt$');
+  });
+
+  it('should upgrade legacy password hashes on successful login', async () => {
+    const result = await authenticateUser(loginInput);
+
+    // Verify the stored hash was replaced with the current scheme
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result!.id))
+      .execute();
+
+    expect(users[0].password_hash).not.toEqual(hashedPassword);
+    expect(users[0].password_hash).toStartWith('$scrypt$v=1$');
+
+    // The upgraded hash must still accept the same password
+    const again = await authenticateUser(loginInput);
+    expect(again).not.toBeNull();
+    expect(again!.password_hash).toEqual(users[0].password_hash);
+  });
+
+  it('should accept legacy hashes stored as hash:salt', async () => {
+    const salt = randomBytes(16).toString('hex');
+    const hash = createHash('sha256').update(testPassword + salt).digest('hex');
+
+    await db.insert(usersTable)
+      .values({
+        ...testUser,
+        email: 'legacy@example.com',
+        password_hash: `${hash}:${salt}`,
+        restaurant_id: restaurantId
+      })
+      .execute();
+
+    const result = await authenticateUser({ email: 'legacy@example.com', password: testPassword });
+    expect(result).not.toBeNull();
+    expect(result!.password_hash).toStartWith('$scrypt$');
+  });
+
+  it('should not rewrite hashes that are already current', async () => {
+    const currentHash = await hashPassword(testPassword);
+
+    await db.insert(usersTable)
+      .values({
+        ...testUser,
+        email: 'current@example.com',
+        password_hash: currentHash,
+        restaurant_id: restaurantId
+      })
+      .execute();
+
+    const result = await authenticateUser({ email: 'current@example.com', password: testPassword });
+    expect(result).not.toBeNull();
+    expect(result!.password_hash).toEqual(currentHash);
+  });
+
+  it('should not upgrade hashes on failed login', async () => {
+    await authenticateUser({ ...loginInput, password: 'wrongPassword' });
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, loginInput.email))
+      .execute();
+
+    expect(users[0].password_hash).toEqual(hashedPassword);
   });
 
   it('should return null for non-existent email', async () => {
@@ -259,4 +344,99 @@ describe('authenticateUser', () => {
     expect(result!.restaurant_id).toEqual(restaurantId);
     expect(result!.is_active).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('should record failed attempts with the client details', async () => {
+    await authenticateUser({ ...loginInput, password: 'wrongPassword' }, client);
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].email).toEqual('john@example.com');
+    expect(attempts[0].success).toBe(false);
+    expect(attempts[0].failure_reason).toEqual('INVALID_CREDENTIALS');
+    expect(attempts[0].ip_address).toEqual('203.0.113.7');
+    expect(attempts[0].user_agent).toEqual('TestAgent/1.0');
+    expect(attempts[0].user_id).not.toBeNull();
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.email, 'john@example.com')).execute();
+    expect(users[0].failed_login_attempts).toEqual(1);
+  });
+
+  it('should record failures for unknown emails without a user', async () => {
+    await authenticateUser({ email: 'nobody@example.com', password: testPassword }, client);
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].user_id).toBeNull();
+  });
+
+  it('should leave recording a successful login to the caller', async () => {
+    await authenticateUser(loginInput, client);
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts).toHaveLength(0);
+  });
+
+  it('should throttle an email after repeated failures, even with the right password', async () => {
+    await insertFailures(3, { email: 'john@example.com' });
+
+    await expect(authenticateUser(loginInput, client)).rejects.toBeInstanceOf(LoginThrottledError);
+
+    const throttled = await db.select()
+      .from(loginAttemptsTable)
+      .where(eq(loginAttemptsTable.success, false))
+      .execute();
+
+    expect(throttled.map(attempt => attempt.failure_reason)).toContain('THROTTLED');
+  });
+
+  it('should throttle an IP address spraying many emails', async () => {
+    for (let i = 0; i < 20; i++) {
+      await insertFailures(1, { email: `victim${i}@example.com`, ip_address: client.ip_address! });
+    }
+
+    await expect(authenticateUser(loginInput, client)).rejects.toBeInstanceOf(LoginThrottledError);
+
+    // The same account from another address is unaffected
+    const result = await authenticateUser(loginInput, { ...client, ip_address: '198.51.100.1' });
+    expect(result).not.toBeNull();
+  });
+
+  it('should ignore failures older than the throttle window', async () => {
+    await insertFailures(5, { email: 'john@example.com', created_at: new Date(Date.now() - THROTTLE_WINDOW_MS - 1000) });
+
+    const result = await authenticateUser(loginInput, client);
+    expect(result).not.toBeNull();
+  });
+
+  it('should lock the account once the failure threshold is reached', async () => {
+    await db.update(usersTable)
+      .set({ failed_login_attempts: LOCKOUT_THRESHOLD - 1 })
+      .where(eq(usersTable.email, 'john@example.com'))
+      .execute();
+
+    await authenticateUser({ ...loginInput, password: 'wrongPassword' }, client);
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.email, 'john@example.com')).execute();
+    expect(users[0].locked_until).toBeInstanceOf(Date);
+    expect(users[0].locked_until!.getTime()).toBeGreaterThan(Date.now());
+    expect(users[0].failed_login_attempts).toEqual(0);
+
+    // The correct password no longer works while locked
+    const error = await authenticateUser(loginInput, client).catch(e => e);
+    expect(error).toBeInstanceOf(LoginThrottledError);
+    expect((error as LoginThrottledError).retryAfter.getTime()).toEqual(users[0].locked_until!.getTime());
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts.map(attempt => attempt.failure_reason)).toContain('ACCOUNT_LOCKED');
+  });
+
+  it('should allow logins again once the lockout has expired', async () => {
+    await db.update(usersTable)
+      .set({ locked_until: new Date(Date.now() - 1000) })
+      .where(eq(usersTable.email, 'john@example.com'))
+      .execute();
+
+    const result = await authenticateUser(loginInput, client);
+    expect(result).not.toBeNull();
+  });
+});
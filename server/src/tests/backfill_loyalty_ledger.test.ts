@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, loyaltyRulesTable, restaurantsTable } from '../db/schema';
+import { backfillLoyaltyLedger, OPENING_BALANCE_REASON } from '../db/backfill_loyalty_ledger';
+import { expireLoyaltyPoints } from '../handlers/expire_loyalty_points';
+import { asc, eq } from 'drizzle-orm';
+
+describe('backfillLoyaltyLedger', () => {
+  let restaurantId: number;
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const createCustomer = async (loyaltyPoints: number): Promise<number> => {
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', loyalty_points: loyaltyPoints })
+      .returning()
+      .execute();
+
+    return customers[0].id;
+  };
+
+  const entriesFor = (customerId: number) => {
+    return db.select()
+      .from(loyaltyLedgerTable)
+      .where(eq(loyaltyLedgerTable.customer_id, customerId))
+      .orderBy(asc(loyaltyLedgerTable.created_at), asc(loyaltyLedgerTable.id))
+      .execute();
+  };
+
+  it('should write an opening entry for balances without a ledger', async () => {
+    const customerId = await createCustomer(250);
+
+    expect(await backfillLoyaltyLedger(now)).toEqual(1);
+
+    const entries = await entriesFor(customerId);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].type).toEqual('ADJUST');
+    expect(entries[0].points).toEqual(250);
+    expect(entries[0].balance_after).toEqual(250);
+    expect(entries[0].reason).toEqual(OPENING_BALANCE_REASON);
+    expect(entries[0].actor_id).toBeNull();
+    expect(entries[0].created_at).toEqual(now);
+  });
+
+  it('should only record the points missing from the ledger, before its first entry', async () => {
+    const customerId = await createCustomer(130);
+    await db.insert(loyaltyLedgerTable)
+      .values({ restaurant_id: restaurantId, customer_id: customerId, type: 'EARN', points: 30, balance_after: 130, reason: 'Visit 1', created_at: new Date('2024-05-10T20:00:00Z') })
+      .execute();
+
+    await backfillLoyaltyLedger(now);
+
+    const entries = await entriesFor(customerId);
+    expect(entries).toHaveLength(2);
+    expect(entries[0].reason).toEqual(OPENING_BALANCE_REASON);
+    expect(entries[0].points).toEqual(100);
+    expect(entries[0].balance_after).toEqual(100);
+    expect(entries[0].created_at).toEqual(new Date('2024-05-10T19:59:59.999Z'));
+  });
+
+  it('should leave customers with a matching or empty balance alone', async () => {
+    const emptyId = await createCustomer(0);
+    const recordedId = await createCustomer(40);
+    await db.insert(loyaltyLedgerTable)
+      .values({ restaurant_id: restaurantId, customer_id: recordedId, type: 'EARN', points: 40, balance_after: 40, reason: 'Visit 1' })
+      .execute();
+
+    expect(await backfillLoyaltyLedger(now)).toEqual(0);
+    expect(await entriesFor(emptyId)).toHaveLength(0);
+    expect(await entriesFor(recordedId)).toHaveLength(1);
+  });
+
+  it('should be safe to run again', async () => {
+    const customerId = await createCustomer(250);
+
+    await backfillLoyaltyLedger(now);
+
+    expect(await backfillLoyaltyLedger(now)).toEqual(0);
+    expect(await entriesFor(customerId)).toHaveLength(1);
+  });
+
+  it('should let expiry count redemptions against the opening balance first', async () => {
+    await db.insert(loyaltyRulesTable)
+      .values({ restaurant_id: restaurantId, points_per_currency_unit: '1', points_expire_after_days: 90 })
+      .execute();
+
+    // 100 points from before the ledger, 80 of them spent and 50 earned recently
+    const customerId = await createCustomer(70);
+    await db.insert(loyaltyLedgerTable)
+      .values([
+        { restaurant_id: restaurantId, customer_id: customerId, type: 'REDEEM', points: -80, balance_after: 20, reason: 'Dessert', created_at: new Date('2024-01-10T20:00:00Z') },
+        { restaurant_id: restaurantId, customer_id: customerId, type: 'EARN', points: 50, balance_after: 70, reason: 'Visit 1', created_at: new Date('2024-05-10T20:00:00Z') }
+      ])
+      .execute();
+
+    await backfillLoyaltyLedger(now);
+
+    // The 20 legacy points left are past expiry; the recent 50 are not touched
+    expect(await expireLoyaltyPoints(restaurantId, now)).toEqual({ customers: 1, points: 20 });
+
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, customerId)).execute();
+    expect(customers[0].loyalty_points).toEqual(50);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startMockOidcIssuer, type MockOidcIssuer } from '../helpers/mock_oidc_issuer';
+import { db } from '../db';
+import { oidcLoginStatesTable, oidcProvidersTable, restaurantsTable } from '../db/schema';
+import { beginOidcLogin } from '../handlers/begin_oidc_login';
+import { createPkceChallenge } from '../lib/oidc';
+import { hashToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+describe('beginOidcLogin', () => {
+  let issuer: MockOidcIssuer;
+  let restaurantId: number;
+
+  beforeAll(() => {
+    issuer = startMockOidcIssuer();
+  });
+
+  afterAll(() => issuer.stop());
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await db.insert(oidcProvidersTable)
+      .values({
+        restaurant_id: restaurantId,
+        discovery_url: issuer.discoveryUrl,
+        client_id: issuer.clientId,
+        client_secret: issuer.clientSecret,
+        allowed_email_domains: ['example.com']
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should point the browser at the issuer and remember the PKCE verifier', async () => {
+    const result = await beginOidcLogin({ restaurant_id: restaurantId });
+    const url = new URL(result.authorization_url);
+
+    expect(url.origin).toEqual(issuer.issuer);
+    expect(url.searchParams.get('client_id')).toEqual(issuer.clientId);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+    const states = await db.select()
+      .from(oidcLoginStatesTable)
+      .where(eq(oidcLoginStatesTable.state_hash, hashToken(url.searchParams.get('state')!)))
+      .execute();
+
+    expect(states).toHaveLength(1);
+    expect(states[0].nonce).toEqual(url.searchParams.get('nonce')!);
+    expect(createPkceChallenge(states[0].code_verifier)).toEqual(url.searchParams.get('code_challenge')!);
+    expect(result.authorization_url).not.toContain(states[0].code_verifier);
+  });
+
+  it('should reject restaurants without single sign-on', async () => {
+    await expect(beginOidcLogin({ restaurant_id: restaurantId + 1 })).rejects.toThrow(/not configured/i);
+  });
+
+  it('should reject disabled providers and inactive restaurants', async () => {
+    await db.update(oidcProvidersTable).set({ is_enabled: false }).execute();
+    await expect(beginOidcLogin({ restaurant_id: restaurantId })).rejects.toThrow(/not configured/i);
+
+    await db.update(oidcProvidersTable).set({ is_enabled: true }).execute();
+    await db.update(restaurantsTable).set({ is_active: false }).execute();
+    await expect(beginOidcLogin({ restaurant_id: restaurantId })).rejects.toThrow(/not configured/i);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { userTwoFactorTable, usersTable } from '../db/schema';
+import { beginTwoFactorEnrollment } from '../handlers/begin_two_factor_enrollment';
+import { base32Decode } from '../lib/totp';
+import { decryptSecret, isEncryptedSecret } from '../lib/secrets';
+import { eq } from 'drizzle-orm';
+
+describe('beginTwoFactorEnrollment', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe',
+        role: 'MANAGER'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should store a pending secret and return an otpauth URI', async () => {
+    const result = await beginTwoFactorEnrollment(userId);
+
+    expect(base32Decode(result.secret)).toHaveLength(20);
+    expect(result.otpauth_uri).toStartWith('otpauth://totp/RestoManage%3Ajohn%40example.com?');
+    expect(result.otpauth_uri).toContain(`secret=${result.secret}`);
+
+    const rows = await db.select()
+      .from(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    expect(rows).toHaveLength(1);
+    expect(isEncryptedSecret(rows[0].secret)).toBe(true);
+    expect(decryptSecret(rows[0].secret)).toEqual(result.secret);
+    expect(rows[0].enabled_at).toBeNull();
+  });
+
+  it('should replace the secret when enrollment is restarted', async () => {
+    const first = await beginTwoFactorEnrollment(userId);
+    const second = await beginTwoFactorEnrollment(userId);
+
+    expect(second.secret).not.toEqual(first.secret);
+
+    const rows = await db.select()
+      .from(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    expect(rows).toHaveLength(1);
+    expect(decryptSecret(rows[0].secret)).toEqual(second.secret);
+  });
+
+  it('should reject users that already have 2FA enabled', async () => {
+    await db.insert(userTwoFactorTable)
+      .values({ user_id: userId, secret: 'JBSWY3DPEHPK3PXP', enabled_at: new Date() })
+      .execute();
+
+    await expect(beginTwoFactorEnrollment(userId)).rejects.toThrow(/already enabled/i);
+  });
+
+  it('should throw for unknown users', async () => {
+    await expect(beginTwoFactorEnrollment(99999)).rejects.toThrow(/not found/i);
+  });
+});
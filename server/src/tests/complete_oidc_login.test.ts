@@ -0,0 +1,184 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startMockOidcIssuer, type MockOidcClaims, type MockOidcIssuer } from '../helpers/mock_oidc_issuer';
+import { db } from '../db';
+import { auditLogTable, loginAttemptsTable, oidcLoginStatesTable, oidcProvidersTable, restaurantsTable, usersTable, userTwoFactorTable } from '../db/schema';
+import { beginOidcLogin } from '../handlers/begin_oidc_login';
+import { completeOidcLogin } from '../handlers/complete_oidc_login';
+import { eq } from 'drizzle-orm';
+
+describe('completeOidcLogin', () => {
+  let issuer: MockOidcIssuer;
+  let restaurantId: number;
+  let otherRestaurantId: number;
+
+  beforeAll(() => {
+    issuer = startMockOidcIssuer();
+  });
+
+  afterAll(() => issuer.stop());
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    await db.insert(oidcProvidersTable)
+      .values({
+        restaurant_id: restaurantId,
+        discovery_url: issuer.discoveryUrl,
+        client_id: issuer.clientId,
+        client_secret: issuer.clientSecret,
+        allowed_email_domains: ['example.com'],
+        default_role: 'MANAGER'
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  // Runs the browser side of the flow: start, sign in at the issuer, come back
+  const signIn = async (claims: MockOidcClaims) => {
+    const { authorization_url } = await beginOidcLogin({ restaurant_id: restaurantId });
+    return issuer.authorize(authorization_url, claims);
+  };
+
+  const insertUser = async (email: string, restaurant: number | null, role: 'SUPER_ADMIN' | 'STAFF' = 'STAFF') => {
+    const users = await db.insert(usersTable)
+      .values({ email, password_hash: 'irrelevant', first_name: 'Sam', last_name: 'Staff', role, restaurant_id: restaurant })
+      .returning()
+      .execute();
+    return users[0];
+  };
+
+  it('should provision a new user on first sign-in', async () => {
+    const result = await completeOidcLogin(await signIn({
+      sub: 'idp-1',
+      email: 'Jane.Doe@Example.com',
+      email_verified: true,
+      given_name: 'Jane',
+      family_name: 'Doe'
+    }));
+
+    expect(result.status).toEqual('AUTHENTICATED');
+    if (result.status !== 'AUTHENTICATED') return;
+
+    expect(result.token).toBeDefined();
+    expect(result.user).toMatchObject({
+      email: 'jane.doe@example.com',
+      first_name: 'Jane',
+      last_name: 'Doe',
+      role: 'MANAGER',
+      restaurant_id: restaurantId,
+      oidc_subject: 'idp-1'
+    });
+    expect(result.user.email_verified_at).toBeInstanceOf(Date);
+
+    const entries = await db.select().from(auditLogTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ entity_type: 'USER', action: 'CREATE', actor_id: result.user.id, restaurant_id: restaurantId });
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].success).toBe(true);
+  });
+
+  it('should recognise returning users by subject', async () => {
+    const first = await completeOidcLogin(await signIn({ sub: 'idp-1', email: 'jane@example.com', name: 'Jane Doe' }));
+    const second = await completeOidcLogin(await signIn({ sub: 'idp-1', email: 'jane.doe@example.com' }));
+
+    expect(first.status === 'AUTHENTICATED' && first.user.first_name).toEqual('Jane');
+    expect(second.status === 'AUTHENTICATED' && second.user.id).toEqual(first.status === 'AUTHENTICATED' && first.user.id);
+    expect(await db.select().from(usersTable).execute()).toHaveLength(1);
+  });
+
+  it('should link an existing account of the restaurant by email', async () => {
+    const existing = await insertUser('sam@example.com', restaurantId);
+
+    const result = await completeOidcLogin(await signIn({ sub: 'idp-2', email: 'sam@example.com', email_verified: true }));
+
+    expect(result.status === 'AUTHENTICATED' && result.user).toMatchObject({ id: existing.id, role: 'STAFF', oidc_subject: 'idp-2' });
+    expect(await db.select().from(auditLogTable).execute()).toHaveLength(0);
+  });
+
+  it('should only link accounts by an email address the provider verified', async () => {
+    const existing = await insertUser('sam@example.com', restaurantId);
+
+    await expect(completeOidcLogin(await signIn({ sub: 'idp-2', email: 'sam@example.com' })))
+      .rejects.toThrow(/did not verify the email address/i);
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, existing.id)).execute();
+    expect(users[0].oidc_subject).toBeNull();
+  });
+
+  it('should leave the email of provisioned users unverified unless the provider verified it', async () => {
+    const result = await completeOidcLogin(await signIn({ sub: 'idp-1', email: 'jane@example.com' }));
+
+    expect(result.status === 'AUTHENTICATED' && result.user.email_verified_at).toBeNull();
+  });
+
+  it('should not take over accounts of other restaurants or super admins', async () => {
+    await insertUser('other@example.com', otherRestaurantId);
+    await insertUser('admin@example.com', null, 'SUPER_ADMIN');
+
+    await expect(completeOidcLogin(await signIn({ sub: 'idp-3', email: 'other@example.com' })))
+      .rejects.toThrow(/cannot sign in with single sign-on/i);
+    await expect(completeOidcLogin(await signIn({ sub: 'idp-4', email: 'admin@example.com' })))
+      .rejects.toThrow(/cannot sign in with single sign-on/i);
+  });
+
+  it('should only admit allowed and verified email addresses', async () => {
+    await expect(completeOidcLogin(await signIn({ sub: 'idp-5', email: 'someone@elsewhere.com' })))
+      .rejects.toThrow(/elsewhere.com is not allowed/i);
+    await expect(completeOidcLogin(await signIn({ sub: 'idp-6', email: 'sam@example.com', email_verified: false })))
+      .rejects.toThrow(/verified email/i);
+    await expect(completeOidcLogin(await signIn({ sub: 'idp-7' })))
+      .rejects.toThrow(/verified email/i);
+
+    expect(await db.select().from(usersTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject disabled accounts', async () => {
+    const existing = await insertUser('sam@example.com', restaurantId);
+    await db.update(usersTable).set({ is_active: false }).where(eq(usersTable.id, existing.id)).execute();
+
+    await expect(completeOidcLogin(await signIn({ sub: 'idp-2', email: 'sam@example.com', email_verified: true })))
+      .rejects.toThrow(/disabled/i);
+  });
+
+  it('should accept each sign-in request only once', async () => {
+    const callback = await signIn({ sub: 'idp-1', email: 'jane@example.com' });
+
+    await completeOidcLogin(callback);
+
+    await expect(completeOidcLogin(callback)).rejects.toThrow(/invalid or expired sign-in request/i);
+  });
+
+  it('should reject expired and unknown sign-in requests', async () => {
+    const callback = await signIn({ sub: 'idp-1', email: 'jane@example.com' });
+    await db.update(oidcLoginStatesTable).set({ expires_at: new Date(Date.now() - 1000) }).execute();
+
+    await expect(completeOidcLogin(callback)).rejects.toThrow(/invalid or expired/i);
+    await expect(completeOidcLogin({ state: 'unknown', code: callback.code })).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should still ask enrolled users for their second factor', async () => {
+    const existing = await insertUser('sam@example.com', restaurantId);
+    await db.insert(userTwoFactorTable)
+      .values({ user_id: existing.id, secret: 'JBSWY3DPEHPK3PXP', enabled_at: new Date() })
+      .execute();
+
+    const result = await completeOidcLogin(await signIn({ sub: 'idp-2', email: 'sam@example.com', email_verified: true }));
+
+    expect(result.status).toEqual('TWO_FACTOR_REQUIRED');
+  });
+});
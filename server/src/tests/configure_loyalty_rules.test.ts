@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { loyaltyRulesTable, restaurantsTable } from '../db/schema';
+import { configureLoyaltyRules } from '../handlers/configure_loyalty_rules';
+import { getLoyaltyRules } from '../handlers/get_loyalty_rules';
+
+describe('configureLoyaltyRules', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create the rules with defaults', async () => {
+    expect(await getLoyaltyRules(restaurantId)).toBeNull();
+
+    const rules = await configureLoyaltyRules({
+      restaurant_id: restaurantId,
+      points_per_currency_unit: 1.5,
+      points_per_visit: 10
+    });
+
+    expect(rules.points_per_currency_unit).toEqual(1.5);
+    expect(typeof rules.points_per_currency_unit).toBe('number');
+    expect(rules.points_per_visit).toEqual(10);
+    expect(rules.points_expire_after_days).toBeNull();
+    expect(rules.is_enabled).toBe(true);
+    expect(await getLoyaltyRules(restaurantId)).toEqual(rules);
+  });
+
+  it('should replace the existing rules', async () => {
+    const created = await configureLoyaltyRules({ restaurant_id: restaurantId, points_per_currency_unit: 1, points_per_visit: 0 });
+
+    const updated = await configureLoyaltyRules({
+      restaurant_id: restaurantId,
+      points_per_currency_unit: 2,
+      points_per_visit: 5,
+      points_expire_after_days: 365,
+      is_enabled: false
+    });
+
+    expect(updated.id).toEqual(created.id);
+    expect(updated.points_per_currency_unit).toEqual(2);
+    expect(updated.points_expire_after_days).toEqual(365);
+    expect(updated.is_enabled).toBe(false);
+    expect(await db.select().from(loyaltyRulesTable).execute()).toHaveLength(1);
+  });
+});
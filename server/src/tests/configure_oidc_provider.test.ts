@@ -0,0 +1,87 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startMockOidcIssuer, type MockOidcIssuer } from '../helpers/mock_oidc_issuer';
+import { db } from '../db';
+import { oidcProvidersTable, restaurantsTable } from '../db/schema';
+import { configureOidcProvider } from '../handlers/configure_oidc_provider';
+import { decryptSecret } from '../lib/secrets';
+
+describe('configureOidcProvider', () => {
+  let issuer: MockOidcIssuer;
+  let restaurantId: number;
+
+  beforeAll(() => {
+    issuer = startMockOidcIssuer();
+  });
+
+  afterAll(() => issuer.stop());
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const input = () => ({
+    restaurant_id: restaurantId,
+    discovery_url: issuer.discoveryUrl,
+    client_id: issuer.clientId,
+    client_secret: issuer.clientSecret,
+    allowed_email_domains: ['example.com', 'example.com']
+  });
+
+  it('should create the provider', async () => {
+    const provider = await configureOidcProvider(input());
+
+    expect(provider).toMatchObject({
+      restaurant_id: restaurantId,
+      client_id: issuer.clientId,
+      allowed_email_domains: ['example.com'],
+      default_role: 'STAFF',
+      is_enabled: true
+    });
+    expect(provider).not.toHaveProperty('client_secret');
+  });
+
+  it('should store the client secret encrypted', async () => {
+    await configureOidcProvider(input());
+
+    const stored = await db.select().from(oidcProvidersTable).execute();
+    expect(stored[0].client_secret).not.toEqual(issuer.clientSecret);
+    expect(decryptSecret(stored[0].client_secret)).toEqual(issuer.clientSecret);
+  });
+
+  it('should update the existing provider and keep the secret when omitted', async () => {
+    const created = await configureOidcProvider(input());
+    const { client_secret, ...rest } = input();
+
+    const updated = await configureOidcProvider({ ...rest, default_role: 'MANAGER', is_enabled: false });
+
+    expect(updated.id).toEqual(created.id);
+    expect(updated).toMatchObject({ default_role: 'MANAGER', is_enabled: false });
+
+    const stored = await db.select().from(oidcProvidersTable).execute();
+    expect(stored).toHaveLength(1);
+    expect(decryptSecret(stored[0].client_secret)).toEqual(issuer.clientSecret);
+  });
+
+  it('should require a client secret on first setup', async () => {
+    const { client_secret, ...rest } = input();
+
+    await expect(configureOidcProvider(rest)).rejects.toThrow(/client secret is required/i);
+  });
+
+  it('should reject issuers whose configuration cannot be loaded', async () => {
+    await expect(configureOidcProvider({ ...input(), discovery_url: `${issuer.issuer}/missing` }))
+      .rejects.toThrow(/could not load the openid configuration/i);
+
+    expect(await db.select().from(oidcProvidersTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { recoveryCodesTable, sessionsTable, userTwoFactorTable, usersTable } from '../db/schema';
+import { confirmTwoFactorEnrollment } from '../handlers/confirm_two_factor_enrollment';
+import { generateTotp, generateTotpSecret } from '../lib/totp';
+import { eq } from 'drizzle-orm';
+
+describe('confirmTwoFactorEnrollment', () => {
+  let userId: number;
+  let secret: string;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe',
+        role: 'MANAGER'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+    secret = generateTotpSecret();
+
+    await db.insert(userTwoFactorTable)
+      .values({ user_id: userId, secret })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should enable 2FA and return ten recovery codes', async () => {
+    const result = await confirmTwoFactorEnrollment(userId, { code: generateTotp(secret) });
+
+    expect(result.recovery_codes).toHaveLength(10);
+    expect(new Set(result.recovery_codes).size).toEqual(10);
+    result.recovery_codes.forEach(code => expect(code).toMatch(/^[a-z2-7]{4}-[a-z2-7]{4}$/));
+
+    const rows = await db.select()
+      .from(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    expect(rows[0].enabled_at).toBeInstanceOf(Date);
+
+    const codes = await db.select()
+      .from(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    expect(codes).toHaveLength(10);
+    expect(codes.map(code => code.code_hash)).not.toContain(result.recovery_codes[0]);
+  });
+
+  it('should lift the setup restriction from the user\'s sessions', async () => {
+    await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        token_hash: 'session-hash',
+        expires_at: new Date(Date.now() + 60 * 60 * 1000),
+        two_factor_setup_required: true
+      })
+      .execute();
+
+    await confirmTwoFactorEnrollment(userId, { code: generateTotp(secret) });
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    expect(sessions[0].two_factor_setup_required).toBe(false);
+  });
+
+  it('should reject a wrong code and leave 2FA disabled', async () => {
+    const wrongCode = generateTotp(secret) === '000000' ? '111111' : '000000';
+
+    await expect(confirmTwoFactorEnrollment(userId, { code: wrongCode })).rejects.toThrow(/invalid two-factor code/i);
+
+    const rows = await db.select()
+      .from(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    expect(rows[0].enabled_at).toBeNull();
+  });
+
+  it('should reject users without a pending enrollment', async () => {
+    await confirmTwoFactorEnrollment(userId, { code: generateTotp(secret) });
+
+    await expect(confirmTwoFactorEnrollment(userId, { code: generateTotp(secret) })).rejects.toThrow(/no pending/i);
+  });
+});
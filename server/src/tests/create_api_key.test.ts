@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { apiKeyPermissionsTable, apiKeysTable, permissionsTable, restaurantsTable } from '../db/schema';
+import { createApiKey } from '../handlers/create_api_key';
+import { hashToken } from '../lib/tokens';
+
+describe('createApiKey', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await db.insert(permissionsTable)
+      .values([
+        { name: 'customers:read', resource: 'customers', action: 'read' },
+        { name: 'customers:write', resource: 'customers', action: 'write' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should return the key once and store only its hash', async () => {
+    const result = await createApiKey({
+      restaurant_id: restaurantId,
+      name: 'POS',
+      permissions: ['customers:write', 'customers:read']
+    }, null);
+
+    expect(result.key).toStartWith('rmk_');
+    expect(result.api_key.name).toEqual('POS');
+    expect(result.api_key.key_prefix).toEqual(result.key.slice(0, 12));
+    expect(result.api_key.permissions).toEqual(['customers:read', 'customers:write']);
+    expect(result.api_key.expires_at).toBeNull();
+    expect(result.api_key).not.toHaveProperty('token_hash');
+
+    const keys = await db.select().from(apiKeysTable).execute();
+    expect(keys[0].token_hash).toEqual(hashToken(result.key));
+    expect(keys[0].token_hash).not.toContain(result.key);
+  });
+
+  it('should generate a different key every time', async () => {
+    const input = { restaurant_id: restaurantId, name: 'POS', permissions: ['customers:read'] };
+
+    const first = await createApiKey(input, null);
+    const second = await createApiKey(input, null);
+
+    expect(first.key).not.toEqual(second.key);
+  });
+
+  it('should reject unknown permissions', async () => {
+    await expect(createApiKey({
+      restaurant_id: restaurantId,
+      name: 'POS',
+      permissions: ['customers:read', 'customers:delete']
+    }, null)).rejects.toThrow(/unknown permission: customers:delete/i);
+
+    expect(await db.select().from(apiKeysTable).execute()).toHaveLength(0);
+    expect(await db.select().from(apiKeyPermissionsTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject expiry dates in the past', async () => {
+    await expect(createApiKey({
+      restaurant_id: restaurantId,
+      name: 'POS',
+      permissions: ['customers:read'],
+      expires_at: new Date(Date.now() - 1000)
+    }, null)).rejects.toThrow(/future/i);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customRolePermissionsTable, permissionsTable, restaurantsTable, rolePermissionsTable } from '../db/schema';
+import { createCustomRoleInputSchema } from '../schema';
+import { createCustomRole } from '../handlers/create_custom_role';
+import { eq } from 'drizzle-orm';
+
+describe('createCustomRole', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const permissions = await db.insert(permissionsTable)
+      .values([
+        { name: 'customers:read', resource: 'customers', action: 'read' },
+        { name: 'customers:write', resource: 'customers', action: 'write' },
+        { name: 'staff:read', resource: 'staff', action: 'read' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(rolePermissionsTable)
+      .values([
+        { role: 'STAFF', permission_id: permissions[0].id },
+        { role: 'STAFF', permission_id: permissions[1].id }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should create a role with the given permissions', async () => {
+    const input = createCustomRoleInputSchema.parse({
+      restaurant_id: restaurantId,
+      name: ' Host ',
+      description: 'Greets guests',
+      permissions: ['staff:read', 'customers:read']
+    });
+
+    const result = await createCustomRole(input);
+
+    expect(result.id).toBeDefined();
+    expect(result.restaurant_id).toEqual(restaurantId);
+    expect(result.name).toEqual('Host');
+    expect(result.description).toEqual('Greets guests');
+    expect(result.permissions).toEqual(['customers:read', 'staff:read']);
+
+    const grants = await db.select()
+      .from(customRolePermissionsTable)
+      .where(eq(customRolePermissionsTable.custom_role_id, result.id))
+      .execute();
+
+    expect(grants).toHaveLength(2);
+  });
+
+  it('should copy the permissions of a built-in template role', async () => {
+    const input = createCustomRoleInputSchema.parse({
+      restaurant_id: restaurantId,
+      name: 'Shift Lead',
+      permissions: ['staff:read'],
+      template_role: 'STAFF'
+    });
+
+    const result = await createCustomRole(input);
+
+    expect(result.permissions).toEqual(['customers:read', 'customers:write', 'staff:read']);
+
+    // The template itself is left untouched
+    const templateGrants = await db.select()
+      .from(rolePermissionsTable)
+      .where(eq(rolePermissionsTable.role, 'STAFF'))
+      .execute();
+
+    expect(templateGrants).toHaveLength(2);
+  });
+
+  it('should reject unknown permissions', async () => {
+    const input = createCustomRoleInputSchema.parse({
+      restaurant_id: restaurantId,
+      name: 'Bartender',
+      permissions: ['bar:pour']
+    });
+
+    await expect(createCustomRole(input)).rejects.toThrow(/unknown permission: bar:pour/i);
+  });
+
+  it('should reject duplicate names within a restaurant', async () => {
+    await createCustomRole(createCustomRoleInputSchema.parse({ restaurant_id: restaurantId, name: 'Host' }));
+
+    await expect(createCustomRole(createCustomRoleInputSchema.parse({ restaurant_id: restaurantId, name: 'host' })))
+      .rejects.toThrow(/already exists/i);
+  });
+
+  it('should allow the same name in another restaurant', async () => {
+    const other = await db.insert(restaurantsTable)
+      .values({ name: 'Other Restaurant', email: 'other@restaurant.com' })
+      .returning()
+      .execute();
+
+    await createCustomRole(createCustomRoleInputSchema.parse({ restaurant_id: restaurantId, name: 'Host' }));
+    const result = await createCustomRole(createCustomRoleInputSchema.parse({ restaurant_id: other[0].id, name: 'Host' }));
+
+    expect(result.restaurant_id).toEqual(other[0].id);
+  });
+});
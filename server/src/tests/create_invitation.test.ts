@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mailOutboxTable, restaurantsTable, staffInvitationsTable, usersTable } from '../db/schema';
+import { type CreateInvitationInput } from '../schema';
+import { createInvitation, INVITATION_TTL_MS } from '../handlers/create_invitation';
+import { hashToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateInvitationInput = {
+  email: 'new.staff@example.com',
+  role: 'STAFF'
+};
+
+describe('createInvitation', () => {
+  let restaurantId: number;
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const owners = await db.insert(usersTable)
+      .values({
+        email: 'owner@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'Owner',
+        last_name: 'User',
+        role: 'RESTAURANT_OWNER',
+        restaurant_id: restaurantId
+      })
+      .returning()
+      .execute();
+
+    ownerId = owners[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create a pending invitation', async () => {
+    const before = Date.now();
+    const result = await createInvitation(testInput, restaurantId, ownerId);
+
+    expect(result.id).toBeDefined();
+    expect(result.email).toEqual('new.staff@example.com');
+    expect(result.role).toEqual('STAFF');
+    expect(result.status).toEqual('PENDING');
+    expect(result.restaurant_id).toEqual(restaurantId);
+    expect(result.invited_by).toEqual(ownerId);
+    expect(result.accepted_at).toBeNull();
+    expect(result.expires_at.getTime()).toBeGreaterThanOrEqual(before + INVITATION_TTL_MS - 60 * 1000);
+  });
+
+  it('should email an invitation link matching the stored token', async () => {
+    const result = await createInvitation(testInput, restaurantId, ownerId);
+
+    const messages = await db.select().from(mailOutboxTable).execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].recipient).toEqual('new.staff@example.com');
+    expect(messages[0].subject).toContain('Test Restaurant');
+
+    const token = messages[0].body.match(/accept-invitation\?token=(\S+)/)![1];
+    const invitations = await db.select()
+      .from(staffInvitationsTable)
+      .where(eq(staffInvitationsTable.id, result.id))
+      .execute();
+
+    expect(invitations[0].token_hash).toEqual(hashToken(token));
+  });
+
+  it('should reject emails that already have an account', async () => {
+    await expect(createInvitation({ ...testInput, email: 'owner@example.com' }, restaurantId, ownerId))
+      .rejects.toThrow(/already exists/i);
+  });
+
+  it('should reject a second pending invitation for the same email', async () => {
+    await createInvitation(testInput, restaurantId, ownerId);
+
+    await expect(createInvitation({ ...testInput, role: 'MANAGER' }, restaurantId, ownerId))
+      .rejects.toThrow(/pending invitation already exists/i);
+  });
+
+  it('should allow re-inviting after a revoked invitation', async () => {
+    const first = await createInvitation(testInput, restaurantId, ownerId);
+
+    await db.update(staffInvitationsTable)
+      .set({ status: 'REVOKED' })
+      .where(eq(staffInvitationsTable.id, first.id))
+      .execute();
+
+    const second = await createInvitation(testInput, restaurantId, ownerId);
+    expect(second.id).not.toEqual(first.id);
+    expect(second.status).toEqual('PENDING');
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { restaurantsTable } from '../db/schema';
+import { createLoyaltyTier } from '../handlers/create_loyalty_tier';
+
+describe('createLoyaltyTier', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create a tier with its thresholds and perks', async () => {
+    const tier = await createLoyaltyTier({
+      restaurant_id: restaurantId,
+      name: 'Gold',
+      rank: 2,
+      min_lifetime_points: 1000,
+      min_window_spend: 500.5,
+      spend_window_days: 90,
+      perks: ['Priority booking', 'Free coffee']
+    });
+
+    expect(tier.name).toEqual('Gold');
+    expect(tier.min_lifetime_points).toEqual(1000);
+    expect(tier.min_total_visits).toBeNull();
+    expect(tier.min_window_spend).toEqual(500.5);
+    expect(typeof tier.min_window_spend).toBe('number');
+    expect(tier.spend_window_days).toEqual(90);
+    expect(tier.perks).toEqual(['Priority booking', 'Free coffee']);
+  });
+
+  it('should default to a yearly spend window and no perks', async () => {
+    const tier = await createLoyaltyTier({ restaurant_id: restaurantId, name: 'Silver', rank: 1 });
+
+    expect(tier.spend_window_days).toEqual(365);
+    expect(tier.perks).toEqual([]);
+  });
+
+  it('should keep ranks unique within a restaurant', async () => {
+    await createLoyaltyTier({ restaurant_id: restaurantId, name: 'Silver', rank: 1 });
+
+    await expect(createLoyaltyTier({ restaurant_id: restaurantId, name: 'Bronze', rank: 1 }))
+      .rejects.toThrow('A loyalty tier with rank 1 already exists');
+
+    const elsewhere = await createLoyaltyTier({ restaurant_id: otherRestaurantId, name: 'Silver', rank: 1 });
+    expect(elsewhere.restaurant_id).toEqual(otherRestaurantId);
+  });
+});
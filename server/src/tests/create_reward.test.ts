@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { restaurantsTable } from '../db/schema';
+import { createReward } from '../handlers/create_reward';
+
+describe('createReward', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create an active reward without limits by default', async () => {
+    const reward = await createReward({ restaurant_id: restaurantId, name: 'Free dessert', points_cost: 100 });
+
+    expect(reward.name).toEqual('Free dessert');
+    expect(reward.points_cost).toEqual(100);
+    expect(reward.is_active).toBe(true);
+    expect(reward.available_from).toBeNull();
+    expect(reward.available_until).toBeNull();
+    expect(reward.per_customer_limit).toBeNull();
+  });
+
+  it('should store availability windows and per-customer limits', async () => {
+    const reward = await createReward({
+      restaurant_id: restaurantId,
+      name: '10% off',
+      description: 'On the whole bill',
+      points_cost: 250,
+      available_from: new Date('2026-12-01T00:00:00Z'),
+      available_until: new Date('2027-01-01T00:00:00Z'),
+      per_customer_limit: 1
+    });
+
+    expect(reward.description).toEqual('On the whole bill');
+    expect(reward.available_from).toEqual(new Date('2026-12-01T00:00:00Z'));
+    expect(reward.available_until).toEqual(new Date('2027-01-01T00:00:00Z'));
+    expect(reward.per_customer_limit).toEqual(1);
+  });
+
+  it('should reject windows that end before they start', async () => {
+    await expect(createReward({
+      restaurant_id: restaurantId,
+      name: 'Backwards',
+      points_cost: 10,
+      available_from: new Date('2027-01-01T00:00:00Z'),
+      available_until: new Date('2026-12-01T00:00:00Z')
+    })).rejects.toThrow('Availability must end after it starts');
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { createSession, SESSION_TTL_MS } from '../handlers/create_session';
+import { hashToken, verifySignedToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+describe('createSession', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create a session with a signed token', async () => {
+    const { token, session } = await createSession(userId);
+
+    expect(session.user_id).toEqual(userId);
+    expect(session.revoked_at).toBeNull();
+    expect(session.created_at).toBeInstanceOf(Date);
+    expect(session.expires_at).toBeInstanceOf(Date);
+
+    // Token must carry a valid signature
+    expect(verifySignedToken(token)).not.toBeNull();
+  });
+
+  it('should store only the hash of the token secret', async () => {
+    const { token, session } = await createSession(userId);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.id, session.id))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toEqual(hashToken(verifySignedToken(token)!));
+    expect(sessions[0].token_hash).not.toContain(token);
+  });
+
+  it('should expire sessions after the configured TTL', async () => {
+    const before = Date.now();
+    const { session } = await createSession(userId);
+
+    const ttl = session.expires_at.getTime() - before;
+    expect(ttl).toBeGreaterThan(SESSION_TTL_MS - 60 * 1000);
+    expect(ttl).toBeLessThanOrEqual(SESSION_TTL_MS + 60 * 1000);
+  });
+
+  it('should issue distinct tokens for each session', async () => {
+    const first = await createSession(userId);
+    const second = await createSession(userId);
+
+    expect(first.token).not.toEqual(second.token);
+    expect(first.session.token_hash).not.toEqual(second.session.token_hash);
+  });
+});
@@ -5,7 +5,7 @@ import { usersTable, restaurantsTable } from '../db/schema';
 import { type CreateUserInput } from '../schema';
 import { createUser } from '../handlers/create_user';
 import { eq } from 'drizzle-orm';
-import { createHash } from 'crypto';
+import { verifyPassword } from '../lib/password';
 
 // Test input data
 const testUserInput: CreateUserInput = {
@@ -71,21 +71,14 @@ describe('createUser', () => {
 
     const result = await createUser(testUserInput);
 
-    // Verify the password hash format (hash:salt)
-    expect(result.password_hash).toContain(':');
-    const [hash, salt] = result.password_hash.split(':');
-    expect(hash).toBeDefined();
-    expect(salt).toBeDefined();
-    expect(hash.length).toEqual(64); // SHA256 hex string length
-    expect(salt.length).toEqual(32); // 16 bytes as hex string
+    // Verify the password hash uses the versioned scrypt format
+    expect(result.password_hash).toStartWith('$scrypt$v=1$');
 
     // Verify the password hash can be verified
-    const expectedHash = createHash('sha256').update('password123' + salt).digest('hex');
-    expect(hash).toEqual(expectedHash);
+    expect(await verifyPassword('password123', result.password_hash)).toBe(true);
 
-    // Verify wrong password produces different hash
-    const wrongHash = createHash('sha256').update('wrongpassword' + salt).digest('hex');
-    expect(hash).not.toEqual(wrongHash);
+    // Verify wrong password is rejected
+    expect(await verifyPassword('wrongpassword', result.password_hash)).toBe(false);
   });
 
   it('should save user to database', async () => {
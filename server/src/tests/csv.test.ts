@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'bun:test';
+import { parseCsv, toCsvRow } from '../lib/csv';
+
+describe('parseCsv', () => {
+  it('should split rows and fields', () => {
+    expect(parseCsv('first,last\nAlice,Martin\nBob,Stone\n')).toEqual([
+      ['first', 'last'],
+      ['Alice', 'Martin'],
+      ['Bob', 'Stone']
+    ]);
+  });
+
+  it('should handle quoted fields with delimiters, quotes and line breaks', () => {
+    const csv = 'name,notes\r\n"Martin, Alice","Says ""hi""\r\nevery time"\r\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['name', 'notes'],
+      ['Martin, Alice', 'Says "hi"\r\nevery time']
+    ]);
+  });
+
+  it('should keep empty fields and accept a missing final line break', () => {
+    expect(parseCsv('a,b,c\n1,,3')).toEqual([['a', 'b', 'c'], ['1', '', '3']]);
+  });
+
+  it('should skip a byte order mark and support other delimiters', () => {
+    expect(parseCsv('\uFEFFfirst;last\nAlice;Martin', ';')).toEqual([['first', 'last'], ['Alice', 'Martin']]);
+  });
+
+  it('should reject unterminated quotes', () => {
+    expect(() => parseCsv('name\n"Alice')).toThrow('CSV has an unterminated quoted field');
+  });
+});
+
+describe('toCsvRow', () => {
+  it('should quote fields with delimiters, quotes and line breaks', () => {
+    expect(toCsvRow(['Alice', 'Martin, Jr.', 'Says "hi"\nevery time', null]))
+      .toEqual('Alice,"Martin, Jr.","Says ""hi""\nevery time",\r\n');
+  });
+
+  it('should round-trip through parseCsv', () => {
+    const values = ['a,b', '"quoted"', 'multi\r\nline', ''];
+
+    expect(parseCsv(toCsvRow(values))).toEqual([values]);
+  });
+
+  it('should neutralize formulas only when asked', () => {
+    expect(toCsvRow(['=HYPERLINK("x")', '+1 555', 'plain'], true)).toEqual('"\'=HYPERLINK(""x"")",\'+1 555,plain\r\n');
+    expect(toCsvRow(['=1+1'])).toEqual('=1+1\r\n');
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'bun:test';
+import { decodeCursor, encodeCursor, toCursorPage } from '../lib/cursor';
+import { cursorSchema } from '../schema';
+
+describe('pagination cursors', () => {
+  it('should round-trip the position with microsecond precision', () => {
+    const position = { created_at: '2024-05-01 18:30:00.123456', id: 42 };
+
+    expect(decodeCursor(encodeCursor(position))).toEqual(position);
+  });
+
+  it('should reject cursors that were not handed out', () => {
+    expect(() => decodeCursor('garbage')).toThrow('Invalid cursor');
+    expect(() => decodeCursor(Buffer.from('["yesterday", 1]').toString('base64url'))).toThrow('Invalid cursor');
+    expect(() => decodeCursor(Buffer.from('["2024-05-01", "1"]').toString('base64url'))).toThrow('Invalid cursor');
+  });
+
+  it('should only accept handed out cursors as input', () => {
+    expect(cursorSchema.safeParse(encodeCursor({ created_at: '2024-05-01 18:30:00.123456', id: 42 })).success).toBe(true);
+    expect(cursorSchema.safeParse('garbage').success).toBe(false);
+    expect(cursorSchema.safeParse(Buffer.from('["yesterday", 1]').toString('base64url')).success).toBe(false);
+  });
+
+  it('should point the next page at the last row kept', () => {
+    const rows = [1, 2, 3].map(id => ({ row: { id }, cursor_key: `2024-05-01 18:30:0${id}` }));
+
+    const page = toCursorPage(rows, 2);
+    expect(page.rows).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(decodeCursor(page.nextCursor!)).toEqual({ created_at: '2024-05-01 18:30:02', id: 2 });
+
+    expect(toCursorPage(rows, 3).nextCursor).toBeNull();
+  });
+});
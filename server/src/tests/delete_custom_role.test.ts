@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customRolePermissionsTable, customRolesTable, permissionsTable, restaurantsTable, usersTable } from '../db/schema';
+import { deleteCustomRole, getCustomRoleHolderRoles } from '../handlers/delete_custom_role';
+
+describe('deleteCustomRole', () => {
+  let restaurantId: number;
+  let roleId: number;
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const roles = await db.insert(customRolesTable)
+      .values({ restaurant_id: restaurantId, name: 'Host' })
+      .returning()
+      .execute();
+
+    roleId = roles[0].id;
+
+    const permissions = await db.insert(permissionsTable)
+      .values({ name: 'staff:read', resource: 'staff', action: 'read' })
+      .returning()
+      .execute();
+
+    await db.insert(customRolePermissionsTable)
+      .values({ custom_role_id: roleId, permission_id: permissions[0].id })
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'host@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'Hannah',
+        last_name: 'Host',
+        role: 'STAFF',
+        restaurant_id: restaurantId,
+        custom_role_id: roleId
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should delete the role and its permissions', async () => {
+    await deleteCustomRole(roleId, restaurantId);
+
+    expect(await db.select().from(customRolesTable).execute()).toHaveLength(0);
+    expect(await db.select().from(customRolePermissionsTable).execute()).toHaveLength(0);
+  });
+
+  it('should return holders to their built-in role', async () => {
+    await deleteCustomRole(roleId, restaurantId);
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users[0].id).toEqual(userId);
+    expect(users[0].custom_role_id).toBeNull();
+    expect(users[0].role).toEqual('STAFF');
+  });
+
+  it('should not delete roles of another restaurant', async () => {
+    await expect(deleteCustomRole(roleId, restaurantId + 1)).rejects.toThrow(/not found/i);
+
+    expect(await db.select().from(customRolesTable).execute()).toHaveLength(1);
+  });
+});
+
+describe('getCustomRoleHolderRoles', () => {
+  beforeEach(createDB);
+
+  afterEach(resetDB);
+
+  it('should list the built-in roles of the holders in the restaurant once each', async () => {
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    const roles = await db.insert(customRolesTable)
+      .values({ restaurant_id: restaurants[0].id, name: 'Host' })
+      .returning()
+      .execute();
+
+    await db.insert(usersTable)
+      .values(['STAFF', 'STAFF', 'MANAGER'].map((role, index) => ({
+        email: `holder${index}@example.com`,
+        password_hash: 'irrelevant',
+        first_name: 'Holder',
+        last_name: String(index),
+        role: role as 'STAFF' | 'MANAGER',
+        restaurant_id: restaurants[0].id,
+        custom_role_id: roles[0].id
+      })))
+      .execute();
+
+    expect((await getCustomRoleHolderRoles(roles[0].id, restaurants[0].id)).sort()).toEqual(['MANAGER', 'STAFF']);
+    expect(await getCustomRoleHolderRoles(roles[0].id, restaurants[0].id + 1)).toEqual([]);
+  });
+});
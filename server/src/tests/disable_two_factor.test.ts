@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { recoveryCodesTable, restaurantsTable, userTwoFactorTable, usersTable } from '../db/schema';
+import { disableTwoFactor } from '../handlers/disable_two_factor';
+import { generateTotp, generateTotpSecret } from '../lib/totp';
+import { generateRecoveryCodes } from '../lib/two_factor';
+import { eq } from 'drizzle-orm';
+
+describe('disableTwoFactor', () => {
+  let userId: number;
+  let restaurantId: number;
+  let secret: string;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe',
+        role: 'MANAGER',
+        restaurant_id: restaurantId
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+    secret = generateTotpSecret();
+
+    await db.insert(userTwoFactorTable)
+      .values({ user_id: userId, secret, enabled_at: new Date() })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should remove the secret and recovery codes', async () => {
+    await generateRecoveryCodes(userId);
+
+    await disableTwoFactor(userId, { code: generateTotp(secret) });
+
+    const rows = await db.select()
+      .from(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    expect(rows).toHaveLength(0);
+
+    const codes = await db.select()
+      .from(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    expect(codes).toHaveLength(0);
+  });
+
+  it('should accept a recovery code', async () => {
+    const codes = await generateRecoveryCodes(userId);
+
+    await disableTwoFactor(userId, { code: codes[0] });
+
+    const rows = await db.select()
+      .from(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should reject a wrong code', async () => {
+    await expect(disableTwoFactor(userId, { code: 'wrong-code' })).rejects.toThrow(/invalid two-factor code/i);
+  });
+
+  it('should refuse when the restaurant requires 2FA', async () => {
+    await db.update(restaurantsTable)
+      .set({ require_two_factor: true })
+      .where(eq(restaurantsTable.id, restaurantId))
+      .execute();
+
+    await expect(disableTwoFactor(userId, { code: generateTotp(secret) })).rejects.toThrow(/required by your restaurant/i);
+  });
+
+  it('should reject users without 2FA enabled', async () => {
+    await db.delete(userTwoFactorTable).execute();
+
+    await expect(disableTwoFactor(userId, { code: '123456' })).rejects.toThrow(/not enabled/i);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customerDuplicateCandidatesTable, customersTable, restaurantsTable } from '../db/schema';
+import { dismissDuplicateCandidate } from '../handlers/dismiss_duplicate_candidate';
+import { findDuplicateCustomers } from '../handlers/find_duplicate_customers';
+
+describe('dismissDuplicateCandidate', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let candidateId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values([
+        { restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com' },
+        { restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    const candidates = await db.insert(customerDuplicateCandidatesTable)
+      .values({ restaurant_id: restaurantId, customer_id: customers[0].id, duplicate_id: customers[1].id, score: 100, reasons: ['EMAIL', 'NAME'] })
+      .returning()
+      .execute();
+
+    candidateId = candidates[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should dismiss the pair and record who reviewed it', async () => {
+    const candidate = await dismissDuplicateCandidate(candidateId, restaurantId, { user: { id: 5 } });
+
+    expect(candidate.status).toEqual('DISMISSED');
+    expect(candidate.reviewed_by).toEqual(5);
+    expect(candidate.reviewed_at).toBeInstanceOf(Date);
+  });
+
+  it('should keep dismissed pairs out of later scans', async () => {
+    await dismissDuplicateCandidate(candidateId, restaurantId, { user: null });
+
+    const scan = await findDuplicateCustomers(restaurantId);
+
+    expect(scan.candidates).toEqual(0);
+  });
+
+  it('should only dismiss pending pairs once', async () => {
+    await dismissDuplicateCandidate(candidateId, restaurantId, { user: null });
+
+    await expect(dismissDuplicateCandidate(candidateId, restaurantId, { user: null }))
+      .rejects.toThrow('Duplicate candidate has already been reviewed');
+  });
+
+  it('should not dismiss pairs of other restaurants', async () => {
+    await expect(dismissDuplicateCandidate(candidateId, otherRestaurantId, { user: null }))
+      .rejects.toThrow('Duplicate candidate not found or does not belong to this restaurant');
+  });
+});
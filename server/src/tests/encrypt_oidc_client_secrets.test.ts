@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { oidcProvidersTable, restaurantsTable } from '../db/schema';
+import { encryptOidcClientSecrets } from '../db/encrypt_oidc_client_secrets';
+import { decryptSecret, encryptSecret, isEncryptedSecret } from '../lib/secrets';
+
+describe('encryptOidcClientSecrets', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(oidcProvidersTable)
+      .values(restaurants.map((restaurant, index) => ({
+        restaurant_id: restaurant.id,
+        discovery_url: 'https://login.example.com/.well-known/openid-configuration',
+        client_id: 'client',
+        client_secret: index === 0 ? 'legacy-secret' : encryptSecret('current-secret'),
+        allowed_email_domains: ['example.com']
+      })))
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should encrypt secrets stored in plaintext only', async () => {
+    expect(await encryptOidcClientSecrets()).toEqual(1);
+
+    const stored = await db.select().from(oidcProvidersTable).orderBy(oidcProvidersTable.id).execute();
+    expect(stored.every(provider => isEncryptedSecret(provider.client_secret))).toBe(true);
+    expect(stored.map(provider => decryptSecret(provider.client_secret))).toEqual(['legacy-secret', 'current-secret']);
+  });
+
+  it('should be safe to run again', async () => {
+    await encryptOidcClientSecrets();
+
+    expect(await encryptOidcClientSecrets()).toEqual(0);
+  });
+});
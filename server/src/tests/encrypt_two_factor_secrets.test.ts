@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { userTwoFactorTable, usersTable } from '../db/schema';
+import { encryptTwoFactorSecrets } from '../db/encrypt_two_factor_secrets';
+import { decryptSecret, encryptSecret, isEncryptedSecret } from '../lib/secrets';
+
+describe('encryptTwoFactorSecrets', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'john@example.com', password_hash: 'irrelevant', first_name: 'John', last_name: 'Doe', role: 'MANAGER' },
+        { email: 'jane@example.com', password_hash: 'irrelevant', first_name: 'Jane', last_name: 'Doe', role: 'MANAGER' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(userTwoFactorTable)
+      .values(users.map((user, index) => ({
+        user_id: user.id,
+        secret: index === 0 ? 'JBSWY3DPEHPK3PXP' : encryptSecret('GEZDGNBVGY3TQOJQ'),
+        enabled_at: new Date()
+      })))
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should encrypt secrets stored in plaintext only', async () => {
+    expect(await encryptTwoFactorSecrets()).toEqual(1);
+
+    const stored = await db.select().from(userTwoFactorTable).orderBy(userTwoFactorTable.id).execute();
+    expect(stored.every(enrollment => isEncryptedSecret(enrollment.secret))).toBe(true);
+    expect(stored.map(enrollment => decryptSecret(enrollment.secret))).toEqual(['JBSWY3DPEHPK3PXP', 'GEZDGNBVGY3TQOJQ']);
+  });
+
+  it('should be safe to run again', async () => {
+    await encryptTwoFactorSecrets();
+
+    expect(await encryptTwoFactorSecrets()).toEqual(0);
+  });
+});
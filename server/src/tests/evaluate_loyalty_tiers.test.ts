@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, loyaltyTierChangesTable, loyaltyTiersTable, restaurantsTable, visitsTable } from '../db/schema';
+import { evaluateLoyaltyTiers } from '../handlers/evaluate_loyalty_tiers';
+import { asc, eq } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('evaluateLoyaltyTiers', () => {
+  let restaurantId: number;
+  let silverId: number;
+  let goldId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const tiers = await db.insert(loyaltyTiersTable)
+      .values([
+        { restaurant_id: restaurantId, name: 'Silver', rank: 1, min_total_visits: 5 },
+        { restaurant_id: restaurantId, name: 'Gold', rank: 2, min_lifetime_points: 1000, min_window_spend: '500.00', spend_window_days: 30 },
+        { restaurant_id: restaurantId, name: 'Platinum', rank: 3, min_lifetime_points: 5000 }
+      ])
+      .returning()
+      .execute();
+
+    silverId = tiers[0].id;
+    goldId = tiers[1].id;
+  });
+
+  afterEach(resetDB);
+
+  const createCustomer = async (values: Partial<typeof customersTable.$inferInsert> = {}) => {
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Test', last_name: 'Customer', ...values })
+      .returning()
+      .execute();
+
+    return customers[0].id;
+  };
+
+  const tierOf = async (customerId: number) => {
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, customerId)).execute();
+    return customers[0].loyalty_tier_id;
+  };
+
+  it('should place customers in the best tier they qualify for', async () => {
+    const regular = await createCustomer({ total_visits: 6 });
+    const collector = await createCustomer({ total_visits: 6, loyalty_points: 0 });
+    const bigSpender = await createCustomer();
+    const newcomer = await createCustomer();
+
+    await db.insert(loyaltyLedgerTable)
+      .values([
+        { restaurant_id: restaurantId, customer_id: collector, type: 'EARN', points: 1200, balance_after: 1200, reason: 'Visits' },
+        { restaurant_id: restaurantId, customer_id: collector, type: 'REDEEM', points: -1000, balance_after: 200, reason: 'Dinner' },
+        { restaurant_id: restaurantId, customer_id: collector, type: 'EXPIRE', points: -200, balance_after: 0, reason: 'Expired' }
+      ])
+      .execute();
+    await db.insert(visitsTable)
+      .values({ restaurant_id: restaurantId, customer_id: bigSpender, visited_at: new Date(Date.now() - 10 * DAY_MS), spend: '600.00' })
+      .execute();
+
+    const result = await evaluateLoyaltyTiers(restaurantId);
+
+    expect(result).toEqual({ customers: 4, promoted: 3, demoted: 0 });
+    expect(await tierOf(regular)).toEqual(silverId);
+    // Redeemed and expired points still count towards lifetime points
+    expect(await tierOf(collector)).toEqual(goldId);
+    expect(await tierOf(bigSpender)).toEqual(goldId);
+    expect(await tierOf(newcomer)).toBeNull();
+  });
+
+  it('should only count spend of non-voided visits within the rolling window', async () => {
+    const lapsed = await createCustomer();
+    const voided = await createCustomer();
+
+    await db.insert(visitsTable)
+      .values([
+        { restaurant_id: restaurantId, customer_id: lapsed, visited_at: new Date(Date.now() - 40 * DAY_MS), spend: '600.00' },
+        { restaurant_id: restaurantId, customer_id: voided, visited_at: new Date(Date.now() - DAY_MS), spend: '600.00', voided_at: new Date() }
+      ])
+      .execute();
+
+    await evaluateLoyaltyTiers(restaurantId);
+
+    expect(await tierOf(lapsed)).toBeNull();
+    expect(await tierOf(voided)).toBeNull();
+  });
+
+  it('should demote customers who no longer qualify and record each change', async () => {
+    const customerId = await createCustomer();
+    await db.insert(visitsTable)
+      .values({ restaurant_id: restaurantId, customer_id: customerId, visited_at: new Date(Date.now() - 20 * DAY_MS), spend: '600.00' })
+      .execute();
+
+    await evaluateLoyaltyTiers(restaurantId);
+    expect(await tierOf(customerId)).toEqual(goldId);
+
+    // Three weeks later the visit has left the 30-day window
+    const result = await evaluateLoyaltyTiers(restaurantId, new Date(Date.now() + 21 * DAY_MS));
+    expect(result).toEqual({ customers: 1, promoted: 0, demoted: 1 });
+    expect(await tierOf(customerId)).toBeNull();
+
+    const changes = await db.select()
+      .from(loyaltyTierChangesTable)
+      .where(eq(loyaltyTierChangesTable.customer_id, customerId))
+      .orderBy(asc(loyaltyTierChangesTable.id))
+      .execute();
+
+    expect(changes.map(change => [change.from_tier_id, change.to_tier_id])).toEqual([[null, goldId], [goldId, null]]);
+  });
+
+  it('should leave customers whose tier did not change alone', async () => {
+    const customerId = await createCustomer({ total_visits: 5 });
+
+    await evaluateLoyaltyTiers(restaurantId);
+    const result = await evaluateLoyaltyTiers(restaurantId);
+
+    expect(result).toEqual({ customers: 1, promoted: 0, demoted: 0 });
+
+    const changes = await db.select().from(loyaltyTierChangesTable).where(eq(loyaltyTierChangesTable.customer_id, customerId)).execute();
+    expect(changes).toHaveLength(1);
+  });
+
+  it('should put everyone in a tier without thresholds', async () => {
+    await db.insert(loyaltyTiersTable)
+      .values({ restaurant_id: restaurantId, name: 'Member', rank: 0 })
+      .execute();
+    const customerId = await createCustomer();
+
+    await evaluateLoyaltyTiers(restaurantId);
+
+    const tiers = await db.select().from(loyaltyTiersTable).where(eq(loyaltyTiersTable.rank, 0)).execute();
+    expect(await tierOf(customerId)).toEqual(tiers[0].id);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, loyaltyRulesTable, restaurantsTable } from '../db/schema';
+import { expireLoyaltyPoints } from '../handlers/expire_loyalty_points';
+import { eq } from 'drizzle-orm';
+
+describe('expireLoyaltyPoints', () => {
+  let restaurantId: number;
+  let customerId: number;
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', loyalty_points: 130 })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    await db.insert(loyaltyRulesTable)
+      .values({ restaurant_id: restaurantId, points_per_currency_unit: '1', points_expire_after_days: 90 })
+      .execute();
+
+    // 100 old points of which 40 were spent, and 70 recent ones
+    await db.insert(loyaltyLedgerTable)
+      .values([
+        { restaurant_id: restaurantId, customer_id: customerId, type: 'EARN', points: 100, balance_after: 100, reason: 'Visit 1', created_at: new Date('2024-01-10T20:00:00Z') },
+        { restaurant_id: restaurantId, customer_id: customerId, type: 'REDEEM', points: -40, balance_after: 60, reason: 'Dessert', created_at: new Date('2024-02-10T20:00:00Z') },
+        { restaurant_id: restaurantId, customer_id: customerId, type: 'EARN', points: 70, balance_after: 130, reason: 'Visit 2', created_at: new Date('2024-05-10T20:00:00Z') }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const balance = async () => {
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, customerId)).execute();
+    return customers[0].loyalty_points;
+  };
+
+  it('should expire old points that were not spent', async () => {
+    expect(await expireLoyaltyPoints(restaurantId, now)).toEqual({ customers: 1, points: 60 });
+    expect(await balance()).toEqual(70);
+
+    const entries = await db.select()
+      .from(loyaltyLedgerTable)
+      .where(eq(loyaltyLedgerTable.type, 'EXPIRE'))
+      .execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].points).toEqual(-60);
+    expect(entries[0].balance_after).toEqual(70);
+    expect(entries[0].actor_id).toBeNull();
+  });
+
+  it('should only expire the same points once', async () => {
+    await expireLoyaltyPoints(restaurantId, now);
+
+    expect(await expireLoyaltyPoints(restaurantId, now)).toEqual({ customers: 0, points: 0 });
+    expect(await balance()).toEqual(70);
+  });
+
+  it('should leave points alone without an expiry period', async () => {
+    await db.update(loyaltyRulesTable)
+      .set({ points_expire_after_days: null })
+      .execute();
+
+    expect(await expireLoyaltyPoints(restaurantId, now)).toEqual({ customers: 0, points: 0 });
+    expect(await balance()).toEqual(130);
+  });
+
+  it('should not touch other restaurants', async () => {
+    expect(await expireLoyaltyPoints(restaurantId + 1, now)).toEqual({ customers: 0, points: 0 });
+    expect(await balance()).toEqual(130);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, restaurantsTable } from '../db/schema';
+import { type ExportCustomersInput } from '../schema';
+import { exportCustomers } from '../handlers/export_customers';
+import { parseCsv } from '../lib/csv';
+
+const collect = async (chunks: AsyncIterable<string>): Promise<string[]> => {
+  const result: string[] = [];
+  for await (const chunk of chunks) {
+    result.push(chunk);
+  }
+  return result;
+};
+
+describe('exportCustomers', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await db.insert(customersTable)
+      .values([
+        { restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com', loyalty_points: 120, notes: 'Window seat, "no" nuts\nBirthday in May' },
+        { restaurant_id: restaurantId, first_name: 'Bob', last_name: 'Stone', phone: '=cmd|calc', is_active: false },
+        { restaurant_id: restaurants[1].id, first_name: 'Carol', last_name: 'Elsewhere' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const exportText = async (input: Omit<ExportCustomersInput, 'restaurant_id'>) => {
+    return (await collect(exportCustomers({ ...input, restaurant_id: restaurantId }))).join('');
+  };
+
+  it('should export the selected columns of the restaurant customers as CSV', async () => {
+    const csv = await exportText({ format: 'CSV', columns: ['first_name', 'email', 'loyalty_points', 'notes'] });
+
+    expect(parseCsv(csv)).toEqual([
+      ['first_name', 'email', 'loyalty_points', 'notes'],
+      ['Alice', 'alice@example.com', '120', 'Window seat, "no" nuts\nBirthday in May'],
+      ['Bob', '', '0', '']
+    ]);
+  });
+
+  it('should export every column when none are selected', async () => {
+    const [header] = parseCsv(await exportText({ format: 'CSV' }));
+
+    expect(header).toEqual([
+      'id', 'first_name', 'last_name', 'email', 'phone', 'loyalty_points', 'total_visits',
+      'last_visit_date', 'notes', 'is_active', 'created_at'
+    ]);
+  });
+
+  it('should honour the list filters', async () => {
+    const csv = await exportText({ format: 'CSV', columns: ['first_name'], is_active: true, search: 'mart' });
+
+    expect(parseCsv(csv)).toEqual([['first_name'], ['Alice']]);
+  });
+
+  it('should make the spreadsheet variant safe to open', async () => {
+    const csv = await exportText({ format: 'EXCEL_CSV', columns: ['first_name', 'phone'] });
+
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(parseCsv(csv)[2]).toEqual(['Bob', '\'=cmd|calc']);
+  });
+
+  it('should export vCards with escaped notes', async () => {
+    const vcards = await exportText({ format: 'VCARD', columns: ['email', 'notes'] });
+
+    expect(vcards.match(/BEGIN:VCARD/g)).toHaveLength(2);
+    expect(vcards).toContain('N:Martin;Alice;;;');
+    expect(vcards).toContain('EMAIL;TYPE=INTERNET:alice@example.com');
+    expect(vcards).toContain('NOTE:Window seat\\, "no" nuts\\nBirthday in May');
+    expect(vcards).not.toContain('TEL:');
+  });
+
+  it('should read customers in batches', async () => {
+    await db.insert(customersTable)
+      .values(Array.from({ length: 1200 }, (_, index) => ({ restaurant_id: restaurantId, first_name: `Guest${index}`, last_name: 'Bulk' })))
+      .execute();
+
+    const chunks = await collect(exportCustomers({ restaurant_id: restaurantId, format: 'CSV', columns: ['id'] }));
+    const ids = chunks.join('').trim().split('\r\n').slice(1).map(Number);
+
+    // Header, then three batches of at most 500
+    expect(chunks).toHaveLength(4);
+    expect(ids).toHaveLength(1202);
+    expect(new Set(ids).size).toEqual(1202);
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customerDuplicateCandidatesTable, customersTable, restaurantsTable } from '../db/schema';
+import { findDuplicateCustomers } from '../handlers/find_duplicate_customers';
+import { asc, eq } from 'drizzle-orm';
+
+describe('findDuplicateCustomers', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+
+  const addCustomer = async (values: Partial<typeof customersTable.$inferInsert> & { first_name: string; last_name: string }, restaurant = restaurantId) => {
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurant, ...values })
+      .returning()
+      .execute();
+
+    return customers[0];
+  };
+
+  const getCandidates = () => db.select()
+    .from(customerDuplicateCandidatesTable)
+    .orderBy(asc(customerDuplicateCandidatesTable.customer_id), asc(customerDuplicateCandidatesTable.duplicate_id))
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should pair customers with the same normalized email', async () => {
+    const alice = await addCustomer({ first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com' });
+    const duplicate = await addCustomer({ first_name: 'A.', last_name: 'Stone', email: ' Alice+booking@Example.com ' });
+
+    const scan = await findDuplicateCustomers(restaurantId);
+
+    expect(scan).toEqual({ customers: 2, candidates: 1 });
+
+    const candidates = await getCandidates();
+    expect(candidates[0].customer_id).toEqual(alice.id);
+    expect(candidates[0].duplicate_id).toEqual(duplicate.id);
+    expect(candidates[0].reasons).toEqual(['EMAIL']);
+    expect(candidates[0].score).toEqual(60);
+    expect(candidates[0].status).toEqual('PENDING');
+  });
+
+  it('should compare phone numbers in E.164 form', async () => {
+    await addCustomer({ first_name: 'Alice', last_name: 'Martin', phone: '(555) 010-0001' });
+    await addCustomer({ first_name: 'Bob', last_name: 'Stone', phone: '+1 555 010 0001' });
+    await addCustomer({ first_name: 'Carol', last_name: 'Reed', phone: '555-0100' });
+
+    await findDuplicateCustomers(restaurantId);
+
+    const candidates = await getCandidates();
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].reasons).toEqual(['PHONE']);
+  });
+
+  it('should score similar names and add them to contact matches', async () => {
+    const jon = await addCustomer({ first_name: 'Jon', last_name: 'Smith', phone: '555 010 0001' });
+    const john = await addCustomer({ first_name: 'John', last_name: 'Smith', phone: '5550100001' });
+    await addCustomer({ first_name: 'Jonathan', last_name: 'Smithers' });
+    await addCustomer({ first_name: 'Maria', last_name: 'Garcia' });
+
+    await findDuplicateCustomers(restaurantId);
+
+    const candidates = await getCandidates();
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].customer_id).toEqual(jon.id);
+    expect(candidates[0].duplicate_id).toEqual(john.id);
+    expect(candidates[0].reasons).toEqual(['PHONE', 'NAME']);
+    expect(candidates[0].score).toBeGreaterThan(60);
+    expect(candidates[0].score).toBeLessThanOrEqual(100);
+  });
+
+  it('should queue customers with identical names', async () => {
+    await addCustomer({ first_name: 'Alice', last_name: 'Martin' });
+    await addCustomer({ first_name: 'alice', last_name: 'martin' });
+
+    await findDuplicateCustomers(restaurantId);
+
+    const candidates = await getCandidates();
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].reasons).toEqual(['NAME']);
+    expect(candidates[0].score).toEqual(50);
+  });
+
+  it('should not pair customers of different restaurants', async () => {
+    await addCustomer({ first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com' });
+    await addCustomer({ first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com' }, otherRestaurantId);
+
+    const scan = await findDuplicateCustomers(restaurantId);
+
+    expect(scan).toEqual({ customers: 1, candidates: 0 });
+    expect(await getCandidates()).toHaveLength(0);
+  });
+
+  it('should leave out customers that were merged', async () => {
+    const alice = await addCustomer({ first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com' });
+    await addCustomer({ first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com', merged_into_id: alice.id, is_active: false });
+
+    const scan = await findDuplicateCustomers(restaurantId);
+
+    expect(scan).toEqual({ customers: 1, candidates: 0 });
+  });
+
+  it('should keep reviewed pairs and drop pending pairs that no longer match', async () => {
+    const alice = await addCustomer({ first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com' });
+    await addCustomer({ first_name: 'Bob', last_name: 'Stone', email: 'alice@example.com' });
+    const carol = await addCustomer({ first_name: 'Carol', last_name: 'Reed', phone: '555 010 0001' });
+    await addCustomer({ first_name: 'Dan', last_name: 'West', phone: '555 010 0001' });
+
+    await findDuplicateCustomers(restaurantId);
+    await db.update(customerDuplicateCandidatesTable)
+      .set({ status: 'DISMISSED' })
+      .where(eq(customerDuplicateCandidatesTable.customer_id, alice.id))
+      .execute();
+    await db.update(customersTable)
+      .set({ phone: '555 010 0002' })
+      .where(eq(customersTable.id, carol.id))
+      .execute();
+
+    const scan = await findDuplicateCustomers(restaurantId);
+
+    expect(scan.candidates).toEqual(0);
+
+    const candidates = await getCandidates();
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].customer_id).toEqual(alice.id);
+    expect(candidates[0].status).toEqual('DISMISSED');
+  });
+
+  it('should queue more pairs than fit in one statement', async () => {
+    // 170 customers sharing an email make 14365 pairs, well over 65535 bind parameters at once
+    await db.insert(customersTable)
+      .values(Array.from({ length: 170 }, (_, index) => ({
+        restaurant_id: restaurantId,
+        first_name: `Guest${index}`,
+        last_name: 'Shared',
+        email: 'front-desk@example.com'
+      })))
+      .execute();
+
+    expect(await findDuplicateCustomers(restaurantId)).toEqual({ customers: 170, candidates: 14365 });
+    expect(await findDuplicateCustomers(restaurantId)).toEqual({ customers: 170, candidates: 14365 });
+    expect(await getCandidates()).toHaveLength(14365);
+  });
+
+  it('should update the score of pending pairs', async () => {
+    await addCustomer({ first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com' });
+    const duplicate = await addCustomer({ first_name: 'Bob', last_name: 'Stone', email: 'alice@example.com' });
+
+    await findDuplicateCustomers(restaurantId);
+    const [before] = await getCandidates();
+
+    await db.update(customersTable)
+      .set({ first_name: 'Alice', last_name: 'Martin' })
+      .where(eq(customersTable.id, duplicate.id))
+      .execute();
+    await findDuplicateCustomers(restaurantId);
+
+    const candidates = await getCandidates();
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].id).toEqual(before.id);
+    expect(candidates[0].reasons).toEqual(['EMAIL', 'NAME']);
+    expect(candidates[0].score).toEqual(100);
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { permissionsTable, restaurantsTable } from '../db/schema';
+import { createApiKey } from '../handlers/create_api_key';
+import { getApiKey, getApiKeysByRestaurant } from '../handlers/get_api_keys';
+
+describe('getApiKeysByRestaurant', () => {
+  let restaurant1Id: number;
+  let restaurant2Id: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurant1Id = restaurants[0].id;
+    restaurant2Id = restaurants[1].id;
+
+    await db.insert(permissionsTable)
+      .values({ name: 'customers:read', resource: 'customers', action: 'read' })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list the keys of the restaurant without secrets', async () => {
+    await createApiKey({ restaurant_id: restaurant1Id, name: 'POS', permissions: ['customers:read'] }, null);
+    await createApiKey({ restaurant_id: restaurant2Id, name: 'Other', permissions: ['customers:read'] }, null);
+
+    const keys = await getApiKeysByRestaurant(restaurant1Id);
+
+    expect(keys).toHaveLength(1);
+    expect(keys[0].name).toEqual('POS');
+    expect(keys[0].permissions).toEqual(['customers:read']);
+    expect(keys[0]).not.toHaveProperty('token_hash');
+  });
+
+  it('should return an empty list without keys', async () => {
+    expect(await getApiKeysByRestaurant(restaurant1Id)).toEqual([]);
+  });
+
+  it('should fetch a single key within the restaurant', async () => {
+    const { api_key } = await createApiKey({ restaurant_id: restaurant1Id, name: 'POS', permissions: ['customers:read'] }, null);
+
+    expect((await getApiKey(api_key.id, restaurant1Id))?.name).toEqual('POS');
+    expect(await getApiKey(api_key.id, restaurant2Id)).toBeNull();
+    expect(await getApiKey(api_key.id + 1)).toBeNull();
+  });
+});
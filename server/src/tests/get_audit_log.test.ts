@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { auditLogTable } from '../db/schema';
+import { getAuditLog } from '../handlers/get_audit_log';
+
+describe('getAuditLog', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    await db.insert(auditLogTable)
+      .values([
+        { restaurant_id: 1, actor_id: 10, entity_type: 'CUSTOMER', entity_id: 100, action: 'CREATE', created_at: new Date('2024-01-01T10:00:00Z') },
+        { restaurant_id: 1, actor_id: 11, impersonator_id: 1, entity_type: 'CUSTOMER', entity_id: 100, action: 'UPDATE', created_at: new Date('2024-01-02T10:00:00Z') },
+        { restaurant_id: 1, actor_id: 10, entity_type: 'USER', entity_id: 200, action: 'UPDATE', created_at: new Date('2024-01-03T10:00:00Z') },
+        { restaurant_id: 2, actor_id: 20, entity_type: 'CUSTOMER', entity_id: 300, action: 'CREATE', created_at: new Date('2024-01-04T10:00:00Z') },
+        { restaurant_id: null, actor_id: 1, entity_type: 'PERMISSION', action: 'CREATE', created_at: new Date('2024-01-05T10:00:00Z') }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should scope entries to the restaurant, newest first', async () => {
+    const { entries } = await getAuditLog({}, 1);
+
+    expect(entries).toHaveLength(3);
+    expect(entries.map(entry => entry.entity_id)).toEqual([200, 100, 100]);
+    entries.forEach(entry => expect(entry.restaurant_id).toEqual(1));
+  });
+
+  it('should return every tenant without a restaurant scope', async () => {
+    const { entries } = await getAuditLog({});
+
+    expect(entries).toHaveLength(5);
+  });
+
+  it('should filter by actor, entity and action', async () => {
+    expect((await getAuditLog({ actor_id: 10 }, 1)).entries).toHaveLength(2);
+    expect((await getAuditLog({ entity_type: 'CUSTOMER', entity_id: 100 }, 1)).entries).toHaveLength(2);
+    expect((await getAuditLog({ action: 'UPDATE' }, 1)).entries).toHaveLength(2);
+  });
+
+  it('should filter changes made while impersonating', async () => {
+    const { entries } = await getAuditLog({ impersonator_id: 1 }, 1);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].actor_id).toEqual(11);
+  });
+
+  it('should filter by date range', async () => {
+    const { entries } = await getAuditLog({
+      from: new Date('2024-01-02T00:00:00Z'),
+      to: new Date('2024-01-02T23:59:59Z')
+    }, 1);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].action).toEqual('UPDATE');
+  });
+
+  it('should paginate', async () => {
+    const { entries: page } = await getAuditLog({ limit: 2, offset: 2 });
+
+    expect(page).toHaveLength(2);
+    expect(page[0].entity_id).toEqual(200);
+    expect(page[1].entity_id).toEqual(100);
+  });
+
+  it('should page with cursors until the last page', async () => {
+    const first = await getAuditLog({ limit: 2 }, 1);
+    expect(first.entries.map(entry => entry.entity_id)).toEqual([200, 100]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await getAuditLog({ limit: 2, cursor: first.nextCursor }, 1);
+    expect(second.entries.map(entry => entry.action)).toEqual(['CREATE']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should reject malformed cursors', async () => {
+    await expect(getAuditLog({ cursor: 'not-a-cursor' })).rejects.toThrow(/invalid cursor/i);
+  });
+});
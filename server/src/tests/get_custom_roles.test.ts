@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customRolePermissionsTable, customRolesTable, permissionsTable, restaurantsTable } from '../db/schema';
+import { getCustomRole, getCustomRolesByRestaurant } from '../handlers/get_custom_roles';
+
+describe('getCustomRoles', () => {
+  let restaurant1Id: number;
+  let restaurant2Id: number;
+  let hostId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurant1Id = restaurants[0].id;
+    restaurant2Id = restaurants[1].id;
+
+    const roles = await db.insert(customRolesTable)
+      .values([
+        { restaurant_id: restaurant1Id, name: 'Host' },
+        { restaurant_id: restaurant1Id, name: 'Bartender' },
+        { restaurant_id: restaurant2Id, name: 'Runner' }
+      ])
+      .returning()
+      .execute();
+
+    hostId = roles[0].id;
+
+    const permissions = await db.insert(permissionsTable)
+      .values([
+        { name: 'staff:read', resource: 'staff', action: 'read' },
+        { name: 'customers:read', resource: 'customers', action: 'read' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(customRolePermissionsTable)
+      .values(permissions.map(permission => ({ custom_role_id: hostId, permission_id: permission.id })))
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list the roles of a restaurant by name', async () => {
+    const result = await getCustomRolesByRestaurant(restaurant1Id);
+
+    expect(result.map(role => role.name)).toEqual(['Bartender', 'Host']);
+    expect(result[0].permissions).toEqual([]);
+    expect(result[1].permissions).toEqual(['customers:read', 'staff:read']);
+  });
+
+  it('should return an empty list for restaurants without roles', async () => {
+    const result = await getCustomRolesByRestaurant(99999);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should fetch a single role with its permissions', async () => {
+    const result = await getCustomRole(hostId, restaurant1Id);
+
+    expect(result?.name).toEqual('Host');
+    expect(result?.permissions).toEqual(['customers:read', 'staff:read']);
+  });
+
+  it('should not fetch roles of another restaurant', async () => {
+    expect(await getCustomRole(hostId, restaurant2Id)).toBeNull();
+    expect(await getCustomRole(99999)).toBeNull();
+  });
+});
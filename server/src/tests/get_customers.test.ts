@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { restaurantsTable, customersTable } from '../db/schema';
+import { restaurantsTable, customersTable, loyaltyTiersTable } from '../db/schema';
 import { type GetCustomersByRestaurantInput } from '../schema';
 import { getCustomersByRestaurant, getCustomer } from '../handlers/get_customers';
 
@@ -49,7 +49,7 @@ describe('getCustomersByRestaurant', () => {
       restaurant_id: restaurant.id
     };
 
-    const customers = await getCustomersByRestaurant(input);
+    const { customers } = await getCustomersByRestaurant(input);
 
     expect(customers).toHaveLength(2);
     expect(customers[0].first_name).toBeDefined();
@@ -92,8 +92,9 @@ describe('getCustomersByRestaurant', () => {
       limit: 5
     };
 
-    const limitedCustomers = await getCustomersByRestaurant(limitedInput);
+    const { customers: limitedCustomers, total } = await getCustomersByRestaurant(limitedInput);
     expect(limitedCustomers).toHaveLength(5);
+    expect(total).toEqual(15);
 
     // Test with offset
     const offsetInput: GetCustomersByRestaurantInput = {
@@ -102,7 +103,7 @@ describe('getCustomersByRestaurant', () => {
       offset: 5
     };
 
-    const offsetCustomers = await getCustomersByRestaurant(offsetInput);
+    const { customers: offsetCustomers } = await getCustomersByRestaurant(offsetInput);
     expect(offsetCustomers).toHaveLength(5);
 
     // Verify different results
@@ -125,7 +126,7 @@ describe('getCustomersByRestaurant', () => {
       restaurant_id: restaurant.id
     };
 
-    const customers = await getCustomersByRestaurant(input);
+    const { customers } = await getCustomersByRestaurant(input);
     expect(customers).toHaveLength(0);
   });
 
@@ -175,12 +176,12 @@ describe('getCustomersByRestaurant', () => {
       .execute();
 
     // Query customers for restaurant 1
-    const restaurant1Customers = await getCustomersByRestaurant({
+    const { customers: restaurant1Customers } = await getCustomersByRestaurant({
       restaurant_id: restaurant1.id
     });
 
     // Query customers for restaurant 2
-    const restaurant2Customers = await getCustomersByRestaurant({
+    const { customers: restaurant2Customers } = await getCustomersByRestaurant({
       restaurant_id: restaurant2.id
     });
 
@@ -220,7 +221,7 @@ describe('getCustomersByRestaurant', () => {
       })
       .execute();
 
-    const customers = await getCustomersByRestaurant({
+    const { customers } = await getCustomersByRestaurant({
       restaurant_id: restaurant.id
     });
 
@@ -235,6 +236,148 @@ describe('getCustomersByRestaurant', () => {
   });
 });
 
+describe('getCustomersByRestaurant search, filters and sorting', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await db.insert(customersTable)
+      .values([
+        {
+          restaurant_id: restaurantId,
+          first_name: 'Alice',
+          last_name: 'Martin',
+          email: 'alice@example.com',
+          phone: '(555) 010-0001',
+          loyalty_points: 120,
+          total_visits: 12,
+          last_visit_date: new Date('2024-03-01T12:00:00Z')
+        },
+        {
+          restaurant_id: restaurantId,
+          first_name: 'Bob',
+          last_name: 'Martinez',
+          email: 'bob_100%@example.com',
+          loyalty_points: 40,
+          total_visits: 3,
+          last_visit_date: new Date('2024-01-15T12:00:00Z')
+        },
+        {
+          restaurant_id: restaurantId,
+          first_name: 'Carol',
+          last_name: 'Jones',
+          phone: '555-777-1234',
+          loyalty_points: 0,
+          total_visits: 0,
+          is_active: false
+        }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const namesOf = async (input: Omit<GetCustomersByRestaurantInput, 'restaurant_id'>) => {
+    const { customers } = await getCustomersByRestaurant({ restaurant_id: restaurantId, ...input });
+    return customers.map(customer => customer.first_name);
+  };
+
+  it('should search partial names case-insensitively', async () => {
+    expect(await namesOf({ search: 'mart', sort_by: 'first_name', sort_order: 'asc' })).toEqual(['Alice', 'Bob']);
+    expect(await namesOf({ search: 'alice mar' })).toEqual(['Alice']);
+  });
+
+  it('should search emails and phone numbers', async () => {
+    expect(await namesOf({ search: 'ALICE@' })).toEqual(['Alice']);
+    expect(await namesOf({ search: '7771234' })).toEqual(['Carol']);
+    expect(await namesOf({ search: '555 010' })).toEqual(['Alice']);
+  });
+
+  it('should match wildcard characters literally', async () => {
+    expect(await namesOf({ search: '_100%' })).toEqual(['Bob']);
+    expect(await namesOf({ search: '%' })).toEqual(['Bob']);
+  });
+
+  it('should filter by status, loyalty points and visits', async () => {
+    expect(await namesOf({ is_active: false })).toEqual(['Carol']);
+    expect(await namesOf({ min_loyalty_points: 40, max_loyalty_points: 100 })).toEqual(['Bob']);
+    expect(await namesOf({ min_visits: 1, sort_by: 'total_visits' })).toEqual(['Alice', 'Bob']);
+    expect(await namesOf({ max_visits: 3, sort_by: 'total_visits', sort_order: 'asc' })).toEqual(['Carol', 'Bob']);
+  });
+
+  it('should filter by last visit window', async () => {
+    expect(await namesOf({ last_visit_from: new Date('2024-02-01T00:00:00Z') })).toEqual(['Alice']);
+    expect(await namesOf({ last_visit_to: new Date('2024-02-01T00:00:00Z') })).toEqual(['Bob']);
+  });
+
+  it('should sort by the requested column and keep missing values last', async () => {
+    expect(await namesOf({ sort_by: 'loyalty_points', sort_order: 'asc' })).toEqual(['Carol', 'Bob', 'Alice']);
+    expect(await namesOf({ sort_by: 'last_name', sort_order: 'desc' })).toEqual(['Bob', 'Alice', 'Carol']);
+    expect(await namesOf({ sort_by: 'last_visit_date', sort_order: 'asc' })).toEqual(['Bob', 'Alice', 'Carol']);
+    expect(await namesOf({ sort_by: 'last_visit_date', sort_order: 'desc' })).toEqual(['Alice', 'Bob', 'Carol']);
+    expect(await namesOf({ sort_by: 'phone', sort_order: 'asc' })).toEqual(['Alice', 'Carol', 'Bob']);
+  });
+
+  it('should count every match, not just the page', async () => {
+    const page = await getCustomersByRestaurant({ restaurant_id: restaurantId, search: 'mart', limit: 1 });
+
+    expect(page.customers).toHaveLength(1);
+    expect(page.total).toEqual(2);
+  });
+
+  it('should page with cursors in either direction', async () => {
+    const first = await getCustomersByRestaurant({ restaurant_id: restaurantId, limit: 2 });
+    expect(first.customers.map(customer => customer.first_name)).toEqual(['Carol', 'Bob']);
+
+    const second = await getCustomersByRestaurant({ restaurant_id: restaurantId, limit: 2, cursor: first.nextCursor });
+    expect(second.customers.map(customer => customer.first_name)).toEqual(['Alice']);
+    expect(second.total).toEqual(3);
+    expect(second.nextCursor).toBeNull();
+
+    const ascending = await getCustomersByRestaurant({ restaurant_id: restaurantId, limit: 1, sort_order: 'asc' });
+    const next = await getCustomersByRestaurant({
+      restaurant_id: restaurantId,
+      limit: 1,
+      sort_order: 'asc',
+      cursor: ascending.nextCursor
+    });
+    expect(next.customers.map(customer => customer.first_name)).toEqual(['Bob']);
+  });
+
+  it('should keep new customers from shifting the next page', async () => {
+    const first = await getCustomersByRestaurant({ restaurant_id: restaurantId, limit: 1, sort_order: 'asc' });
+
+    await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Dave', last_name: 'Walk-in' })
+      .execute();
+
+    const second = await getCustomersByRestaurant({
+      restaurant_id: restaurantId,
+      limit: 1,
+      sort_order: 'asc',
+      cursor: first.nextCursor
+    });
+    expect(second.customers[0].first_name).toEqual('Bob');
+  });
+
+  it('should only hand out cursors when sorting by creation date', async () => {
+    const page = await getCustomersByRestaurant({ restaurant_id: restaurantId, limit: 1, sort_by: 'last_name' });
+    expect(page.nextCursor).toBeNull();
+
+    const { nextCursor } = await getCustomersByRestaurant({ restaurant_id: restaurantId, limit: 1 });
+    await expect(getCustomersByRestaurant({ restaurant_id: restaurantId, sort_by: 'last_name', cursor: nextCursor }))
+      .rejects.toThrow(/requires sorting by created_at/);
+  });
+});
+
 describe('getCustomer', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -377,4 +520,35 @@ describe('getCustomer', () => {
     expect(customer!.last_visit_date).toBeInstanceOf(Date);
     expect(customer!.last_visit_date!.getTime()).toEqual(visitDate.getTime());
   });
-});
\ No newline at end of file
+
+  it('should include the loyalty tier the customer holds', async () => {
+    const restaurantResult = await db.insert(restaurantsTable)
+      .values({
+        name: 'Test Restaurant',
+        email: 'test@restaurant.com'
+      })
+      .returning()
+      .execute();
+
+    const restaurant = restaurantResult[0];
+
+    const tiers = await db.insert(loyaltyTiersTable)
+      .values({ restaurant_id: restaurant.id, name: 'Gold', rank: 2, min_total_visits: 10, perks: ['Free coffee'] })
+      .returning()
+      .execute();
+
+    const customerResult = await db.insert(customersTable)
+      .values([
+        { restaurant_id: restaurant.id, first_name: 'Jane', last_name: 'Smith', loyalty_tier_id: tiers[0].id },
+        { restaurant_id: restaurant.id, first_name: 'John', last_name: 'Doe' }
+      ])
+      .returning()
+      .execute();
+
+    const gold = await getCustomer(customerResult[0].id, restaurant.id);
+    expect(gold!.loyalty_tier).toEqual({ id: tiers[0].id, name: 'Gold', rank: 2, perks: ['Free coffee'] });
+
+    const untiered = await getCustomer(customerResult[1].id, restaurant.id);
+    expect(untiered!.loyalty_tier).toBeNull();
+  });
+});
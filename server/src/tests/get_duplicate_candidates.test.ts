@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customerDuplicateCandidatesTable, customersTable, restaurantsTable } from '../db/schema';
+import { getDuplicateCandidates } from '../handlers/get_duplicate_candidates';
+import { eq } from 'drizzle-orm';
+
+describe('getDuplicateCandidates', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let customerIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values([
+        { restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin' },
+        { restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martinez' },
+        { restaurant_id: restaurantId, first_name: 'Bob', last_name: 'Stone' },
+        { restaurant_id: restaurantId, first_name: 'Bob', last_name: 'Stone' }
+      ])
+      .returning()
+      .execute();
+
+    customerIds = customers.map(customer => customer.id);
+
+    await db.insert(customerDuplicateCandidatesTable)
+      .values([
+        { restaurant_id: restaurantId, customer_id: customerIds[0], duplicate_id: customerIds[1], score: 70, reasons: ['EMAIL', 'NAME'] },
+        { restaurant_id: restaurantId, customer_id: customerIds[2], duplicate_id: customerIds[3], score: 100, reasons: ['PHONE', 'NAME'] },
+        { restaurant_id: restaurantId, customer_id: customerIds[0], duplicate_id: customerIds[2], score: 60, reasons: ['EMAIL'], status: 'DISMISSED' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list pending pairs with both customers, likeliest first', async () => {
+    const candidates = await getDuplicateCandidates({ restaurant_id: restaurantId });
+
+    expect(candidates).toHaveLength(2);
+    expect(candidates[0].score).toEqual(100);
+    expect(candidates[0].customer.id).toEqual(customerIds[2]);
+    expect(candidates[0].duplicate.id).toEqual(customerIds[3]);
+    expect(candidates[1].customer.last_name).toEqual('Martin');
+    expect(candidates[1].duplicate.last_name).toEqual('Martinez');
+    expect(candidates[1].reasons).toEqual(['EMAIL', 'NAME']);
+  });
+
+  it('should filter by status and limit', async () => {
+    const dismissed = await getDuplicateCandidates({ restaurant_id: restaurantId, status: 'DISMISSED' });
+    expect(dismissed).toHaveLength(1);
+    expect(dismissed[0].score).toEqual(60);
+
+    const limited = await getDuplicateCandidates({ restaurant_id: restaurantId, limit: 1 });
+    expect(limited).toHaveLength(1);
+    expect(limited[0].score).toEqual(100);
+  });
+
+  it('should leave out pending pairs whose customer has been merged elsewhere', async () => {
+    await db.update(customersTable)
+      .set({ merged_into_id: customerIds[2], is_active: false })
+      .where(eq(customersTable.id, customerIds[3]))
+      .execute();
+
+    const candidates = await getDuplicateCandidates({ restaurant_id: restaurantId });
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].customer.id).toEqual(customerIds[0]);
+  });
+
+  it('should only list pairs of the restaurant', async () => {
+    expect(await getDuplicateCandidates({ restaurant_id: otherRestaurantId })).toHaveLength(0);
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { permissionsTable, restaurantsTable, rolePermissionsTable, userPermissionOverridesTable, usersTable } from '../db/schema';
+import { getEffectivePermissions, mergePermissionOverrides, resolveEffectivePermissionNames } from '../handlers/get_effective_permissions';
+
+describe('mergePermissionOverrides', () => {
+  it('should add grants and remove denials', () => {
+    const result = mergePermissionOverrides(['customers:read', 'reports:read'], [
+      { permission: 'customers:write', effect: 'GRANT' },
+      { permission: 'reports:read', effect: 'DENY' }
+    ]);
+
+    expect(result).toEqual(['customers:read', 'customers:write']);
+  });
+
+  it('should let a denial win over a grant', () => {
+    const result = mergePermissionOverrides([], [
+      { permission: 'customers:write', effect: 'DENY' },
+      { permission: 'customers:write', effect: 'GRANT' }
+    ]);
+
+    expect(result).toEqual([]);
+  });
+});
+
+describe('getEffectivePermissions', () => {
+  let restaurantId: number;
+  let userId: number;
+  let permissionIds: Record<string, number>;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const permissions = await db.insert(permissionsTable)
+      .values([
+        { name: 'customers:read', resource: 'customers', action: 'read' },
+        { name: 'customers:write', resource: 'customers', action: 'write' },
+        { name: 'reports:read', resource: 'reports', action: 'read' }
+      ])
+      .returning()
+      .execute();
+
+    permissionIds = Object.fromEntries(permissions.map(permission => [permission.name, permission.id]));
+
+    await db.insert(rolePermissionsTable)
+      .values([
+        { role: 'MANAGER', permission_id: permissionIds['customers:read'] },
+        { role: 'MANAGER', permission_id: permissionIds['reports:read'] }
+      ])
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'manager@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'Mia',
+        last_name: 'Manager',
+        role: 'MANAGER',
+        restaurant_id: restaurantId
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return the role permissions without overrides', async () => {
+    const result = await getEffectivePermissions(userId, restaurantId);
+
+    expect(result.user_id).toEqual(userId);
+    expect(result.role).toEqual('MANAGER');
+    expect(result.custom_role_id).toBeNull();
+    expect(result.permissions).toEqual(['customers:read', 'reports:read']);
+    expect(result.overrides).toEqual([]);
+  });
+
+  it('should apply active grants and denials', async () => {
+    await db.insert(userPermissionOverridesTable)
+      .values([
+        { user_id: userId, permission_id: permissionIds['customers:write'], effect: 'GRANT' },
+        { user_id: userId, permission_id: permissionIds['reports:read'], effect: 'DENY', expires_at: new Date(Date.now() + 60 * 60 * 1000) }
+      ])
+      .execute();
+
+    const result = await getEffectivePermissions(userId);
+
+    expect(result.permissions).toEqual(['customers:read', 'customers:write']);
+    expect(result.overrides.map(override => [override.permission, override.effect])).toEqual([
+      ['customers:write', 'GRANT'],
+      ['reports:read', 'DENY']
+    ]);
+  });
+
+  it('should ignore expired overrides', async () => {
+    await db.insert(userPermissionOverridesTable)
+      .values({ user_id: userId, permission_id: permissionIds['reports:read'], effect: 'DENY', expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    const result = await getEffectivePermissions(userId);
+
+    expect(result.permissions).toEqual(['customers:read', 'reports:read']);
+    expect(result.overrides).toEqual([]);
+  });
+
+  it('should resolve the same names used for authorization', async () => {
+    await db.insert(userPermissionOverridesTable)
+      .values({ user_id: userId, permission_id: permissionIds['reports:read'], effect: 'DENY' })
+      .execute();
+
+    const result = await resolveEffectivePermissionNames({ id: userId, role: 'MANAGER', custom_role_id: null });
+
+    expect(result).toEqual(['customers:read']);
+  });
+
+  it('should not look up users of another restaurant', async () => {
+    await expect(getEffectivePermissions(userId, restaurantId + 1)).rejects.toThrow(/not found/i);
+  });
+});
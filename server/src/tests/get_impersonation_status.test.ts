@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { getImpersonationStatus } from '../handlers/get_impersonation_status';
+
+describe('getImpersonationStatus', () => {
+  let adminId: number;
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', password_hash: 'irrelevant', first_name: 'Ada', last_name: 'Admin', role: 'SUPER_ADMIN' },
+        { email: 'owner@example.com', password_hash: 'irrelevant', first_name: 'Olga', last_name: 'Owner', role: 'RESTAURANT_OWNER' }
+      ])
+      .returning()
+      .execute();
+
+    adminId = users[0].id;
+    ownerId = users[1].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should name the super admin behind an impersonated session', async () => {
+    const sessions = await db.insert(sessionsTable)
+      .values({ user_id: ownerId, token_hash: 'hash', expires_at: new Date(Date.now() + 60 * 1000), impersonator_id: adminId })
+      .returning()
+      .execute();
+
+    const result = await getImpersonationStatus(sessions[0]);
+
+    expect(result).toEqual({
+      impersonator: { id: adminId, email: 'admin@example.com', first_name: 'Ada', last_name: 'Admin' },
+      expires_at: sessions[0].expires_at
+    });
+  });
+
+  it('should return null for regular sessions', async () => {
+    const sessions = await db.insert(sessionsTable)
+      .values({ user_id: ownerId, token_hash: 'hash', expires_at: new Date(Date.now() + 60 * 1000) })
+      .returning()
+      .execute();
+
+    expect(await getImpersonationStatus(sessions[0])).toBeNull();
+  });
+});
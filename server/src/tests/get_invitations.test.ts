@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { restaurantsTable, staffInvitationsTable } from '../db/schema';
+import { getInvitationsByRestaurant } from '../handlers/get_invitations';
+
+describe('getInvitationsByRestaurant', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return invitations of the restaurant only', async () => {
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    const expires_at = new Date(Date.now() + 60 * 60 * 1000);
+    await db.insert(staffInvitationsTable)
+      .values([
+        { restaurant_id: restaurants[0].id, email: 'a@example.com', role: 'STAFF', token_hash: 'a', invited_by: 1, expires_at },
+        { restaurant_id: restaurants[0].id, email: 'b@example.com', role: 'MANAGER', token_hash: 'b', invited_by: 1, expires_at, status: 'REVOKED' },
+        { restaurant_id: restaurants[1].id, email: 'c@example.com', role: 'STAFF', token_hash: 'c', invited_by: 1, expires_at }
+      ])
+      .execute();
+
+    const result = await getInvitationsByRestaurant(restaurants[0].id);
+
+    expect(result).toHaveLength(2);
+    expect(result.map(invitation => invitation.email).sort()).toEqual(['a@example.com', 'b@example.com']);
+    result.forEach(invitation => {
+      expect(invitation.restaurant_id).toEqual(restaurants[0].id);
+      expect(invitation.created_at).toBeInstanceOf(Date);
+    });
+  });
+
+  it('should return empty array when there are no invitations', async () => {
+    const result = await getInvitationsByRestaurant(1);
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { loginAttemptsTable, usersTable } from '../db/schema';
+import { getLoginHistory } from '../handlers/get_login_history';
+
+describe('getLoginHistory', () => {
+  let userId: number;
+  let otherUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'john@example.com', password_hash: 'irrelevant', first_name: 'John', last_name: 'Doe', role: 'STAFF' },
+        { email: 'jane@example.com', password_hash: 'irrelevant', first_name: 'Jane', last_name: 'Doe', role: 'STAFF' }
+      ])
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+    otherUserId = users[1].id;
+
+    await db.insert(loginAttemptsTable)
+      .values([
+        { user_id: userId, email: 'john@example.com', ip_address: '203.0.113.7', success: false, failure_reason: 'INVALID_CREDENTIALS', created_at: new Date(Date.now() - 2000) },
+        { user_id: userId, email: 'john@example.com', ip_address: '203.0.113.7', user_agent: 'TestAgent/1.0', success: true, created_at: new Date(Date.now() - 1000) },
+        { user_id: otherUserId, email: 'jane@example.com', success: true }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should return only the user\'s attempts, newest first', async () => {
+    const history = await getLoginHistory(userId);
+
+    expect(history).toHaveLength(2);
+    expect(history[0].success).toBe(true);
+    expect(history[0].user_agent).toEqual('TestAgent/1.0');
+    expect(history[1].success).toBe(false);
+    expect(history[1].failure_reason).toEqual('INVALID_CREDENTIALS');
+    history.forEach(attempt => expect(attempt.user_id).toEqual(userId));
+  });
+
+  it('should respect the limit', async () => {
+    const history = await getLoginHistory(userId, { limit: 1 });
+
+    expect(history).toHaveLength(1);
+    expect(history[0].success).toBe(true);
+  });
+});
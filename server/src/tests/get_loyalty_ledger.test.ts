@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, restaurantsTable } from '../db/schema';
+import { getLoyaltyLedger } from '../handlers/get_loyalty_ledger';
+
+describe('getLoyaltyLedger', () => {
+  let restaurantId: number;
+  let customerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', loyalty_points: 60 })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    await db.insert(loyaltyLedgerTable)
+      .values([
+        { restaurant_id: restaurantId, customer_id: customerId, type: 'EARN', points: 100, balance_after: 100, reason: 'Visit 1', created_at: new Date('2024-01-10T20:00:00Z') },
+        { restaurant_id: restaurantId, customer_id: customerId, type: 'REDEEM', points: -40, balance_after: 60, reason: 'Dessert', created_at: new Date('2024-02-10T20:00:00Z') }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list entries newest first', async () => {
+    const { entries, nextCursor } = await getLoyaltyLedger({ customer_id: customerId }, restaurantId);
+
+    expect(entries.map(entry => entry.type)).toEqual(['REDEEM', 'EARN']);
+    expect(entries[0].balance_after).toEqual(60);
+    expect(nextCursor).toBeNull();
+  });
+
+  it('should page with cursors', async () => {
+    const first = await getLoyaltyLedger({ customer_id: customerId, limit: 1 }, restaurantId);
+    const second = await getLoyaltyLedger({ customer_id: customerId, limit: 1, cursor: first.nextCursor }, restaurantId);
+
+    expect(second.entries.map(entry => entry.type)).toEqual(['EARN']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should not show customers of another restaurant', async () => {
+    await expect(getLoyaltyLedger({ customer_id: customerId }, restaurantId + 1)).rejects.toThrow(/not found/i);
+  });
+});
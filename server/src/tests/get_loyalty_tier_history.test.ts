@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyTierChangesTable, restaurantsTable } from '../db/schema';
+import { getLoyaltyTierHistory } from '../handlers/get_loyalty_tier_history';
+
+describe('getLoyaltyTierHistory', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let customerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin' })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    await db.insert(loyaltyTierChangesTable)
+      .values([
+        { restaurant_id: restaurantId, customer_id: customerId, from_tier_id: null, to_tier_id: 1, created_at: new Date('2026-01-01T03:00:00Z') },
+        { restaurant_id: restaurantId, customer_id: customerId, from_tier_id: 1, to_tier_id: 2, created_at: new Date('2026-03-01T03:00:00Z') }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list tier changes most recent first', async () => {
+    const history = await getLoyaltyTierHistory(customerId, restaurantId);
+
+    expect(history.map(change => [change.from_tier_id, change.to_tier_id])).toEqual([[1, 2], [null, 1]]);
+  });
+
+  it('should not reveal the history of customers of another restaurant', async () => {
+    await expect(getLoyaltyTierHistory(customerId, otherRestaurantId))
+      .rejects.toThrow('Customer not found or does not belong to this restaurant');
+  });
+});
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { loyaltyTiersTable, restaurantsTable } from '../db/schema';
+import { getLoyaltyTierById, getLoyaltyTiers } from '../handlers/get_loyalty_tiers';
+
+describe('getLoyaltyTiers', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await db.insert(loyaltyTiersTable)
+      .values([
+        { restaurant_id: restaurantId, name: 'Gold', rank: 2, min_window_spend: '750.00' },
+        { restaurant_id: restaurantId, name: 'Silver', rank: 1 },
+        { restaurant_id: restaurants[1].id, name: 'Elsewhere', rank: 1 }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list the tiers of the restaurant, lowest rank first', async () => {
+    const tiers = await getLoyaltyTiers(restaurantId);
+
+    expect(tiers.map(tier => tier.name)).toEqual(['Silver', 'Gold']);
+    expect(tiers[1].min_window_spend).toEqual(750);
+  });
+
+  it('should fetch a tier by id', async () => {
+    const tiers = await getLoyaltyTiers(restaurantId);
+
+    expect((await getLoyaltyTierById(tiers[0].id))?.name).toEqual('Silver');
+    expect(await getLoyaltyTierById(9999)).toBeNull();
+  });
+});
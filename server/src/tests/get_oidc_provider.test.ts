@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { oidcProvidersTable, restaurantsTable } from '../db/schema';
+import { getOidcProvider, getOidcProviderById } from '../handlers/get_oidc_provider';
+
+describe('getOidcProvider', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return the provider without its client secret', async () => {
+    const providers = await db.insert(oidcProvidersTable)
+      .values({
+        restaurant_id: restaurantId,
+        discovery_url: 'https://login.example.com/.well-known/openid-configuration',
+        client_id: 'client',
+        client_secret: 'secret',
+        allowed_email_domains: ['example.com']
+      })
+      .returning()
+      .execute();
+
+    const provider = await getOidcProvider(restaurantId);
+
+    expect(provider).toMatchObject({ client_id: 'client', allowed_email_domains: ['example.com'], default_role: 'STAFF' });
+    expect(provider).not.toHaveProperty('client_secret');
+    expect(await getOidcProviderById(providers[0].id)).toEqual(provider);
+  });
+
+  it('should return null when single sign-on is not configured', async () => {
+    expect(await getOidcProvider(restaurantId)).toBeNull();
+    expect(await getOidcProviderById(999)).toBeNull();
+  });
+});
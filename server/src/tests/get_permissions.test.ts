@@ -1,9 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { permissionsTable, rolePermissionsTable } from '../db/schema';
+import { customRolePermissionsTable, customRolesTable, permissionsTable, restaurantsTable, rolePermissionsTable } from '../db/schema';
 import { type UserRole } from '../schema';
-import { getPermissionsByRole, getAllPermissions, getRolePermissions } from '../handlers/get_permissions';
+import { getPermissionsByRole, getAllPermissions, getRolePermissions, getPermissionNamesByRole, getPermissionNamesForUser, getRolePermission } from '../handlers/get_permissions';
 
 describe('get_permissions handlers', () => {
   beforeEach(createDB);
@@ -236,4 +236,83 @@ describe('get_permissions handlers', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('getPermissionNamesByRole', () => {
+    it('should return empty array for role without permissions', async () => {
+      const result = await getPermissionNamesByRole('STAFF');
+      expect(result).toEqual([]);
+    });
+
+    it('should return only the permission names assigned to the role', async () => {
+      const permissions = await db.insert(permissionsTable)
+        .values([
+          { name: 'customers:read', description: 'View customers', resource: 'customers', action: 'read' },
+          { name: 'customers:write', description: 'Edit customers', resource: 'customers', action: 'write' },
+          { name: 'billing:write', description: 'Manage billing', resource: 'billing', action: 'write' }
+        ])
+        .returning()
+        .execute();
+
+      await db.insert(rolePermissionsTable)
+        .values([
+          { role: 'MANAGER', permission_id: permissions[0].id },
+          { role: 'MANAGER', permission_id: permissions[1].id },
+          { role: 'RESTAURANT_OWNER', permission_id: permissions[2].id }
+        ])
+        .execute();
+
+      const result = await getPermissionNamesByRole('MANAGER');
+
+      expect(result.sort()).toEqual(['customers:read', 'customers:write']);
+    });
+  });
+
+  describe('getPermissionNamesForUser', () => {
+    it('should use the custom role instead of the built-in role', async () => {
+      const restaurant = await db.insert(restaurantsTable)
+        .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+        .returning()
+        .execute();
+
+      const permissions = await db.insert(permissionsTable)
+        .values([
+          { name: 'customers:read', description: 'View customers', resource: 'customers', action: 'read' },
+          { name: 'staff:read', description: 'View staff', resource: 'staff', action: 'read' }
+        ])
+        .returning()
+        .execute();
+
+      await db.insert(rolePermissionsTable)
+        .values({ role: 'STAFF', permission_id: permissions[0].id })
+        .execute();
+
+      const roles = await db.insert(customRolesTable)
+        .values({ restaurant_id: restaurant[0].id, name: 'Host' })
+        .returning()
+        .execute();
+
+      await db.insert(customRolePermissionsTable)
+        .values({ custom_role_id: roles[0].id, permission_id: permissions[1].id })
+        .execute();
+
+      expect(await getPermissionNamesForUser({ role: 'STAFF', custom_role_id: null })).toEqual(['customers:read']);
+      expect(await getPermissionNamesForUser({ role: 'STAFF', custom_role_id: roles[0].id })).toEqual(['staff:read']);
+    });
+  });
+
+  describe('getRolePermission', () => {
+    it('should find the mapping of a role and permission', async () => {
+      const permissions = await db.insert(permissionsTable)
+        .values({ name: 'reports:read', description: 'View reports', resource: 'reports', action: 'read' })
+        .returning()
+        .execute();
+
+      await db.insert(rolePermissionsTable)
+        .values({ role: 'MANAGER', permission_id: permissions[0].id })
+        .execute();
+
+      expect((await getRolePermission('MANAGER', permissions[0].id))?.role).toEqual('MANAGER');
+      expect(await getRolePermission('STAFF', permissions[0].id)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, restaurantsTable, rewardRedemptionsTable, rewardsTable } from '../db/schema';
+import { getRedemptionByCode } from '../handlers/get_redemption';
+
+describe('getRedemptionByCode', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin' })
+      .returning()
+      .execute();
+
+    const rewards = await db.insert(rewardsTable)
+      .values({ restaurant_id: restaurantId, name: 'Free dessert', points_cost: 100 })
+      .returning()
+      .execute();
+
+    await db.insert(rewardRedemptionsTable)
+      .values({
+        restaurant_id: restaurantId,
+        reward_id: rewards[0].id,
+        customer_id: customers[0].id,
+        code: 'ABCD-2345',
+        points_spent: 100
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should find the redemption with its reward and customer', async () => {
+    const redemption = await getRedemptionByCode('ABCD-2345', restaurantId);
+
+    expect(redemption!.status).toEqual('ISSUED');
+    expect(redemption!.reward_name).toEqual('Free dessert');
+    expect(redemption!.customer_name).toEqual('Alice Martin');
+  });
+
+  it('should accept codes typed in lower case or without the separator', async () => {
+    expect((await getRedemptionByCode('abcd2345', restaurantId))?.code).toEqual('ABCD-2345');
+    expect((await getRedemptionByCode(' abcd 2345 ', restaurantId))?.code).toEqual('ABCD-2345');
+  });
+
+  it('should not find codes of another restaurant', async () => {
+    expect(await getRedemptionByCode('ABCD-2345', otherRestaurantId)).toBeNull();
+    expect(await getRedemptionByCode('ZZZZ-2345', restaurantId)).toBeNull();
+  });
+});
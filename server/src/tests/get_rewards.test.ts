@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { restaurantsTable, rewardsTable } from '../db/schema';
+import { getRewards } from '../handlers/get_rewards';
+
+describe('getRewards', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    const day = 24 * 60 * 60 * 1000;
+
+    await db.insert(rewardsTable)
+      .values([
+        { restaurant_id: restaurantId, name: '10% off', points_cost: 250 },
+        { restaurant_id: restaurantId, name: 'Free dessert', points_cost: 100 },
+        { restaurant_id: restaurantId, name: 'Retired', points_cost: 50, is_active: false },
+        { restaurant_id: restaurantId, name: 'Christmas menu', points_cost: 500, available_from: new Date(Date.now() + day) },
+        { restaurant_id: restaurantId, name: 'Summer special', points_cost: 80, available_until: new Date(Date.now() - day) },
+        { restaurant_id: restaurants[1].id, name: 'Elsewhere', points_cost: 10 }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list the whole catalogue of the restaurant, cheapest first', async () => {
+    const rewards = await getRewards({ restaurant_id: restaurantId });
+
+    expect(rewards.map(reward => reward.name)).toEqual(['Retired', 'Summer special', 'Free dessert', '10% off', 'Christmas menu']);
+  });
+
+  it('should only list rewards that can be redeemed now when asked', async () => {
+    const rewards = await getRewards({ restaurant_id: restaurantId, available_only: true });
+
+    expect(rewards.map(reward => reward.name)).toEqual(['Free dessert', '10% off']);
+  });
+});
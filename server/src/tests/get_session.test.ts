@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { getSessionByToken } from '../handlers/get_session';
+import { generateToken, hashToken, signToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+describe('getSessionByToken', () => {
+  let userId: number;
+
+  // Insert a session directly and return its signed token
+  const insertSession = async (overrides: Partial<typeof sessionsTable.$inferInsert> = {}): Promise<string> => {
+    const secret = generateToken();
+    await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        token_hash: hashToken(secret),
+        expires_at: new Date(Date.now() + 60 * 60 * 1000),
+        ...overrides
+      })
+      .execute();
+    return signToken(secret);
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe',
+        role: 'MANAGER'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should resolve a valid session to its user', async () => {
+    const token = await insertSession();
+
+    const result = await getSessionByToken(token);
+
+    expect(result).not.toBeNull();
+    expect(result!.user.id).toEqual(userId);
+    expect(result!.user.email).toEqual('john@example.com');
+    expect(result!.user.role).toEqual('MANAGER');
+    expect(result!.session.user_id).toEqual(userId);
+  });
+
+  it('should reject tokens with an invalid signature', async () => {
+    const token = await insertSession();
+    const [secret] = token.split('.');
+
+    expect(await getSessionByToken(`${secret}.forged`)).toBeNull();
+    expect(await getSessionByToken(secret)).toBeNull();
+  });
+
+  it('should reject unknown tokens', async () => {
+    const result = await getSessionByToken(signToken(generateToken()));
+    expect(result).toBeNull();
+  });
+
+  it('should reject expired sessions', async () => {
+    const token = await insertSession({ expires_at: new Date(Date.now() - 1000) });
+
+    const result = await getSessionByToken(token);
+    expect(result).toBeNull();
+  });
+
+  it('should reject revoked sessions', async () => {
+    const token = await insertSession({ revoked_at: new Date() });
+
+    const result = await getSessionByToken(token);
+    expect(result).toBeNull();
+  });
+
+  it('should reject sessions of inactive users', async () => {
+    const token = await insertSession();
+
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    const result = await getSessionByToken(token);
+    expect(result).toBeNull();
+  });
+});
@@ -53,7 +53,7 @@ describe('getStaffByRestaurant', () => {
       restaurant_id: restaurant.id
     };
 
-    const result = await getStaffByRestaurant(input);
+    const { staff: result } = await getStaffByRestaurant(input);
 
     expect(result).toHaveLength(3);
     expect(result[0].restaurant_id).toBe(restaurant.id);
@@ -101,7 +101,7 @@ describe('getStaffByRestaurant', () => {
       restaurant_id: restaurant.id
     };
 
-    const result = await getStaffByRestaurant(input);
+    const { staff: result } = await getStaffByRestaurant(input);
 
     expect(result).toHaveLength(1);
     expect(result[0].role).toBe('STAFF');
@@ -138,7 +138,7 @@ describe('getStaffByRestaurant', () => {
       offset: 0
     };
 
-    const result = await getStaffByRestaurant(input);
+    const { staff: result } = await getStaffByRestaurant(input);
 
     expect(result).toHaveLength(3);
     result.forEach(user => {
@@ -185,12 +185,56 @@ describe('getStaffByRestaurant', () => {
       offset: 1
     };
 
-    const result = await getStaffByRestaurant(input);
+    const { staff: result } = await getStaffByRestaurant(input);
 
     expect(result).toHaveLength(1);
     expect(result[0].restaurant_id).toBe(restaurant.id);
   });
 
+  it('should page with cursors without skipping or repeating staff', async () => {
+    const [restaurant] = await db.insert(restaurantsTable)
+      .values({
+        name: 'Test Restaurant',
+        email: 'test@restaurant.com'
+      })
+      .returning()
+      .execute();
+
+    // Inserted together, so they share created_at and only the id orders them
+    const staff = await db.insert(usersTable)
+      .values([1, 2, 3].map(index => ({
+        email: `staff${index}@test.com`,
+        password_hash: 'hash',
+        first_name: `Staff${index}`,
+        last_name: 'User',
+        role: 'STAFF' as const,
+        restaurant_id: restaurant.id
+      })))
+      .returning()
+      .execute();
+
+    const first = await getStaffByRestaurant({ restaurant_id: restaurant.id, limit: 2 });
+    expect(first.staff.map(user => user.id)).toEqual([staff[0].id, staff[1].id]);
+    expect(first.nextCursor).not.toBeNull();
+
+    // Staff added between pages show up at the end instead of shifting the next page
+    const [added] = await db.insert(usersTable)
+      .values({
+        email: 'late@test.com',
+        password_hash: 'hash',
+        first_name: 'Late',
+        last_name: 'User',
+        role: 'STAFF',
+        restaurant_id: restaurant.id
+      })
+      .returning()
+      .execute();
+
+    const second = await getStaffByRestaurant({ restaurant_id: restaurant.id, limit: 2, cursor: first.nextCursor });
+    expect(second.staff.map(user => user.id)).toEqual([staff[2].id, added.id]);
+    expect(second.nextCursor).toBeNull();
+  });
+
   it('should return empty array when no staff found', async () => {
     // Create test restaurant
     const [restaurant] = await db.insert(restaurantsTable)
@@ -205,7 +249,7 @@ describe('getStaffByRestaurant', () => {
       restaurant_id: restaurant.id
     };
 
-    const result = await getStaffByRestaurant(input);
+    const { staff: result } = await getStaffByRestaurant(input);
 
     expect(result).toHaveLength(0);
   });
@@ -254,7 +298,7 @@ describe('getStaffByRestaurant', () => {
       restaurant_id: restaurant1.id
     };
 
-    const result = await getStaffByRestaurant(input);
+    const { staff: result } = await getStaffByRestaurant(input);
 
     expect(result).toHaveLength(1);
     expect(result[0].restaurant_id).toBe(restaurant1.id);
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, restaurantsTable, visitsTable } from '../db/schema';
+import { getCustomerVisits, getVisit } from '../handlers/get_visits';
+
+describe('getCustomerVisits', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let customerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin' })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    await db.insert(visitsTable)
+      .values([
+        { restaurant_id: restaurantId, customer_id: customerId, visited_at: new Date('2024-01-01T19:00:00Z'), spend: '42.50' },
+        { restaurant_id: restaurantId, customer_id: customerId, visited_at: new Date('2024-03-01T19:00:00Z') },
+        { restaurant_id: restaurantId, customer_id: customerId, visited_at: new Date('2024-02-01T19:00:00Z'), voided_at: new Date(), void_reason: 'Duplicate' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list counted visits, most recent first', async () => {
+    const { visits, nextCursor } = await getCustomerVisits({ customer_id: customerId }, restaurantId);
+
+    expect(visits.map(visit => visit.visited_at)).toEqual([
+      new Date('2024-03-01T19:00:00Z'),
+      new Date('2024-01-01T19:00:00Z')
+    ]);
+    expect(visits[1].spend).toEqual(42.5);
+    expect(nextCursor).toBeNull();
+  });
+
+  it('should include voided visits when asked', async () => {
+    const { visits } = await getCustomerVisits({ customer_id: customerId, include_voided: true }, restaurantId);
+
+    expect(visits).toHaveLength(3);
+    expect(visits[1].void_reason).toEqual('Duplicate');
+  });
+
+  it('should page with cursors', async () => {
+    const first = await getCustomerVisits({ customer_id: customerId, limit: 1 }, restaurantId);
+    const second = await getCustomerVisits({ customer_id: customerId, limit: 1, cursor: first.nextCursor }, restaurantId);
+
+    expect(second.visits[0].visited_at).toEqual(new Date('2024-01-01T19:00:00Z'));
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should not list customers of another restaurant', async () => {
+    await expect(getCustomerVisits({ customer_id: customerId }, otherRestaurantId))
+      .rejects.toThrow(/not found/i);
+  });
+});
+
+describe('getVisit', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should only find the visit within the given restaurant', async () => {
+    const [visit] = await db.insert(visitsTable)
+      .values({ restaurant_id: 1, customer_id: 1, visited_at: new Date('2024-01-01T19:00:00Z'), spend: '10.00' })
+      .returning()
+      .execute();
+
+    expect((await getVisit(visit.id))?.spend).toEqual(10);
+    expect(await getVisit(visit.id, 1)).not.toBeNull();
+    expect(await getVisit(visit.id, 2)).toBeNull();
+  });
+});
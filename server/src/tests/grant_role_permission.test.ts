@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { permissionsTable, rolePermissionsTable } from '../db/schema';
+import { grantRolePermission } from '../handlers/grant_role_permission';
+
+describe('grantRolePermission', () => {
+  let permissionId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const permissions = await db.insert(permissionsTable)
+      .values({ name: 'reports:read', resource: 'reports', action: 'read' })
+      .returning()
+      .execute();
+
+    permissionId = permissions[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should attach the permission to the role', async () => {
+    const result = await grantRolePermission({ role: 'STAFF', permission_id: permissionId });
+
+    expect(result.id).toBeDefined();
+    expect(result.role).toEqual('STAFF');
+    expect(result.permission_id).toEqual(permissionId);
+
+    const mappings = await db.select().from(rolePermissionsTable).execute();
+    expect(mappings).toHaveLength(1);
+  });
+
+  it('should reject permissions the role already has', async () => {
+    await grantRolePermission({ role: 'STAFF', permission_id: permissionId });
+
+    await expect(grantRolePermission({ role: 'STAFF', permission_id: permissionId })).rejects.toThrow(/already has permission reports:read/i);
+  });
+
+  it('should throw for unknown permissions', async () => {
+    await expect(grantRolePermission({ role: 'STAFF', permission_id: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { auditLogTable, customersTable, restaurantsTable } from '../db/schema';
+import { importCustomers } from '../handlers/import_customers';
+import { asc, eq, sql } from 'drizzle-orm';
+
+const mapping = {
+  first_name: 'First Name',
+  last_name: 'Last Name',
+  email: 'E-mail',
+  phone: 'Mobile',
+  notes: 'Remarks'
+};
+
+describe('importCustomers', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+  });
+
+  afterEach(resetDB);
+
+  const customersOf = (id: number) => db.select()
+    .from(customersTable)
+    .where(eq(customersTable.restaurant_id, id))
+    .orderBy(asc(customersTable.id))
+    .execute();
+
+  it('should create a customer per row from the mapped columns', async () => {
+    const csv = [
+      'Guest ID,First Name,Last Name,E-mail,Mobile,Remarks',
+      '17,Alice,Martin,alice@example.com,555-0101,"Window seat, no nuts"',
+      '18,Bob,Stone,,,'
+    ].join('\n');
+
+    const report = await importCustomers({ restaurant_id: restaurantId, csv, mapping }, null);
+
+    expect(report).toEqual({ dry_run: false, total_rows: 2, imported: 2, duplicates: 0, failed: 0, errors: [] });
+
+    const customers = await customersOf(restaurantId);
+    expect(customers.map(customer => [customer.first_name, customer.email, customer.phone, customer.notes])).toEqual([
+      ['Alice', 'alice@example.com', '555-0101', 'Window seat, no nuts'],
+      ['Bob', null, null, null]
+    ]);
+  });
+
+  it('should report invalid rows by spreadsheet row and field and import the rest', async () => {
+    const csv = [
+      'First Name,Last Name,E-mail',
+      'Alice,Martin,not-an-email',
+      ',Stone,bob@example.com',
+      '',
+      'Carol,King,carol@example.com',
+      'Dave,Hill,dave@example.com,extra'
+    ].join('\n');
+
+    const report = await importCustomers({
+      restaurant_id: restaurantId,
+      csv,
+      mapping: { first_name: 'first name', last_name: 'LAST NAME', email: 'E-mail' }
+    }, null);
+
+    expect(report.total_rows).toEqual(4);
+    expect(report.imported).toEqual(1);
+    expect(report.failed).toEqual(3);
+    expect(report.errors).toEqual([
+      { row: 2, field: 'email', message: 'Invalid email' },
+      { row: 3, field: 'first_name', message: 'String must contain at least 1 character(s)' },
+      { row: 6, field: null, message: 'Row has 4 columns but the header has 3' }
+    ]);
+
+    const customers = await customersOf(restaurantId);
+    expect(customers.map(customer => customer.first_name)).toEqual(['Carol']);
+  });
+
+  it('should skip duplicates of existing customers and of earlier rows', async () => {
+    const existing = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', email: 'Alice@Example.com' })
+      .returning()
+      .execute();
+    // Customers of other restaurants are not duplicates
+    await db.insert(customersTable)
+      .values({ restaurant_id: otherRestaurantId, first_name: 'Bob', last_name: 'Stone', phone: '5550102' })
+      .execute();
+
+    const csv = [
+      'First Name,Last Name,E-mail,Mobile',
+      'Alice,Martin,alice@example.com,',
+      'Bob,Stone,,(555) 010-2',
+      'Robert,Stone,,555.0102'
+    ].join('\n');
+
+    const report = await importCustomers({ restaurant_id: restaurantId, csv, mapping: { ...mapping, notes: undefined } }, null);
+
+    expect(report.imported).toEqual(1);
+    expect(report.duplicates).toEqual(2);
+    expect(report.errors).toEqual([
+      { row: 2, field: 'email', message: `Duplicate of existing customer ${existing[0].id}` },
+      { row: 4, field: 'phone', message: 'Duplicate of row 3' }
+    ]);
+  });
+
+  it('should only report on a dry run', async () => {
+    const csv = 'First Name,Last Name\nAlice,Martin\nBob,\n';
+
+    const report = await importCustomers({ restaurant_id: restaurantId, csv, mapping: { first_name: 'First Name', last_name: 'Last Name' }, dry_run: true }, null);
+
+    expect(report.dry_run).toBe(true);
+    expect(report.imported).toEqual(1);
+    expect(report.failed).toEqual(1);
+    expect(await customersOf(restaurantId)).toHaveLength(0);
+  });
+
+  it('should audit each imported customer', async () => {
+    const csv = 'First Name,Last Name\nAlice,Martin\nBob,Stone\n';
+
+    await importCustomers({ restaurant_id: restaurantId, csv, mapping: { first_name: 'First Name', last_name: 'Last Name' } }, null);
+
+    const entries = await db.select().from(auditLogTable).execute();
+    expect(entries).toHaveLength(2);
+    expect(entries.every(entry => entry.entity_type === 'CUSTOMER' && entry.action === 'CREATE' && entry.restaurant_id === restaurantId)).toBe(true);
+  });
+
+  it('should not import customers whose audit entries cannot be written', async () => {
+    await db.execute(sql`alter table audit_log add constraint audit_log_rejects_all check (false)`);
+    const csv = 'First Name,Last Name\nAlice,Martin\n';
+
+    await expect(importCustomers({ restaurant_id: restaurantId, csv, mapping: { first_name: 'First Name', last_name: 'Last Name' } }, null))
+      .rejects.toThrow();
+
+    expect(await customersOf(restaurantId)).toHaveLength(0);
+  });
+
+  it('should reject mappings to columns the file does not have', async () => {
+    await expect(importCustomers({
+      restaurant_id: restaurantId,
+      csv: 'First Name,Surname\nAlice,Martin\n',
+      mapping: { first_name: 'First Name', last_name: 'Last Name' }
+    }, null)).rejects.toThrow('Column "Last Name" not found in the CSV header');
+  });
+});
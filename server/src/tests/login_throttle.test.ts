@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { loginAttemptsTable, usersTable } from '../db/schema';
+import { type ClientInfo } from '../schema';
+import {
+  getLoginRetryAfter,
+  getProgressiveDelayMs,
+  LOCKOUT_THRESHOLD,
+  recordFailedLogin,
+  recordSuccessfulLogin
+} from '../lib/login_throttle';
+import { eq } from 'drizzle-orm';
+
+const client: ClientInfo = {
+  ip_address: '203.0.113.7',
+  user_agent: 'TestAgent/1.0'
+};
+
+describe('getProgressiveDelayMs', () => {
+  it('should allow the free failures without delay', () => {
+    expect(getProgressiveDelayMs(0, 3)).toEqual(0);
+    expect(getProgressiveDelayMs(2, 3)).toEqual(0);
+  });
+
+  it('should double the delay for every further failure up to a cap', () => {
+    expect(getProgressiveDelayMs(3, 3)).toEqual(1000);
+    expect(getProgressiveDelayMs(4, 3)).toEqual(2000);
+    expect(getProgressiveDelayMs(6, 3)).toEqual(8000);
+    expect(getProgressiveDelayMs(50, 3)).toEqual(30000);
+  });
+});
+
+describe('login throttling', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe',
+        role: 'STAFF'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should delay the next attempt once the free failures are used up', async () => {
+    for (let i = 0; i < 3; i++) {
+      await recordFailedLogin('john@example.com', userId, client, 'INVALID_CREDENTIALS');
+    }
+
+    const retryAfter = await getLoginRetryAfter('John@Example.com', null);
+
+    expect(retryAfter).toBeInstanceOf(Date);
+    expect(retryAfter!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should not count throttled attempts as failures', async () => {
+    await db.insert(loginAttemptsTable)
+      .values(Array.from({ length: 5 }, () => ({
+        email: 'john@example.com',
+        success: false,
+        failure_reason: 'THROTTLED' as const
+      })))
+      .execute();
+
+    expect(await getLoginRetryAfter('john@example.com', null)).toBeNull();
+  });
+
+  it('should clear the per-email delay after a successful login', async () => {
+    for (let i = 0; i < 3; i++) {
+      await recordFailedLogin('john@example.com', userId, client, 'INVALID_CREDENTIALS');
+    }
+
+    await recordSuccessfulLogin('john@example.com', userId, client);
+
+    expect(await getLoginRetryAfter('john@example.com', null)).toBeNull();
+  });
+
+  it('should lock the account after consecutive failures', async () => {
+    await db.update(usersTable)
+      .set({ failed_login_attempts: LOCKOUT_THRESHOLD - 2 })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await recordFailedLogin('john@example.com', userId, client, 'INVALID_TWO_FACTOR_CODE');
+
+    let users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    expect(users[0].failed_login_attempts).toEqual(LOCKOUT_THRESHOLD - 1);
+    expect(users[0].locked_until).toBeNull();
+
+    await recordFailedLogin('john@example.com', userId, client, 'INVALID_TWO_FACTOR_CODE');
+
+    users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    expect(users[0].locked_until!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should reset the failure counter on success', async () => {
+    await recordFailedLogin('john@example.com', userId, client, 'INVALID_CREDENTIALS');
+    await recordSuccessfulLogin('john@example.com', userId, client);
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    expect(users[0].failed_login_attempts).toEqual(0);
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts.filter(attempt => attempt.success)).toHaveLength(1);
+  });
+});
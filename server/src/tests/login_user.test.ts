@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { loginAttemptsTable, restaurantsTable, sessionsTable, userTokensTable, userTwoFactorTable, usersTable } from '../db/schema';
+import { type AuthSession, type LoginInput, type LoginResult } from '../schema';
+import { loginUser } from '../handlers/login_user';
+import { generateTotpSecret } from '../lib/totp';
+import { hashToken, verifySignedToken } from '../lib/tokens';
+import { createHash, randomBytes } from 'crypto';
+import { eq } from 'drizzle-orm';
+
+// Helper function to create password hash (matching authenticateUser's format)
+const createPasswordHash = (password: string): string => {
+  const salt = randomBytes(16).toString('hex');
+  const hash = createHash('sha256').update(password + salt).digest('hex');
+  return `${salt}:${hash}`;
+};
+
+const testPassword = 'testPassword123';
+
+const expectAuthenticated = (result: LoginResult | null): AuthSession => {
+  if (result?.status !== 'AUTHENTICATED') {
+    throw new Error(`Expected an authenticated session, got ${result?.status ?? 'null'}`);
+  }
+  return result;
+};
+
+const loginInput: LoginInput = {
+  email: 'john@example.com',
+  password: testPassword
+};
+
+describe('loginUser', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: createPasswordHash(testPassword),
+        first_name: 'John',
+        last_name: 'Doe',
+        role: 'STAFF'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return a session token and the user for valid credentials', async () => {
+    const result = expectAuthenticated(await loginUser(loginInput));
+
+    expect(result.user.id).toEqual(userId);
+    expect(result.user.email).toEqual('john@example.com');
+    expect(result.user).not.toHaveProperty('password_hash');
+    expect(typeof result.token).toBe('string');
+    expect(result.expires_at).toBeInstanceOf(Date);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+    expect(result.two_factor_setup_required).toBe(false);
+  });
+
+  it('should persist a session for the issued token', async () => {
+    const result = expectAuthenticated(await loginUser(loginInput));
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toEqual(hashToken(verifySignedToken(result.token)!));
+    expect(sessions[0].revoked_at).toBeNull();
+  });
+
+  it('should record the successful login in the history', async () => {
+    await loginUser(loginInput, { ip_address: '203.0.113.7', user_agent: 'TestAgent/1.0' });
+
+    const attempts = await db.select()
+      .from(loginAttemptsTable)
+      .where(eq(loginAttemptsTable.user_id, userId))
+      .execute();
+
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].success).toBe(true);
+    expect(attempts[0].ip_address).toEqual('203.0.113.7');
+  });
+
+  it('should return null and create no session for invalid credentials', async () => {
+    const result = await loginUser({ ...loginInput, password: 'wrongPassword' });
+
+    expect(result).toBeNull();
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .execute();
+
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should return a challenge instead of a session when 2FA is enabled', async () => {
+    await db.insert(userTwoFactorTable)
+      .values({ user_id: userId, secret: generateTotpSecret(), enabled_at: new Date() })
+      .execute();
+
+    const result = await loginUser(loginInput);
+
+    expect(result!.status).toEqual('TWO_FACTOR_REQUIRED');
+    if (result!.status === 'TWO_FACTOR_REQUIRED') {
+      expect(typeof result!.challenge_token).toBe('string');
+      expect(result!.expires_at.getTime()).toBeGreaterThan(Date.now());
+    }
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+
+    const challenges = await db.select()
+      .from(userTokensTable)
+      .where(eq(userTokensTable.user_id, userId))
+      .execute();
+
+    expect(challenges).toHaveLength(1);
+    expect(challenges[0].purpose).toEqual('TWO_FACTOR_LOGIN');
+
+    // The login only counts as successful once the second factor is verified
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts).toHaveLength(0);
+  });
+
+  it('should ignore a pending enrollment that was never confirmed', async () => {
+    await db.insert(userTwoFactorTable)
+      .values({ user_id: userId, secret: generateTotpSecret() })
+      .execute();
+
+    const result = await loginUser(loginInput);
+
+    expect(result!.status).toEqual('AUTHENTICATED');
+  });
+
+  it('should limit the session to enrollment when the restaurant requires 2FA', async () => {
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com', require_two_factor: true })
+      .returning()
+      .execute();
+
+    await db.update(usersTable)
+      .set({ role: 'MANAGER', restaurant_id: restaurants[0].id })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    const result = expectAuthenticated(await loginUser(loginInput));
+
+    expect(result.two_factor_setup_required).toBe(true);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions[0].two_factor_setup_required).toBe(true);
+  });
+
+  it('should not apply the restaurant 2FA policy to staff', async () => {
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com', require_two_factor: true })
+      .returning()
+      .execute();
+
+    await db.update(usersTable)
+      .set({ restaurant_id: restaurants[0].id })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    const result = expectAuthenticated(await loginUser(loginInput));
+
+    expect(result.two_factor_setup_required).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mailOutboxTable } from '../db/schema';
+import { outboxMailer, sendMail, setMailer, type MailMessage } from '../lib/mailer';
+
+describe('mailer', () => {
+  beforeEach(createDB);
+
+  afterEach(async () => {
+    setMailer(outboxMailer);
+    await resetDB();
+  });
+
+  it('should write messages to the outbox by default', async () => {
+    await sendMail({ to: 'john@example.com', subject: 'Hello', body: 'World' });
+
+    const messages = await db.select().from(mailOutboxTable).execute();
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].recipient).toEqual('john@example.com');
+    expect(messages[0].subject).toEqual('Hello');
+    expect(messages[0].body).toEqual('World');
+    expect(messages[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should deliver through a configured mailer instead', async () => {
+    const delivered: MailMessage[] = [];
+    setMailer({
+      async send(message) {
+        delivered.push(message);
+      }
+    });
+
+    await sendMail({ to: 'john@example.com', subject: 'Hello', body: 'World' });
+
+    expect(delivered).toHaveLength(1);
+    expect(delivered[0].to).toEqual('john@example.com');
+
+    const messages = await db.select().from(mailOutboxTable).execute();
+    expect(messages).toHaveLength(0);
+  });
+});
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  customerDuplicateCandidatesTable,
+  customerMergesTable,
+  customersTable,
+  loyaltyLedgerTable,
+  restaurantsTable,
+  rewardsTable,
+  visitsTable
+} from '../db/schema';
+import { mergeCustomers } from '../handlers/merge_customers';
+import { recordVisit } from '../handlers/record_visit';
+import { redeemReward } from '../handlers/redeem_reward';
+import { asc, eq } from 'drizzle-orm';
+
+describe('mergeCustomers', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let survivorId: number;
+  let mergedId: number;
+
+  const getCustomer = async (id: number) => {
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, id)).execute();
+    return customers[0];
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values([
+        { restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com', notes: 'Prefers the terrace', loyalty_points: 40 },
+        { restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', phone: '555-0100', notes: 'Allergic to nuts', loyalty_points: 150 }
+      ])
+      .returning()
+      .execute();
+
+    survivorId = customers[0].id;
+    mergedId = customers[1].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should move visits and redemptions to the survivor', async () => {
+    await recordVisit({ restaurant_id: restaurantId, customer_id: survivorId, visited_at: new Date('2024-03-01T19:00:00Z') }, { user: null });
+    const visit = await recordVisit({ restaurant_id: restaurantId, customer_id: mergedId, visited_at: new Date('2024-05-01T19:00:00Z') }, { user: null });
+    const rewards = await db.insert(rewardsTable)
+      .values({ restaurant_id: restaurantId, name: 'Free dessert', points_cost: 100 })
+      .returning()
+      .execute();
+    const redemption = await redeemReward({ restaurant_id: restaurantId, customer_id: mergedId, reward_id: rewards[0].id }, { user: null });
+
+    const merge = await mergeCustomers({ restaurant_id: restaurantId, survivor_id: survivorId, merged_id: mergedId }, { user: { id: 5 } });
+
+    expect(merge.survivor_id).toEqual(survivorId);
+    expect(merge.merged_id).toEqual(mergedId);
+    expect(merge.merged_by).toEqual(5);
+    expect(merge.moved_records).toEqual({ visits: [visit.id], reward_redemptions: [redemption.id] });
+
+    const visits = await db.select().from(visitsTable).where(eq(visitsTable.customer_id, survivorId)).execute();
+    expect(visits).toHaveLength(2);
+
+    const survivor = await getCustomer(survivorId);
+    expect(survivor.total_visits).toEqual(2);
+    expect(survivor.last_visit_date).toEqual(new Date('2024-05-01T19:00:00Z'));
+  });
+
+  it('should combine notes and fill in missing contact details', async () => {
+    await mergeCustomers({ restaurant_id: restaurantId, survivor_id: survivorId, merged_id: mergedId }, { user: null });
+
+    const survivor = await getCustomer(survivorId);
+    expect(survivor.email).toEqual('alice@example.com');
+    expect(survivor.phone).toEqual('555-0100');
+    expect(survivor.notes).toEqual('Prefers the terrace\n\nAllergic to nuts');
+  });
+
+  it('should transfer the points through the ledger', async () => {
+    const merge = await mergeCustomers({ restaurant_id: restaurantId, survivor_id: survivorId, merged_id: mergedId }, { user: null });
+
+    expect(merge.points_transferred).toEqual(150);
+    expect((await getCustomer(survivorId)).loyalty_points).toEqual(190);
+    expect((await getCustomer(mergedId)).loyalty_points).toEqual(0);
+
+    const entries = await db.select()
+      .from(loyaltyLedgerTable)
+      .orderBy(asc(loyaltyLedgerTable.id))
+      .execute();
+    expect(entries.map(entry => [entry.customer_id, entry.type, entry.points, entry.reason])).toEqual([
+      [mergedId, 'ADJUST', -150, `Merged into customer ${survivorId}`],
+      [survivorId, 'ADJUST', 150, `Merged from customer ${mergedId}`]
+    ]);
+  });
+
+  it('should deactivate the duplicate and keep a snapshot of both customers', async () => {
+    const merge = await mergeCustomers({ restaurant_id: restaurantId, survivor_id: survivorId, merged_id: mergedId }, { user: null });
+
+    const merged = await getCustomer(mergedId);
+    expect(merged.merged_into_id).toEqual(survivorId);
+    expect(merged.is_active).toBe(false);
+    expect(merged.total_visits).toEqual(0);
+
+    expect(merge.survivor_before.notes).toEqual('Prefers the terrace');
+    expect(merge.survivor_before.phone).toBeNull();
+    expect(merge.merged_before.phone).toEqual('555-0100');
+    expect(merge.merged_before.is_active).toBe(true);
+
+    const merges = await db.select().from(customerMergesTable).execute();
+    expect(merges).toHaveLength(1);
+  });
+
+  it('should mark the reviewed pair as merged', async () => {
+    await db.insert(customerDuplicateCandidatesTable)
+      .values({ restaurant_id: restaurantId, customer_id: survivorId, duplicate_id: mergedId, score: 100, reasons: ['NAME'] })
+      .execute();
+
+    // The pair is found regardless of which customer survives
+    await mergeCustomers({ restaurant_id: restaurantId, survivor_id: mergedId, merged_id: survivorId }, { user: { id: 5 } });
+
+    const candidates = await db.select().from(customerDuplicateCandidatesTable).execute();
+    expect(candidates[0].status).toEqual('MERGED');
+    expect(candidates[0].reviewed_by).toEqual(5);
+  });
+
+  it('should not merge a customer twice or into itself', async () => {
+    await mergeCustomers({ restaurant_id: restaurantId, survivor_id: survivorId, merged_id: mergedId }, { user: null });
+
+    await expect(mergeCustomers({ restaurant_id: restaurantId, survivor_id: survivorId, merged_id: mergedId }, { user: null }))
+      .rejects.toThrow('Customer has already been merged into another customer');
+    await expect(mergeCustomers({ restaurant_id: restaurantId, survivor_id: survivorId, merged_id: survivorId }, { user: null }))
+      .rejects.toThrow('A customer cannot be merged into itself');
+  });
+
+  it('should not merge customers of other restaurants', async () => {
+    const others = await db.insert(customersTable)
+      .values({ restaurant_id: otherRestaurantId, first_name: 'Alice', last_name: 'Martin' })
+      .returning()
+      .execute();
+
+    await expect(mergeCustomers({ restaurant_id: restaurantId, survivor_id: survivorId, merged_id: others[0].id }, { user: null }))
+      .rejects.toThrow('Customer not found or does not belong to this restaurant');
+    expect(await db.select().from(customerMergesTable).execute()).toHaveLength(0);
+  });
+});
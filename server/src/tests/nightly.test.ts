@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, loyaltyRulesTable, loyaltyTiersTable, restaurantsTable } from '../db/schema';
+import { runNightlyJobs } from '../nightly';
+import { eq } from 'drizzle-orm';
+
+describe('runNightlyJobs', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  beforeEach(createDB);
+
+  afterEach(resetDB);
+
+  // A restaurant with one customer holding 100 points earned long ago and five visits
+  const createRestaurant = async (isActive: boolean) => {
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com', is_active: isActive })
+      .returning()
+      .execute();
+
+    const restaurantId = restaurants[0].id;
+
+    await db.insert(loyaltyRulesTable)
+      .values({ restaurant_id: restaurantId, points_per_currency_unit: '1', points_expire_after_days: 90 })
+      .execute();
+
+    const tiers = await db.insert(loyaltyTiersTable)
+      .values({ restaurant_id: restaurantId, name: 'Silver', rank: 1, min_total_visits: 5 })
+      .returning()
+      .execute();
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', loyalty_points: 100, total_visits: 5 })
+      .returning()
+      .execute();
+
+    await db.insert(loyaltyLedgerTable)
+      .values({ restaurant_id: restaurantId, customer_id: customers[0].id, type: 'EARN', points: 100, balance_after: 100, reason: 'Visit 1', created_at: new Date('2024-01-10T20:00:00Z') })
+      .execute();
+
+    return { customerId: customers[0].id, tierId: tiers[0].id };
+  };
+
+  const loadCustomer = async (customerId: number) => {
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, customerId)).execute();
+    return customers[0];
+  };
+
+  it('should expire points and evaluate tiers of active restaurants', async () => {
+    const { customerId, tierId } = await createRestaurant(true);
+
+    expect(await runNightlyJobs(now)).toEqual({ restaurants: 1, failed: [] });
+
+    const customer = await loadCustomer(customerId);
+    expect(customer.loyalty_points).toEqual(0);
+    expect(customer.loyalty_tier_id).toEqual(tierId);
+  });
+
+  it('should leave inactive restaurants alone', async () => {
+    const { customerId } = await createRestaurant(false);
+
+    expect(await runNightlyJobs(now)).toEqual({ restaurants: 0, failed: [] });
+
+    const customer = await loadCustomer(customerId);
+    expect(customer.loyalty_points).toEqual(100);
+    expect(customer.loyalty_tier_id).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { startMockOidcIssuer, type MockOidcIssuer } from '../helpers/mock_oidc_issuer';
+import {
+  assertPublicUrl,
+  buildAuthorizationUrl,
+  createPkceChallenge,
+  createPkceVerifier,
+  exchangeAuthorizationCode,
+  fetchOidcDiscovery,
+  getOidcRedirectUri,
+  isPrivateAddress,
+  type OidcDiscovery,
+  verifyIdToken
+} from '../lib/oidc';
+
+describe('oidc', () => {
+  let issuer: MockOidcIssuer;
+  let discovery: OidcDiscovery;
+
+  beforeAll(async () => {
+    issuer = startMockOidcIssuer();
+    discovery = await fetchOidcDiscovery(issuer.discoveryUrl);
+  });
+
+  afterAll(() => issuer.stop());
+
+  const verify = (claims: Record<string, unknown>) => verifyIdToken(issuer.signIdToken({ sub: 'user-1', nonce: 'n-1', ...claims }), discovery, {
+    clientId: issuer.clientId,
+    nonce: 'n-1'
+  });
+
+  it('should load the endpoints from the discovery document', () => {
+    expect(discovery).toEqual({
+      issuer: issuer.issuer,
+      authorization_endpoint: `${issuer.issuer}/authorize`,
+      token_endpoint: `${issuer.issuer}/token`,
+      jwks_uri: `${issuer.issuer}/jwks`
+    });
+  });
+
+  it('should reject discovery documents of another issuer', async () => {
+    const elsewhere = issuer.discoveryUrl.replace('localhost', '127.0.0.1');
+
+    await expect(fetchOidcDiscovery(elsewhere)).rejects.toThrow(/another issuer/i);
+  });
+
+  it('should build an authorization URL with an S256 challenge', () => {
+    const codeVerifier = createPkceVerifier();
+    const url = new URL(buildAuthorizationUrl(discovery, { clientId: 'client', state: 's-1', nonce: 'n-1', codeVerifier }));
+
+    expect(url.origin + url.pathname).toEqual(discovery.authorization_endpoint);
+    expect(url.searchParams.get('response_type')).toEqual('code');
+    expect(url.searchParams.get('scope')).toContain('openid');
+    expect(url.searchParams.get('redirect_uri')).toEqual(getOidcRedirectUri());
+    expect(url.searchParams.get('code_challenge')).toEqual(createPkceChallenge(codeVerifier));
+    expect(url.searchParams.get('code_challenge')).not.toEqual(codeVerifier);
+    expect(url.searchParams.get('code_challenge_method')).toEqual('S256');
+  });
+
+  it('should only redeem codes with the matching PKCE verifier', async () => {
+    const codeVerifier = createPkceVerifier();
+    const url = buildAuthorizationUrl(discovery, { clientId: issuer.clientId, state: 's-1', nonce: 'n-1', codeVerifier });
+    const params = { clientId: issuer.clientId, clientSecret: issuer.clientSecret };
+
+    const stolen = issuer.authorize(url, { sub: 'user-1' });
+    await expect(exchangeAuthorizationCode(discovery, { ...params, code: stolen.code, codeVerifier: createPkceVerifier() }))
+      .rejects.toThrow(/status 400/);
+
+    const { code } = issuer.authorize(url, { sub: 'user-1' });
+    const idToken = await exchangeAuthorizationCode(discovery, { ...params, code, codeVerifier });
+
+    expect((await verifyIdToken(idToken, discovery, { clientId: issuer.clientId, nonce: 'n-1' })).sub).toEqual('user-1');
+  });
+
+  it('should accept a valid ID token', async () => {
+    const claims = await verify({ email: 'sam@example.com' });
+
+    expect(claims.sub).toEqual('user-1');
+    expect(claims.email).toEqual('sam@example.com');
+  });
+
+  it('should reject tokens for another client, issuer or sign-in', async () => {
+    await expect(verify({ aud: 'someone-else' })).rejects.toThrow(/another client/i);
+    await expect(verify({ iss: 'https://evil.example.com' })).rejects.toThrow(/another identity provider/i);
+    await expect(verify({ nonce: 'n-2' })).rejects.toThrow(/this sign-in/i);
+  });
+
+  it('should reject expired tokens', async () => {
+    await expect(verify({ exp: Math.floor(Date.now() / 1000) - 3600 })).rejects.toThrow(/expired/i);
+  });
+
+  it('should reject tampered and unsigned tokens', async () => {
+    const [header, payload, signature] = issuer.signIdToken({ sub: 'user-1', nonce: 'n-1' }).split('.');
+    const forged = Buffer.from(JSON.stringify({
+      ...JSON.parse(Buffer.from(payload, 'base64url').toString()),
+      sub: 'admin'
+    })).toString('base64url');
+    const unsigned = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+
+    await expect(verifyIdToken(`${header}.${forged}.${signature}`, discovery, { clientId: issuer.clientId, nonce: 'n-1' }))
+      .rejects.toThrow(/signature/i);
+    await expect(verifyIdToken(`${unsigned}.${payload}.`, discovery, { clientId: issuer.clientId, nonce: 'n-1' }))
+      .rejects.toThrow(/unsupported/i);
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('should flag loopback, private and link-local addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('should let public addresses through', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('should require https', async () => {
+    await expect(assertPublicUrl('http://8.8.8.8/.well-known/openid-configuration')).rejects.toThrow(/must use https/i);
+  });
+
+  it('should reject hosts on a private network', async () => {
+    await expect(assertPublicUrl('https://169.254.169.254/latest/meta-data')).rejects.toThrow(/private network/i);
+    await expect(assertPublicUrl('https://[::1]/.well-known/openid-configuration')).rejects.toThrow(/private network/i);
+    await expect(assertPublicUrl('https://localhost/.well-known/openid-configuration')).rejects.toThrow(/private network/i);
+  });
+
+  it('should accept public https hosts', async () => {
+    await expect(assertPublicUrl('https://8.8.8.8/.well-known/openid-configuration')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'bun:test';
+import { hashPassword, needsRehash, verifyPassword } from '../lib/password';
+import { createHash, randomBytes } from 'crypto';
+
+// Legacy sha256(password + salt) hash in the given layout
+const legacyHash = (password: string, layout: 'salt:hash' | 'hash:salt'): string => {
+  const salt = randomBytes(16).toString('hex');
+  const hash = createHash('sha256').update(password + salt).digest('hex');
+  return layout === 'salt:hash' ? `${salt}:${hash}` : `${hash}:${salt}`;
+};
+
+describe('password hashing', () => {
+  it('should produce a self-describing scrypt hash', async () => {
+    const hash = await hashPassword('password123');
+
+    const [, scheme, version, params, salt, digest] = hash.split('$');
+    expect(scheme).toEqual('scrypt');
+    expect(version).toEqual('v=1');
+    expect(params).toEqual('N=16384,r=8,p=1');
+    expect(Buffer.from(salt, 'base64')).toHaveLength(16);
+    expect(Buffer.from(digest, 'base64')).toHaveLength(64);
+  });
+
+  it('should salt every hash', async () => {
+    const first = await hashPassword('password123');
+    const second = await hashPassword('password123');
+
+    expect(first).not.toEqual(second);
+  });
+
+  it('should verify scrypt hashes', async () => {
+    const hash = await hashPassword('password123');
+
+    expect(await verifyPassword('password123', hash)).toBe(true);
+    expect(await verifyPassword('password124', hash)).toBe(false);
+    expect(await verifyPassword('', hash)).toBe(false);
+  });
+
+  it('should verify legacy hashes in both layouts', async () => {
+    expect(await verifyPassword('password123', legacyHash('password123', 'salt:hash'))).toBe(true);
+    expect(await verifyPassword('password123', legacyHash('password123', 'hash:salt'))).toBe(true);
+    expect(await verifyPassword('wrong', legacyHash('password123', 'salt:hash'))).toBe(false);
+  });
+
+  it('should reject malformed hashes', async () => {
+    expect(await verifyPassword('password123', 'malformed_hash_without_salt')).toBe(false);
+    expect(await verifyPassword('password123', '$scrypt$v=1$N=16384,r=8,p=1$c2FsdA==$')).toBe(false);
+    expect(await verifyPassword('password123', '$scrypt$v=1$N=abc$c2FsdA==$aGFzaA==')).toBe(false);
+  });
+
+  it('should flag legacy and outdated hashes for rehash', async () => {
+    expect(needsRehash(await hashPassword('password123'))).toBe(false);
+    expect(needsRehash(legacyHash('password123', 'salt:hash'))).toBe(true);
+    expect(needsRehash('$scrypt$v=1$N=1024,r=8,p=1$c2FsdA==$aGFzaA==')).toBe(true);
+    expect(needsRehash('$scrypt$v=0$N=16384,r=8,p=1$c2FsdA==$aGFzaA==')).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'bun:test';
+import { isPhoneLike, normalizePhone, toE164 } from '../lib/phone';
+
+describe('normalizePhone', () => {
+  it('should keep digits only', () => {
+    expect(normalizePhone('(555) 010-0001')).toEqual('5550100001');
+    expect(normalizePhone('+44 20 7946 0958')).toEqual('442079460958');
+  });
+});
+
+describe('isPhoneLike', () => {
+  it('should accept digits with phone punctuation only', () => {
+    expect(isPhoneLike('555 0100')).toBe(true);
+    expect(isPhoneLike('bob_100')).toBe(false);
+  });
+});
+
+describe('toE164', () => {
+  it('should add the default country code to national numbers', () => {
+    expect(toE164('(555) 010-0001')).toEqual('+15550100001');
+    expect(toE164('555.010.0001', '1')).toEqual('+15550100001');
+  });
+
+  it('should keep the country code of international numbers', () => {
+    expect(toE164('+44 20 7946 0958')).toEqual('+442079460958');
+    expect(toE164('0044 20 7946 0958')).toEqual('+442079460958');
+    expect(toE164('1 555 010 0001')).toEqual('+15550100001');
+  });
+
+  it('should drop the trunk prefix of national numbers', () => {
+    expect(toE164('020 7946 0958', '44')).toEqual('+442079460958');
+    expect(toE164('+44 20 7946 0958', '44')).toEqual('+442079460958');
+  });
+
+  it('should reject values too short to be a phone number', () => {
+    expect(toE164('555-01')).toBeNull();
+    expect(toE164('ext. 12')).toBeNull();
+  });
+});
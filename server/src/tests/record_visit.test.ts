@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, loyaltyRulesTable, restaurantsTable, usersTable } from '../db/schema';
+import { recordVisit } from '../handlers/record_visit';
+import { eq } from 'drizzle-orm';
+
+describe('recordVisit', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let customerId: number;
+  let serverId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin' })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    const staff = await db.insert(usersTable)
+      .values({
+        email: 'server@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'Sam',
+        last_name: 'Server',
+        role: 'STAFF',
+        restaurant_id: restaurantId
+      })
+      .returning()
+      .execute();
+
+    serverId = staff[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const loadCustomer = async () => {
+    const customers = await db.select()
+      .from(customersTable)
+      .where(eq(customersTable.id, customerId))
+      .execute();
+
+    return customers[0];
+  };
+
+  it('should record the visit with its details', async () => {
+    const visit = await recordVisit({
+      restaurant_id: restaurantId,
+      customer_id: customerId,
+      visited_at: new Date('2024-03-01T19:30:00Z'),
+      party_size: 4,
+      spend: 186.5,
+      staff_id: serverId,
+      table_label: 'T12',
+      notes: 'Anniversary dinner'
+    }, { user: { id: serverId } });
+
+    expect(visit.customer_id).toEqual(customerId);
+    expect(visit.visited_at).toEqual(new Date('2024-03-01T19:30:00Z'));
+    expect(visit.party_size).toEqual(4);
+    expect(visit.spend).toEqual(186.5);
+    expect(typeof visit.spend).toBe('number');
+    expect(visit.staff_id).toEqual(serverId);
+    expect(visit.table_label).toEqual('T12');
+    expect(visit.recorded_by).toEqual(serverId);
+    expect(visit.voided_at).toBeNull();
+  });
+
+  it('should default to a party of one visiting now', async () => {
+    const before = Date.now();
+    const visit = await recordVisit({ restaurant_id: restaurantId, customer_id: customerId }, null);
+
+    expect(visit.party_size).toEqual(1);
+    expect(visit.spend).toBeNull();
+    expect(visit.recorded_by).toBeNull();
+    expect(visit.visited_at.getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it('should update the customer visit count and last visit date', async () => {
+    await recordVisit({ restaurant_id: restaurantId, customer_id: customerId, visited_at: new Date('2024-03-01T19:30:00Z') }, null);
+    await recordVisit({ restaurant_id: restaurantId, customer_id: customerId, visited_at: new Date('2024-04-01T19:30:00Z') }, null);
+
+    // Entered late, so the last visit date stays put
+    await recordVisit({ restaurant_id: restaurantId, customer_id: customerId, visited_at: new Date('2024-02-01T19:30:00Z') }, null);
+
+    const customer = await loadCustomer();
+    expect(customer.total_visits).toEqual(3);
+    expect(customer.last_visit_date).toEqual(new Date('2024-04-01T19:30:00Z'));
+  });
+
+  it('should count every visit recorded at the same time', async () => {
+    await Promise.all(Array.from({ length: 5 }, () => recordVisit({ restaurant_id: restaurantId, customer_id: customerId }, null)));
+
+    expect((await loadCustomer()).total_visits).toEqual(5);
+  });
+
+  it('should credit the points the loyalty rules award', async () => {
+    await db.insert(loyaltyRulesTable)
+      .values({ restaurant_id: restaurantId, points_per_currency_unit: '1.5', points_per_visit: 10 })
+      .execute();
+
+    const visit = await recordVisit({ restaurant_id: restaurantId, customer_id: customerId, spend: 45.9 }, { user: { id: serverId } });
+
+    const entries = await db.select().from(loyaltyLedgerTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].type).toEqual('EARN');
+    expect(entries[0].points).toEqual(78);
+    expect(entries[0].visit_id).toEqual(visit.id);
+    expect(entries[0].actor_id).toEqual(serverId);
+    expect((await loadCustomer()).loyalty_points).toEqual(78);
+  });
+
+  it('should not credit points while the loyalty programme is off', async () => {
+    await db.insert(loyaltyRulesTable)
+      .values({ restaurant_id: restaurantId, points_per_currency_unit: '1', points_per_visit: 10, is_enabled: false })
+      .execute();
+
+    await recordVisit({ restaurant_id: restaurantId, customer_id: customerId, spend: 45 }, null);
+
+    expect(await db.select().from(loyaltyLedgerTable).execute()).toHaveLength(0);
+    expect((await loadCustomer()).loyalty_points).toEqual(0);
+  });
+
+  it('should reject customers of another restaurant', async () => {
+    await expect(recordVisit({ restaurant_id: otherRestaurantId, customer_id: customerId }, null))
+      .rejects.toThrow(/not found/i);
+  });
+
+  it('should reject inactive customers', async () => {
+    await db.update(customersTable)
+      .set({ is_active: false })
+      .where(eq(customersTable.id, customerId))
+      .execute();
+
+    await expect(recordVisit({ restaurant_id: restaurantId, customer_id: customerId }, null))
+      .rejects.toThrow(/inactive customer/i);
+  });
+
+  it('should reject staff of another restaurant', async () => {
+    const [outsider] = await db.insert(usersTable)
+      .values({
+        email: 'outsider@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'Other',
+        last_name: 'Server',
+        role: 'STAFF',
+        restaurant_id: otherRestaurantId
+      })
+      .returning()
+      .execute();
+
+    await expect(recordVisit({ restaurant_id: restaurantId, customer_id: customerId, staff_id: outsider.id }, null))
+      .rejects.toThrow(`Staff member with id ${outsider.id} not found`);
+    expect((await loadCustomer()).total_visits).toEqual(0);
+  });
+
+  it('should reject visits in the future', async () => {
+    await expect(recordVisit({
+      restaurant_id: restaurantId,
+      customer_id: customerId,
+      visited_at: new Date(Date.now() + 60 * 60 * 1000)
+    }, null)).rejects.toThrow(/future/);
+  });
+});
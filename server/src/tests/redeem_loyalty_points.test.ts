@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, restaurantsTable } from '../db/schema';
+import { redeemLoyaltyPoints } from '../handlers/redeem_loyalty_points';
+import { eq } from 'drizzle-orm';
+
+describe('redeemLoyaltyPoints', () => {
+  let restaurantId: number;
+  let customerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', loyalty_points: 120 })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should deduct the redeemed points', async () => {
+    const entry = await redeemLoyaltyPoints({
+      restaurant_id: restaurantId,
+      customer_id: customerId,
+      points: 100,
+      reason: 'Free dessert'
+    }, { user: { id: 4 } });
+
+    expect(entry.type).toEqual('REDEEM');
+    expect(entry.points).toEqual(-100);
+    expect(entry.balance_after).toEqual(20);
+
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, customerId)).execute();
+    expect(customers[0].loyalty_points).toEqual(20);
+  });
+
+  it('should refuse redemptions beyond the balance', async () => {
+    await expect(redeemLoyaltyPoints({ restaurant_id: restaurantId, customer_id: customerId, points: 121, reason: 'Dinner' }, { user: null }))
+      .rejects.toThrow('Insufficient loyalty points: balance is 120');
+  });
+
+  it('should not let concurrent redemptions overdraw the balance', async () => {
+    const results = await Promise.allSettled([1, 2, 3].map(() => redeemLoyaltyPoints({
+      restaurant_id: restaurantId,
+      customer_id: customerId,
+      points: 50,
+      reason: 'Drinks'
+    }, { user: null })));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(2);
+
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, customerId)).execute();
+    expect(customers[0].loyalty_points).toEqual(20);
+  });
+});
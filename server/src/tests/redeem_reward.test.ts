@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, restaurantsTable, rewardRedemptionsTable, rewardsTable } from '../db/schema';
+import { redeemReward } from '../handlers/redeem_reward';
+import { eq } from 'drizzle-orm';
+
+describe('redeemReward', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let customerId: number;
+  let dessertId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', loyalty_points: 320 })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    const rewards = await db.insert(rewardsTable)
+      .values({ restaurant_id: restaurantId, name: 'Free dessert', points_cost: 100 })
+      .returning()
+      .execute();
+
+    dessertId = rewards[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const createReward = async (values: Partial<typeof rewardsTable.$inferInsert>) => {
+    const rewards = await db.insert(rewardsTable)
+      .values({ restaurant_id: restaurantId, name: '10% off', points_cost: 250, ...values })
+      .returning()
+      .execute();
+
+    return rewards[0].id;
+  };
+
+  it('should deduct the points and issue a one-time code', async () => {
+    const redemption = await redeemReward({ restaurant_id: restaurantId, customer_id: customerId, reward_id: dessertId }, { user: { id: 7 } });
+
+    expect(redemption.status).toEqual('ISSUED');
+    expect(redemption.points_spent).toEqual(100);
+    expect(redemption.issued_by).toEqual(7);
+    expect(redemption.code).toMatch(/^[A-Z2-7]{4}-[A-Z2-7]{4}$/);
+
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, customerId)).execute();
+    expect(customers[0].loyalty_points).toEqual(220);
+
+    const entries = await db.select().from(loyaltyLedgerTable).where(eq(loyaltyLedgerTable.customer_id, customerId)).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].type).toEqual('REDEEM');
+    expect(entries[0].points).toEqual(-100);
+    expect(entries[0].reason).toEqual('Reward: Free dessert');
+    expect(entries[0].actor_id).toEqual(7);
+  });
+
+  it('should issue a different code every time', async () => {
+    const first = await redeemReward({ restaurant_id: restaurantId, customer_id: customerId, reward_id: dessertId }, { user: null });
+    const second = await redeemReward({ restaurant_id: restaurantId, customer_id: customerId, reward_id: dessertId }, { user: null });
+
+    expect(first.code).not.toEqual(second.code);
+  });
+
+  it('should refuse rewards the customer cannot afford without issuing a code', async () => {
+    const feastId = await createReward({ name: 'Tasting menu', points_cost: 500 });
+
+    await expect(redeemReward({ restaurant_id: restaurantId, customer_id: customerId, reward_id: feastId }, { user: null }))
+      .rejects.toThrow('Insufficient loyalty points: balance is 320');
+
+    const redemptions = await db.select().from(rewardRedemptionsTable).execute();
+    expect(redemptions).toHaveLength(0);
+  });
+
+  it('should refuse inactive rewards and rewards outside their window', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const retiredId = await createReward({ is_active: false });
+    const upcomingId = await createReward({ available_from: new Date(Date.now() + day) });
+    const expiredId = await createReward({ available_until: new Date(Date.now() - day) });
+
+    for (const rewardId of [retiredId, upcomingId, expiredId]) {
+      await expect(redeemReward({ restaurant_id: restaurantId, customer_id: customerId, reward_id: rewardId }, { user: null }))
+        .rejects.toThrow('Reward is not available');
+    }
+  });
+
+  it('should enforce the per-customer limit, ignoring voided redemptions', async () => {
+    const discountId = await createReward({ points_cost: 10, per_customer_limit: 2 });
+    const input = { restaurant_id: restaurantId, customer_id: customerId, reward_id: discountId };
+
+    const first = await redeemReward(input, { user: null });
+    await redeemReward(input, { user: null });
+
+    await expect(redeemReward(input, { user: null }))
+      .rejects.toThrow('Reward can only be redeemed 2 time(s) per customer');
+
+    await db.update(rewardRedemptionsTable)
+      .set({ status: 'VOIDED' })
+      .where(eq(rewardRedemptionsTable.id, first.id))
+      .execute();
+
+    const again = await redeemReward(input, { user: null });
+    expect(again.status).toEqual('ISSUED');
+  });
+
+  it('should not exceed the limit with concurrent redemptions', async () => {
+    const discountId = await createReward({ points_cost: 10, per_customer_limit: 1 });
+
+    const results = await Promise.allSettled([1, 2, 3].map(() => redeemReward({
+      restaurant_id: restaurantId,
+      customer_id: customerId,
+      reward_id: discountId
+    }, { user: null })));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, customerId)).execute();
+    expect(customers[0].loyalty_points).toEqual(310);
+  });
+
+  it('should refuse inactive customers', async () => {
+    await db.update(customersTable).set({ is_active: false }).where(eq(customersTable.id, customerId)).execute();
+
+    await expect(redeemReward({ restaurant_id: restaurantId, customer_id: customerId, reward_id: dessertId }, { user: null }))
+      .rejects.toThrow('Cannot redeem rewards for an inactive customer');
+  });
+
+  it('should not redeem rewards or customers of another restaurant', async () => {
+    await expect(redeemReward({ restaurant_id: otherRestaurantId, customer_id: customerId, reward_id: dessertId }, { user: null }))
+      .rejects.toThrow(`Reward with id ${dessertId} not found`);
+
+    const elsewhere = await db.insert(rewardsTable)
+      .values({ restaurant_id: otherRestaurantId, name: 'Elsewhere', points_cost: 10 })
+      .returning()
+      .execute();
+
+    await expect(redeemReward({ restaurant_id: otherRestaurantId, customer_id: customerId, reward_id: elsewhere[0].id }, { user: null }))
+      .rejects.toThrow('Customer not found or does not belong to this restaurant');
+  });
+});
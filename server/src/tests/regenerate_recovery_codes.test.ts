@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { recoveryCodesTable, userTwoFactorTable, usersTable } from '../db/schema';
+import { regenerateRecoveryCodes } from '../handlers/regenerate_recovery_codes';
+import { generateTotp, generateTotpSecret } from '../lib/totp';
+import { generateRecoveryCodes, verifySecondFactor } from '../lib/two_factor';
+import { eq } from 'drizzle-orm';
+
+describe('regenerateRecoveryCodes', () => {
+  let userId: number;
+  let secret: string;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe',
+        role: 'STAFF'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+    secret = generateTotpSecret();
+
+    await db.insert(userTwoFactorTable)
+      .values({ user_id: userId, secret, enabled_at: new Date() })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should replace the existing recovery codes', async () => {
+    const oldCodes = await generateRecoveryCodes(userId);
+
+    const result = await regenerateRecoveryCodes(userId, { code: generateTotp(secret) });
+
+    expect(result.recovery_codes).toHaveLength(10);
+
+    const stored = await db.select()
+      .from(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    expect(stored).toHaveLength(10);
+    expect(await verifySecondFactor(userId, oldCodes[0])).toBe(false);
+    expect(await verifySecondFactor(userId, result.recovery_codes[0])).toBe(true);
+  });
+
+  it('should not accept a recovery code as proof', async () => {
+    const codes = await generateRecoveryCodes(userId);
+
+    await expect(regenerateRecoveryCodes(userId, { code: codes[0] })).rejects.toThrow(/invalid two-factor code/i);
+  });
+
+  it('should reject users without 2FA enabled', async () => {
+    await db.delete(userTwoFactorTable).execute();
+
+    await expect(regenerateRecoveryCodes(userId, { code: generateTotp(secret) })).rejects.toThrow(/not enabled/i);
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { permissionsTable, restaurantsTable, userPermissionOverridesTable, usersTable } from '../db/schema';
+import { removeUserPermissionOverride } from '../handlers/remove_user_permission_override';
+
+describe('removeUserPermissionOverride', () => {
+  let restaurantId: number;
+  let overrideId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'staff@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'Sam',
+        last_name: 'Staff',
+        role: 'STAFF',
+        restaurant_id: restaurantId
+      })
+      .returning()
+      .execute();
+
+    const permissions = await db.insert(permissionsTable)
+      .values({ name: 'customers:write', resource: 'customers', action: 'write' })
+      .returning()
+      .execute();
+
+    const overrides = await db.insert(userPermissionOverridesTable)
+      .values({ user_id: users[0].id, permission_id: permissions[0].id, effect: 'GRANT' })
+      .returning()
+      .execute();
+
+    overrideId = overrides[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should remove the override', async () => {
+    await removeUserPermissionOverride(overrideId, restaurantId);
+
+    expect(await db.select().from(userPermissionOverridesTable).execute()).toHaveLength(0);
+  });
+
+  it('should not remove overrides of another restaurant', async () => {
+    await expect(removeUserPermissionOverride(overrideId, restaurantId + 1)).rejects.toThrow(/not found/i);
+
+    expect(await db.select().from(userPermissionOverridesTable).execute()).toHaveLength(1);
+  });
+
+  it('should throw for unknown overrides', async () => {
+    await expect(removeUserPermissionOverride(99999)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mailOutboxTable, userTokensTable, usersTable } from '../db/schema';
+import { requestPasswordReset, PASSWORD_RESET_TTL_MS } from '../handlers/request_password_reset';
+import { hashToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+describe('requestPasswordReset', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should email a reset link to the user', async () => {
+    await requestPasswordReset({ email: 'john@example.com' });
+
+    const messages = await db.select().from(mailOutboxTable).execute();
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].recipient).toEqual('john@example.com');
+    expect(messages[0].subject).toMatch(/reset/i);
+    expect(messages[0].body).toMatch(/\/reset-password\?token=\S+/);
+  });
+
+  it('should store a hashed single-use token', async () => {
+    const before = Date.now();
+    await requestPasswordReset({ email: 'john@example.com' });
+
+    const messages = await db.select().from(mailOutboxTable).execute();
+    const token = messages[0].body.match(/token=(\S+)/)![1];
+
+    const tokens = await db.select()
+      .from(userTokensTable)
+      .where(eq(userTokensTable.user_id, userId))
+      .execute();
+
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].purpose).toEqual('PASSWORD_RESET');
+    expect(tokens[0].token_hash).toEqual(hashToken(token));
+    expect(tokens[0].used_at).toBeNull();
+    expect(tokens[0].expires_at.getTime()).toBeLessThanOrEqual(before + PASSWORD_RESET_TTL_MS + 60 * 1000);
+  });
+
+  it('should invalidate earlier reset tokens', async () => {
+    await requestPasswordReset({ email: 'john@example.com' });
+    await requestPasswordReset({ email: 'john@example.com' });
+
+    const tokens = await db.select()
+      .from(userTokensTable)
+      .where(eq(userTokensTable.user_id, userId))
+      .execute();
+
+    expect(tokens).toHaveLength(2);
+    expect(tokens.filter(token => token.used_at === null)).toHaveLength(1);
+  });
+
+  it('should silently ignore unknown emails', async () => {
+    await requestPasswordReset({ email: 'nobody@example.com' });
+
+    const messages = await db.select().from(mailOutboxTable).execute();
+    const tokens = await db.select().from(userTokensTable).execute();
+
+    expect(messages).toHaveLength(0);
+    expect(tokens).toHaveLength(0);
+  });
+
+  it('should ignore inactive users', async () => {
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await requestPasswordReset({ email: 'john@example.com' });
+
+    const messages = await db.select().from(mailOutboxTable).execute();
+    expect(messages).toHaveLength(0);
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mailOutboxTable, restaurantsTable, staffInvitationsTable } from '../db/schema';
+import { resendInvitation } from '../handlers/resend_invitation';
+import { hashToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+describe('resendInvitation', () => {
+  let restaurantId: number;
+  let invitationId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const invitations = await db.insert(staffInvitationsTable)
+      .values({
+        restaurant_id: restaurantId,
+        email: 'new.staff@example.com',
+        role: 'STAFF',
+        token_hash: hashToken('original-token'),
+        invited_by: 1,
+        expires_at: new Date(Date.now() - 1000) // Already expired
+      })
+      .returning()
+      .execute();
+
+    invitationId = invitations[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should rotate the token, extend the expiry and send a new email', async () => {
+    const result = await resendInvitation(invitationId, restaurantId);
+
+    expect(result.token_hash).not.toEqual(hashToken('original-token'));
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+    const messages = await db.select().from(mailOutboxTable).execute();
+    expect(messages).toHaveLength(1);
+
+    const token = messages[0].body.match(/token=(\S+)/)![1];
+    expect(hashToken(token)).toEqual(result.token_hash);
+  });
+
+  it('should not resend invitations of another restaurant', async () => {
+    await expect(resendInvitation(invitationId, restaurantId + 1)).rejects.toThrow(/not found/i);
+  });
+
+  it('should not resend revoked invitations', async () => {
+    await db.update(staffInvitationsTable)
+      .set({ status: 'REVOKED' })
+      .where(eq(staffInvitationsTable.id, invitationId))
+      .execute();
+
+    await expect(resendInvitation(invitationId, restaurantId)).rejects.toThrow(/not found/i);
+  });
+});
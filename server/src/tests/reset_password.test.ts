@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, userTokensTable, usersTable } from '../db/schema';
+import { type UserTokenPurpose } from '../schema';
+import { resetPassword } from '../handlers/reset_password';
+import { verifyPassword } from '../lib/password';
+import { generateToken, hashToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+describe('resetPassword', () => {
+  let userId: number;
+
+  // Insert a token directly and return its plaintext
+  const insertToken = async (purpose: UserTokenPurpose, expiresInMs: number = 60 * 60 * 1000): Promise<string> => {
+    const token = generateToken();
+    await db.insert(userTokensTable)
+      .values({
+        user_id: userId,
+        purpose,
+        token_hash: hashToken(token),
+        expires_at: new Date(Date.now() + expiresInMs)
+      })
+      .execute();
+    return token;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'old_hash',
+        first_name: 'John',
+        last_name: 'Doe'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should set the new password', async () => {
+    const token = await insertToken('PASSWORD_RESET');
+
+    await resetPassword({ token, password: 'newPassword123' });
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    expect(await verifyPassword('newPassword123', users[0].password_hash)).toBe(true);
+  });
+
+  it('should only accept a token once', async () => {
+    const token = await insertToken('PASSWORD_RESET');
+
+    await resetPassword({ token, password: 'newPassword123' });
+
+    await expect(resetPassword({ token, password: 'anotherPassword123' }))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject expired tokens', async () => {
+    const token = await insertToken('PASSWORD_RESET', -1000);
+
+    await expect(resetPassword({ token, password: 'newPassword123' }))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject tokens issued for another purpose', async () => {
+    const token = await insertToken('EMAIL_VERIFICATION');
+
+    await expect(resetPassword({ token, password: 'newPassword123' }))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should revoke existing sessions', async () => {
+    await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        token_hash: 'session_hash',
+        expires_at: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .execute();
+
+    const token = await insertToken('PASSWORD_RESET');
+    await resetPassword({ token, password: 'newPassword123' });
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+  });
+});
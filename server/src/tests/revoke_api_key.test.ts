@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { permissionsTable, restaurantsTable } from '../db/schema';
+import { createApiKey } from '../handlers/create_api_key';
+import { revokeApiKey } from '../handlers/revoke_api_key';
+import { authenticateApiKey } from '../handlers/authenticate_api_key';
+
+describe('revokeApiKey', () => {
+  let restaurantId: number;
+  let keyId: number;
+  let key: string;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await db.insert(permissionsTable)
+      .values({ name: 'customers:read', resource: 'customers', action: 'read' })
+      .execute();
+
+    const created = await createApiKey({ restaurant_id: restaurantId, name: 'POS', permissions: ['customers:read'] }, null);
+    keyId = created.api_key.id;
+    key = created.key;
+  });
+
+  afterEach(resetDB);
+
+  it('should revoke the key', async () => {
+    const revoked = await revokeApiKey(keyId, restaurantId);
+
+    expect(revoked.revoked_at).toBeInstanceOf(Date);
+    expect(await authenticateApiKey(key)).toBeNull();
+  });
+
+  it('should not revoke keys of another restaurant', async () => {
+    await expect(revokeApiKey(keyId, restaurantId + 1)).rejects.toThrow(/not found/i);
+
+    expect(await authenticateApiKey(key)).not.toBeNull();
+  });
+
+  it('should not revoke a key twice', async () => {
+    await revokeApiKey(keyId, restaurantId);
+
+    await expect(revokeApiKey(keyId, restaurantId)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { restaurantsTable, staffInvitationsTable } from '../db/schema';
+import { revokeInvitation } from '../handlers/revoke_invitation';
+import { eq } from 'drizzle-orm';
+
+describe('revokeInvitation', () => {
+  let restaurantId: number;
+  let invitationId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const invitations = await db.insert(staffInvitationsTable)
+      .values({
+        restaurant_id: restaurantId,
+        email: 'new.staff@example.com',
+        role: 'STAFF',
+        token_hash: 'hash',
+        invited_by: 1,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    invitationId = invitations[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should mark the invitation as revoked', async () => {
+    const result = await revokeInvitation(invitationId, restaurantId);
+
+    expect(result.status).toEqual('REVOKED');
+
+    const invitations = await db.select()
+      .from(staffInvitationsTable)
+      .where(eq(staffInvitationsTable.id, invitationId))
+      .execute();
+
+    expect(invitations[0].status).toEqual('REVOKED');
+  });
+
+  it('should not revoke invitations of another restaurant', async () => {
+    await expect(revokeInvitation(invitationId, restaurantId + 1)).rejects.toThrow(/not found/i);
+  });
+
+  it('should not revoke an accepted invitation', async () => {
+    await db.update(staffInvitationsTable)
+      .set({ status: 'ACCEPTED', accepted_at: new Date() })
+      .where(eq(staffInvitationsTable.id, invitationId))
+      .execute();
+
+    await expect(revokeInvitation(invitationId, restaurantId)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { permissionsTable, rolePermissionsTable } from '../db/schema';
+import { revokeRolePermission } from '../handlers/revoke_role_permission';
+
+describe('revokeRolePermission', () => {
+  let permissionId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const permissions = await db.insert(permissionsTable)
+      .values({ name: 'reports:read', resource: 'reports', action: 'read' })
+      .returning()
+      .execute();
+
+    permissionId = permissions[0].id;
+
+    await db.insert(rolePermissionsTable)
+      .values([
+        { role: 'STAFF', permission_id: permissionId },
+        { role: 'MANAGER', permission_id: permissionId }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should detach the permission from the role only', async () => {
+    await revokeRolePermission({ role: 'STAFF', permission_id: permissionId });
+
+    const mappings = await db.select().from(rolePermissionsTable).execute();
+    expect(mappings).toHaveLength(1);
+    expect(mappings[0].role).toEqual('MANAGER');
+  });
+
+  it('should throw when the role does not have the permission', async () => {
+    await expect(revokeRolePermission({ role: 'RESTAURANT_OWNER', permission_id: permissionId })).rejects.toThrow(/does not have permission/i);
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { revokeSession } from '../handlers/revoke_session';
+import { eq } from 'drizzle-orm';
+
+describe('revokeSession', () => {
+  let sessionId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe'
+      })
+      .returning()
+      .execute();
+
+    const sessions = await db.insert(sessionsTable)
+      .values({
+        user_id: users[0].id,
+        token_hash: 'hash',
+        expires_at: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    sessionId = sessions[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should mark the session as revoked', async () => {
+    const result = await revokeSession(sessionId);
+
+    expect(result.id).toEqual(sessionId);
+    expect(result.revoked_at).toBeInstanceOf(Date);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.id, sessionId))
+      .execute();
+
+    expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+  });
+
+  it('should throw when the session is already revoked', async () => {
+    await revokeSession(sessionId);
+
+    await expect(revokeSession(sessionId)).rejects.toThrow(/not found/i);
+  });
+
+  it('should throw for non-existent session', async () => {
+    await expect(revokeSession(99999)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,1623 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestContext } from '../helpers';
+import { startMockOidcIssuer, type MockOidcIssuer } from '../helpers/mock_oidc_issuer';
+import { db } from '../db';
+import { auditLogTable, customersTable, impersonationRequestsTable, loginAttemptsTable, permissionsTable, restaurantsTable, rolePermissionsTable, usersTable } from '../db/schema';
+import { type UserRole } from '../schema';
+import { appRouter } from '../router';
+import { createCallerFactory, createContext } from '../trpc';
+import { hashPassword } from '../lib/password';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+
+// Attach the given permission names to a role
+const grantRole = async (role: UserRole, names: string[]): Promise<void> => {
+  for (const name of names) {
+    const [resource, action] = name.split(':');
+    const existing = await db.select()
+      .from(permissionsTable)
+      .where(eq(permissionsTable.name, name))
+      .execute();
+
+    const permission = existing[0] ?? (await db.insert(permissionsTable)
+      .values({ name, resource, action })
+      .returning()
+      .execute())[0];
+
+    await db.insert(rolePermissionsTable)
+      .values({ role, permission_id: permission.id })
+      .execute();
+  }
+};
+
+describe('tenant isolation', () => {
+  let restaurant1Id: number;
+  let restaurant2Id: number;
+  let customer1Id: number;
+  let customer2Id: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurant1Id = restaurants[0].id;
+    restaurant2Id = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values([
+        { restaurant_id: restaurant1Id, first_name: 'Alice', last_name: 'One' },
+        { restaurant_id: restaurant2Id, first_name: 'Bob', last_name: 'Two' }
+      ])
+      .returning()
+      .execute();
+
+    customer1Id = customers[0].id;
+    customer2Id = customers[1].id;
+
+    await grantRole('MANAGER', ['customers:read', 'customers:write', 'staff:read', 'staff:write']);
+    await grantRole('SUPER_ADMIN', ['customers:read', 'customers:write']);
+  });
+
+  afterEach(resetDB);
+
+  const managerOf = async (restaurantId: number) => createCaller(await createTestContext({
+    email: `manager${restaurantId}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Manager',
+    last_name: 'User',
+    role: 'MANAGER',
+    restaurant_id: restaurantId
+  }));
+
+  const superAdmin = async () => createCaller(await createTestContext({
+    email: 'admin@example.com',
+    password_hash: 'irrelevant',
+    first_name: 'Super',
+    last_name: 'Admin',
+    role: 'SUPER_ADMIN'
+  }));
+
+  it('should keep customer searches within the caller restaurant', async () => {
+    const caller = await managerOf(restaurant1Id);
+
+    expect(await caller.getCustomersByRestaurant({ search: 'Bob' })).toEqual({ customers: [], total: 0, nextCursor: null });
+    expect((await caller.getCustomersByRestaurant({ search: 'ali' })).total).toEqual(1);
+  });
+
+  it('should keep fuzzy customer lookups within the caller restaurant', async () => {
+    const caller = await managerOf(restaurant1Id);
+
+    expect(await caller.searchCustomers({ query: 'Bob Two' })).toEqual([]);
+    expect((await caller.searchCustomers({ query: 'Alise' }))[0].customer.id).toEqual(customer1Id);
+    await expect(caller.searchCustomers({ query: 'Bob', restaurant_id: restaurant2Id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should scope customer reads to the caller restaurant', async () => {
+    const caller = await managerOf(restaurant1Id);
+
+    const { customers } = await caller.getCustomersByRestaurant({});
+    expect(customers).toHaveLength(1);
+    expect(customers[0].id).toEqual(customer1Id);
+
+    const customer = await caller.getCustomer({ customerId: customer1Id });
+    expect(customer).not.toBeNull();
+  });
+
+  it('should reject malformed cursors and oversized pages as bad requests', async () => {
+    const caller = await managerOf(restaurant1Id);
+
+    await expect(caller.getCustomersByRestaurant({ cursor: 'garbage' })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(caller.getCustomersByRestaurant({ limit: 1000 })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(caller.getStaffByRestaurant({ cursor: 'garbage' })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should reject explicit access to another restaurant', async () => {
+    const caller = await managerOf(restaurant1Id);
+
+    await expect(caller.getCustomersByRestaurant({ restaurant_id: restaurant2Id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getCustomer({ customerId: customer2Id, restaurantId: restaurant2Id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getStaffByRestaurant({ restaurant_id: restaurant2Id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not expose another restaurant customer by id', async () => {
+    const caller = await managerOf(restaurant1Id);
+
+    const customer = await caller.getCustomer({ customerId: customer2Id });
+    expect(customer).toBeNull();
+
+    await expect(caller.updateCustomer({ customer: { id: customer2Id, first_name: 'Hijacked' } }))
+      .rejects.toThrow(/not found/i);
+
+    const stored = await db.select()
+      .from(customersTable)
+      .where(eq(customersTable.id, customer2Id))
+      .execute();
+    expect(stored[0].first_name).toEqual('Bob');
+  });
+
+  it('should create customers in the caller restaurant only', async () => {
+    const caller = await managerOf(restaurant1Id);
+
+    const customer = await caller.createCustomer({ first_name: 'New', last_name: 'Guest' });
+    expect(customer.restaurant_id).toEqual(restaurant1Id);
+
+    await expect(caller.createCustomer({ restaurant_id: restaurant2Id, first_name: 'New', last_name: 'Guest' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not allow tenant users to grant SUPER_ADMIN', async () => {
+    const caller = await managerOf(restaurant1Id);
+
+    await expect(caller.createUser({
+      email: 'escalate@example.com',
+      password: 'password123',
+      first_name: 'Escalate',
+      last_name: 'User',
+      role: 'SUPER_ADMIN'
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not allow managers to assign a role above their own', async () => {
+    const caller = await managerOf(restaurant1Id);
+    const managers = await db.select().from(usersTable).where(eq(usersTable.role, 'MANAGER')).execute();
+
+    await expect(caller.createUser({
+      email: 'owner@example.com',
+      password: 'password123',
+      first_name: 'New',
+      last_name: 'Owner',
+      role: 'RESTAURANT_OWNER'
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateUser({ id: managers[0].id, role: 'RESTAURANT_OWNER' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const staff = await caller.createUser({
+      email: 'staff@example.com',
+      password: 'password123',
+      first_name: 'New',
+      last_name: 'Staff',
+      role: 'STAFF'
+    });
+    expect(staff.role).toEqual('STAFF');
+  });
+
+  it('should not allow managers to edit an owner of their restaurant', async () => {
+    const caller = await managerOf(restaurant1Id);
+    const owners = await db.insert(usersTable)
+      .values({
+        email: 'owner@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'Restaurant',
+        last_name: 'Owner',
+        role: 'RESTAURANT_OWNER',
+        restaurant_id: restaurant1Id
+      })
+      .returning()
+      .execute();
+
+    await expect(caller.updateUser({ id: owners[0].id, email: 'manager-inbox@example.com' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not allow tenant users to detach staff from the restaurant', async () => {
+    const caller = await managerOf(restaurant1Id);
+    const staff = await db.insert(usersTable)
+      .values({
+        email: 'staff@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'Some',
+        last_name: 'Staff',
+        restaurant_id: restaurant1Id
+      })
+      .returning()
+      .execute();
+
+    const updated = await caller.updateUser({ id: staff[0].id, restaurant_id: null, first_name: 'Renamed' });
+
+    expect(updated.first_name).toEqual('Renamed');
+    expect(updated.restaurant_id).toEqual(restaurant1Id);
+  });
+
+  it('should not allow tenant users to update staff of another restaurant', async () => {
+    const caller = await managerOf(restaurant1Id);
+
+    const others = await db.insert(usersTable)
+      .values({
+        email: 'other@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'Other',
+        last_name: 'Staff',
+        restaurant_id: restaurant2Id
+      })
+      .returning()
+      .execute();
+
+    await expect(caller.updateUser({ id: others[0].id, first_name: 'Hijacked' }))
+      .rejects.toThrow(/not found/i);
+    await expect(caller.updateUser({ id: others[0].id, restaurant_id: restaurant2Id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should let super admins act on an explicit restaurant', async () => {
+    const caller = await superAdmin();
+
+    const customer = await caller.getCustomer({ customerId: customer2Id, restaurantId: restaurant2Id });
+    expect(customer).not.toBeNull();
+    expect(customer!.restaurant_id).toEqual(restaurant2Id);
+  });
+
+  it('should require super admins to name a restaurant', async () => {
+    const caller = await superAdmin();
+
+    await expect(caller.getCustomersByRestaurant({}))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
+
+describe('login throttling', () => {
+  let restaurantId: number;
+  let lockedUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Restaurant 1', email: 'r1@example.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'locked@example.com',
+        password_hash: await hashPassword('password123'),
+        first_name: 'Locked',
+        last_name: 'User',
+        role: 'STAFF',
+        restaurant_id: restaurantId,
+        locked_until: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    lockedUserId = users[0].id;
+
+    await grantRole('RESTAURANT_OWNER', ['staff:write']);
+    await grantRole('MANAGER', ['staff:write']);
+  });
+
+  afterEach(resetDB);
+
+  const callerWithRole = async (role: UserRole) => createCaller(await createTestContext({
+    email: `${role.toLowerCase()}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: restaurantId
+  }));
+
+  it('should answer locked logins with TOO_MANY_REQUESTS', async () => {
+    const caller = createCaller(await createContext({
+      req: { headers: { 'user-agent': 'TestAgent/1.0' } }
+    } as CreateHTTPContextOptions));
+
+    await expect(caller.login({ email: 'locked@example.com', password: 'password123' }))
+      .rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts[0].failure_reason).toEqual('ACCOUNT_LOCKED');
+    expect(attempts[0].user_agent).toEqual('TestAgent/1.0');
+  });
+
+  it('should let owners unlock their staff', async () => {
+    const caller = await callerWithRole('RESTAURANT_OWNER');
+
+    const result = await caller.unlockUser({ userId: lockedUserId });
+    expect(result).not.toHaveProperty('locked_until');
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, lockedUserId)).execute();
+    expect(users[0].locked_until).toBeNull();
+  });
+
+  it('should not let managers unlock accounts', async () => {
+    const caller = await callerWithRole('MANAGER');
+
+    await expect(caller.unlockUser({ userId: lockedUserId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should show users their own login history only', async () => {
+    await db.insert(loginAttemptsTable)
+      .values({ user_id: lockedUserId, email: 'locked@example.com', success: false, failure_reason: 'INVALID_CREDENTIALS' })
+      .execute();
+
+    const caller = await callerWithRole('STAFF');
+
+    expect(await caller.getLoginHistory()).toHaveLength(0);
+  });
+});
+
+describe('audit log', () => {
+  let restaurant1Id: number;
+  let restaurant2Id: number;
+  let customerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurant1Id = restaurants[0].id;
+    restaurant2Id = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurant1Id, first_name: 'Alice', last_name: 'One', notes: 'Regular' })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    await grantRole('MANAGER', ['customers:write']);
+    await grantRole('RESTAURANT_OWNER', ['customers:write']);
+  });
+
+  afterEach(resetDB);
+
+  const callerFor = async (role: UserRole, restaurantId: number | null) => createCaller(await createTestContext({
+    email: `${role.toLowerCase()}${restaurantId}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: restaurantId
+  }));
+
+  it('should record who changed a customer and how', async () => {
+    const manager = await callerFor('MANAGER', restaurant1Id);
+
+    await manager.updateCustomer({ customer: { id: customerId, notes: 'VIP' } });
+
+    const entries = await db.select().from(auditLogTable).execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entity_type).toEqual('CUSTOMER');
+    expect(entries[0].entity_id).toEqual(customerId);
+    expect(entries[0].restaurant_id).toEqual(restaurant1Id);
+    expect(entries[0].action).toEqual('UPDATE');
+    expect(entries[0].changes).toEqual({ notes: { from: 'Regular', to: 'VIP' } });
+  });
+
+  it('should not record rejected mutations', async () => {
+    const manager = await callerFor('MANAGER', restaurant2Id);
+
+    await expect(manager.updateCustomer({ customer: { id: customerId, notes: 'VIP' } })).rejects.toThrow();
+
+    const entries = await db.select().from(auditLogTable).execute();
+    expect(entries).toHaveLength(0);
+  });
+
+  it('should let owners read their own restaurant log only', async () => {
+    await (await callerFor('MANAGER', restaurant1Id)).updateCustomer({ customer: { id: customerId, notes: 'VIP' } });
+    await (await callerFor('MANAGER', restaurant2Id)).createCustomer({ first_name: 'Bob', last_name: 'Two' });
+
+    const owner = await callerFor('RESTAURANT_OWNER', restaurant1Id);
+    const { entries } = await owner.getAuditLog({});
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entity_id).toEqual(customerId);
+
+    await expect(owner.getAuditLog({ restaurant_id: restaurant2Id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should let super admins read across tenants', async () => {
+    await (await callerFor('MANAGER', restaurant1Id)).updateCustomer({ customer: { id: customerId, notes: 'VIP' } });
+    await (await callerFor('MANAGER', restaurant2Id)).createCustomer({ first_name: 'Bob', last_name: 'Two' });
+
+    const admin = await callerFor('SUPER_ADMIN', null);
+
+    expect((await admin.getAuditLog({})).entries).toHaveLength(2);
+    expect((await admin.getAuditLog({ restaurant_id: restaurant2Id })).entries).toHaveLength(1);
+  });
+
+  it('should hide the log from managers', async () => {
+    const manager = await callerFor('MANAGER', restaurant1Id);
+
+    await expect(manager.getAuditLog({})).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+describe('visits', () => {
+  let restaurant1Id: number;
+  let restaurant2Id: number;
+  let customerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurant1Id = restaurants[0].id;
+    restaurant2Id = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurant1Id, first_name: 'Alice', last_name: 'One' })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    await grantRole('STAFF', ['customers:read', 'customers:write']);
+  });
+
+  afterEach(resetDB);
+
+  const staffOf = async (restaurantId: number) => createCaller(await createTestContext({
+    email: `staff${restaurantId}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Staff',
+    last_name: 'User',
+    role: 'STAFF',
+    restaurant_id: restaurantId
+  }));
+
+  it('should record, correct and void visits with an audit trail', async () => {
+    const staff = await staffOf(restaurant1Id);
+
+    const visit = await staff.recordVisit({ customer_id: customerId, party_size: 2, spend: 54 });
+    await staff.updateVisit({ visit: { id: visit.id, spend: 58.5 } });
+    await staff.voidVisit({ id: visit.id, reason: 'Recorded on the wrong customer' });
+
+    const { visits } = await staff.getCustomerVisits({ customer_id: customerId, include_voided: true });
+    expect(visits).toHaveLength(1);
+    expect(visits[0].spend).toEqual(58.5);
+    expect(visits[0].voided_by).toEqual(visit.recorded_by);
+
+    const entries = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.entity_type, 'VISIT'))
+      .orderBy(auditLogTable.id)
+      .execute();
+
+    expect(entries.map(entry => entry.action)).toEqual(['CREATE', 'UPDATE', 'UPDATE']);
+    expect(entries.every(entry => entry.restaurant_id === restaurant1Id)).toBe(true);
+    expect(entries[1].changes).toEqual({ spend: { from: 54, to: 58.5 } });
+  });
+
+  it('should keep visits within the caller restaurant', async () => {
+    const visit = await (await staffOf(restaurant1Id)).recordVisit({ customer_id: customerId });
+    const outsider = await staffOf(restaurant2Id);
+
+    await expect(outsider.recordVisit({ customer_id: customerId })).rejects.toThrow(/not found/i);
+    await expect(outsider.getCustomerVisits({ customer_id: customerId })).rejects.toThrow(/not found/i);
+    await expect(outsider.voidVisit({ id: visit.id, reason: 'Not ours' })).rejects.toThrow(/not found/i);
+    await expect(outsider.recordVisit({ customer_id: customerId, restaurant_id: restaurant1Id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+describe('loyalty points', () => {
+  let restaurantId: number;
+  let customerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Restaurant 1', email: 'r1@example.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'One' })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    await grantRole('RESTAURANT_OWNER', ['settings:read', 'settings:write', 'customers:read', 'customers:write']);
+    await grantRole('STAFF', ['customers:read']);
+  });
+
+  afterEach(resetDB);
+
+  const callerFor = async (role: UserRole) => createCaller(await createTestContext({
+    email: `${role.toLowerCase()}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: restaurantId
+  }));
+
+  it('should earn on visits and move balances only through the ledger', async () => {
+    const owner = await callerFor('RESTAURANT_OWNER');
+
+    await owner.configureLoyaltyRules({ points_per_currency_unit: 1, points_per_visit: 5 });
+    await owner.recordVisit({ customer_id: customerId, spend: 40 });
+    await owner.redeemLoyaltyPoints({ customer_id: customerId, points: 25, reason: 'Free dessert' });
+
+    // Balances cannot be set directly any more
+    await owner.updateCustomer({ customer: { id: customerId, loyalty_points: 1000 } as { id: number } });
+
+    const customer = await owner.getCustomer({ customerId });
+    expect(customer!.loyalty_points).toEqual(20);
+
+    const { entries } = await owner.getLoyaltyLedger({ customer_id: customerId });
+    expect(entries.map(entry => [entry.type, entry.points])).toEqual([['REDEEM', -25], ['EARN', 45]]);
+
+    const audit = await db.select().from(auditLogTable).where(eq(auditLogTable.entity_type, 'LOYALTY_RULES')).execute();
+    expect(audit).toHaveLength(1);
+  });
+
+  it('should keep read-only staff from moving points', async () => {
+    const staff = await callerFor('STAFF');
+
+    await expect(staff.adjustLoyaltyPoints({ customer_id: customerId, points: 100, reason: 'Friend' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect((await staff.getLoyaltyLedger({ customer_id: customerId })).entries).toEqual([]);
+  });
+});
+
+describe('customer import and export', () => {
+  let restaurant1Id: number;
+  let restaurant2Id: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurant1Id = restaurants[0].id;
+    restaurant2Id = restaurants[1].id;
+
+    await grantRole('MANAGER', ['customers:read', 'customers:write']);
+    await grantRole('STAFF', ['customers:read']);
+  });
+
+  afterEach(resetDB);
+
+  const callerFor = async (role: UserRole) => createCaller(await createTestContext({
+    email: `${role.toLowerCase()}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: restaurant1Id
+  }));
+
+  const csv = 'First Name,Last Name,Email\nAlice,One,alice@example.com\n';
+  const mapping = { first_name: 'First Name', last_name: 'Last Name', email: 'Email' };
+
+  it('should only import into the caller restaurant', async () => {
+    const manager = await callerFor('MANAGER');
+
+    await expect(manager.importCustomers({ csv, mapping, restaurant_id: restaurant2Id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const report = await manager.importCustomers({ csv, mapping });
+    expect(report.imported).toEqual(1);
+
+    const customers = await db.select().from(customersTable).execute();
+    expect(customers.map(customer => customer.restaurant_id)).toEqual([restaurant1Id]);
+
+    const audit = await db.select().from(auditLogTable).where(eq(auditLogTable.entity_type, 'CUSTOMER')).execute();
+    expect(audit[0].actor_id).not.toBeNull();
+  });
+
+  it('should keep read-only staff from importing, even on a dry run', async () => {
+    const staff = await callerFor('STAFF');
+
+    await expect(staff.importCustomers({ csv, mapping, dry_run: true }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should stream exports of the caller restaurant only', async () => {
+    await db.insert(customersTable)
+      .values([
+        { restaurant_id: restaurant1Id, first_name: 'Alice', last_name: 'One' },
+        { restaurant_id: restaurant2Id, first_name: 'Bob', last_name: 'Two' }
+      ])
+      .execute();
+
+    const staff = await callerFor('STAFF');
+    const chunks: string[] = [];
+    for await (const chunk of await staff.exportCustomers({ format: 'CSV', columns: ['first_name'] })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.join('')).toEqual('first_name\r\nAlice\r\n');
+    await expect(staff.exportCustomers({ format: 'CSV', restaurant_id: restaurant2Id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+describe('duplicate customers', () => {
+  let restaurant1Id: number;
+  let restaurant2Id: number;
+  let customerIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurant1Id = restaurants[0].id;
+    restaurant2Id = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values([
+        { restaurant_id: restaurant1Id, first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com' },
+        { restaurant_id: restaurant1Id, first_name: 'Alice', last_name: 'Martin', email: 'ALICE@example.com' },
+        { restaurant_id: restaurant2Id, first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    customerIds = customers.map(customer => customer.id);
+
+    await grantRole('MANAGER', ['customers:read', 'customers:write', 'customers:delete']);
+    await grantRole('STAFF', ['customers:read', 'customers:write']);
+  });
+
+  afterEach(resetDB);
+
+  const callerFor = async (role: UserRole) => createCaller(await createTestContext({
+    email: `${role.toLowerCase()}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: restaurant1Id
+  }));
+
+  it('should scan and list duplicates of the caller restaurant only', async () => {
+    const staff = await callerFor('STAFF');
+
+    const scan = await staff.findDuplicateCustomers();
+    expect(scan).toEqual({ customers: 2, candidates: 1 });
+
+    const candidates = await staff.getDuplicateCandidates({});
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].customer.id).toEqual(customerIds[0]);
+    expect(candidates[0].duplicate.id).toEqual(customerIds[1]);
+
+    await expect(staff.findDuplicateCustomers(restaurant2Id))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should leave merging to callers who may delete customers', async () => {
+    const staff = await callerFor('STAFF');
+
+    await expect(staff.mergeCustomers({ survivor_id: customerIds[0], merged_id: customerIds[1] }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should merge, audit and undo', async () => {
+    const manager = await callerFor('MANAGER');
+
+    await expect(manager.mergeCustomers({ survivor_id: customerIds[0], merged_id: customerIds[2] }))
+      .rejects.toThrow('Customer not found or does not belong to this restaurant');
+
+    const merge = await manager.mergeCustomers({ survivor_id: customerIds[0], merged_id: customerIds[1] });
+    await manager.undoCustomerMerge({ mergeId: merge.id });
+
+    const audit = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.entity_type, 'CUSTOMER_MERGE'))
+      .orderBy(auditLogTable.id)
+      .execute();
+    expect(audit.map(entry => [entry.action, entry.entity_id])).toEqual([['CREATE', merge.id], ['UPDATE', merge.id]]);
+
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, customerIds[1])).execute();
+    expect(customers[0].is_active).toBe(true);
+    expect(customers[0].merged_into_id).toBeNull();
+  });
+});
+
+describe('loyalty tiers', () => {
+  let restaurantId: number;
+  let customerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Restaurant 1', email: 'r1@example.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'One', total_visits: 12 })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    await grantRole('RESTAURANT_OWNER', ['settings:write', 'customers:read', 'customers:write']);
+    await grantRole('STAFF', ['customers:read']);
+  });
+
+  afterEach(resetDB);
+
+  const callerFor = async (role: UserRole) => createCaller(await createTestContext({
+    email: `${role.toLowerCase()}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: restaurantId
+  }));
+
+  it('should show the tier from the nightly evaluation on the customer', async () => {
+    const owner = await callerFor('RESTAURANT_OWNER');
+    const staff = await callerFor('STAFF');
+
+    await owner.createLoyaltyTier({ name: 'Silver', rank: 1, min_total_visits: 5 });
+    const gold = await owner.createLoyaltyTier({ name: 'Gold', rank: 2, min_total_visits: 10, perks: ['Free coffee'] });
+
+    expect(await owner.evaluateLoyaltyTiers()).toEqual({ customers: 1, promoted: 1, demoted: 0 });
+
+    const customer = await staff.getCustomer({ customerId });
+    expect(customer!.loyalty_tier).toEqual({ id: gold.id, name: 'Gold', rank: 2, perks: ['Free coffee'] });
+
+    const history = await staff.getLoyaltyTierHistory({ customerId });
+    expect(history.map(change => change.to_tier_id)).toEqual([gold.id]);
+
+    const audit = await db.select().from(auditLogTable).where(eq(auditLogTable.entity_type, 'LOYALTY_TIER')).execute();
+    expect(audit).toHaveLength(2);
+  });
+
+  it('should keep read-only staff from defining tiers or running the evaluation', async () => {
+    const staff = await callerFor('STAFF');
+
+    await expect(staff.createLoyaltyTier({ name: 'Friends', rank: 9 }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(staff.evaluateLoyaltyTiers())
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(await staff.getLoyaltyTiers()).toEqual([]);
+  });
+});
+
+describe('rewards', () => {
+  let restaurant1Id: number;
+  let restaurant2Id: number;
+  let customerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurant1Id = restaurants[0].id;
+    restaurant2Id = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurant1Id, first_name: 'Alice', last_name: 'One', loyalty_points: 300 })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    await grantRole('RESTAURANT_OWNER', ['settings:write', 'customers:read', 'customers:write']);
+    await grantRole('STAFF', ['customers:read']);
+  });
+
+  afterEach(resetDB);
+
+  const callerFor = async (role: UserRole, restaurantId: number) => createCaller(await createTestContext({
+    email: `${role.toLowerCase()}${restaurantId}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: restaurantId
+  }));
+
+  it('should redeem a reward and accept its code once', async () => {
+    const owner = await callerFor('RESTAURANT_OWNER', restaurant1Id);
+
+    const dessert = await owner.createReward({ name: 'Free dessert', points_cost: 100 });
+    await owner.createReward({ name: '10% off', points_cost: 250, per_customer_limit: 1 });
+
+    const catalogue = await owner.getRewards({ available_only: true });
+    expect(catalogue.map(reward => reward.name)).toEqual(['Free dessert', '10% off']);
+
+    const redemption = await owner.redeemReward({ customer_id: customerId, reward_id: dessert.id });
+
+    const checked = await owner.getRedemptionByCode({ code: redemption.code.toLowerCase() });
+    expect(checked!.reward_name).toEqual('Free dessert');
+    expect(checked!.status).toEqual('ISSUED');
+
+    await owner.useRedemptionCode({ code: redemption.code });
+    await expect(owner.useRedemptionCode({ code: redemption.code }))
+      .rejects.toThrow('Redemption code has already been used');
+
+    const customer = await owner.getCustomer({ customerId });
+    expect(customer!.loyalty_points).toEqual(200);
+
+    const audit = await db.select().from(auditLogTable).where(eq(auditLogTable.entity_type, 'REWARD_REDEMPTION')).execute();
+    expect(audit.map(entry => entry.action)).toEqual(['CREATE', 'UPDATE']);
+  });
+
+  it('should keep redemption codes within the caller restaurant', async () => {
+    const owner1 = await callerFor('RESTAURANT_OWNER', restaurant1Id);
+    const owner2 = await callerFor('RESTAURANT_OWNER', restaurant2Id);
+
+    const dessert = await owner1.createReward({ name: 'Free dessert', points_cost: 100 });
+    const redemption = await owner1.redeemReward({ customer_id: customerId, reward_id: dessert.id });
+
+    expect(await owner2.getRedemptionByCode({ code: redemption.code })).toBeNull();
+    await expect(owner2.voidRedemption({ code: redemption.code, reason: 'Mine now' }))
+      .rejects.toThrow('Unknown redemption code');
+    await expect(owner2.redeemReward({ customer_id: customerId, reward_id: dessert.id }))
+      .rejects.toThrow(`Reward with id ${dessert.id} not found`);
+  });
+
+  it('should let read-only staff check codes but not redeem or accept them', async () => {
+    const owner = await callerFor('RESTAURANT_OWNER', restaurant1Id);
+    const staff = await callerFor('STAFF', restaurant1Id);
+
+    const dessert = await owner.createReward({ name: 'Free dessert', points_cost: 100 });
+    const redemption = await owner.redeemReward({ customer_id: customerId, reward_id: dessert.id });
+
+    expect((await staff.getRedemptionByCode({ code: redemption.code }))!.status).toEqual('ISSUED');
+    await expect(staff.useRedemptionCode({ code: redemption.code }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(staff.redeemReward({ customer_id: customerId, reward_id: dessert.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(staff.createReward({ name: 'Free wine', points_cost: 1 }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+describe('custom roles', () => {
+  let restaurant1Id: number;
+  let restaurant2Id: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurant1Id = restaurants[0].id;
+    restaurant2Id = restaurants[1].id;
+
+    await grantRole('MANAGER', ['staff:read', 'staff:write', 'customers:read']);
+    await grantRole('STAFF', ['customers:read', 'customers:write']);
+    await grantRole('RESTAURANT_OWNER', ['settings:write']);
+  });
+
+  afterEach(resetDB);
+
+  const managerOf = async (restaurantId: number) => createCaller(await createTestContext({
+    email: `manager${restaurantId}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'Manager',
+    role: 'MANAGER',
+    restaurant_id: restaurantId
+  }));
+
+  const createStaff = async (restaurantId: number) => {
+    const users = await db.insert(usersTable)
+      .values({
+        email: `staff${restaurantId}@example.com`,
+        password_hash: 'irrelevant',
+        first_name: 'Test',
+        last_name: 'Staff',
+        role: 'STAFF',
+        restaurant_id: restaurantId
+      })
+      .returning()
+      .execute();
+
+    return users[0];
+  };
+
+  it('should grant the permissions of an assigned role instead of the built-in ones', async () => {
+    const manager = await managerOf(restaurant1Id);
+    const role = await manager.createCustomRole({ name: 'Host', permissions: ['customers:read'] });
+    const staff = await createStaff(restaurant1Id);
+
+    await manager.assignCustomRole({ user_id: staff.id, custom_role_id: role.id });
+
+    const host = createCaller(await createTestContext({
+      email: 'host@example.com',
+      password_hash: 'irrelevant',
+      first_name: 'Hannah',
+      last_name: 'Host',
+      role: 'STAFF',
+      restaurant_id: restaurant1Id,
+      custom_role_id: role.id
+    }));
+
+    expect(await host.getCustomersByRestaurant({})).toEqual({ customers: [], total: 0, nextCursor: null });
+    await expect(host.createCustomer({ first_name: 'Bob', last_name: 'Guest' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not let callers grant permissions they do not hold', async () => {
+    const manager = await managerOf(restaurant1Id);
+
+    await expect(manager.createCustomRole({ name: 'Admin', permissions: ['settings:write'] }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(manager.createCustomRole({ name: 'Owner copy', template_role: 'RESTAURANT_OWNER' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const role = await manager.createCustomRole({ name: 'Host', permissions: ['customers:read'] });
+
+    await expect(manager.updateCustomRole({ id: role.id, permissions: ['customers:write'] }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not let callers assign roles with permissions they do not hold', async () => {
+    const manager = await managerOf(restaurant1Id);
+    const staff = await createStaff(restaurant1Id);
+    await grantRole('SUPER_ADMIN', ['staff:write']);
+
+    const admin = createCaller(await createTestContext({
+      email: 'admin@example.com',
+      password_hash: 'irrelevant',
+      first_name: 'Super',
+      last_name: 'Admin',
+      role: 'SUPER_ADMIN',
+      restaurant_id: null
+    }));
+
+    const role = await admin.createCustomRole({ restaurant_id: restaurant1Id, name: 'Owner copy', permissions: ['settings:write'] });
+
+    await expect(manager.assignCustomRole({ user_id: staff.id, custom_role_id: role.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should keep roles scoped to their restaurant', async () => {
+    const role = await (await managerOf(restaurant1Id)).createCustomRole({ name: 'Host' });
+    const otherManager = await managerOf(restaurant2Id);
+
+    expect(await otherManager.getCustomRoles()).toEqual([]);
+    await expect(otherManager.deleteCustomRole({ roleId: role.id })).rejects.toThrow(/not found/i);
+  });
+
+  it('should not let callers lift a custom role from themselves or act on someone above them', async () => {
+    const manager = await managerOf(restaurant1Id);
+    const role = await manager.createCustomRole({ name: 'Scheduler', permissions: ['staff:read', 'staff:write'] });
+
+    const limitedContext = await createTestContext({
+      email: 'limited@example.com',
+      password_hash: 'irrelevant',
+      first_name: 'Limited',
+      last_name: 'Manager',
+      role: 'MANAGER',
+      restaurant_id: restaurant1Id,
+      custom_role_id: role.id
+    });
+    await expect(createCaller(limitedContext).assignCustomRole({ user_id: limitedContext.user!.id, custom_role_id: null }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const owners = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'irrelevant', first_name: 'Olga', last_name: 'Owner', role: 'RESTAURANT_OWNER', restaurant_id: restaurant1Id })
+      .returning()
+      .execute();
+    await expect(manager.assignCustomRole({ user_id: owners[0].id, custom_role_id: role.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should only give staff their built-in permissions back when the caller holds them', async () => {
+    const manager = await managerOf(restaurant1Id);
+    const staff = await createStaff(restaurant1Id);
+    const role = await manager.createCustomRole({ name: 'Host', permissions: ['customers:read'] });
+    await manager.assignCustomRole({ user_id: staff.id, custom_role_id: role.id });
+
+    // STAFF may write customers, which the manager cannot
+    await expect(manager.assignCustomRole({ user_id: staff.id, custom_role_id: null }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(manager.deleteCustomRole({ roleId: role.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should audit role changes and assignments', async () => {
+    const manager = await managerOf(restaurant1Id);
+    const staff = await createStaff(restaurant1Id);
+    await grantRole('MANAGER', ['customers:write']);
+
+    const role = await manager.createCustomRole({ name: 'Host' });
+    await manager.updateCustomRole({ id: role.id, permissions: ['customers:read'] });
+    await manager.assignCustomRole({ user_id: staff.id, custom_role_id: role.id });
+    await manager.deleteCustomRole({ roleId: role.id });
+
+    const entries = await db.select().from(auditLogTable).orderBy(auditLogTable.id).execute();
+
+    expect(entries.map(entry => [entry.entity_type, entry.action])).toEqual([
+      ['CUSTOM_ROLE', 'CREATE'],
+      ['CUSTOM_ROLE', 'UPDATE'],
+      ['USER', 'UPDATE'],
+      ['CUSTOM_ROLE', 'DELETE']
+    ]);
+    expect(entries[1].changes).toEqual({ permissions: { from: [], to: ['customers:read'] } });
+    expect(entries[2].changes).toEqual({ custom_role_id: { from: null, to: role.id } });
+    expect(entries.every(entry => entry.restaurant_id === restaurant1Id)).toBe(true);
+  });
+});
+
+describe('permission overrides', () => {
+  let restaurant1Id: number;
+  let restaurant2Id: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurant1Id = restaurants[0].id;
+    restaurant2Id = restaurants[1].id;
+
+    await grantRole('MANAGER', ['staff:read', 'staff:write', 'customers:read', 'customers:write']);
+    await grantRole('STAFF', ['customers:read']);
+  });
+
+  afterEach(resetDB);
+
+  const contextFor = async (role: UserRole, restaurantId: number, name: string = role.toLowerCase()) => createTestContext({
+    email: `${name}${restaurantId}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: restaurantId
+  });
+
+  it('should let a single staff member write customers', async () => {
+    const manager = createCaller(await contextFor('MANAGER', restaurant1Id));
+    const staffContext = await contextFor('STAFF', restaurant1Id);
+
+    await manager.setUserPermissionOverride({ user_id: staffContext.user!.id, permission: 'customers:write', effect: 'GRANT' });
+
+    // Permissions are loaded on first use, so this request already sees the grant
+    const staff = createCaller(staffContext);
+    const customer = await staff.createCustomer({ first_name: 'Bob', last_name: 'Guest' });
+
+    expect(customer.restaurant_id).toEqual(restaurant1Id);
+  });
+
+  it('should deny a permission the role grants', async () => {
+    const manager = createCaller(await contextFor('MANAGER', restaurant1Id));
+    const otherManagerContext = await contextFor('MANAGER', restaurant1Id, 'reporter');
+
+    await manager.setUserPermissionOverride({ user_id: otherManagerContext.user!.id, permission: 'customers:read', effect: 'DENY' });
+
+    const effective = await manager.getEffectivePermissions(otherManagerContext.user!.id);
+    expect(effective.permissions).toEqual(['customers:write', 'staff:read', 'staff:write']);
+  });
+
+  it('should not let callers grant permissions they do not hold', async () => {
+    await grantRole('RESTAURANT_OWNER', ['billing:write']);
+    const manager = createCaller(await contextFor('MANAGER', restaurant1Id));
+    const staffContext = await contextFor('STAFF', restaurant1Id);
+
+    await expect(manager.setUserPermissionOverride({ user_id: staffContext.user!.id, permission: 'billing:write', effect: 'GRANT' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not let callers change their own overrides', async () => {
+    const managerContext = await contextFor('MANAGER', restaurant1Id);
+    const otherManager = createCaller(await contextFor('MANAGER', restaurant1Id, 'other'));
+    const denial = await otherManager.setUserPermissionOverride({ user_id: managerContext.user!.id, permission: 'customers:write', effect: 'DENY' });
+
+    const manager = createCaller(managerContext);
+    await expect(manager.removeUserPermissionOverride({ overrideId: denial.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(manager.setUserPermissionOverride({ user_id: managerContext.user!.id, permission: 'customers:write', effect: 'GRANT' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(manager.setUserPermissionOverride({ user_id: managerContext.user!.id, permission: 'staff:write', effect: 'DENY' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not let callers change overrides of someone above them', async () => {
+    await grantRole('STAFF', ['staff:write']);
+    const managerContext = await contextFor('MANAGER', restaurant1Id);
+    const otherManager = createCaller(await contextFor('MANAGER', restaurant1Id, 'other'));
+    const denial = await otherManager.setUserPermissionOverride({ user_id: managerContext.user!.id, permission: 'customers:read', effect: 'DENY' });
+
+    const staff = createCaller(await contextFor('STAFF', restaurant1Id));
+    await expect(staff.setUserPermissionOverride({ user_id: managerContext.user!.id, permission: 'customers:read', effect: 'DENY' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(staff.removeUserPermissionOverride({ overrideId: denial.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should only let callers lift denials of permissions they hold', async () => {
+    await grantRole('RESTAURANT_OWNER', ['billing:write', 'staff:write']);
+    const owner = createCaller(await contextFor('RESTAURANT_OWNER', restaurant1Id));
+    const manager = createCaller(await contextFor('MANAGER', restaurant1Id));
+    const staffContext = await contextFor('STAFF', restaurant1Id);
+    const userId = staffContext.user!.id;
+
+    const denial = await owner.setUserPermissionOverride({ user_id: userId, permission: 'billing:write', effect: 'DENY' });
+
+    await expect(manager.removeUserPermissionOverride({ overrideId: denial.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(manager.setUserPermissionOverride({ user_id: userId, permission: 'billing:write', effect: 'DENY', expires_at: new Date(Date.now() + 60000) }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    // Denials of permissions the manager holds are theirs to lift
+    const customerDenial = await owner.setUserPermissionOverride({ user_id: userId, permission: 'customers:write', effect: 'DENY' });
+    await manager.removeUserPermissionOverride({ overrideId: customerDenial.id });
+  });
+
+  it('should not reveal overrides of another restaurant', async () => {
+    const manager = createCaller(await contextFor('MANAGER', restaurant1Id));
+    const foreignManager = createCaller(await contextFor('MANAGER', restaurant2Id));
+    const foreignStaff = await contextFor('STAFF', restaurant2Id);
+    const denial = await foreignManager.setUserPermissionOverride({ user_id: foreignStaff.user!.id, permission: 'customers:read', effect: 'DENY' });
+
+    await expect(manager.removeUserPermissionOverride({ overrideId: denial.id }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should let everyone read their own effective permissions only', async () => {
+    const staff = createCaller(await contextFor('STAFF', restaurant1Id));
+    const managerContext = await contextFor('MANAGER', restaurant1Id);
+
+    expect((await staff.getEffectivePermissions()).permissions).toEqual(['customers:read']);
+    await expect(staff.getEffectivePermissions(managerContext.user!.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should keep overrides scoped to the restaurant', async () => {
+    const manager = createCaller(await contextFor('MANAGER', restaurant1Id));
+    const foreignStaff = await contextFor('STAFF', restaurant2Id);
+
+    await expect(manager.setUserPermissionOverride({ user_id: foreignStaff.user!.id, permission: 'customers:read', effect: 'DENY' }))
+      .rejects.toThrow(/not found/i);
+    await expect(manager.getEffectivePermissions(foreignStaff.user!.id)).rejects.toThrow(/not found/i);
+  });
+
+  it('should audit overrides under the user restaurant', async () => {
+    const manager = createCaller(await contextFor('MANAGER', restaurant1Id));
+    const staffContext = await contextFor('STAFF', restaurant1Id);
+
+    const override = await manager.setUserPermissionOverride({ user_id: staffContext.user!.id, permission: 'customers:write', effect: 'GRANT' });
+    await manager.setUserPermissionOverride({ user_id: staffContext.user!.id, permission: 'customers:write', effect: 'DENY' });
+    await manager.removeUserPermissionOverride({ overrideId: override.id });
+
+    const entries = await db.select().from(auditLogTable).orderBy(auditLogTable.id).execute();
+
+    expect(entries.map(entry => entry.action)).toEqual(['CREATE', 'UPDATE', 'DELETE']);
+    expect(entries.every(entry => entry.entity_type === 'PERMISSION_OVERRIDE' && entry.entity_id === override.id)).toBe(true);
+    expect(entries.every(entry => entry.restaurant_id === restaurant1Id)).toBe(true);
+    expect(entries[1].changes).toEqual({ effect: { from: 'GRANT', to: 'DENY' } });
+  });
+});
+
+describe('role permission matrix', () => {
+  let permissionId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const permissions = await db.insert(permissionsTable)
+      .values({ name: 'reports:read', resource: 'reports', action: 'read' })
+      .returning()
+      .execute();
+
+    permissionId = permissions[0].id;
+
+    await grantRole('MANAGER', ['staff:write']);
+  });
+
+  afterEach(resetDB);
+
+  const callerFor = async (role: UserRole) => createCaller(await createTestContext({
+    email: `${role.toLowerCase()}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: null
+  }));
+
+  it('should let super admins grant and revoke role permissions with an audit trail', async () => {
+    const admin = await callerFor('SUPER_ADMIN');
+
+    const mapping = await admin.grantRolePermission({ role: 'STAFF', permission_id: permissionId });
+    await admin.revokeRolePermission({ role: 'STAFF', permission_id: permissionId });
+
+    const entries = await db.select().from(auditLogTable).orderBy(auditLogTable.id).execute();
+
+    expect(entries.map(entry => [entry.entity_type, entry.action, entry.entity_id])).toEqual([
+      ['ROLE_PERMISSION', 'CREATE', mapping.id],
+      ['ROLE_PERMISSION', 'DELETE', mapping.id]
+    ]);
+    expect(entries[1].changes).toMatchObject({ role: { from: 'STAFF', to: null }, permission_id: { from: permissionId, to: null } });
+    expect(entries.every(entry => entry.restaurant_id === null)).toBe(true);
+  });
+
+  it('should keep the templates out of reach of tenant users', async () => {
+    const manager = await callerFor('MANAGER');
+
+    await expect(manager.grantRolePermission({ role: 'MANAGER', permission_id: permissionId }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not audit revocations of missing mappings', async () => {
+    const admin = await callerFor('SUPER_ADMIN');
+
+    await expect(admin.revokeRolePermission({ role: 'STAFF', permission_id: permissionId })).rejects.toThrow(/does not have permission/i);
+
+    expect(await db.select().from(auditLogTable).execute()).toHaveLength(0);
+  });
+});
+
+describe('impersonation', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Restaurant 1', email: 'r1@example.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await grantRole('RESTAURANT_OWNER', ['customers:write', 'billing:write', 'settings:write', 'staff:write']);
+  });
+
+  afterEach(resetDB);
+
+  const contextFor = async (role: UserRole, restaurantId: number | null) => createTestContext({
+    email: `${role.toLowerCase()}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: restaurantId
+  });
+
+  const impersonatedCaller = (token: string) => createContext({
+    req: { headers: { authorization: `Bearer ${token}` } }
+  } as CreateHTTPContextOptions).then(createCaller);
+
+  it('should act as the user and attribute changes to the super admin', async () => {
+    const adminContext = await contextFor('SUPER_ADMIN', null);
+    const ownerContext = await contextFor('RESTAURANT_OWNER', restaurantId);
+
+    const impersonation = await createCaller(adminContext).startImpersonation({ userId: ownerContext.user!.id });
+    expect(impersonation.user.id).toEqual(ownerContext.user!.id);
+    expect(impersonation).not.toHaveProperty('session');
+    expect(impersonation.user).not.toHaveProperty('password_hash');
+
+    const owner = await impersonatedCaller(impersonation.token);
+    const me = await owner.me();
+    expect(me.id).toEqual(ownerContext.user!.id);
+    expect(me).not.toHaveProperty('password_hash');
+    expect(me).not.toHaveProperty('locked_until');
+    expect(await owner.getImpersonationStatus()).toMatchObject({ impersonator: { id: adminContext.user!.id } });
+
+    const customer = await owner.createCustomer({ first_name: 'Bob', last_name: 'Guest' });
+    await owner.stopImpersonation();
+
+    const entries = await db.select().from(auditLogTable).orderBy(auditLogTable.id).execute();
+
+    expect(entries.map(entry => [entry.entity_type, entry.action])).toEqual([
+      ['SESSION', 'CREATE'],
+      ['CUSTOMER', 'CREATE'],
+      ['SESSION', 'UPDATE']
+    ]);
+    expect(entries[0].actor_id).toEqual(adminContext.user!.id);
+    expect(entries[0].restaurant_id).toEqual(restaurantId);
+    expect(entries[0].changes?.['token_hash']).toEqual({ from: null, to: '[REDACTED]' });
+    expect(entries[1]).toMatchObject({ entity_id: customer.id, actor_id: ownerContext.user!.id, impersonator_id: adminContext.user!.id });
+    expect(entries[2].impersonator_id).toEqual(adminContext.user!.id);
+
+    // The impersonation session is gone once stopped
+    await expect((await impersonatedCaller(impersonation.token)).me()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should block credential and billing changes while impersonating', async () => {
+    const adminContext = await contextFor('SUPER_ADMIN', null);
+    const ownerContext = await contextFor('RESTAURANT_OWNER', restaurantId);
+
+    const impersonation = await createCaller(adminContext).startImpersonation({ userId: ownerContext.user!.id });
+    const owner = await impersonatedCaller(impersonation.token);
+
+    await expect(owner.beginTwoFactorEnrollment()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(owner.disableTwoFactor({ code: '123456' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(owner.requestPasswordReset({ email: ownerContext.user!.email })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(owner.createSubscription({ tier: 'BASIC' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(owner.createApiKey({ name: 'Backdoor', permissions: ['customers:read'] })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(owner.configureOidcProvider({
+      discovery_url: 'https://idp.example.com/.well-known/openid-configuration',
+      client_id: 'client',
+      client_secret: 'secret',
+      allowed_email_domains: ['example.com']
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(owner.updateUser({ id: ownerContext.user!.id, email: 'admin-inbox@example.com' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(owner.updateUser({ id: ownerContext.user!.id, first_name: 'Renamed' })).resolves.toMatchObject({ first_name: 'Renamed' });
+
+    // The real owner is not affected
+    await expect(createCaller(ownerContext).createSubscription({ tier: 'BASIC' })).resolves.toMatchObject({ tier: 'BASIC' });
+  });
+
+  it('should trace every call made while impersonating, reads included', async () => {
+    const adminContext = await contextFor('SUPER_ADMIN', null);
+    const ownerContext = await contextFor('RESTAURANT_OWNER', restaurantId);
+
+    const impersonation = await createCaller(adminContext).startImpersonation({ userId: ownerContext.user!.id });
+    const owner = await impersonatedCaller(impersonation.token);
+
+    await owner.me();
+    await expect(owner.createSubscription({ tier: 'BASIC' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await createCaller(ownerContext).me();
+
+    const requests = await db.select().from(impersonationRequestsTable).orderBy(impersonationRequestsTable.id).execute();
+    expect(requests.map(request => [request.path, request.type, request.succeeded])).toEqual([
+      ['me', 'query', true],
+      ['createSubscription', 'mutation', false]
+    ]);
+    expect(requests[0]).toMatchObject({
+      impersonator_id: adminContext.user!.id,
+      user_id: ownerContext.user!.id,
+      restaurant_id: restaurantId
+    });
+  });
+
+  it('should only let super admins impersonate', async () => {
+    const ownerContext = await contextFor('RESTAURANT_OWNER', restaurantId);
+    const staffContext = await contextFor('STAFF', restaurantId);
+
+    await expect(createCaller(ownerContext).startImpersonation({ userId: staffContext.user!.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(createCaller(ownerContext).stopImpersonation()).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    expect(await createCaller(ownerContext).getImpersonationStatus()).toBeNull();
+  });
+});
+
+describe('API keys', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Restaurant 1', email: 'r1@example.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await grantRole('RESTAURANT_OWNER', ['customers:read', 'customers:write', 'settings:read', 'settings:write']);
+    await grantRole('MANAGER', ['customers:read', 'settings:write']);
+  });
+
+  afterEach(resetDB);
+
+  const contextFor = async (role: UserRole) => createTestContext({
+    email: `${role.toLowerCase()}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: restaurantId
+  });
+
+  const keyCaller = (key: string) => createContext({
+    req: { headers: { authorization: `Bearer ${key}` } }
+  } as CreateHTTPContextOptions).then(createCaller);
+
+  it('should let integrations manage customers and attribute changes to the key', async () => {
+    const owner = createCaller(await contextFor('RESTAURANT_OWNER'));
+    const created = await owner.createApiKey({ name: 'POS', permissions: ['customers:read', 'customers:write'] });
+
+    const integration = await keyCaller(created.key);
+    const customer = await integration.createCustomer({ first_name: 'Alice', last_name: 'Guest' });
+
+    expect(customer.restaurant_id).toEqual(restaurantId);
+    expect((await integration.getCustomersByRestaurant({})).total).toEqual(1);
+    await expect(integration.getRestaurant()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(integration.getApiKeys()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+
+    const entries = await db.select().from(auditLogTable).orderBy(auditLogTable.id).execute();
+
+    expect(entries.map(entry => [entry.entity_type, entry.action])).toEqual([
+      ['API_KEY', 'CREATE'],
+      ['CUSTOMER', 'CREATE']
+    ]);
+    expect(entries[0].changes).not.toHaveProperty('token_hash');
+    expect(JSON.stringify(entries[0].changes)).not.toContain(created.key);
+    expect(entries[1]).toMatchObject({ actor_id: null, api_key_id: created.api_key.id, restaurant_id: restaurantId });
+
+    const [listed] = await owner.getApiKeys();
+    expect(listed.last_used_at).toBeInstanceOf(Date);
+  });
+
+  it('should not hand password hashes to integrations reading staff', async () => {
+    await grantRole('RESTAURANT_OWNER', ['staff:read']);
+    const ownerContext = await contextFor('RESTAURANT_OWNER');
+    const created = await createCaller(ownerContext).createApiKey({ name: 'Rota', permissions: ['staff:read'] });
+
+    const integration = await keyCaller(created.key);
+    const { staff } = await integration.getStaffByRestaurant({});
+    const member = await integration.getStaffMember({ userId: ownerContext.user!.id });
+
+    expect(staff).toHaveLength(1);
+    expect(staff[0]).not.toHaveProperty('password_hash');
+    expect(member).toMatchObject({ id: ownerContext.user!.id });
+    expect(member).not.toHaveProperty('password_hash');
+  });
+
+  it('should stop accepting a key once revoked', async () => {
+    const owner = createCaller(await contextFor('RESTAURANT_OWNER'));
+    const created = await owner.createApiKey({ name: 'POS', permissions: ['customers:read'] });
+
+    await owner.revokeApiKey({ keyId: created.api_key.id });
+
+    await expect((await keyCaller(created.key)).getCustomersByRestaurant({}))
+      .rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should not let keys carry permissions the creator lacks', async () => {
+    const manager = createCaller(await contextFor('MANAGER'));
+
+    await expect(manager.createApiKey({ name: 'POS', permissions: ['customers:write'] }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(manager.createApiKey({ name: 'POS', permissions: ['customers:read'] }))
+      .resolves.toMatchObject({ api_key: { permissions: ['customers:read'] } });
+  });
+});
+
+describe('single sign-on', () => {
+  let issuer: MockOidcIssuer;
+  let restaurantId: number;
+
+  beforeAll(() => {
+    issuer = startMockOidcIssuer();
+  });
+
+  afterAll(() => issuer.stop());
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Restaurant 1', email: 'r1@example.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await grantRole('RESTAURANT_OWNER', ['settings:read', 'settings:write']);
+  });
+
+  afterEach(resetDB);
+
+  const contextFor = async (role: UserRole) => createTestContext({
+    email: `${role.toLowerCase()}@example.com`,
+    password_hash: 'irrelevant',
+    first_name: 'Test',
+    last_name: 'User',
+    role,
+    restaurant_id: restaurantId
+  });
+
+  const configuration = () => ({
+    discovery_url: issuer.discoveryUrl,
+    client_id: issuer.clientId,
+    client_secret: issuer.clientSecret,
+    allowed_email_domains: ['example.com']
+  });
+
+  it('should sign staff in through the configured identity provider', async () => {
+    const owner = createCaller(await contextFor('RESTAURANT_OWNER'));
+    await owner.configureOidcProvider(configuration());
+
+    const anonymous = createCaller(await createContext({ req: { headers: {} } } as CreateHTTPContextOptions));
+    const { authorization_url } = await anonymous.beginOidcLogin({ restaurant_id: restaurantId });
+    const result = await anonymous.completeOidcLogin(issuer.authorize(authorization_url, { sub: 'idp-1', email: 'new.hire@example.com' }));
+
+    expect(result.status).toEqual('AUTHENTICATED');
+    if (result.status !== 'AUTHENTICATED') return;
+
+    const staff = createCaller(await createContext({
+      req: { headers: { authorization: `Bearer ${result.token}` } }
+    } as CreateHTTPContextOptions));
+    expect(await staff.me()).toMatchObject({ email: 'new.hire@example.com', role: 'STAFF', restaurant_id: restaurantId });
+
+    const entries = await db.select().from(auditLogTable).orderBy(auditLogTable.id).execute();
+    expect(entries.map(entry => entry.entity_type)).toEqual(['OIDC_PROVIDER', 'USER']);
+    expect(entries[0].changes).not.toHaveProperty('client_secret');
+    expect(JSON.stringify(entries[0].changes)).not.toContain(issuer.clientSecret);
+  });
+
+  it('should audit configuration changes as updates', async () => {
+    const owner = createCaller(await contextFor('RESTAURANT_OWNER'));
+    const created = await owner.configureOidcProvider(configuration());
+    await owner.configureOidcProvider({ ...configuration(), client_secret: undefined, default_role: 'MANAGER' });
+
+    const entries = await db.select().from(auditLogTable).orderBy(auditLogTable.id).execute();
+    expect(entries[1]).toMatchObject({ entity_type: 'OIDC_PROVIDER', action: 'UPDATE', entity_id: created.id });
+    expect(entries[1].changes).toEqual({ default_role: { from: 'STAFF', to: 'MANAGER' } });
+    expect(await owner.getOidcProvider()).toMatchObject({ default_role: 'MANAGER' });
+  });
+
+  it('should keep the configuration to settings writers', async () => {
+    const staff = createCaller(await contextFor('STAFF'));
+
+    await expect(staff.configureOidcProvider(configuration())).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should keep the configuration to owners', async () => {
+    await grantRole('MANAGER', ['settings:read', 'settings:write']);
+    const manager = createCaller(await contextFor('MANAGER'));
+
+    await expect(manager.configureOidcProvider(configuration())).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should only provision users with a role the owner could assign', async () => {
+    await grantRole('MANAGER', ['billing:write']);
+    const owner = createCaller(await contextFor('RESTAURANT_OWNER'));
+
+    await expect(owner.configureOidcProvider({ ...configuration(), default_role: 'MANAGER' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(await owner.getOidcProvider()).toBeNull();
+  });
+});
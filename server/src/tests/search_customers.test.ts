@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, restaurantsTable } from '../db/schema';
+import { searchCustomers } from '../handlers/search_customers';
+
+describe('searchCustomers', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    await db.insert(customersTable)
+      .values([
+        {
+          restaurant_id: restaurantId,
+          first_name: 'John',
+          last_name: 'Smith',
+          email: 'john.smith@example.com',
+          phone: '(555) 010-0001',
+          notes: 'Prefers the window table, allergic to peanuts & <b>shellfish</b>'
+        },
+        {
+          restaurant_id: restaurantId,
+          first_name: 'Johanna',
+          last_name: 'Smithers',
+          email: 'jo@example.com',
+          phone: '555-777-1234'
+        },
+        {
+          restaurant_id: restaurantId,
+          first_name: 'Maria',
+          last_name: 'Garcia',
+          email: 'maria@example.com',
+          notes: 'Birthday in June'
+        },
+        {
+          restaurant_id: restaurantId,
+          first_name: 'Jon',
+          last_name: 'Smythe',
+          is_active: false
+        },
+        {
+          restaurant_id: otherRestaurantId,
+          first_name: 'John',
+          last_name: 'Smith',
+          email: 'zebediah@elsewhere.test'
+        }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const search = async (query: string, includeInactive: boolean = false) => {
+    return searchCustomers({ restaurant_id: restaurantId, query, include_inactive: includeInactive });
+  };
+
+  it('should find misspelled names', async () => {
+    const results = await search('Jon Smyth');
+
+    expect(results[0].customer.first_name).toEqual('John');
+    expect(results[0].customer.last_name).toEqual('Smith');
+  });
+
+  it('should rank exact matches above similar names', async () => {
+    const results = await search('John Smith');
+
+    expect(results.map(result => result.customer.first_name)).toEqual(['John', 'Johanna']);
+    expect(results[0].rank).toBeGreaterThan(results[1].rank);
+  });
+
+  it('should highlight the matched words', async () => {
+    const [result] = await search('smith');
+
+    expect(result.highlights.name).toEqual('John <mark>Smith</mark>');
+    expect(result.highlights.notes).toBeUndefined();
+  });
+
+  it('should search notes and escape highlighted fragments', async () => {
+    const results = await search('peanuts');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].highlights.notes).toContain('<mark>peanuts</mark> &amp;');
+    expect(results[0].highlights.notes).not.toContain('<b>');
+  });
+
+  it('should match emails', async () => {
+    const results = await search('maria@example');
+
+    expect(results[0].customer.first_name).toEqual('Maria');
+  });
+
+  it('should match phone numbers regardless of formatting', async () => {
+    const results = await search('555.777.1234');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].customer.first_name).toEqual('Johanna');
+    expect(results[0].highlights.phone).toEqual('<mark>555-777-1234</mark>');
+    expect((await search('0100001'))[0].customer.first_name).toEqual('John');
+  });
+
+  it('should leave out inactive customers unless asked', async () => {
+    expect((await search('Smythe')).map(result => result.customer.first_name)).not.toContain('Jon');
+    expect((await search('Smythe', true)).map(result => result.customer.first_name)).toContain('Jon');
+  });
+
+  it('should stay within the restaurant', async () => {
+    const results = await search('John Smith');
+
+    expect(results.every(result => result.customer.restaurant_id === restaurantId)).toBe(true);
+    expect(await search('zebediah@elsewhere.test')).toHaveLength(0);
+  });
+
+  it('should return nothing for unrelated queries', async () => {
+    expect(await search('zzzzqqq')).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { assertSecretsConfigured, decryptSecret, encryptSecret, getSecret, isEncryptedSecret } from '../lib/secrets';
+
+describe('encryptSecret', () => {
+  it('should round-trip through decryptSecret', () => {
+    const encrypted = encryptSecret('client-secret');
+
+    expect(isEncryptedSecret(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('client-secret');
+    expect(decryptSecret(encrypted)).toEqual('client-secret');
+  });
+
+  it('should not produce the same value twice', () => {
+    expect(encryptSecret('client-secret')).not.toEqual(encryptSecret('client-secret'));
+  });
+});
+
+describe('decryptSecret', () => {
+  it('should return values stored before encryption as they are', () => {
+    expect(decryptSecret('client-secret')).toEqual('client-secret');
+  });
+
+  it('should reject tampered values', () => {
+    const encrypted = encryptSecret('client-secret');
+    const tampered = encrypted.slice(0, -2) + (encrypted.endsWith('AA') ? 'BB' : 'AA');
+
+    expect(() => decryptSecret(tampered)).toThrow();
+  });
+});
+
+describe('configured secrets', () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env['SESSION_SECRET'];
+    delete process.env['SECRET_ENCRYPTION_KEY'];
+  });
+
+  afterEach(() => {
+    for (const name of ['NODE_ENV', 'SESSION_SECRET', 'SECRET_ENCRYPTION_KEY']) {
+      if (saved[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = saved[name];
+      }
+    }
+  });
+
+  it('should fall back to development values in development and test', () => {
+    process.env['NODE_ENV'] = 'development';
+
+    expect(getSecret('SESSION_SECRET', 'fallback')).toEqual('fallback');
+    expect(() => assertSecretsConfigured()).not.toThrow();
+  });
+
+  it('should refuse to run without the secrets elsewhere', () => {
+    process.env['NODE_ENV'] = 'production';
+    process.env['SESSION_SECRET'] = 'session-secret';
+
+    expect(getSecret('SESSION_SECRET', 'fallback')).toEqual('session-secret');
+    expect(() => getSecret('SECRET_ENCRYPTION_KEY', 'fallback')).toThrow('SECRET_ENCRYPTION_KEY must be set');
+    expect(() => assertSecretsConfigured()).toThrow('SECRET_ENCRYPTION_KEY must be set');
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mailOutboxTable, userTokensTable, usersTable } from '../db/schema';
+import { sendVerificationEmail } from '../handlers/send_verification_email';
+import { hashToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+describe('sendVerificationEmail', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should email a verification link backed by a stored token', async () => {
+    await sendVerificationEmail(userId);
+
+    const messages = await db.select().from(mailOutboxTable).execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].recipient).toEqual('john@example.com');
+    expect(messages[0].body).toMatch(/\/verify-email\?token=\S+/);
+
+    const token = messages[0].body.match(/token=(\S+)/)![1];
+    const tokens = await db.select()
+      .from(userTokensTable)
+      .where(eq(userTokensTable.token_hash, hashToken(token)))
+      .execute();
+
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].purpose).toEqual('EMAIL_VERIFICATION');
+    expect(tokens[0].user_id).toEqual(userId);
+    expect(tokens[0].email).toEqual('john@example.com');
+  });
+
+  it('should refuse when the email is already verified', async () => {
+    await db.update(usersTable)
+      .set({ email_verified_at: new Date() })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await expect(sendVerificationEmail(userId)).rejects.toThrow(/already verified/i);
+  });
+
+  it('should throw for non-existent user', async () => {
+    await expect(sendVerificationEmail(99999)).rejects.toThrow(/not found/i);
+  });
+});
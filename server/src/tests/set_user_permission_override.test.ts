@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { permissionsTable, restaurantsTable, userPermissionOverridesTable, usersTable } from '../db/schema';
+import { type UserRole } from '../schema';
+import { findUserPermissionOverride, setUserPermissionOverride } from '../handlers/set_user_permission_override';
+
+describe('setUserPermissionOverride', () => {
+  let restaurantId: number;
+
+  const createUser = async (role: UserRole) => {
+    const users = await db.insert(usersTable)
+      .values({
+        email: `${role.toLowerCase()}@example.com`,
+        password_hash: 'irrelevant',
+        first_name: 'Test',
+        last_name: 'User',
+        role,
+        restaurant_id: restaurantId
+      })
+      .returning()
+      .execute();
+
+    return users[0].id;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await db.insert(permissionsTable)
+      .values({ name: 'customers:write', resource: 'customers', action: 'write' })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should create an override', async () => {
+    const userId = await createUser('STAFF');
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    const result = await setUserPermissionOverride({ user_id: userId, permission: 'customers:write', effect: 'GRANT', expires_at: expiresAt }, 42, restaurantId);
+
+    expect(result.id).toBeDefined();
+    expect(result.user_id).toEqual(userId);
+    expect(result.permission).toEqual('customers:write');
+    expect(result.effect).toEqual('GRANT');
+    expect(result.expires_at).toEqual(expiresAt);
+    expect(result.created_by).toEqual(42);
+  });
+
+  it('should replace an existing override for the same permission', async () => {
+    const userId = await createUser('STAFF');
+
+    const first = await setUserPermissionOverride({ user_id: userId, permission: 'customers:write', effect: 'GRANT' }, null);
+    const second = await setUserPermissionOverride({ user_id: userId, permission: 'customers:write', effect: 'DENY' }, null);
+
+    expect(second.id).toEqual(first.id);
+    expect(second.effect).toEqual('DENY');
+    expect(second.expires_at).toBeNull();
+    expect(await db.select().from(userPermissionOverridesTable).execute()).toHaveLength(1);
+    expect((await findUserPermissionOverride(userId, 'customers:write'))?.effect).toEqual('DENY');
+  });
+
+  it('should reject unknown permissions', async () => {
+    const userId = await createUser('STAFF');
+
+    await expect(setUserPermissionOverride({ user_id: userId, permission: 'bar:pour', effect: 'GRANT' }, null))
+      .rejects.toThrow(/unknown permission/i);
+  });
+
+  it('should reject expiries in the past', async () => {
+    const userId = await createUser('STAFF');
+
+    await expect(setUserPermissionOverride({ user_id: userId, permission: 'customers:write', effect: 'GRANT', expires_at: new Date(Date.now() - 1000) }, null))
+      .rejects.toThrow(/future/i);
+  });
+
+  it('should not override owners', async () => {
+    const userId = await createUser('RESTAURANT_OWNER');
+
+    await expect(setUserPermissionOverride({ user_id: userId, permission: 'customers:write', effect: 'DENY' }, null))
+      .rejects.toThrow(/managers and staff/i);
+  });
+
+  it('should not touch users of another restaurant', async () => {
+    const userId = await createUser('STAFF');
+
+    await expect(setUserPermissionOverride({ user_id: userId, permission: 'customers:write', effect: 'GRANT' }, null, restaurantId + 1))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { restaurantsTable, usersTable } from '../db/schema';
+import { type UserRole } from '../schema';
+import { IMPERSONATION_TTL_MS, startImpersonation } from '../handlers/start_impersonation';
+import { getSessionByToken } from '../handlers/get_session';
+
+describe('startImpersonation', () => {
+  let restaurantId: number;
+  let adminId: number;
+
+  const createUser = async (role: UserRole, values: { is_active?: boolean } = {}) => {
+    const users = await db.insert(usersTable)
+      .values({
+        email: `${role.toLowerCase()}@example.com`,
+        password_hash: 'irrelevant',
+        first_name: 'Test',
+        last_name: 'User',
+        role,
+        restaurant_id: role === 'SUPER_ADMIN' ? null : restaurantId,
+        ...values
+      })
+      .returning()
+      .execute();
+
+    return users[0].id;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    adminId = await createUser('SUPER_ADMIN');
+  });
+
+  afterEach(resetDB);
+
+  it('should open a short-lived session for the target user', async () => {
+    const ownerId = await createUser('RESTAURANT_OWNER');
+
+    const result = await startImpersonation(adminId, ownerId);
+
+    expect(result.user.id).toEqual(ownerId);
+    expect(result.session.user_id).toEqual(ownerId);
+    expect(result.session.impersonator_id).toEqual(adminId);
+    expect(result.session.two_factor_setup_required).toBe(false);
+    expect(result.expires_at.getTime()).toBeLessThanOrEqual(Date.now() + IMPERSONATION_TTL_MS);
+
+    const resolved = await getSessionByToken(result.token);
+    expect(resolved?.user.id).toEqual(ownerId);
+    expect(resolved?.session.impersonator_id).toEqual(adminId);
+  });
+
+  it('should not impersonate other super admins', async () => {
+    const otherAdmin = await db.insert(usersTable)
+      .values({ email: 'other-admin@example.com', password_hash: 'irrelevant', first_name: 'Other', last_name: 'Admin', role: 'SUPER_ADMIN' })
+      .returning()
+      .execute();
+
+    await expect(startImpersonation(adminId, otherAdmin[0].id)).rejects.toThrow(/cannot be impersonated/i);
+    await expect(startImpersonation(adminId, adminId)).rejects.toThrow(/yourself/i);
+  });
+
+  it('should not impersonate inactive or unknown users', async () => {
+    const inactiveId = await createUser('STAFF', { is_active: false });
+
+    await expect(startImpersonation(adminId, inactiveId)).rejects.toThrow(/not found/i);
+    await expect(startImpersonation(adminId, 99999)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'bun:test';
+import { base32Decode, base32Encode, buildOtpauthUri, generateTotp, generateTotpSecret, verifyTotp } from '../lib/totp';
+
+// RFC 6238 appendix B secret ("12345678901234567890") in base32
+const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  it('should round-trip base32', () => {
+    const bytes = Buffer.from('12345678901234567890');
+
+    expect(base32Encode(bytes)).toEqual(rfcSecret);
+    expect(base32Decode(rfcSecret)).toEqual(bytes);
+    expect(base32Decode(rfcSecret.toLowerCase())).toEqual(bytes);
+  });
+
+  it('should reject invalid base32 input', () => {
+    expect(() => base32Decode('not-base32!')).toThrow(/invalid base32/i);
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(rfcSecret, new Date(59 * 1000))).toEqual('287082');
+    expect(generateTotp(rfcSecret, new Date(1111111109 * 1000))).toEqual('081804');
+    expect(generateTotp(rfcSecret, new Date(1234567890 * 1000))).toEqual('005924');
+  });
+
+  it('should generate 160-bit secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(base32Decode(secret)).toHaveLength(20);
+    expect(generateTotpSecret()).not.toEqual(secret);
+  });
+
+  it('should accept codes from adjacent time steps only', () => {
+    const now = new Date(1111111109 * 1000);
+    const secret = generateTotpSecret();
+
+    expect(verifyTotp(secret, generateTotp(secret, now), 1, now)).toBe(true);
+    expect(verifyTotp(secret, generateTotp(secret, new Date(now.getTime() - 30 * 1000)), 1, now)).toBe(true);
+    expect(verifyTotp(secret, generateTotp(secret, new Date(now.getTime() + 30 * 1000)), 1, now)).toBe(true);
+    expect(verifyTotp(secret, generateTotp(secret, new Date(now.getTime() - 90 * 1000)), 1, now)).toBe(false);
+  });
+
+  it('should reject malformed codes', () => {
+    const secret = generateTotpSecret();
+
+    expect(verifyTotp(secret, '')).toBe(false);
+    expect(verifyTotp(secret, '12345')).toBe(false);
+    expect(verifyTotp(secret, 'abcdef')).toBe(false);
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpauthUri(rfcSecret, 'john@example.com', 'RestoManage');
+
+    expect(uri).toStartWith('otpauth://totp/RestoManage%3Ajohn%40example.com?');
+    const params = new URL(uri).searchParams;
+    expect(params.get('secret')).toEqual(rfcSecret);
+    expect(params.get('issuer')).toEqual('RestoManage');
+    expect(params.get('digits')).toEqual('6');
+    expect(params.get('period')).toEqual('30');
+  });
+});
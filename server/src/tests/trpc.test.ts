@@ -0,0 +1,308 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { permissionsTable, restaurantsTable, rolePermissionsTable, sessionsTable, usersTable } from '../db/schema';
+import { type UserRole } from '../schema';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { z } from 'zod';
+import {
+  router,
+  publicProcedure,
+  authenticatedProcedure,
+  protectedProcedure,
+  superAdminProcedure,
+  tenantProcedure,
+  requirePermission,
+  requireRole,
+  createCallerFactory,
+  createContext,
+  resolveTenantId
+} from '../trpc';
+import { generateToken, hashToken, signToken } from '../lib/tokens';
+import { createApiKey } from '../handlers/create_api_key';
+
+// Minimal router exercising the shared procedures
+const testRouter = router({
+  open: publicProcedure.query(() => 'open'),
+  whoami: protectedProcedure.query(({ ctx }) => ctx.user.email),
+  enroll: authenticatedProcedure.mutation(() => 'enrolling'),
+  writeCustomers: protectedProcedure
+    .use(requirePermission('customers:write'))
+    .mutation(() => 'written'),
+  adminOnly: superAdminProcedure.query(() => 'admin'),
+  ownerOnly: protectedProcedure
+    .use(requireRole('RESTAURANT_OWNER'))
+    .query(() => 'owner'),
+  tenantCustomers: tenantProcedure
+    .use(requirePermission('customers:read'))
+    .input(z.number().optional())
+    .query(({ ctx, input }) => resolveTenantId(ctx, input))
+});
+
+const createCaller = createCallerFactory(testRouter);
+
+// Build a context the way the HTTP adapter would
+const contextFor = (authorization?: string) => createContext({
+  req: { headers: authorization ? { authorization } : {} }
+} as CreateHTTPContextOptions);
+
+// Create a user with a live session and return its bearer header
+const createAuthenticatedUser = async (email: string, role: UserRole, twoFactorSetupRequired: boolean = false): Promise<string> => {
+  const users = await db.insert(usersTable)
+    .values({
+      email,
+      password_hash: 'irrelevant',
+      first_name: 'Test',
+      last_name: 'User',
+      role
+    })
+    .returning()
+    .execute();
+
+  const secret = generateToken();
+  await db.insert(sessionsTable)
+    .values({
+      user_id: users[0].id,
+      token_hash: hashToken(secret),
+      expires_at: new Date(Date.now() + 60 * 60 * 1000),
+      two_factor_setup_required: twoFactorSetupRequired
+    })
+    .execute();
+
+  return `Bearer ${signToken(secret)}`;
+};
+
+describe('createContext', () => {
+  let authorization: string;
+
+  beforeEach(async () => {
+    await createDB();
+    authorization = await createAuthenticatedUser('john@example.com', 'STAFF');
+  });
+
+  afterEach(resetDB);
+
+  it('should resolve the user from a bearer token', async () => {
+    const ctx = await contextFor(authorization);
+
+    expect(ctx.user).not.toBeNull();
+    expect(ctx.user!.email).toEqual('john@example.com');
+    expect(ctx.session).not.toBeNull();
+  });
+
+  it('should produce an anonymous context without a token', async () => {
+    const ctx = await contextFor();
+
+    expect(ctx.user).toBeNull();
+    expect(ctx.session).toBeNull();
+    expect((await ctx.getPermissions()).size).toEqual(0);
+  });
+
+  it('should capture the client address and user agent', async () => {
+    const ctx = await createContext({
+      req: { headers: { 'user-agent': 'TestAgent/1.0' }, socket: { remoteAddress: '203.0.113.7' } }
+    } as unknown as CreateHTTPContextOptions);
+
+    expect(ctx.client).toEqual({ ip_address: '203.0.113.7', user_agent: 'TestAgent/1.0' });
+  });
+
+  it('should only trust forwarded addresses behind a proxy', async () => {
+    const options = {
+      req: { headers: { 'x-forwarded-for': '198.51.100.1, 10.0.0.1' }, socket: { remoteAddress: '10.0.0.1' } }
+    } as unknown as CreateHTTPContextOptions;
+
+    expect((await createContext(options)).client.ip_address).toEqual('10.0.0.1');
+
+    process.env['TRUST_PROXY'] = 'true';
+    try {
+      expect((await createContext(options)).client.ip_address).toEqual('198.51.100.1');
+    } finally {
+      delete process.env['TRUST_PROXY'];
+    }
+  });
+
+  it('should ignore non-bearer authorization schemes', async () => {
+    const ctx = await contextFor(authorization.replace('Bearer', 'Basic'));
+
+    expect(ctx.user).toBeNull();
+  });
+
+  it('should allow protected procedures for authenticated callers', async () => {
+    const caller = createCaller(await contextFor(authorization));
+
+    expect(await caller.whoami()).toEqual('john@example.com');
+  });
+
+  it('should reject protected procedures for anonymous callers', async () => {
+    const caller = createCaller(await contextFor());
+
+    expect(await caller.open()).toEqual('open');
+    await expect(caller.whoami()).rejects.toThrow(/authentication required/i);
+  });
+});
+
+describe('requirePermission', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const permissions = await db.insert(permissionsTable)
+      .values({ name: 'customers:write', description: 'Edit customers', resource: 'customers', action: 'write' })
+      .returning()
+      .execute();
+
+    await db.insert(rolePermissionsTable)
+      .values({ role: 'MANAGER', permission_id: permissions[0].id })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should allow callers whose role has the permission', async () => {
+    const caller = createCaller(await contextFor(await createAuthenticatedUser('manager@example.com', 'MANAGER')));
+
+    expect(await caller.writeCustomers()).toEqual('written');
+  });
+
+  it('should reject callers whose role lacks the permission with FORBIDDEN', async () => {
+    const caller = createCaller(await contextFor(await createAuthenticatedUser('staff@example.com', 'STAFF')));
+
+    await expect(caller.writeCustomers()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject anonymous callers with UNAUTHORIZED', async () => {
+    const caller = createCaller(await contextFor());
+
+    await expect(caller.writeCustomers()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should load permissions once per request', async () => {
+    const ctx = await contextFor(await createAuthenticatedUser('manager@example.com', 'MANAGER'));
+
+    const first = ctx.getPermissions();
+    const second = ctx.getPermissions();
+
+    expect(first).toBe(second);
+    expect((await first).has('customers:write')).toBe(true);
+  });
+});
+
+describe('superAdminProcedure', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should allow super admins', async () => {
+    const caller = createCaller(await contextFor(await createAuthenticatedUser('admin@example.com', 'SUPER_ADMIN')));
+
+    expect(await caller.adminOnly()).toEqual('admin');
+  });
+
+  it('should reject other roles', async () => {
+    const caller = createCaller(await contextFor(await createAuthenticatedUser('owner@example.com', 'RESTAURANT_OWNER')));
+
+    await expect(caller.adminOnly()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+describe('requireRole', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should allow the listed roles', async () => {
+    const caller = createCaller(await contextFor(await createAuthenticatedUser('owner@example.com', 'RESTAURANT_OWNER')));
+
+    expect(await caller.ownerOnly()).toEqual('owner');
+  });
+
+  it('should reject other roles with FORBIDDEN', async () => {
+    const caller = createCaller(await contextFor(await createAuthenticatedUser('manager@example.com', 'MANAGER')));
+
+    await expect(caller.ownerOnly()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+describe('two-factor setup restriction', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should block protected procedures until enrollment is done', async () => {
+    const caller = createCaller(await contextFor(await createAuthenticatedUser('manager@example.com', 'MANAGER', true)));
+
+    await expect(caller.whoami()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should still allow authenticated procedures', async () => {
+    const caller = createCaller(await contextFor(await createAuthenticatedUser('manager@example.com', 'MANAGER', true)));
+
+    expect(await caller.enroll()).toEqual('enrolling');
+  });
+
+  it('should reject authenticated procedures for anonymous callers', async () => {
+    const caller = createCaller(await contextFor());
+
+    await expect(caller.enroll()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+});
+
+describe('API key authentication', () => {
+  let restaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    await db.insert(permissionsTable)
+      .values([
+        { name: 'customers:read', resource: 'customers', action: 'read' },
+        { name: 'customers:write', resource: 'customers', action: 'write' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const keyWith = async (permissions: string[]) => {
+    const { key } = await createApiKey({ restaurant_id: restaurantId, name: 'POS', permissions }, null);
+    return `Bearer ${key}`;
+  };
+
+  it('should resolve the key instead of a user', async () => {
+    const ctx = await contextFor(await keyWith(['customers:read']));
+
+    expect(ctx.user).toBeNull();
+    expect(ctx.session).toBeNull();
+    expect(ctx.apiKey!.restaurant_id).toEqual(restaurantId);
+    expect([...await ctx.getPermissions()]).toEqual(['customers:read']);
+  });
+
+  it('should pin tenant procedures to the restaurant of the key', async () => {
+    const caller = createCaller(await contextFor(await keyWith(['customers:read'])));
+
+    expect(await caller.tenantCustomers()).toEqual(restaurantId);
+    await expect(caller.tenantCustomers(restaurantId + 1)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should only grant the permissions of the key', async () => {
+    const caller = createCaller(await contextFor(await keyWith(['customers:write'])));
+
+    await expect(caller.tenantCustomers()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should keep user-only procedures closed to keys', async () => {
+    const caller = createCaller(await contextFor(await keyWith(['customers:read', 'customers:write'])));
+
+    await expect(caller.whoami()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(caller.writeCustomers()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should treat unknown keys as anonymous', async () => {
+    const caller = createCaller(await contextFor('Bearer rmk_unknown'));
+
+    await expect(caller.tenantCustomers()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+});
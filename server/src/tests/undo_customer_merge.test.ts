@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customerDuplicateCandidatesTable, customersTable, restaurantsTable, visitsTable } from '../db/schema';
+import { mergeCustomers } from '../handlers/merge_customers';
+import { undoCustomerMerge } from '../handlers/undo_customer_merge';
+import { recordVisit } from '../handlers/record_visit';
+import { redeemLoyaltyPoints } from '../handlers/redeem_loyalty_points';
+import { eq } from 'drizzle-orm';
+
+describe('undoCustomerMerge', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let survivorId: number;
+  let mergedId: number;
+  let mergedVisitId: number;
+
+  const getCustomer = async (id: number) => {
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, id)).execute();
+    return customers[0];
+  };
+
+  const merge = () => mergeCustomers({ restaurant_id: restaurantId, survivor_id: survivorId, merged_id: mergedId }, { user: null });
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values([
+        { restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', email: 'alice@example.com', loyalty_points: 40 },
+        { restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', phone: '555-0100', notes: 'Allergic to nuts', loyalty_points: 150 }
+      ])
+      .returning()
+      .execute();
+
+    survivorId = customers[0].id;
+    mergedId = customers[1].id;
+
+    await recordVisit({ restaurant_id: restaurantId, customer_id: survivorId, visited_at: new Date('2024-03-01T19:00:00Z') }, { user: null });
+    const visit = await recordVisit({ restaurant_id: restaurantId, customer_id: mergedId, visited_at: new Date('2024-05-01T19:00:00Z') }, { user: null });
+    mergedVisitId = visit.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should restore both customers as they were', async () => {
+    const { id } = await merge();
+
+    const undone = await undoCustomerMerge(id, restaurantId, { user: { id: 5 } });
+
+    expect(undone.undone_at).toBeInstanceOf(Date);
+    expect(undone.undone_by).toEqual(5);
+
+    const survivor = await getCustomer(survivorId);
+    expect(survivor.email).toEqual('alice@example.com');
+    expect(survivor.phone).toBeNull();
+    expect(survivor.notes).toBeNull();
+    expect(survivor.total_visits).toEqual(1);
+    expect(survivor.last_visit_date).toEqual(new Date('2024-03-01T19:00:00Z'));
+    expect(survivor.loyalty_points).toEqual(40);
+
+    const merged = await getCustomer(mergedId);
+    expect(merged.merged_into_id).toBeNull();
+    expect(merged.is_active).toBe(true);
+    expect(merged.total_visits).toEqual(1);
+    expect(merged.last_visit_date).toEqual(new Date('2024-05-01T19:00:00Z'));
+    expect(merged.loyalty_points).toEqual(150);
+
+    const visits = await db.select().from(visitsTable).where(eq(visitsTable.id, mergedVisitId)).execute();
+    expect(visits[0].customer_id).toEqual(mergedId);
+  });
+
+  it('should keep what happened to the survivor after the merge', async () => {
+    const { id } = await merge();
+    await recordVisit({ restaurant_id: restaurantId, customer_id: survivorId, visited_at: new Date('2024-06-01T19:00:00Z') }, { user: null });
+    await db.update(customersTable)
+      .set({ phone: '555-0199' })
+      .where(eq(customersTable.id, survivorId))
+      .execute();
+
+    await undoCustomerMerge(id, restaurantId, { user: null });
+
+    const survivor = await getCustomer(survivorId);
+    expect(survivor.phone).toEqual('555-0199');
+    expect(survivor.total_visits).toEqual(2);
+    expect(survivor.last_visit_date).toEqual(new Date('2024-06-01T19:00:00Z'));
+  });
+
+  it('should put the pair back in the review queue', async () => {
+    await db.insert(customerDuplicateCandidatesTable)
+      .values({ restaurant_id: restaurantId, customer_id: survivorId, duplicate_id: mergedId, score: 100, reasons: ['NAME'] })
+      .execute();
+    const { id } = await merge();
+
+    await undoCustomerMerge(id, restaurantId, { user: null });
+
+    const candidates = await db.select().from(customerDuplicateCandidatesTable).execute();
+    expect(candidates[0].status).toEqual('PENDING');
+    expect(candidates[0].reviewed_at).toBeNull();
+  });
+
+  it('should refuse when the survivor has spent the transferred points', async () => {
+    const { id } = await merge();
+    await redeemLoyaltyPoints({ restaurant_id: restaurantId, customer_id: survivorId, points: 100, reason: 'Dinner' }, { user: null });
+
+    await expect(undoCustomerMerge(id, restaurantId, { user: null }))
+      .rejects.toThrow('Insufficient loyalty points: balance is 90');
+
+    const merged = await getCustomer(mergedId);
+    expect(merged.merged_into_id).toEqual(survivorId);
+  });
+
+  it('should only undo a merge once', async () => {
+    const { id } = await merge();
+    await undoCustomerMerge(id, restaurantId, { user: null });
+
+    await expect(undoCustomerMerge(id, restaurantId, { user: null }))
+      .rejects.toThrow('Customer merge has already been undone');
+  });
+
+  it('should refuse while the survivor is merged into another customer', async () => {
+    const { id } = await merge();
+    const others = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin' })
+      .returning()
+      .execute();
+    await mergeCustomers({ restaurant_id: restaurantId, survivor_id: others[0].id, merged_id: survivorId }, { user: null });
+
+    await expect(undoCustomerMerge(id, restaurantId, { user: null }))
+      .rejects.toThrow(`Customer ${survivorId} has since been merged into customer ${others[0].id}`);
+  });
+
+  it('should not undo merges of other restaurants', async () => {
+    const { id } = await merge();
+
+    await expect(undoCustomerMerge(id, otherRestaurantId, { user: null }))
+      .rejects.toThrow('Customer merge not found or does not belong to this restaurant');
+  });
+});
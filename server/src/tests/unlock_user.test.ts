@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { restaurantsTable, usersTable } from '../db/schema';
+import { unlockUser } from '../handlers/unlock_user';
+
+describe('unlockUser', () => {
+  let restaurantId: number;
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe',
+        role: 'STAFF',
+        restaurant_id: restaurantId,
+        failed_login_attempts: 4,
+        locked_until: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should clear the lockout and failure counter', async () => {
+    const result = await unlockUser(userId, restaurantId);
+
+    expect(result.id).toEqual(userId);
+    expect(result.locked_until).toBeNull();
+    expect(result.failed_login_attempts).toEqual(0);
+  });
+
+  it('should unlock without a tenant scope', async () => {
+    const result = await unlockUser(userId);
+
+    expect(result.locked_until).toBeNull();
+  });
+
+  it('should not unlock users of another restaurant', async () => {
+    await expect(unlockUser(userId, restaurantId + 1)).rejects.toThrow(/not found/i);
+  });
+
+  it('should throw for unknown users', async () => {
+    await expect(unlockUser(99999)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customRolePermissionsTable, customRolesTable, permissionsTable, restaurantsTable } from '../db/schema';
+import { updateCustomRole } from '../handlers/update_custom_role';
+
+describe('updateCustomRole', () => {
+  let restaurantId: number;
+  let roleId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values({ name: 'Test Restaurant', email: 'test@restaurant.com' })
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+
+    const roles = await db.insert(customRolesTable)
+      .values([
+        { restaurant_id: restaurantId, name: 'Host', description: 'Greets guests' },
+        { restaurant_id: restaurantId, name: 'Bartender' }
+      ])
+      .returning()
+      .execute();
+
+    roleId = roles[0].id;
+
+    const permissions = await db.insert(permissionsTable)
+      .values([
+        { name: 'staff:read', resource: 'staff', action: 'read' },
+        { name: 'customers:read', resource: 'customers', action: 'read' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(customRolePermissionsTable)
+      .values({ custom_role_id: roleId, permission_id: permissions[0].id })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should rename a role and keep its permissions', async () => {
+    const result = await updateCustomRole({ id: roleId, name: 'Front of House' }, restaurantId);
+
+    expect(result.name).toEqual('Front of House');
+    expect(result.description).toEqual('Greets guests');
+    expect(result.permissions).toEqual(['staff:read']);
+  });
+
+  it('should replace the permission set', async () => {
+    const result = await updateCustomRole({ id: roleId, permissions: ['customers:read'] }, restaurantId);
+
+    expect(result.permissions).toEqual(['customers:read']);
+  });
+
+  it('should clear all permissions', async () => {
+    const result = await updateCustomRole({ id: roleId, permissions: [] }, restaurantId);
+
+    expect(result.permissions).toEqual([]);
+  });
+
+  it('should leave the role untouched when a permission is unknown', async () => {
+    await expect(updateCustomRole({ id: roleId, name: 'Renamed', permissions: ['bar:pour'] }, restaurantId))
+      .rejects.toThrow(/unknown permission/i);
+
+    const roles = await db.select().from(customRolesTable).execute();
+    expect(roles.find(role => role.id === roleId)?.name).toEqual('Host');
+  });
+
+  it('should reject names taken by another role', async () => {
+    await expect(updateCustomRole({ id: roleId, name: 'bartender' }, restaurantId)).rejects.toThrow(/already exists/i);
+  });
+
+  it('should not update roles of another restaurant', async () => {
+    await expect(updateCustomRole({ id: roleId, name: 'Renamed' }, restaurantId + 1)).rejects.toThrow(/not found/i);
+  });
+});
@@ -79,16 +79,16 @@ describe('updateCustomer', () => {
     expect(result.is_active).toEqual(true);
   });
 
-  it('should update loyalty points and notes', async () => {
-    const updateInput: UpdateCustomerInput = {
+  it('should update notes and leave loyalty points to the ledger', async () => {
+    const updateInput = {
       id: testCustomerId,
       loyalty_points: 150,
       notes: 'VIP customer'
-    };
+    } as UpdateCustomerInput;
 
     const result = await updateCustomer(updateInput, testRestaurantId);
 
-    expect(result.loyalty_points).toEqual(150);
+    expect(result.loyalty_points).toEqual(100);
     expect(result.notes).toEqual('VIP customer');
     
     // Unchanged fields should remain the same
@@ -129,7 +129,7 @@ describe('updateCustomer', () => {
     const updateInput: UpdateCustomerInput = {
       id: testCustomerId,
       first_name: 'UpdatedName',
-      loyalty_points: 200
+      last_name: 'UpdatedLastName'
     };
 
     await updateCustomer(updateInput, testRestaurantId);
@@ -142,7 +142,7 @@ describe('updateCustomer', () => {
 
     expect(customers).toHaveLength(1);
     expect(customers[0].first_name).toEqual('UpdatedName');
-    expect(customers[0].loyalty_points).toEqual(200);
+    expect(customers[0].last_name).toEqual('UpdatedLastName');
     expect(customers[0].updated_at).toBeInstanceOf(Date);
   });
 
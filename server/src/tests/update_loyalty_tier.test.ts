@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { loyaltyTiersTable, restaurantsTable } from '../db/schema';
+import { updateLoyaltyTier } from '../handlers/update_loyalty_tier';
+
+describe('updateLoyaltyTier', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let silverId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const tiers = await db.insert(loyaltyTiersTable)
+      .values([
+        { restaurant_id: restaurantId, name: 'Silver', rank: 1, min_total_visits: 5, min_window_spend: '200.00' },
+        { restaurant_id: restaurantId, name: 'Gold', rank: 2, min_total_visits: 20 }
+      ])
+      .returning()
+      .execute();
+
+    silverId = tiers[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update only the given fields', async () => {
+    const tier = await updateLoyaltyTier({ id: silverId, min_total_visits: 8, perks: ['Free coffee'] }, restaurantId);
+
+    expect(tier.min_total_visits).toEqual(8);
+    expect(tier.perks).toEqual(['Free coffee']);
+    expect(tier.name).toEqual('Silver');
+    expect(tier.min_window_spend).toEqual(200);
+  });
+
+  it('should clear thresholds set to null', async () => {
+    const tier = await updateLoyaltyTier({ id: silverId, min_window_spend: null }, restaurantId);
+
+    expect(tier.min_window_spend).toBeNull();
+  });
+
+  it('should not move a tier onto a rank that is taken', async () => {
+    await expect(updateLoyaltyTier({ id: silverId, rank: 2 }, restaurantId))
+      .rejects.toThrow('A loyalty tier with rank 2 already exists');
+
+    const tier = await updateLoyaltyTier({ id: silverId, rank: 1, name: 'Silver+' }, restaurantId);
+    expect(tier.name).toEqual('Silver+');
+  });
+
+  it('should not update tiers of another restaurant', async () => {
+    await expect(updateLoyaltyTier({ id: silverId, name: 'Stolen' }, otherRestaurantId))
+      .rejects.toThrow(`Loyalty tier with id ${silverId} not found`);
+  });
+});
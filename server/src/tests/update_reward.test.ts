@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { restaurantsTable, rewardsTable } from '../db/schema';
+import { updateReward } from '../handlers/update_reward';
+
+describe('updateReward', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let rewardId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const rewards = await db.insert(rewardsTable)
+      .values({
+        restaurant_id: restaurantId,
+        name: 'Free dessert',
+        points_cost: 100,
+        available_until: new Date('2027-01-01T00:00:00Z')
+      })
+      .returning()
+      .execute();
+
+    rewardId = rewards[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update only the given fields', async () => {
+    const reward = await updateReward({ id: rewardId, points_cost: 120, is_active: false }, restaurantId);
+
+    expect(reward.points_cost).toEqual(120);
+    expect(reward.is_active).toBe(false);
+    expect(reward.name).toEqual('Free dessert');
+    expect(reward.available_until).toEqual(new Date('2027-01-01T00:00:00Z'));
+  });
+
+  it('should check the window against the stored bounds', async () => {
+    await expect(updateReward({ id: rewardId, available_from: new Date('2027-02-01T00:00:00Z') }, restaurantId))
+      .rejects.toThrow('Availability must end after it starts');
+
+    const reward = await updateReward({ id: rewardId, available_from: new Date('2027-02-01T00:00:00Z'), available_until: null }, restaurantId);
+    expect(reward.available_until).toBeNull();
+  });
+
+  it('should not update rewards of another restaurant', async () => {
+    await expect(updateReward({ id: rewardId, name: 'Stolen' }, otherRestaurantId))
+      .rejects.toThrow(`Reward with id ${rewardId} not found`);
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, restaurantsTable } from '../db/schema';
+import { customRolesTable, usersTable, restaurantsTable } from '../db/schema';
 import { type UpdateUserInput } from '../schema';
 import { updateUser } from '../handlers/update_user';
 import { eq } from 'drizzle-orm';
@@ -226,4 +226,75 @@ describe('updateUser', () => {
     expect(result.role).toBe('STAFF');
     expect(result.updated_at).toBeInstanceOf(Date);
   });
-});
\ No newline at end of file
+
+  it('should update a user within the given restaurant scope', async () => {
+    const result = await updateUser({ id: testUserId, first_name: 'Scoped' }, testRestaurantId);
+
+    expect(result.first_name).toBe('Scoped');
+  });
+
+  it('should not update a user outside the given restaurant scope', async () => {
+    const otherRestaurant = await db.insert(restaurantsTable)
+      .values({
+        name: 'Other Restaurant',
+        email: 'other@restaurant.com'
+      })
+      .returning()
+      .execute();
+
+    await expect(updateUser({ id: testUserId, first_name: 'Hijacked' }, otherRestaurant[0].id))
+      .rejects.toThrow(/not found/i);
+
+    // Verify the user was left untouched
+    const dbUser = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, testUserId))
+      .execute();
+
+    expect(dbUser[0].first_name).toBe('John');
+  });
+
+  it('should reset email verification when the email changes', async () => {
+    await db.update(usersTable)
+      .set({ email_verified_at: new Date() })
+      .where(eq(usersTable.id, testUserId))
+      .execute();
+
+    const unchanged = await updateUser({ id: testUserId, email: 'test@example.com' });
+    expect(unchanged.email_verified_at).toBeInstanceOf(Date);
+
+    const changed = await updateUser({ id: testUserId, email: 'new@example.com' });
+    expect(changed.email_verified_at).toBeNull();
+  });
+
+  it('should drop the custom role when it no longer applies', async () => {
+    const roles = await db.insert(customRolesTable)
+      .values({ restaurant_id: testRestaurantId, name: 'Host' })
+      .returning()
+      .execute();
+
+    const otherRestaurant = await db.insert(restaurantsTable)
+      .values({ name: 'Other Restaurant', email: 'other@restaurant.com' })
+      .returning()
+      .execute();
+
+    await db.update(usersTable)
+      .set({ custom_role_id: roles[0].id })
+      .where(eq(usersTable.id, testUserId))
+      .execute();
+
+    const renamed = await updateUser({ id: testUserId, first_name: 'Jane', restaurant_id: testRestaurantId });
+    expect(renamed.custom_role_id).toEqual(roles[0].id);
+
+    const promoted = await updateUser({ id: testUserId, role: 'RESTAURANT_OWNER' });
+    expect(promoted.custom_role_id).toBeNull();
+
+    await db.update(usersTable)
+      .set({ role: 'STAFF', custom_role_id: roles[0].id })
+      .where(eq(usersTable.id, testUserId))
+      .execute();
+
+    const moved = await updateUser({ id: testUserId, restaurant_id: otherRestaurant[0].id });
+    expect(moved.custom_role_id).toBeNull();
+  });
+});
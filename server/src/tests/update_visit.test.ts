@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, loyaltyRulesTable, restaurantsTable, visitsTable } from '../db/schema';
+import { updateVisit } from '../handlers/update_visit';
+import { eq } from 'drizzle-orm';
+
+describe('updateVisit', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let customerId: number;
+  let latestVisitId: number;
+  let earlierVisitId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({
+        restaurant_id: restaurantId,
+        first_name: 'Alice',
+        last_name: 'Martin',
+        total_visits: 2,
+        last_visit_date: new Date('2024-04-01T19:00:00Z')
+      })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    const visits = await db.insert(visitsTable)
+      .values([
+        { restaurant_id: restaurantId, customer_id: customerId, visited_at: new Date('2024-04-01T19:00:00Z'), spend: '80.00' },
+        { restaurant_id: restaurantId, customer_id: customerId, visited_at: new Date('2024-03-01T19:00:00Z') }
+      ])
+      .returning()
+      .execute();
+
+    latestVisitId = visits[0].id;
+    earlierVisitId = visits[1].id;
+  });
+
+  afterEach(resetDB);
+
+  const loadCustomer = async () => {
+    const customers = await db.select()
+      .from(customersTable)
+      .where(eq(customersTable.id, customerId))
+      .execute();
+
+    return customers[0];
+  };
+
+  it('should correct the given details only', async () => {
+    const visit = await updateVisit({ id: latestVisitId, party_size: 3, spend: 92.4, table_label: 'T4' }, restaurantId, null);
+
+    expect(visit.party_size).toEqual(3);
+    expect(visit.spend).toEqual(92.4);
+    expect(visit.table_label).toEqual('T4');
+    expect(visit.visited_at).toEqual(new Date('2024-04-01T19:00:00Z'));
+
+    const customer = await loadCustomer();
+    expect(customer.total_visits).toEqual(2);
+    expect(customer.last_visit_date).toEqual(new Date('2024-04-01T19:00:00Z'));
+  });
+
+  it('should clear the spend', async () => {
+    const visit = await updateVisit({ id: latestVisitId, spend: null }, restaurantId, null);
+
+    expect(visit.spend).toBeNull();
+  });
+
+  it('should follow a corrected date to the customer last visit date', async () => {
+    await updateVisit({ id: latestVisitId, visited_at: new Date('2024-02-01T19:00:00Z') }, restaurantId, null);
+    expect((await loadCustomer()).last_visit_date).toEqual(new Date('2024-03-01T19:00:00Z'));
+
+    await updateVisit({ id: earlierVisitId, visited_at: new Date('2024-05-01T19:00:00Z') }, restaurantId, null);
+    expect((await loadCustomer()).last_visit_date).toEqual(new Date('2024-05-01T19:00:00Z'));
+  });
+
+  it('should keep a later last visit date from before visit recording', async () => {
+    await db.update(customersTable)
+      .set({ last_visit_date: new Date('2024-06-01T19:00:00Z') })
+      .where(eq(customersTable.id, customerId))
+      .execute();
+
+    await updateVisit({ id: latestVisitId, visited_at: new Date('2024-02-01T19:00:00Z') }, restaurantId, null);
+
+    expect((await loadCustomer()).last_visit_date).toEqual(new Date('2024-06-01T19:00:00Z'));
+  });
+
+  it('should adjust the points earned when the spend is corrected', async () => {
+    await db.insert(loyaltyRulesTable)
+      .values({ restaurant_id: restaurantId, points_per_currency_unit: '1', points_per_visit: 0 })
+      .execute();
+    await db.insert(loyaltyLedgerTable)
+      .values({ restaurant_id: restaurantId, customer_id: customerId, type: 'EARN', points: 80, balance_after: 80, reason: 'Visit', visit_id: latestVisitId })
+      .execute();
+    await db.update(customersTable)
+      .set({ loyalty_points: 80 })
+      .where(eq(customersTable.id, customerId))
+      .execute();
+
+    await updateVisit({ id: latestVisitId, spend: 65 }, restaurantId, { user: { id: 5 } });
+
+    const entries = await db.select().from(loyaltyLedgerTable).orderBy(loyaltyLedgerTable.id).execute();
+    expect(entries).toHaveLength(2);
+    expect(entries[1].type).toEqual('ADJUST');
+    expect(entries[1].points).toEqual(-15);
+    expect(entries[1].actor_id).toEqual(5);
+    expect((await loadCustomer()).loyalty_points).toEqual(65);
+
+    // Other corrections leave the points alone
+    await updateVisit({ id: latestVisitId, notes: 'Birthday' }, restaurantId, null);
+    expect(await db.select().from(loyaltyLedgerTable).execute()).toHaveLength(2);
+  });
+
+  it('should refuse to correct voided visits', async () => {
+    await db.update(visitsTable)
+      .set({ voided_at: new Date(), void_reason: 'Wrong customer' })
+      .where(eq(visitsTable.id, latestVisitId))
+      .execute();
+
+    await expect(updateVisit({ id: latestVisitId, party_size: 2 }, restaurantId, null))
+      .rejects.toThrow('Voided visits cannot be corrected');
+  });
+
+  it('should not find visits of another restaurant', async () => {
+    await expect(updateVisit({ id: latestVisitId, party_size: 2 }, otherRestaurantId, null))
+      .rejects.toThrow(`Visit with id ${latestVisitId} not found`);
+  });
+
+  it('should reject dates in the future', async () => {
+    await expect(updateVisit({ id: latestVisitId, visited_at: new Date(Date.now() + 60 * 60 * 1000) }, restaurantId, null))
+      .rejects.toThrow(/future/);
+  });
+});
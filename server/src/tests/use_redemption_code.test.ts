@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, restaurantsTable, rewardRedemptionsTable, rewardsTable } from '../db/schema';
+import { useRedemptionCode } from '../handlers/use_redemption_code';
+
+describe('useRedemptionCode', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin' })
+      .returning()
+      .execute();
+
+    const rewards = await db.insert(rewardsTable)
+      .values({ restaurant_id: restaurantId, name: 'Free dessert', points_cost: 100 })
+      .returning()
+      .execute();
+
+    await db.insert(rewardRedemptionsTable)
+      .values([
+        { restaurant_id: restaurantId, reward_id: rewards[0].id, customer_id: customers[0].id, code: 'ABCD-2345', points_spent: 100 },
+        { restaurant_id: restaurantId, reward_id: rewards[0].id, customer_id: customers[0].id, code: 'VOID-2345', points_spent: 100, status: 'VOIDED' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should mark the code as used by the staff member', async () => {
+    const redemption = await useRedemptionCode({ code: 'abcd2345' }, restaurantId, { user: { id: 3 } });
+
+    expect(redemption.status).toEqual('USED');
+    expect(redemption.used_by).toEqual(3);
+    expect(redemption.used_at).toBeInstanceOf(Date);
+  });
+
+  it('should only accept a code once', async () => {
+    await useRedemptionCode({ code: 'ABCD-2345' }, restaurantId, { user: null });
+
+    await expect(useRedemptionCode({ code: 'ABCD-2345' }, restaurantId, { user: null }))
+      .rejects.toThrow('Redemption code has already been used');
+  });
+
+  it('should only honour a code scanned twice at once a single time', async () => {
+    const results = await Promise.allSettled([1, 2].map(() => useRedemptionCode({ code: 'ABCD-2345' }, restaurantId, { user: null })));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+  });
+
+  it('should refuse voided and unknown codes', async () => {
+    await expect(useRedemptionCode({ code: 'VOID-2345' }, restaurantId, { user: null }))
+      .rejects.toThrow('Redemption code has been voided');
+    await expect(useRedemptionCode({ code: 'ZZZZ-2345' }, restaurantId, { user: null }))
+      .rejects.toThrow('Unknown redemption code');
+  });
+
+  it('should not accept codes issued by another restaurant', async () => {
+    await expect(useRedemptionCode({ code: 'ABCD-2345' }, otherRestaurantId, { user: null }))
+      .rejects.toThrow('Unknown redemption code');
+  });
+});
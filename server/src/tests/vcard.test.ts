@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'bun:test';
+import { escapeVCardText, foldVCardLine, toVCard } from '../lib/vcard';
+
+describe('vCard', () => {
+  it('should build a vCard 3.0 with the given details', () => {
+    const card = toVCard({ firstName: 'Alice', lastName: 'Martin', email: 'alice@example.com', phone: '+1 555 0101', note: null });
+
+    expect(card).toEqual([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:Martin;Alice;;;',
+      'FN:Alice Martin',
+      'EMAIL;TYPE=INTERNET:alice@example.com',
+      'TEL:+1 555 0101',
+      'END:VCARD',
+      ''
+    ].join('\r\n'));
+  });
+
+  it('should escape text values', () => {
+    expect(escapeVCardText('Allergies: nuts, shellfish; C:\\path\r\nsecond line'))
+      .toEqual('Allergies: nuts\\, shellfish\\; C:\\\\path\\nsecond line');
+  });
+
+  it('should fold long lines without splitting characters', () => {
+    const line = `NOTE:${'é'.repeat(60)}`;
+    const folded = foldVCardLine(line).split('\r\n');
+
+    expect(folded.length).toBeGreaterThan(1);
+    expect(folded.every(part => Buffer.byteLength(part) <= 75)).toBe(true);
+    expect(folded.slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(folded.map((part, index) => index === 0 ? part : part.slice(1)).join('')).toEqual(line);
+  });
+});
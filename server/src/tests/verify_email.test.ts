@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { userTokensTable, usersTable } from '../db/schema';
+import { type UserTokenPurpose } from '../schema';
+import { verifyEmail } from '../handlers/verify_email';
+import { generateToken, hashToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+describe('verifyEmail', () => {
+  let userId: number;
+
+  // Insert a token directly and return its plaintext
+  const insertToken = async (
+    purpose: UserTokenPurpose,
+    expiresInMs: number = 60 * 60 * 1000,
+    email: string | null = 'john@example.com'
+  ): Promise<string> => {
+    const token = generateToken();
+    await db.insert(userTokensTable)
+      .values({
+        user_id: userId,
+        purpose,
+        token_hash: hashToken(token),
+        email,
+        expires_at: new Date(Date.now() + expiresInMs)
+      })
+      .execute();
+    return token;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should mark the email as verified', async () => {
+    const token = await insertToken('EMAIL_VERIFICATION');
+
+    const result = await verifyEmail({ token });
+
+    expect(result.id).toEqual(userId);
+    expect(result.email_verified_at).toBeInstanceOf(Date);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    expect(users[0].email_verified_at).toBeInstanceOf(Date);
+  });
+
+  it('should consume the token', async () => {
+    const token = await insertToken('EMAIL_VERIFICATION');
+
+    await verifyEmail({ token });
+
+    await expect(verifyEmail({ token })).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject expired tokens', async () => {
+    const token = await insertToken('EMAIL_VERIFICATION', -1000);
+
+    await expect(verifyEmail({ token })).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject password reset tokens', async () => {
+    const token = await insertToken('PASSWORD_RESET');
+
+    await expect(verifyEmail({ token })).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject tokens sent to a previous email address', async () => {
+    const token = await insertToken('EMAIL_VERIFICATION');
+
+    await db.update(usersTable)
+      .set({ email: 'john.new@example.com' })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await expect(verifyEmail({ token })).rejects.toThrow(/invalid or expired/i);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    expect(users[0].email_verified_at).toBeNull();
+  });
+
+  it('should reject tokens not bound to an email address', async () => {
+    const token = await insertToken('EMAIL_VERIFICATION', 60 * 60 * 1000, null);
+
+    await expect(verifyEmail({ token })).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should not return the password hash', async () => {
+    const token = await insertToken('EMAIL_VERIFICATION');
+
+    const result = await verifyEmail({ token });
+
+    expect(result).not.toHaveProperty('password_hash');
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { loginAttemptsTable, sessionsTable, userTwoFactorTable, usersTable } from '../db/schema';
+import { verifyTwoFactorLogin } from '../handlers/verify_two_factor_login';
+import { issueUserToken } from '../lib/user_tokens';
+import { generateTotp, generateTotpSecret } from '../lib/totp';
+import { generateRecoveryCodes } from '../lib/two_factor';
+import { encryptSecret } from '../lib/secrets';
+import { eq } from 'drizzle-orm';
+
+describe('verifyTwoFactorLogin', () => {
+  let userId: number;
+  let secret: string;
+  let challengeToken: string;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'john@example.com',
+        password_hash: 'irrelevant',
+        first_name: 'John',
+        last_name: 'Doe',
+        role: 'STAFF'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+    secret = generateTotpSecret();
+
+    await db.insert(userTwoFactorTable)
+      .values({ user_id: userId, secret, enabled_at: new Date() })
+      .execute();
+
+    challengeToken = await issueUserToken(userId, 'TWO_FACTOR_LOGIN', 5 * 60 * 1000);
+  });
+
+  afterEach(resetDB);
+
+  it('should create a session for a valid TOTP code', async () => {
+    const result = await verifyTwoFactorLogin({ challenge_token: challengeToken, code: generateTotp(secret) });
+
+    expect(result.status).toEqual('AUTHENTICATED');
+    expect(result.user.id).toEqual(userId);
+    expect(typeof result.token).toBe('string');
+    expect(result.two_factor_setup_required).toBe(false);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].success).toBe(true);
+  });
+
+  it('should accept a TOTP code only once', async () => {
+    const now = new Date();
+    await verifyTwoFactorLogin({ challenge_token: challengeToken, code: generateTotp(secret, now) });
+
+    const nextChallenge = await issueUserToken(userId, 'TWO_FACTOR_LOGIN', 5 * 60 * 1000);
+    await expect(verifyTwoFactorLogin({ challenge_token: nextChallenge, code: generateTotp(secret, now) })).rejects.toThrow(/invalid two-factor code/i);
+  });
+
+  it('should refuse codes older than the last accepted one', async () => {
+    const previousStep = new Date(Date.now() - 30 * 1000);
+    await verifyTwoFactorLogin({ challenge_token: challengeToken, code: generateTotp(secret) });
+
+    const nextChallenge = await issueUserToken(userId, 'TWO_FACTOR_LOGIN', 5 * 60 * 1000);
+    await expect(verifyTwoFactorLogin({ challenge_token: nextChallenge, code: generateTotp(secret, previousStep) })).rejects.toThrow(/invalid two-factor code/i);
+  });
+
+  it('should verify codes against an encrypted secret', async () => {
+    await db.update(userTwoFactorTable)
+      .set({ secret: encryptSecret(secret) })
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    const result = await verifyTwoFactorLogin({ challenge_token: challengeToken, code: generateTotp(secret) });
+    expect(result.user.id).toEqual(userId);
+  });
+
+  it('should accept a recovery code only once', async () => {
+    const codes = await generateRecoveryCodes(userId);
+
+    const result = await verifyTwoFactorLogin({ challenge_token: challengeToken, code: codes[0].toUpperCase() });
+    expect(result.user.id).toEqual(userId);
+
+    const nextChallenge = await issueUserToken(userId, 'TWO_FACTOR_LOGIN', 5 * 60 * 1000);
+    await expect(verifyTwoFactorLogin({ challenge_token: nextChallenge, code: codes[0] })).rejects.toThrow(/invalid two-factor code/i);
+  });
+
+  it('should burn the challenge after a wrong code', async () => {
+    await expect(verifyTwoFactorLogin({ challenge_token: challengeToken, code: 'wrong-code' })).rejects.toThrow(/invalid two-factor code/i);
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts[0].failure_reason).toEqual('INVALID_TWO_FACTOR_CODE');
+    expect(attempts[0].user_id).toEqual(userId);
+
+    await expect(verifyTwoFactorLogin({ challenge_token: challengeToken, code: generateTotp(secret) })).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject unknown challenges', async () => {
+    await expect(verifyTwoFactorLogin({ challenge_token: 'unknown', code: generateTotp(secret) })).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject challenges for deactivated users', async () => {
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await expect(verifyTwoFactorLogin({ challenge_token: challengeToken, code: generateTotp(secret) })).rejects.toThrow(/invalid or expired/i);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+  });
+});
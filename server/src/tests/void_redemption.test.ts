@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, restaurantsTable, rewardsTable } from '../db/schema';
+import { redeemReward } from '../handlers/redeem_reward';
+import { useRedemptionCode } from '../handlers/use_redemption_code';
+import { voidRedemption } from '../handlers/void_redemption';
+import { desc, eq } from 'drizzle-orm';
+
+describe('voidRedemption', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let customerId: number;
+  let code: string;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Test Restaurant', email: 'test@restaurant.com' },
+        { name: 'Other Restaurant', email: 'other@restaurant.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({ restaurant_id: restaurantId, first_name: 'Alice', last_name: 'Martin', loyalty_points: 150 })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    const rewards = await db.insert(rewardsTable)
+      .values({ restaurant_id: restaurantId, name: 'Free dessert', points_cost: 100 })
+      .returning()
+      .execute();
+
+    const redemption = await redeemReward({ restaurant_id: restaurantId, customer_id: customerId, reward_id: rewards[0].id }, { user: null });
+    code = redemption.code;
+  });
+
+  afterEach(resetDB);
+
+  it('should void the code and refund the points', async () => {
+    const redemption = await voidRedemption({ code, reason: 'Dessert was sold out' }, restaurantId, { user: { id: 5 } });
+
+    expect(redemption.status).toEqual('VOIDED');
+    expect(redemption.voided_by).toEqual(5);
+    expect(redemption.void_reason).toEqual('Dessert was sold out');
+
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, customerId)).execute();
+    expect(customers[0].loyalty_points).toEqual(150);
+
+    const entries = await db.select()
+      .from(loyaltyLedgerTable)
+      .where(eq(loyaltyLedgerTable.customer_id, customerId))
+      .orderBy(desc(loyaltyLedgerTable.id))
+      .execute();
+    expect(entries[0].type).toEqual('REDEEM');
+    expect(entries[0].points).toEqual(100);
+    expect(entries[0].reason).toEqual(`Redemption ${code} voided`);
+  });
+
+  it('should only void a code once', async () => {
+    await voidRedemption({ code, reason: 'Mistake' }, restaurantId, { user: null });
+
+    await expect(voidRedemption({ code, reason: 'Mistake' }, restaurantId, { user: null }))
+      .rejects.toThrow('Redemption code has been voided');
+
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, customerId)).execute();
+    expect(customers[0].loyalty_points).toEqual(150);
+  });
+
+  it('should not void codes that were already used', async () => {
+    await useRedemptionCode({ code }, restaurantId, { user: null });
+
+    await expect(voidRedemption({ code, reason: 'Changed their mind' }, restaurantId, { user: null }))
+      .rejects.toThrow('Redemption code has already been used');
+  });
+
+  it('should not void codes of another restaurant', async () => {
+    await expect(voidRedemption({ code, reason: 'Mistake' }, otherRestaurantId, { user: null }))
+      .rejects.toThrow('Unknown redemption code');
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, loyaltyLedgerTable, restaurantsTable, visitsTable } from '../db/schema';
+import { voidVisit } from '../handlers/void_visit';
+import { recordVisit } from '../handlers/record_visit';
+import { eq } from 'drizzle-orm';
+
+describe('voidVisit', () => {
+  let restaurantId: number;
+  let otherRestaurantId: number;
+  let customerId: number;
+  let latestVisitId: number;
+  let earlierVisitId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const restaurants = await db.insert(restaurantsTable)
+      .values([
+        { name: 'Restaurant 1', email: 'r1@example.com' },
+        { name: 'Restaurant 2', email: 'r2@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    restaurantId = restaurants[0].id;
+    otherRestaurantId = restaurants[1].id;
+
+    const customers = await db.insert(customersTable)
+      .values({
+        restaurant_id: restaurantId,
+        first_name: 'Alice',
+        last_name: 'Martin',
+        total_visits: 2,
+        last_visit_date: new Date('2024-04-01T19:00:00Z')
+      })
+      .returning()
+      .execute();
+
+    customerId = customers[0].id;
+
+    const visits = await db.insert(visitsTable)
+      .values([
+        { restaurant_id: restaurantId, customer_id: customerId, visited_at: new Date('2024-04-01T19:00:00Z') },
+        { restaurant_id: restaurantId, customer_id: customerId, visited_at: new Date('2024-03-01T19:00:00Z') }
+      ])
+      .returning()
+      .execute();
+
+    latestVisitId = visits[0].id;
+    earlierVisitId = visits[1].id;
+  });
+
+  afterEach(resetDB);
+
+  const loadCustomer = async () => {
+    const customers = await db.select()
+      .from(customersTable)
+      .where(eq(customersTable.id, customerId))
+      .execute();
+
+    return customers[0];
+  };
+
+  it('should keep the visit with who voided it and why', async () => {
+    const visit = await voidVisit({ id: latestVisitId, reason: 'Wrong customer' }, restaurantId, { user: { id: 7 } });
+
+    expect(visit.voided_at).toBeInstanceOf(Date);
+    expect(visit.voided_by).toEqual(7);
+    expect(visit.void_reason).toEqual('Wrong customer');
+  });
+
+  it('should take the visit out of the customer aggregates', async () => {
+    await voidVisit({ id: latestVisitId, reason: 'Wrong customer' }, restaurantId, null);
+
+    let customer = await loadCustomer();
+    expect(customer.total_visits).toEqual(1);
+    expect(customer.last_visit_date).toEqual(new Date('2024-03-01T19:00:00Z'));
+
+    await voidVisit({ id: earlierVisitId, reason: 'Duplicate' }, restaurantId, null);
+
+    customer = await loadCustomer();
+    expect(customer.total_visits).toEqual(0);
+    expect(customer.last_visit_date).toBeNull();
+  });
+
+  it('should keep a later last visit date from before visit recording', async () => {
+    await db.update(customersTable)
+      .set({ last_visit_date: new Date('2024-06-01T19:00:00Z') })
+      .where(eq(customersTable.id, customerId))
+      .execute();
+
+    await voidVisit({ id: latestVisitId, reason: 'Wrong customer' }, restaurantId, null);
+
+    expect((await loadCustomer()).last_visit_date).toEqual(new Date('2024-06-01T19:00:00Z'));
+  });
+
+  it('should fall back to an earlier last visit date from before visit recording', async () => {
+    const imported = await db.insert(customersTable)
+      .values({
+        restaurant_id: restaurantId,
+        first_name: 'Bob',
+        last_name: 'Imported',
+        total_visits: 5,
+        last_visit_date: new Date('2024-01-01T19:00:00Z')
+      })
+      .returning()
+      .execute();
+
+    const visit = await recordVisit({ restaurant_id: restaurantId, customer_id: imported[0].id, visited_at: new Date('2024-05-01T19:00:00Z') }, null);
+    await voidVisit({ id: visit.id, reason: 'Wrong customer' }, restaurantId, null);
+
+    const customers = await db.select().from(customersTable).where(eq(customersTable.id, imported[0].id)).execute();
+    expect(customers[0].total_visits).toEqual(5);
+    expect(customers[0].last_visit_date).toEqual(new Date('2024-01-01T19:00:00Z'));
+  });
+
+  it('should take back the points the visit earned, as far as they were not spent', async () => {
+    await db.insert(loyaltyLedgerTable)
+      .values([
+        { restaurant_id: restaurantId, customer_id: customerId, type: 'EARN', points: 80, balance_after: 80, reason: 'Visit', visit_id: latestVisitId },
+        { restaurant_id: restaurantId, customer_id: customerId, type: 'REDEEM', points: -50, balance_after: 30, reason: 'Dessert' }
+      ])
+      .execute();
+    await db.update(customersTable)
+      .set({ loyalty_points: 30 })
+      .where(eq(customersTable.id, customerId))
+      .execute();
+
+    await voidVisit({ id: latestVisitId, reason: 'Wrong customer' }, restaurantId, null);
+
+    const entries = await db.select().from(loyaltyLedgerTable).orderBy(loyaltyLedgerTable.id).execute();
+    expect(entries).toHaveLength(3);
+    expect(entries[2].type).toEqual('ADJUST');
+    expect(entries[2].points).toEqual(-30);
+    expect(entries[2].reason).toEqual(`Visit ${latestVisitId} voided`);
+    expect((await loadCustomer()).loyalty_points).toEqual(0);
+  });
+
+  it('should only void a visit once', async () => {
+    await voidVisit({ id: latestVisitId, reason: 'Wrong customer' }, restaurantId, null);
+
+    await expect(voidVisit({ id: latestVisitId, reason: 'Again' }, restaurantId, null))
+      .rejects.toThrow('Visit is already voided');
+    expect((await loadCustomer()).total_visits).toEqual(1);
+  });
+
+  it('should not find visits of another restaurant', async () => {
+    await expect(voidVisit({ id: latestVisitId, reason: 'Wrong customer' }, otherRestaurantId, null))
+      .rejects.toThrow(`Visit with id ${latestVisitId} not found`);
+
+    const visits = await db.select()
+      .from(visitsTable)
+      .where(eq(visitsTable.id, latestVisitId))
+      .execute();
+    expect(visits[0].voided_at).toBeNull();
+  });
+});
@@ -0,0 +1,285 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { type ApiKey, type ClientInfo, type Session, type User, type UserRole } from './schema';
+import { getSessionByToken } from './handlers/get_session';
+import { resolveEffectivePermissionNames } from './handlers/get_effective_permissions';
+import { getPermissionNamesByRole } from './handlers/get_permissions';
+import { authenticateApiKey } from './handlers/authenticate_api_key';
+import { API_KEY_PREFIX } from './handlers/create_api_key';
+import { recordImpersonatedRequest } from './lib/audit';
+
+// Request context shared by every procedure. Integrations authenticate with an API key
+// instead of a session, in which case user and session are null.
+export interface Context {
+  user: User | null;
+  session: Session | null;
+  apiKey: ApiKey | null;
+  client: ClientInfo;
+  getPermissions: () => Promise<Set<string>>;
+}
+
+// Loads the caller's effective permission names at most once per request
+const createPermissionLoader = (user: User | null, apiKey: ApiKey | null = null): (() => Promise<Set<string>>) => {
+  let cached: Promise<Set<string>> | null = null;
+
+  return () => {
+    if (apiKey) {
+      return Promise.resolve(new Set(apiKey.permissions));
+    }
+    if (!user) {
+      return Promise.resolve(new Set<string>());
+    }
+    if (!cached) {
+      cached = resolveEffectivePermissionNames(user).then(names => new Set(names));
+    }
+    return cached;
+  };
+};
+
+// Extract the token from an "Authorization: Bearer <token>" header
+const getBearerToken = (authorization: string | undefined): string | null => {
+  if (!authorization) {
+    return null;
+  }
+
+  const [scheme, token] = authorization.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+
+  return token;
+};
+
+// Forwarded headers are only trusted behind a proxy that sets them (TRUST_PROXY=true)
+const getClientInfo = (req: CreateHTTPContextOptions['req']): ClientInfo => {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const forwarded = process.env['TRUST_PROXY'] === 'true' && typeof forwardedFor === 'string'
+    ? forwardedFor.split(',')[0].trim()
+    : null;
+
+  return {
+    ip_address: forwarded || req.socket?.remoteAddress || null,
+    user_agent: req.headers['user-agent'] ?? null
+  };
+};
+
+export const createContext = async ({ req }: CreateHTTPContextOptions): Promise<Context> => {
+  const token = getBearerToken(req.headers.authorization);
+
+  if (token?.startsWith(API_KEY_PREFIX)) {
+    const apiKey = await authenticateApiKey(token);
+    return {
+      user: null,
+      session: null,
+      apiKey,
+      client: getClientInfo(req),
+      getPermissions: createPermissionLoader(null, apiKey)
+    };
+  }
+
+  const resolved = token ? await getSessionByToken(token) : null;
+  const user = resolved?.user ?? null;
+
+  return {
+    user,
+    session: resolved?.session ?? null,
+    apiKey: null,
+    client: getClientInfo(req),
+    getPermissions: createPermissionLoader(user)
+  };
+};
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
+// Super admins acting as another user leave a trace of every call, reads included.
+// withAudit records what the mutations among them changed.
+const impersonationTrail = t.middleware(async ({ ctx, path, type, next }) => {
+  const result = await next();
+  if (ctx.user && ctx.session) {
+    await recordImpersonatedRequest(ctx.user, ctx.session, { path, type, succeeded: result.ok });
+  }
+
+  return result;
+});
+
+const procedure = t.procedure.use(impersonationTrail);
+
+export const publicProcedure = procedure;
+
+// Procedures that require a logged-in caller; narrows ctx.user and ctx.session to non-null.
+// Also reachable from sessions that still have to enroll in two-factor authentication.
+export const authenticatedProcedure = procedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.session) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return next({
+    ctx: {
+      user: ctx.user,
+      session: ctx.session
+    }
+  });
+});
+
+// Like authenticatedProcedure, but blocked until a 2FA enrollment required by the restaurant is done
+export const protectedProcedure = authenticatedProcedure.use(({ ctx, next }) => {
+  if (ctx.session.two_factor_setup_required) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication setup required' });
+  }
+
+  return next();
+});
+
+// Tenant data routes that integrations may call with an API key as well as signed-in users.
+// Resolve the restaurant with resolveTenantId, since ctx.user is null for API keys.
+export const tenantProcedure = procedure.use(({ ctx, next }) => {
+  if (ctx.apiKey) {
+    return next();
+  }
+  if (!ctx.user || !ctx.session) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  if (ctx.session.two_factor_setup_required) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication setup required' });
+  }
+
+  return next();
+});
+
+// Keeps super admins acting as another user away from that user's credentials and billing
+export const assertNotImpersonating = (ctx: Pick<Context, 'session'>): void => {
+  if (ctx.session?.impersonator_id != null) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'This action is not allowed while impersonating a user' });
+  }
+};
+
+export const notDuringImpersonation = t.middleware(({ ctx, next }) => {
+  assertNotImpersonating(ctx);
+  return next();
+});
+
+// Rejects callers whose role lacks the named permission, e.g. requirePermission('customers:write')
+export const requirePermission = (permission: string) => t.middleware(async ({ ctx, next }) => {
+  if (!ctx.user && !ctx.apiKey) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  const permissions = await ctx.getPermissions();
+  if (!permissions.has(permission)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Missing permission: ${permission}` });
+  }
+
+  return next();
+});
+
+// Restricts a procedure to the given roles, for actions not covered by a permission
+export const requireRole = (...roles: UserRole[]) => t.middleware(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  if (!roles.includes(ctx.user.role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Your role is not allowed to perform this action' });
+  }
+
+  return next();
+});
+
+// Platform-level operations that are not tied to the permission catalogue
+export const superAdminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== 'SUPER_ADMIN') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Super admin access required' });
+  }
+
+  return next();
+});
+
+// Resolves the restaurant a request acts on. Tenant users are pinned to their own
+// restaurant; only SUPER_ADMIN may name an explicit one.
+export const resolveRestaurantId = (user: User, requestedId?: number | null): number => {
+  if (user.role === 'SUPER_ADMIN') {
+    const restaurantId = requestedId ?? user.restaurant_id;
+    if (restaurantId === null) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'A restaurant must be specified' });
+    }
+    return restaurantId;
+  }
+
+  if (user.restaurant_id === null) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'User is not assigned to a restaurant' });
+  }
+
+  if (requestedId != null && requestedId !== user.restaurant_id) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Access to this restaurant is not allowed' });
+  }
+
+  return user.restaurant_id;
+};
+
+// resolveRestaurantId for tenantProcedure routes; API keys are pinned to the restaurant that issued them
+export const resolveTenantId = (ctx: Pick<Context, 'user' | 'apiKey'>, requestedId?: number | null): number => {
+  if (ctx.apiKey) {
+    if (requestedId != null && requestedId !== ctx.apiKey.restaurant_id) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Access to this restaurant is not allowed' });
+    }
+    return ctx.apiKey.restaurant_id;
+  }
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return resolveRestaurantId(ctx.user, requestedId);
+};
+
+// Only super admins may hand out the SUPER_ADMIN role, which escapes tenant scoping
+export const assertTenantRole = (role: UserRole | undefined): void => {
+  if (role === 'SUPER_ADMIN') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Only super admins can assign the SUPER_ADMIN role' });
+  }
+};
+
+// Callers can only hand out permissions they hold themselves, so a custom role is never
+// a way to escalate privileges. Super admins hold everything by definition.
+export const assertGrantablePermissions = async (ctx: Context, permissions: string[]): Promise<void> => {
+  if (ctx.user?.role === 'SUPER_ADMIN') {
+    return;
+  }
+
+  const held = await ctx.getPermissions();
+  const missing = permissions.filter(permission => !held.has(permission));
+  if (missing.length > 0) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Cannot grant permissions you do not hold: ${missing.join(', ')}` });
+  }
+};
+
+// Built-in roles from least to most privileged
+const ROLE_RANKS: Record<UserRole, number> = {
+  STAFF: 0,
+  MANAGER: 1,
+  RESTAURANT_OWNER: 2,
+  SUPER_ADMIN: 3
+};
+
+// Whether the caller's role ranks below the given one, e.g. a manager acting on an owner
+export const outranksCaller = (ctx: Pick<Context, 'user'>, role: UserRole): boolean => {
+  return !ctx.user || ROLE_RANKS[role] > ROLE_RANKS[ctx.user.role];
+};
+
+// Tenant callers can assign their own role or a lower one, and only when they hold every
+// permission it comes with, so a manager cannot create owners or promote themselves
+export const assertAssignableRole = async (ctx: Context, role: UserRole | undefined): Promise<void> => {
+  assertTenantRole(role);
+  if (role === undefined || ctx.user?.role === 'SUPER_ADMIN') {
+    return;
+  }
+
+  if (outranksCaller(ctx, role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Cannot assign the ${role} role` });
+  }
+  await assertGrantablePermissions(ctx, await getPermissionNamesByRole(role));
+};